@@ -2,7 +2,11 @@
 
 import { useEffect, useRef, useState } from "react";
 import type { Transaction, TxType } from "./types";
-import { getOrCreateUserKey } from "../lib/userKey";
+import { getOrCreateUserKey, newIdempotencyKey } from "../lib/userKey";
+import { parseAmountExpression } from "../lib/amount";
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney, fromMinor, toMinor } from "../lib/currency";
+import TagInput from "./components/TagInput";
+import AttachmentPanel from "./components/AttachmentPanel";
 
 type Props = {
   onAdded?: (t: Transaction) => void;
@@ -10,6 +14,7 @@ type Props = {
   onCancelEdit?: () => void;
   editing?: Transaction | null;
   categorySuggestions?: string[];
+  tagSuggestions?: string[];
   ringTitleResolver?: Array<{ title: string; category: string }>;
 };
 
@@ -26,28 +31,19 @@ function normalizeAmountInput(s: string) {
   return half.replace(/,/g, "");
 }
 
-function parseAmountLike(input: string): number {
-  if (!input) return 0;
-
-  const half = input.replace(/[０-９．]/g, (ch) => {
-    if (ch === "．") return ".";
-    return String(ch.charCodeAt(0) - 0xfee0);
-  });
-
-  let s = half.trim().replace(/[,，\s]/g, "").replace(/円/g, "");
-
-  const manMatch = s.match(/^(-?\d+(?:\.\d+)?)万$/);
-  if (manMatch) return Math.round(Number(manMatch[1]) * 10000);
-
-  const senMatch = s.match(/^(-?\d+(?:\.\d+)?)千$/);
-  if (senMatch) return Math.round(Number(senMatch[1]) * 1000);
+type ToastKind = "mofu" | "hina";
 
-  const n = Number(s);
-  if (!Number.isFinite(n)) return 0;
-  return Math.round(n);
-}
+type EditDraft = {
+  type: TxType;
+  amount: number;
+  currency: string;
+  category: string;
+  occurredAt: string;
+  tags: string[];
+};
 
-type ToastKind = "mofu" | "hina";
+// ✅ 別の端末で先に更新されていたときの、サーバー版と自分の版
+type Conflict = { server: Transaction; mine: EditDraft };
 
 export default function TransactionForm({
   onAdded,
@@ -55,10 +51,14 @@ export default function TransactionForm({
   onCancelEdit,
   editing,
   categorySuggestions = [],
+  tagSuggestions = [],
   ringTitleResolver = [],
 }: Props) {
   const [type, setType] = useState<TxType>(editing?.type ?? "expense");
-  const [amountStr, setAmountStr] = useState(editing ? String(editing.amount) : "");
+  const [currency, setCurrency] = useState(editing?.currency ?? DEFAULT_CURRENCY);
+  const [amountStr, setAmountStr] = useState(
+    editing ? String(fromMinor(editing.amount, editing.currency ?? DEFAULT_CURRENCY)) : ""
+  );
   const [category, setCategory] = useState(() => {
   const raw = editing?.category ?? "";
   const hit = ringTitleResolver.find((p) => p.category === raw);
@@ -67,11 +67,28 @@ export default function TransactionForm({
   const [occurredAt, setOccurredAt] = useState(
     editing?.occurredAt ? toYMD(editing.occurredAt) : toYMD(new Date().toISOString())
   );
+  const [tags, setTags] = useState<string[]>(editing?.tags ?? []);
   const [loading, setLoading] = useState(false);
 
+  // ✅ 編集元の version（PATCH の If-Match）。競合後に「編集を続ける」と最新版に進める
+  const [baseVersion, setBaseVersion] = useState<number | undefined>(editing?.version);
+  const [conflict, setConflict] = useState<Conflict | null>(null);
+
+  useEffect(() => {
+    setBaseVersion(editing?.version);
+    setConflict(null);
+  }, [editing]);
+
+  // ✅ 同じ入力内容での再送・連打は同じ Idempotency-Key（二重登録防止）
+  const submitKeyRef = useRef<string | null>(null);
+  useEffect(() => {
+    submitKeyRef.current = null;
+  }, [type, amountStr, currency, category, occurredAt, tags, editing]);
+
   useEffect(() => {
   setType(editing?.type ?? "expense");
-  setAmountStr(editing ? String(editing.amount) : "");
+  setCurrency(editing?.currency ?? DEFAULT_CURRENCY);
+  setAmountStr(editing ? String(fromMinor(editing.amount, editing.currency ?? DEFAULT_CURRENCY)) : "");
 
   const raw = editing?.category ?? "";
   const hit = ringTitleResolver.find((p) => p.category === raw);
@@ -80,6 +97,7 @@ export default function TransactionForm({
   setOccurredAt(
     editing?.occurredAt ? toYMD(editing.occurredAt) : toYMD(new Date().toISOString())
   );
+  setTags(editing?.tags ?? []);
 }, [editing, ringTitleResolver]);
 
   // ✅ 保存成功トースト
@@ -131,8 +149,77 @@ export default function TransactionForm({
     return v;
   }
 
+  async function patchTransaction(id: number, draft: EditDraft, version: number | undefined): Promise<Transaction | null> {
+    // 版が分からないまま送ると他の端末の更新を上書きしてしまうので、送らない
+    if (version === undefined) {
+      alert("この明細の版が分からないため保存できません。再読み込みしてから編集してください");
+      return null;
+    }
+
+    const key = await getOrCreateUserKey();
+    const res = await fetch("/api/transactions?id=" + id, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+        "x-user-key": key, // cookieが本命だけど、互換で付けてもOK
+        "If-Match": `"${version}"`,
+      },
+      body: JSON.stringify(draft),
+    });
+
+    if (res.status === 409) {
+      const e = await res.json().catch(() => ({}));
+      if (e?.current) {
+        setConflict({ server: e.current as Transaction, mine: draft });
+        return null;
+      }
+    }
+
+    if (!res.ok) {
+      const e = await res.json().catch(() => ({}));
+      throw new Error(e?.error ?? "update failed");
+    }
+
+    return (await res.json()) as Transaction;
+  }
+
+  // ✅ 競合ダイアログの選択
+  async function resolveConflict(choice: "server" | "mine" | "continue") {
+    if (!conflict) return;
+    const { server, mine } = conflict;
+    setConflict(null);
+
+    if (choice === "server") {
+      onUpdated?.(server);
+      return;
+    }
+
+    if (choice === "continue") {
+      setBaseVersion(server.version);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const updated = await patchTransaction(server.id, mine, server.version);
+      if (!updated) return;
+      const t1 = decideToast(mine.type, mine.category);
+      showToast(t1.kind, t1.text);
+      onUpdated?.(updated);
+    } catch (e) {
+      console.error(e);
+      alert("保存に失敗しました");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function labelOfCategory(raw: string) {
+    return ringTitleResolver.find((p) => p.category === raw)?.title ?? raw;
+  }
+
   async function handleSubmit() {
-    const amount = parseAmountLike(amountStr);
+    const amount = toMinor(parseAmountExpression(amountStr) ?? 0, currency);
 
     if (!Number.isFinite(amount) || amount <= 0) {
       alert("金額は正の数で入力してください（例: 50000 / 5万 / 1.2万）");
@@ -151,34 +238,27 @@ export default function TransactionForm({
     setLoading(true);
     try {
       if (editing) {
-        const res = await fetch("/api/transactions?id=" + editing.id, {
-          method: "PATCH",
-          headers: {
-            "Content-Type": "application/json",
-            "x-user-key": key, // cookieが本命だけど、互換で付けてもOK
-          },
-          body: JSON.stringify({ type, amount, category: normalizedCategory, occurredAt }),
-        });
-
-        if (!res.ok) {
-          const e = await res.json().catch(() => ({}));
-          throw new Error(e?.error ?? "update failed");
-        }
-
-        const updated: Transaction = await res.json();
+        const updated = await patchTransaction(
+          editing.id,
+          { type, amount, currency, category: normalizedCategory, occurredAt, tags },
+          baseVersion
+        );
+        if (!updated) return; // 競合 → ダイアログで選んでもらう
 
         const t1 = decideToast(type, normalizedCategory);
         showToast(t1.kind, t1.text);
 
         onUpdated?.(updated);
       } else {
+        submitKeyRef.current ??= newIdempotencyKey();
         const res = await fetch("/api/transactions", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
             "x-user-key": key,
+            "Idempotency-Key": submitKeyRef.current,
           },
-          body: JSON.stringify({ type, amount, category: normalizedCategory, occurredAt }),
+          body: JSON.stringify({ type, amount, currency, category: normalizedCategory, occurredAt, tags }),
         });
 
         if (!res.ok) {
@@ -277,11 +357,22 @@ export default function TransactionForm({
           <input
             value={amountStr}
             onChange={(e) => setAmountStr(normalizeAmountInput(e.target.value))}
-            placeholder="例) 1200 / 5万"
+            placeholder="例) 1200 / 5万 / 1200+800"
             inputMode="text"
             style={{ width: "100%", padding: 12, borderRadius: 10, border: "1px solid #ccc" }}
           />
-          <span style={{ opacity: 0.7 }}>円</span>
+          <select
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            aria-label="通貨"
+            style={{ padding: 12, borderRadius: 10, border: "1px solid #ccc", background: "#fff" }}
+          >
+            {CURRENCIES.map((c) => (
+              <option key={c} value={c}>
+                {c === DEFAULT_CURRENCY ? "円" : c}
+              </option>
+            ))}
+          </select>
         </div>
       </div>
 
@@ -318,6 +409,130 @@ export default function TransactionForm({
         )}
       </div>
 
+      <div style={{ marginBottom: 10 }}>
+        <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 6 }}>タグ</div>
+        <TagInput value={tags} onChange={setTags} suggestions={tagSuggestions} />
+      </div>
+
+      {/* 添付は保存済みの明細にだけ付けられる（追加直後は「編集」から） */}
+      {editing && (
+        <div style={{ marginBottom: 10 }}>
+          <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 6 }}>添付（レシート・書類）</div>
+          <AttachmentPanel key={editing.id} transactionId={editing.id} />
+        </div>
+      )}
+
+      {conflict && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          style={{
+            position: "fixed",
+            inset: 0,
+            background: "rgba(0,0,0,0.35)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: 16,
+            zIndex: 10000,
+          }}
+        >
+          <div
+            style={{
+              width: "min(520px, 96vw)",
+              background: "#fff",
+              borderRadius: 16,
+              padding: 16,
+              boxShadow: "0 20px 60px rgba(0,0,0,0.25)",
+            }}
+          >
+            <div style={{ fontWeight: 900, fontSize: 18, marginBottom: 6 }}>他の端末で更新されています</div>
+            <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 12 }}>
+              編集している間に、この明細が別の端末で変更されました。どちらの内容を残すか選んでください。
+            </div>
+
+            <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+              <thead>
+                <tr>
+                  <th style={{ textAlign: "left", padding: 6 }}></th>
+                  <th style={{ textAlign: "left", padding: 6 }}>サーバー</th>
+                  <th style={{ textAlign: "left", padding: 6 }}>あなた</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(
+                  [
+                    ["種別", conflict.server.type === "income" ? "収入" : "支出", conflict.mine.type === "income" ? "収入" : "支出"],
+                    [
+                      "金額",
+                      formatMoney(conflict.server.amount, conflict.server.currency),
+                      formatMoney(conflict.mine.amount, conflict.mine.currency),
+                    ],
+                    ["カテゴリ", labelOfCategory(conflict.server.category), labelOfCategory(conflict.mine.category)],
+                    ["発生日", toYMD(conflict.server.occurredAt), toYMD(conflict.mine.occurredAt)],
+                    ["タグ", (conflict.server.tags ?? []).join(", ") || "—", conflict.mine.tags.join(", ") || "—"],
+                  ] as const
+                ).map(([label, server, mine]) => (
+                  <tr key={label} style={{ borderTop: "1px solid #eee" }}>
+                    <td style={{ padding: 6, fontWeight: 900 }}>{label}</td>
+                    <td style={{ padding: 6 }}>{server}</td>
+                    <td style={{ padding: 6, color: server !== mine ? "#b42318" : undefined, fontWeight: server !== mine ? 800 : undefined }}>
+                      {mine}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div style={{ display: "grid", gap: 8, marginTop: 14 }}>
+              <button
+                type="button"
+                onClick={() => resolveConflict("mine")}
+                style={{
+                  padding: "10px 14px",
+                  borderRadius: 12,
+                  border: "1px solid #111",
+                  background: "#111",
+                  color: "#fff",
+                  fontWeight: 900,
+                  cursor: "pointer",
+                }}
+              >
+                自分の内容で上書きする
+              </button>
+              <button
+                type="button"
+                onClick={() => resolveConflict("server")}
+                style={{
+                  padding: "10px 14px",
+                  borderRadius: 12,
+                  border: "1px solid #ccc",
+                  background: "#fff",
+                  fontWeight: 900,
+                  cursor: "pointer",
+                }}
+              >
+                サーバーの内容を残す（自分の変更は破棄）
+              </button>
+              <button
+                type="button"
+                onClick={() => resolveConflict("continue")}
+                style={{
+                  padding: "10px 14px",
+                  borderRadius: 12,
+                  border: "1px solid #ddd",
+                  background: "#fff",
+                  fontWeight: 800,
+                  cursor: "pointer",
+                }}
+              >
+                閉じて編集を続ける
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       <div style={{ display: "flex", gap: 10, marginTop: 14 }}>
         <button
           onClick={handleSubmit}
@@ -1,27 +1,96 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Transaction } from "./types";
 import { getOrCreateUserKey } from "../lib/userKey";
+import { formatMoney } from "../lib/currency";
 
 function formatDate(iso: string) {
   const d = new Date(iso);
   return d.toLocaleDateString("ja-JP");
 }
 
+// 分割明細の行は1枚のカードにまとめる（最初の行の位置に出す）
+type ListItem = { kind: "single"; t: Transaction } | { kind: "split"; splitId: number; lines: Transaction[] };
+
+function groupSplits(transactions: Transaction[]): ListItem[] {
+  const items: ListItem[] = [];
+  const groups = new Map<number, Transaction[]>();
+  for (const t of transactions) {
+    if (!t.splitId) {
+      items.push({ kind: "single", t });
+      continue;
+    }
+    const lines = groups.get(t.splitId);
+    if (lines) {
+      lines.push(t);
+      continue;
+    }
+    const created = [t];
+    groups.set(t.splitId, created);
+    items.push({ kind: "split", splitId: t.splitId, lines: created });
+  }
+  for (const lines of groups.values()) lines.sort((a, b) => a.id - b.id);
+  return items;
+}
+
+const buttonStyle = {
+  padding: "8px 12px",
+  borderRadius: 10,
+  border: "1px solid #ddd",
+  cursor: "pointer",
+} as const;
+
 export default function TransactionList({
   transactions,
   onEdit,
   onDeleted,
+  onShowHistory,
+  onEditSplit,
   resolveCategoryLabel,
+  memberNames,
 }: {
   transactions: Transaction[];
   onEdit: (t: Transaction) => void;
   onDeleted: (id: number) => void;
+  onShowHistory?: (t: Transaction) => void;
+
+  // ✅ 分割明細は行をまとめて編集する
+  onEditSplit?: (splitId: number) => void;
   resolveCategoryLabel?: (category: string) => string;
+
+  // ✅ 共有家計簿：createdBy（member:<id>）→ メンバー名
+  memberNames?: Record<string, string>;
 }) {
   const [deletingId, setDeletingId] = useState<number | null>(null);
 
+  // ✅ タグで絞り込み（選んだタグをすべて持つ明細だけ）
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+
+  const allTags = useMemo(() => {
+    const set = new Set<string>();
+    for (const t of transactions) for (const tag of t.tags ?? []) set.add(tag);
+    return Array.from(set).sort((a, b) => a.localeCompare(b, "ja"));
+  }, [transactions]);
+
+  // 表示月を変えて無くなったタグは外す
+  const activeFilter = useMemo(() => tagFilter.filter((tag) => allTags.includes(tag)), [tagFilter, allTags]);
+
+  const visible = useMemo(
+    () =>
+      activeFilter.length === 0
+        ? transactions
+        : transactions.filter((t) => activeFilter.every((tag) => (t.tags ?? []).includes(tag))),
+    [transactions, activeFilter]
+  );
+
+  const items = useMemo(() => groupSplits(visible), [visible]);
+
+  const labelOf = (category: string) => (resolveCategoryLabel ? resolveCategoryLabel(category ?? "") : category ?? "");
+
+  const toggleTag = (tag: string) =>
+    setTagFilter((prev) => (prev.includes(tag) ? prev.filter((x) => x !== tag) : [...prev, tag]));
+
   const remove = async (id: number) => {
     if (deletingId === id) return;
 
@@ -55,9 +124,132 @@ export default function TransactionList({
     <div>
       <div style={{ fontWeight: 700, marginBottom: 10 }}>履歴</div>
 
+      {allTags.length > 0 && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginBottom: 10 }}>
+          {allTags.map((tag) => {
+            const on = activeFilter.includes(tag);
+            return (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => toggleTag(tag)}
+                aria-pressed={on}
+                style={{
+                  padding: "4px 10px",
+                  borderRadius: 999,
+                  border: on ? "1px solid #111" : "1px solid #ddd",
+                  background: on ? "#111" : "#fff",
+                  color: on ? "#fff" : "#333",
+                  cursor: "pointer",
+                  fontSize: 12,
+                }}
+              >
+                #{tag}
+              </button>
+            );
+          })}
+          {activeFilter.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setTagFilter([])}
+              style={{ padding: "4px 10px", border: "none", background: "transparent", cursor: "pointer", fontSize: 12, opacity: 0.7 }}
+            >
+              絞り込みを解除
+            </button>
+          )}
+        </div>
+      )}
+
       <div style={{ display: "grid", gap: 10 }}>
-        {transactions.map((t) => {
-          const label = resolveCategoryLabel ? resolveCategoryLabel(t.category ?? "") : t.category ?? "";
+        {items.map((item) => {
+          if (item.kind === "split") {
+            const first = item.lines[0];
+            const total = item.lines.reduce((s, l) => s + l.amount, 0);
+            return (
+              <div
+                key={`split-${item.splitId}`}
+                style={{ border: "1px solid #eee", borderRadius: 12, padding: 14, display: "grid", gap: 8 }}
+              >
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12 }}>
+                  <div>
+                    <div style={{ fontSize: 18, fontWeight: 700 }}>
+                      {formatMoney(first.type === "expense" ? -total : total, first.currency)}
+                    </div>
+                    <div style={{ fontSize: 13, opacity: 0.75 }}>
+                      {formatDate(first.occurredAt)}
+                      <span
+                        style={{
+                          marginLeft: 6,
+                          padding: "1px 6px",
+                          borderRadius: 999,
+                          border: "1px solid #ddd",
+                          fontSize: 11,
+                        }}
+                      >
+                        分割 {item.lines.length}行
+                      </span>
+                      {memberNames && first.createdBy && memberNames[first.createdBy] && (
+                        <span style={{ marginLeft: 6 }}>👤 {memberNames[first.createdBy]}</span>
+                      )}
+                    </div>
+                  </div>
+
+                  <div style={{ display: "flex", gap: 8 }}>
+                    {onEditSplit && (
+                      <button onClick={() => onEditSplit(item.splitId)} style={buttonStyle}>
+                        編集
+                      </button>
+                    )}
+                    {/* どの行を消しても全行まとめてゴミ箱へ入る */}
+                    <button
+                      onClick={() => remove(first.id)}
+                      disabled={deletingId === first.id}
+                      style={{
+                        ...buttonStyle,
+                        border: "1px solid #f2b3b3",
+                        color: "#b42318",
+                        background: "#fff0f0",
+                        opacity: deletingId === first.id ? 0.6 : 1,
+                      }}
+                    >
+                      削除
+                    </button>
+                  </div>
+                </div>
+
+                <div style={{ display: "grid", gap: 4, borderTop: "1px dashed #eee", paddingTop: 8 }}>
+                  {item.lines.map((l) => (
+                    <div key={l.id} style={{ display: "flex", justifyContent: "space-between", gap: 8, fontSize: 13 }}>
+                      <span style={{ opacity: 0.8 }}>
+                        └ {labelOf(l.category)}
+                        {l.detailCategory ? ` ・ ${l.detailCategory}` : ""}
+                        {onShowHistory && (
+                          <button
+                            onClick={() => onShowHistory(l)}
+                            style={{
+                              marginLeft: 6,
+                              border: "none",
+                              background: "transparent",
+                              cursor: "pointer",
+                              fontSize: 11,
+                              opacity: 0.6,
+                              padding: 0,
+                            }}
+                          >
+                            履歴
+                          </button>
+                        )}
+                      </span>
+                      <span style={{ fontWeight: 700 }}>{formatMoney(l.amount, l.currency)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          }
+
+          const t = item.t;
+          const label = labelOf(t.category);
           return (
             <div
               key={t.id}
@@ -73,25 +265,51 @@ export default function TransactionList({
             >
               <div>
                 <div style={{ fontSize: 18, fontWeight: 700 }}>
-                  {(t.type === "expense" ? -t.amount : t.amount).toLocaleString("ja-JP")}円
+                  {formatMoney(t.type === "expense" ? -t.amount : t.amount, t.currency)}
                 </div>
                 <div style={{ fontSize: 13, opacity: 0.75 }}>
                   {label} ・ {formatDate(t.occurredAt)}
+                  {t.transferId ? (
+                    <span
+                      style={{
+                        marginLeft: 6,
+                        padding: "1px 6px",
+                        borderRadius: 999,
+                        border: "1px solid #ddd",
+                        fontSize: 11,
+                      }}
+                    >
+                      資金移動
+                    </span>
+                  ) : null}
+                  {memberNames && t.createdBy && memberNames[t.createdBy] && (
+                    <span style={{ marginLeft: 6 }}>👤 {memberNames[t.createdBy]}</span>
+                  )}
                 </div>
+                {(t.tags ?? []).length > 0 && (
+                  <div style={{ display: "flex", flexWrap: "wrap", gap: 4, marginTop: 4 }}>
+                    {(t.tags ?? []).map((tag) => (
+                      <span key={tag} style={{ fontSize: 11, opacity: 0.7 }}>
+                        #{tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
 
               <div style={{ display: "flex", gap: 8 }}>
-                <button
-                  onClick={() => onEdit(t)}
-                  style={{
-                    padding: "8px 12px",
-                    borderRadius: 10,
-                    border: "1px solid #ddd",
-                    cursor: "pointer",
-                  }}
-                >
-                  編集
-                </button>
+                {/* 資金移動の片側だけ編集すると対が崩れるので、消して入れ直す */}
+                {!t.transferId && (
+                  <button onClick={() => onEdit(t)} style={buttonStyle}>
+                    編集
+                  </button>
+                )}
+
+                {onShowHistory && (
+                  <button onClick={() => onShowHistory(t)} style={buttonStyle}>
+                    履歴
+                  </button>
+                )}
 
                 <button
                   onClick={() => remove(t.id)}
@@ -114,6 +332,9 @@ export default function TransactionList({
         })}
 
         {transactions.length === 0 && <div style={{ opacity: 0.7 }}>まだ履歴がありません</div>}
+        {transactions.length > 0 && visible.length === 0 && (
+          <div style={{ opacity: 0.7 }}>選んだタグがすべて付いた明細はありません</div>
+        )}
       </div>
     </div>
   );
@@ -1,18 +1,59 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import confetti from "canvas-confetti";
 import TransactionForm from "./TransactionForm";
 import TransactionList from "./TransactionList";
-import type { Transaction } from "./types";
-import { getOrCreateUserKey, clearUserKeyCache, getUserKeyName, setUserKeyName } from "../lib/userKey";
+import type {
+  HouseholdsResponse,
+  Split,
+  SummaryResponse,
+  TagSummary,
+  Transaction,
+  TransactionPage,
+  Transfer,
+} from "./types";
+import {
+  getOrCreateUserKey,
+  clearUserKeyCache,
+  getUserKeyName,
+  newIdempotencyKey,
+  setUserKeyName,
+  syncUserKeyCookie,
+} from "../lib/userKey";
+import { normalizeUserKey } from "../lib/identity";
 import styles from "./TransactionsClient.module.css";
 import { toPng } from "html-to-image";
 import html2canvas from "html2canvas";
 
-// ✅ リング目標（localStorage）
+// ✅ リング目標（/api/ring-goals、適用開始日つきの履歴）
 import RingGoalEditor from "./components/RingGoalEditor";
-import { loadRingGoals, getTarget, type RingGoal } from "../lib/ringGoals";
+import TrashPanel from "./components/TrashPanel";
+import TransactionHistoryPanel from "./components/TransactionHistoryPanel";
+import RecurringPanel from "./components/RecurringPanel";
+import ExchangeRatePanel from "./components/ExchangeRatePanel";
+import TagInput from "./components/TagInput";
+import SplitEditor from "./components/SplitEditor";
+import AccountPanel from "./components/AccountPanel";
+import MergePanel from "./components/MergePanel";
+import HouseholdPanel from "./components/HouseholdPanel";
+import CsvPanel from "./components/CsvPanel";
+import StatementPanel from "./components/StatementPanel";
+import AppImportPanel from "./components/AppImportPanel";
+import { loadRingGoals, loadAllRingGoalVersions, migrateLegacyRingGoals, getTarget, type RingGoal } from "../lib/ringGoals";
+import {
+  BACKUP_VERSION,
+  computeChecksum,
+  migrateBackup,
+  verifyChecksum,
+  type BackupAttachment,
+  type BackupGroup,
+  type BackupData,
+} from "../lib/backup";
+import type { RestoreDiff, RestoreMode } from "../lib/restore";
+import { parseAmountExpression } from "../lib/amount";
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney, normalizeCurrency, toMinor } from "../lib/currency";
+import { carryOverTotal } from "../lib/summary";
 
 /**
  * ✅ 長押しハンドラ（Pointer Events）
@@ -60,12 +101,20 @@ type Summary = {
   balance: number;
 };
 
-function calcSummary(transactions: Transaction[]): Summary {
+// ✅ 集計通貨での金額（レートが無い明細は 0 扱い）
+function amountInBase(t: Transaction, base: string): number {
+  if (typeof t.baseAmount === "number") return t.baseAmount;
+  return (t.currency ?? DEFAULT_CURRENCY) === base ? t.amount : 0;
+}
+
+function calcSummary(transactions: Transaction[], base: string): Summary {
   let income = 0;
   let expense = 0;
   for (const t of transactions) {
-    if (t.type === "income") income += t.amount;
-    else expense += t.amount;
+    // 資金移動の2明細は収入でも支出でもない
+    if (t.transferId) continue;
+    if (t.type === "income") income += amountInBase(t, base);
+    else expense += amountInBase(t, base);
   }
   return { income, expense, balance: income - expense };
 }
@@ -94,10 +143,6 @@ function endOfMonthYMD(ym: string) {
   return `${y}-${String(m).padStart(2, "0")}-${String(lastDay).padStart(2, "0")}`;
 }
 
-function yen(n: number) {
-  return (n || 0).toLocaleString("ja-JP");
-}
-
 function clamp01(x: number) {
   return Math.max(0, Math.min(1, x));
 }
@@ -184,64 +229,81 @@ function calcRepayment(params: {
 const SHOW_USERKEY_UI = process.env.NODE_ENV !== "production";
 const STORAGE_KEY = "miyamu_budget_user_key";
 
+// ✅ サーバーと同じ並び（発生日 → 登録日時 → id の新しい順）
+function compareTransactionsDesc(a: Transaction, b: Transaction) {
+  return (
+    b.occurredAt.localeCompare(a.occurredAt) ||
+    b.createdAt.localeCompare(a.createdAt) ||
+    b.id - a.id
+  );
+}
+
 /**
- * ✅ 「5万」「1.2万」「3千」「50,000」等を数値にする
+ * ✅ GET /api/transactions を nextCursor が無くなるまで辿る
  */
-function parseAmountLike(input: string): number {
-  if (!input) return 0;
-
-  // 全角数字→半角
-  const half = input.replace(/[０-９．]/g, (ch) => {
-    const code = ch.charCodeAt(0);
-    if (ch === "．") return ".";
-    return String(code - 0xfee0);
-  });
+async function fetchTransactionPages(userKey: string, params: Record<string, string>): Promise<Transaction[]> {
+  const all: Transaction[] = [];
+  let cursor: string | null = null;
 
-  // よくある単位・余計な文字を軽く掃除
-  const s = half.trim().replace(/[,，\s]/g, "").replace(/円/g, "");
+  do {
+    const qs = new URLSearchParams({ ...params, limit: "500" });
+    if (cursor) qs.set("cursor", cursor);
 
-  // 「万」「千」対応（例: 1.2万, 5万, 3千）
-  const manMatch = s.match(/^(-?\d+(?:\.\d+)?)万$/);
-  if (manMatch) return Math.round(Number(manMatch[1]) * 10000);
+    const res = await fetch(`/api/transactions?${qs.toString()}`, {
+      headers: { "x-user-key": userKey },
+      cache: "no-store",
+    });
 
-  const senMatch = s.match(/^(-?\d+(?:\.\d+)?)千$/);
-  if (senMatch) return Math.round(Number(senMatch[1]) * 1000);
+    const data = (await res.json().catch(() => null)) as TransactionPage | null;
+    if (!res.ok || !data || !Array.isArray(data.items)) {
+      throw new Error(`GET /api/transactions failed: ${JSON.stringify(data)}`);
+    }
 
-  const n = Number(s);
-  if (!Number.isFinite(n)) return 0;
-  return Math.round(n);
+    all.push(...data.items);
+    cursor = data.nextCursor;
+  } while (cursor);
+
+  return all;
 }
 
-function maskKey(k: string) {
-  if (!k) return "";
-  if (k.length <= 8) return k;
-  return `${k.slice(0, 4)}…${k.slice(-4)}`;
+/**
+ * ✅ バックアップ用に添付を本体ごと取る（transactionId → 添付）
+ */
+async function fetchBackupAttachments(userKey: string): Promise<Map<number, BackupAttachment[]>> {
+  const res = await fetch("/api/transactions/attachments?backup=1", {
+    headers: { "x-user-key": userKey },
+    cache: "no-store",
+  });
+  const data = (await res.json().catch(() => null)) as Array<BackupAttachment & { transactionId: number }> | null;
+  if (!res.ok || !Array.isArray(data)) {
+    throw new Error(`GET /api/transactions/attachments failed: ${JSON.stringify(data)}`);
+  }
+
+  const byTx = new Map<number, BackupAttachment[]>();
+  for (const { transactionId, ...a } of data) {
+    byTx.set(transactionId, [...(byTx.get(transactionId) ?? []), a]);
+  }
+  return byTx;
 }
 
-function normalizeUserKeyInput(s: string) {
-  return s.trim().slice(0, 64);
+// 資金移動 / 分割の親のメモ（明細の transferId / splitId と同じ番号で書き出す）
+async function fetchBackupGroups(userKey: string, path: "/api/transfers" | "/api/splits"): Promise<BackupGroup[]> {
+  const res = await fetch(path, {
+    headers: { "x-user-key": userKey },
+    cache: "no-store",
+  });
+  const data = (await res.json().catch(() => null)) as Array<{ id: number; memo: string | null }> | null;
+  if (!res.ok || !Array.isArray(data)) {
+    throw new Error(`GET ${path} failed: ${JSON.stringify(data)}`);
+  }
+  return data.map((g) => ({ id: g.id, memo: g.memo }));
 }
-  function isTransferTransaction(tx: Transaction) {
-  const text = [
-    tx.category ?? "",
-    tx.detailCategory ?? "",
-  ]
-    .join(" ")
-    .toLowerCase();
-  const keywords = [
-    "資金移動",
-    "送金",
-    "振替",
-    "振り替え",
-    "口座移動",
-    "移し替え",
-    "口座振替",
-    "transfer",
-  ];
 
-  return keywords.some((kw) => text.includes(kw.toLowerCase()));
+function maskKey(k: string) {
+  if (!k) return "";
+  if (k.length <= 8) return k;
+  return `${k.slice(0, 4)}…${k.slice(-4)}`;
 }
-  
 
 /**
  * ✅ 外周リング描画（SVG）
@@ -420,6 +482,46 @@ function isRepayRingLike(r: { title: string; mode: RingMode; carryOver?: boolean
   return byMode && byTitle;
 }
 
+// ✅ localStorage / バックアップ由来の追加リングを正規化
+function normalizeExtraRings(arr: unknown): ExtraRing[] {
+  if (!Array.isArray(arr)) return [];
+  return (arr as ExtraRing[])
+    .filter((x) => x && typeof x.id === "string")
+    .slice(0, MAX_EXTRA_RINGS)
+    .map((x) => {
+      const title = String(x.title ?? "追加リング");
+      const mode = (x.mode ?? "both") as RingMode;
+      const carryOver = typeof x.carryOver === "boolean" ? x.carryOver : guessCarryOver(title, mode);
+
+      return {
+        id: x.id,
+        ringKey: typeof x.ringKey === "string" ? x.ringKey : x.id,
+        title,
+        mode,
+        color: typeof x.color === "string" ? x.color : "#60a5fa",
+        ringType: x.ringType ?? (isRepayRingLike({ title, mode, carryOver }) ? "debt" : "asset"),
+        carryOver,
+        charMode: x.charMode ?? "auto",
+      };
+    });
+}
+
+// ✅ /api/rings の1行 → ExtraRing（UI用 id は ringKey をそのまま使う）
+type RingRow = Omit<ExtraRing, "id"> & { id: number; sortOrder: number };
+
+function toExtraRing(row: RingRow): ExtraRing {
+  return {
+    id: row.ringKey,
+    ringKey: row.ringKey,
+    title: row.title,
+    mode: row.mode,
+    color: row.color,
+    ringType: row.ringType,
+    carryOver: row.carryOver,
+    charMode: row.charMode,
+  };
+}
+
 type TxType = "income" | "expense";
 
 type RepayInfo = {
@@ -449,6 +551,7 @@ function ExtraRingButton({
   repayInfo,
   isGlowing = false,
   selected = false,
+  currency = DEFAULT_CURRENCY,
 }: {
   id: string;
   title: string;
@@ -466,6 +569,7 @@ function ExtraRingButton({
   repayInfo?: RepayInfo;
   isGlowing?: boolean;
   selected?: boolean;
+  currency?: string;
 }) {
   resolveChara(title, charMode);
 
@@ -529,10 +633,10 @@ function ExtraRingButton({
 
       <div style={{ zIndex: selected ? 30 : 2 }}>
         <div style={{ fontSize: 12, opacity: 0.75, fontWeight: 900 }}>{title}</div>
-        <div style={{ fontSize: isMobile ? 20 : 22, fontWeight: 900 }}>{yen(displayValue)}円</div>
+        <div style={{ fontSize: isMobile ? 20 : 22, fontWeight: 900 }}>{formatMoney(displayValue, currency)}</div>
 
         {target > 0 && !achieved && !repayInfo?.enabled && (
-          <div style={{ fontSize: 11, marginTop: 2, opacity: 0.75 }}>目標まであと {yen(remain)}円</div>
+          <div style={{ fontSize: 11, marginTop: 2, opacity: 0.75 }}>目標まであと {formatMoney(remain, currency)}</div>
         )}
 
         {target > 0 && achieved && <div style={{ fontSize: 11, marginTop: 2, color: "green" }}>🎉 達成！</div>}
@@ -540,7 +644,7 @@ function ExtraRingButton({
         {repayInfo?.enabled && (
           <div style={{ marginTop: 6, fontSize: 11, opacity: 0.85, lineHeight: 1.25 }}>
             <div>返済率：{repayInfo.progressPct.toFixed(1)}%</div>
-            <div>完済まであと {yen(repayInfo.remaining)}円</div>
+            <div>完済まであと {formatMoney(repayInfo.remaining, currency)}</div>
             {repayInfo.months !== null && <div>完済まで：あと {repayInfo.months}ヶ月</div>}
             {repayInfo.payoffDate && <div>完済予定：{formatYMDDate(repayInfo.payoffDate)}</div>}
           </div>
@@ -666,12 +770,14 @@ function PayoffModal({
   date,
   onClose,
   isMobile,
+  currency = DEFAULT_CURRENCY,
 }: {
   title: string;
   amount: number;
   date: string;
   onClose: () => void;
   isMobile: boolean;
+  currency?: string;
 }) {
   const captureRef = useRef<HTMLDivElement | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
@@ -837,7 +943,7 @@ function PayoffModal({
                     lineHeight: 1.15,
                   }}
                 >
-                  {yen(amount)}円
+                  {formatMoney(amount, currency)}
                 </div>
               </div>
 
@@ -998,32 +1104,128 @@ export default function TransactionsClient({ initialTransactions }: Props) {
   const [pasteName, setPasteName] = useState("");
   const [currentName, setCurrentName] = useState("");
 
+  // ✅ 削除直後の「元に戻す」トースト ＋ ゴミ箱
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [historyTarget, setHistoryTarget] = useState<Transaction | null>(null);
+  const [recurringOpen, setRecurringOpen] = useState(false);
+  const [undoTarget, setUndoTarget] = useState<Transaction | null>(null);
+  const undoTimerRef = useRef<number | null>(null);
+
+  const showUndo = (t: Transaction) => {
+    if (undoTimerRef.current) window.clearTimeout(undoTimerRef.current);
+    setUndoTarget(t);
+    undoTimerRef.current = window.setTimeout(() => setUndoTarget(null), 6000);
+  };
+
+  const putBackTransaction = (t: Transaction) => {
+    setTransactions((prev) => [...prev.filter((x) => x.id !== t.id), t].sort(compareTransactionsDesc));
+    // 資金移動・分割明細は同じ組の明細も一緒に戻るので取り直す
+    if (t.transferId || t.splitId) setTxReloadTick((n) => n + 1);
+  };
+
+  // ✅ 分割明細の作成/編集（split: null なら新規）
+  const [splitEditor, setSplitEditor] = useState<{ split: Split | null } | null>(null);
+
+  const openSplitEditor = async (splitId?: number) => {
+    if (!splitId) {
+      setSplitEditor({ split: null });
+      return;
+    }
+    try {
+      const res = await fetch(`/api/splits?id=${splitId}`, {
+        headers: { "x-user-key": userKey },
+        cache: "no-store",
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(JSON.stringify(data));
+      setSplitEditor({ split: data as Split });
+    } catch (e) {
+      console.error(e);
+      alert("分割明細を読み込めませんでした");
+    }
+  };
+
+  const onSplitSaved = (split: Split) => {
+    // 行は増減するので、同じ分割の行を丸ごと入れ替える
+    setTransactions((prev) =>
+      [...split.lines, ...prev.filter((t) => t.splitId !== split.id)].sort(compareTransactionsDesc)
+    );
+    setSplitEditor(null);
+  };
+
+  const undoDelete = async () => {
+    const t = undoTarget;
+    if (!t) return;
+    if (undoTimerRef.current) window.clearTimeout(undoTimerRef.current);
+    setUndoTarget(null);
+
+    try {
+      const res = await fetch(`/api/transactions/trash?id=${t.id}`, {
+        method: "POST",
+        headers: { "x-user-key": userKey },
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        alert(data?.error ?? "元に戻せませんでした");
+        return;
+      }
+      putBackTransaction(data as Transaction);
+    } catch (e) {
+      console.error(e);
+      alert("元に戻せませんでした");
+    }
+  };
+
   const hardReload = () => {
     const url = new URL(window.location.href);
     url.searchParams.set("v", String(Date.now()));
     window.location.replace(url.toString());
   };
-  type BackupData = {
-  version: 1;
-  exportedAt: string;
-  userKey: string;
-  transactions: Transaction[];
-  ringGoals: RingGoal[];
-  selectedYm: string;
-  extraRings: ExtraRing[];
-};
-
-const exportBackup = () => {
+const exportBackup = async () => {
   try {
-    const backup: BackupData = {
-      version: 1,
+    // state には表示月の明細しか無いので、全期間を取り直す
+    const [allTransactions, allGoals, allAttachments, transfers, splits] = await Promise.all([
+      fetchTransactionPages(userKey, {}),
+      loadAllRingGoalVersions(),
+      fetchBackupAttachments(userKey),
+      fetchBackupGroups(userKey, "/api/transfers"),
+      fetchBackupGroups(userKey, "/api/splits"),
+    ]);
+
+    const body: BackupData = {
+      version: BACKUP_VERSION,
       exportedAt: new Date().toISOString(),
       userKey,
-      transactions,
-      ringGoals,
-      selectedYm,
-      extraRings,
+      profile: { name: getUserKeyName(userKey) },
+      settings: { selectedYm, baseCurrency },
+      transactions: allTransactions.map((t) => ({
+        amount: t.amount,
+        currency: t.currency ?? DEFAULT_CURRENCY,
+        category: t.category,
+        detailCategory: t.detailCategory ?? null,
+        type: t.type,
+        occurredAt: t.occurredAt,
+        createdAt: t.createdAt,
+        tags: t.tags ?? [],
+        attachments: allAttachments.get(t.id) ?? [],
+        transferId: t.transferId ?? null,
+        splitId: t.splitId ?? null,
+      })),
+      transfers,
+      splits,
+      rings: extraRings.map((r) => ({
+        ringKey: r.ringKey,
+        title: r.title,
+        mode: r.mode,
+        color: r.color,
+        carryOver: r.carryOver,
+        ringType: r.ringType,
+        charMode: r.charMode,
+      })),
+      ringGoals: allGoals.map((g) => ({ category: g.category, target: g.target, effectiveFrom: g.effectiveFrom })),
+      watchQuotes,
     };
+    const backup: BackupData = { ...body, checksum: await computeChecksum(body) };
 
     const blob = new Blob([JSON.stringify(backup, null, 2)], {
       type: "application/json",
@@ -1044,61 +1246,115 @@ const exportBackup = () => {
 const importBackup = async (file: File) => {
   try {
     const text = await file.text();
-    const data = JSON.parse(text) as Partial<BackupData>;
+    const raw = JSON.parse(text) as unknown;
 
-    if (!data || data.version !== 1) {
-      alert("バックアップファイルの形式が違います");
+    if (!(await verifyChecksum(raw))) {
+      alert("バックアップファイルが壊れているか、書き換えられています（チェックサム不一致）");
       return;
     }
 
-    const ok = window.confirm("現在のデータを上書きして復元します。よろしいですか？");
-    if (!ok) return;
-
-    const nextUserKey = normalizeUserKeyInput(data.userKey || userKey);
-    const nextSelectedYm = data.selectedYm || nowYm;
-    const nextRingGoals = Array.isArray(data.ringGoals) ? (data.ringGoals as RingGoal[]) : [];
-    const nextExtraRings = Array.isArray(data.extraRings) ? (data.extraRings as ExtraRing[]) : [];
-    const nextTransactions = Array.isArray(data.transactions) ? (data.transactions as Transaction[]) : [];
+    // 古い版は最新版に変換して読む（サーバーにも元のJSONを送り、同じ変換をかける）
+    const backup = migrateBackup(raw);
+    if (typeof backup === "string") {
+      console.error(backup);
+      alert("バックアップファイルの形式が違います");
+      return;
+    }
 
-    // userKey復元
-    try {
-      localStorage.setItem(STORAGE_KEY, nextUserKey);
-    } catch {}
+    setRestoreDraft({ raw, backup, mode: "merge", diff: null, error: "", busy: false });
+    await previewRestore(raw, backup, "merge");
+  } catch (e) {
+    console.error(e);
+    alert("復元に失敗しました");
+  }
+};
 
-    clearUserKeyCache();
-    setUserKey(nextUserKey);
+// =========================
+// ✅ 復元（/api/restore）：まず dry-run で差分を見せてから実行
+// =========================
+const [restoreDraft, setRestoreDraft] = useState<{
+  raw: unknown;
+  backup: BackupData;
+  mode: RestoreMode;
+  diff: RestoreDiff | null;
+  error: string;
+  busy: boolean;
+} | null>(null);
+
+const requestRestore = async (raw: unknown, backup: BackupData, mode: RestoreMode, dryRun: boolean) => {
+  // バックアップの userKey に復元する（無ければ今のID）
+  const targetKey = normalizeUserKey(backup.userKey) ?? userKey;
+  const res = await fetch("/api/restore", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-user-key": targetKey,
+    },
+    body: JSON.stringify({ mode, dryRun, backup: raw }),
+  });
 
-    // selectedYm復元
-    try {
-      localStorage.setItem(`miyamu_selected_ym:${nextUserKey}`, nextSelectedYm);
-    } catch {}
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error ?? "restore failed");
+  return data.diff as RestoreDiff;
+};
 
-    // extraRings復元
-    try {
-      localStorage.setItem(`miyamu_maker_extra_rings_v6:${nextUserKey}`, JSON.stringify(nextExtraRings));
-    } catch {}
+const previewRestore = async (raw: unknown, backup: BackupData, mode: RestoreMode) => {
+  setRestoreDraft((d) => (d ? { ...d, mode, diff: null, error: "", busy: true } : d));
+  try {
+    const diff = await requestRestore(raw, backup, mode, true);
+    setRestoreDraft((d) => (d && d.mode === mode ? { ...d, diff, busy: false } : d));
+  } catch (e) {
+    console.error(e);
+    setRestoreDraft((d) => (d ? { ...d, error: String((e as Error).message ?? e), busy: false } : d));
+  }
+};
 
-    // ringGoals復元
-    try {
-      localStorage.setItem("miyamu_ring_goals_v1", JSON.stringify(nextRingGoals));
-    } catch {
-      try {
-        localStorage.setItem("ringGoals", JSON.stringify(nextRingGoals));
-      } catch {}
-    }
+const applyRestore = async () => {
+  if (!restoreDraft || restoreDraft.busy) return;
+  const { raw, backup, mode } = restoreDraft;
 
-    // state反映
-    setSelectedYm(nextSelectedYm);
-    setExtraRings(nextExtraRings);
-    setRingGoals(nextRingGoals);
-    setTransactions(nextTransactions);
+  if (mode === "replace") {
+    const ok = window.confirm("現在の明細はゴミ箱へ移し（リング・目標は消えます）、バックアップで置き換えます。よろしいですか？");
+    if (!ok) return;
+  }
 
-    alert("バックアップを復元しました。画面を再読み込みします。");
-    hardReload();
+  setRestoreDraft((d) => (d ? { ...d, busy: true } : d));
+  try {
+    await requestRestore(raw, backup, mode, false);
   } catch (e) {
     console.error(e);
-    alert("復元に失敗しました");
+    setRestoreDraft((d) => (d ? { ...d, error: String((e as Error).message ?? e), busy: false } : d));
+    alert("復元に失敗しました（データは変更されていません）");
+    return;
+  }
+
+  const nextUserKey = normalizeUserKey(backup.userKey) ?? userKey;
+  const nextSelectedYm = backup.settings?.selectedYm || nowYm;
+
+  // userKey復元
+  try {
+    localStorage.setItem(STORAGE_KEY, nextUserKey);
+  } catch {}
+
+  clearUserKeyCache();
+
+  // selectedYm・集計通貨復元
+  const nextBaseCurrency = normalizeCurrency(backup.settings?.baseCurrency);
+  try {
+    localStorage.setItem(`miyamu_selected_ym:${nextUserKey}`, nextSelectedYm);
+    if (nextBaseCurrency) localStorage.setItem(`miyamu_base_currency:${nextUserKey}`, nextBaseCurrency);
+  } catch {}
+
+  // ユーザーネーム・見守りモフのセリフ復元（入っている時だけ）
+  if (backup.profile?.name) setUserKeyName(nextUserKey, backup.profile.name);
+  if (backup.watchQuotes) {
+    try {
+      localStorage.setItem(WATCH_QUOTES_KEY, JSON.stringify(backup.watchQuotes));
+    } catch {}
   }
+
+  alert("バックアップを復元しました。画面を再読み込みします。");
+  hardReload();
 };
 
   useEffect(() => {
@@ -1108,18 +1364,11 @@ const importBackup = async (file: File) => {
     setCurrentName(getUserKeyName(userKey));
   }, [userIdOpen, userKey]);
 
-  const isValidUserKey = (s: string) => {
-    const v = s.trim();
-    if (/^[0-9a-f]{32}$/i.test(v)) return true;
-    if (v.length >= 8 && v.length <= 64) return true;
-    return false;
-  };
-
   const applyPastedKey = () => {
-    const next = normalizeUserKeyInput(pasteKey);
+    const next = normalizeUserKey(pasteKey);
 
-    if (!isValidUserKey(next)) {
-      alert("ユーザーIDの形式が違うみたい（32桁の英数字 or 8〜64文字）");
+    if (!next) {
+      alert("ユーザーIDの形式が違うみたい（8〜64文字）");
       return;
     }
 
@@ -1135,6 +1384,17 @@ const importBackup = async (file: File) => {
     setUserIdOpen(false);
   };
 
+  // ✅ アカウントに紐づいたIDへ切り替える（ユーザーネームはそのまま）
+  const switchUserKey = (next: string) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {}
+
+    clearUserKeyCache();
+    setUserKey(next);
+    setUserIdOpen(false);
+  };
+
   const copyText = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -1165,28 +1425,9 @@ const importBackup = async (file: File) => {
     })();
   }, []);
 
+  // ✅ ID が決まったら・切り替えたら cookie も揃える
   useEffect(() => {
-    if (!userKey) return;
-
-    (async () => {
-      try {
-        const res = await fetch("/api/transactions", {
-          headers: { "x-user-key": userKey },
-          cache: "no-store",
-        });
-
-        const data = await res.json().catch(() => []);
-        if (!res.ok) {
-          console.error("GET /api/transactions failed:", data);
-          setTransactions([]);
-          return;
-        }
-        setTransactions(Array.isArray(data) ? data : []);
-      } catch (e) {
-        console.error(e);
-        setTransactions([]);
-      }
-    })();
+    if (userKey) syncUserKeyCookie(userKey);
   }, [userKey]);
 
   const [keyEditingOpen, setKeyEditingOpen] = useState(false);
@@ -1197,9 +1438,9 @@ const importBackup = async (file: File) => {
   }, [keyEditingOpen, userKey]);
 
   const applyUserKey = () => {
-    const next = normalizeUserKeyInput(userKeyInput);
+    const next = normalizeUserKey(userKeyInput);
 
-    if (next.length < 8 || next.length > 64) {
+    if (!next) {
       alert("userKey は8〜64文字で入力してください（英数字推奨）");
       return;
     }
@@ -1266,6 +1507,66 @@ const importBackup = async (file: File) => {
   // =========================
   const selectedEnd = useMemo(() => endOfMonthYMD(selectedYm), [selectedYm]);
 
+  // ✅ 集計通貨（リング・月次サマリー・レポートはこの通貨に換算して出す）
+  const baseCurrencyKey = `miyamu_base_currency:${userKey || "anonymous"}`;
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+  const [ratesOpen, setRatesOpen] = useState(false);
+  const [csvOpen, setCsvOpen] = useState(false);
+  const [statementOpen, setStatementOpen] = useState(false);
+  const [appImportOpen, setAppImportOpen] = useState(false);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    try {
+      setBaseCurrency(normalizeCurrency(localStorage.getItem(baseCurrencyKey)) ?? DEFAULT_CURRENCY);
+    } catch {
+      setBaseCurrency(DEFAULT_CURRENCY);
+    }
+  }, [baseCurrencyKey]);
+
+  const changeBaseCurrency = (c: string) => {
+    setBaseCurrency(c);
+    try {
+      localStorage.setItem(baseCurrencyKey, c);
+    } catch {}
+  };
+
+  // ✅ 定期明細は userKey ごとに1回、期日が来た分を作ってから読む
+  const [txReloadTick, setTxReloadTick] = useState(0);
+  const materializedKeyRef = useRef<string | null>(null);
+
+  // ✅ 明細は表示月の分だけ取得（累計はサーバー集計 /api/summary で見る）
+  useEffect(() => {
+    if (!userKey) return;
+    let cancelled = false;
+
+    (async () => {
+      if (materializedKeyRef.current !== userKey) {
+        materializedKeyRef.current = userKey;
+        await fetch(`/api/recurring/materialize?asOf=${todayYMD()}`, {
+          method: "POST",
+          headers: { "x-user-key": userKey },
+        }).catch((e) => console.error(e));
+      }
+
+      try {
+        const list = await fetchTransactionPages(userKey, {
+          from: `${selectedYm}-01`,
+          to: selectedEnd,
+          base: baseCurrency,
+        });
+        if (!cancelled) setTransactions(list);
+      } catch (e) {
+        console.error(e);
+        if (!cancelled) setTransactions([]);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userKey, selectedYm, selectedEnd, txReloadTick, baseCurrency]);
+
   const monthTransactions = useMemo(() => {
     return transactions.filter((t) => {
       const ymd = (t.occurredAt ?? "").slice(0, 10);
@@ -1274,15 +1575,82 @@ const importBackup = async (file: File) => {
     });
   }, [transactions, selectedYm]);
 
-  const carryOverTransactions = useMemo(() => {
-    return transactions.filter((t) => {
-      const ymd = (t.occurredAt ?? "").slice(0, 10);
-      if (!ymd) return false;
-      return ymd <= selectedEnd;
-    });
-  }, [transactions, selectedEnd]);
+  // ✅ 共有家計簿（使っている家計簿・メンバー）
+  const [households, setHouseholds] = useState<HouseholdsResponse | null>(null);
+  const [memberFilter, setMemberFilter] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!userKey) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await fetch("/api/households", { headers: { "x-user-key": userKey }, cache: "no-store" });
+        const data = await res.json().catch(() => null);
+        if (!res.ok) {
+          console.error("GET /api/households failed:", data);
+          return;
+        }
+        if (!cancelled) setHouseholds(data as HouseholdsResponse);
+      } catch (e) {
+        console.error(e);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userKey]);
+
+  const activeHousehold = useMemo(
+    () => households?.households.find((h) => h.id === households.activeId) ?? null,
+    [households]
+  );
 
-  const monthSummary = useMemo(() => calcSummary(monthTransactions), [monthTransactions]);
+  // createdBy（member:<id>）→ 名前（lib/households.ts の memberActor と合わせる）
+  const memberNames = useMemo(() => {
+    if (!activeHousehold) return undefined;
+    return Object.fromEntries(activeHousehold.members.map((m) => [`member:${m.id}`, m.name]));
+  }, [activeHousehold]);
+
+  const summaryMember = activeHousehold?.members.some((m) => m.id === memberFilter) ? memberFilter : null;
+
+  // ✅ リング集計（月次/累計）はサーバーの groupBy 結果を使う
+  // - transactions が変わった（追加/編集/削除）ら取り直す
+  const [summary, setSummary] = useState<SummaryResponse | null>(null);
+
+  useEffect(() => {
+    if (!userKey) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const qs = new URLSearchParams({ ym: selectedYm, base: baseCurrency });
+        if (summaryMember) qs.set("member", String(summaryMember));
+        const res = await fetch(`/api/summary?${qs.toString()}`, {
+          headers: { "x-user-key": userKey },
+          cache: "no-store",
+        });
+        const data = await res.json().catch(() => null);
+        if (!res.ok) {
+          console.error("GET /api/summary failed:", data);
+          return;
+        }
+        if (!cancelled) setSummary(data as SummaryResponse);
+      } catch (e) {
+        console.error(e);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userKey, selectedYm, transactions, baseCurrency, summaryMember]);
+
+  const monthSummary = useMemo(
+    () => summary?.monthSummary ?? calcSummary(monthTransactions, baseCurrency),
+    [summary, monthTransactions, baseCurrency]
+  );
 
   const monthStorageKey = useMemo(() => {
     const k = userKey || "anonymous";
@@ -1307,6 +1675,34 @@ const importBackup = async (file: File) => {
     return Array.from(set);
   }, [transactions]);
 
+  // ✅ タグの入力候補（よく使う順）。明細が変わったら取り直す
+  const [tagList, setTagList] = useState<TagSummary[]>([]);
+
+  useEffect(() => {
+    if (!userKey) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await fetch("/api/tags", { headers: { "x-user-key": userKey }, cache: "no-store" });
+        const data = await res.json().catch(() => null);
+        if (!res.ok) {
+          console.error("GET /api/tags failed:", data);
+          return;
+        }
+        if (!cancelled) setTagList(data as TagSummary[]);
+      } catch (e) {
+        console.error(e);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userKey, transactions]);
+
+  const tagSuggestions = useMemo(() => tagList.map((t) => t.name), [tagList]);
+
   // =========================
   // ✅ 追加リング（永続化）
   // =========================
@@ -1317,79 +1713,71 @@ const importBackup = async (file: File) => {
 
   const [extraRings, setExtraRings] = useState<ExtraRing[]>([]);
 
-  useEffect(() => {
-    if (!userKey) return;
-    try {
-      const raw = localStorage.getItem(extrasStorageKey);
-      if (!raw) return;
-      const arr = JSON.parse(raw) as ExtraRing[];
-      if (!Array.isArray(arr)) return;
-
-      const fixed = arr
-        .filter((x) => x && typeof x.id === "string")
-        .slice(0, MAX_EXTRA_RINGS)
-        .map((x) => {
-          const title = String(x.title ?? "追加リング");
-          const mode = (x.mode ?? "both") as RingMode;
-          const carryOver = typeof x.carryOver === "boolean" ? x.carryOver : guessCarryOver(title, mode);
-
-          return {
-            id: x.id,
-            ringKey: typeof x.ringKey === "string" ? x.ringKey : x.id,
-            title,
-            mode,
-            color: typeof x.color === "string" ? x.color : "#60a5fa",
-            ringType: x.ringType ?? (isRepayRingLike({ title, mode, carryOver }) ? "debt" : "asset"),
-            carryOver,
-            charMode: x.charMode ?? "auto",
-          };
-        });
+  const requestRings = useCallback(
+    async (method: string, opts: { ringKey?: string; body?: unknown } = {}) => {
+      const qs = opts.ringKey ? `?ringKey=${encodeURIComponent(opts.ringKey)}` : "";
+      const res = await fetch(`/api/rings${qs}`, {
+        method,
+        headers: {
+          "content-type": "application/json",
+          "x-user-key": userKey,
+        },
+        body: opts.body === undefined ? undefined : JSON.stringify(opts.body),
+        cache: "no-store",
+      });
 
-      setExtraRings(fixed);
-    } catch (e) {
-      console.warn("extra rings load failed", e);
-    }
-  }, [userKey, extrasStorageKey]);
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(JSON.stringify(data ?? { error: `${method} /api/rings failed` }));
+      return data;
+    },
+    [userKey]
+  );
 
+  // ✅ サーバーから読む。サーバーが空で localStorage に旧データがあれば一度だけ移行する
   useEffect(() => {
     if (!userKey) return;
-    try {
-      localStorage.setItem(extrasStorageKey, JSON.stringify(extraRings));
-    } catch (e) {
-      console.warn("extra rings save failed", e);
-    }
-  }, [userKey, extrasStorageKey, extraRings]);
+    let cancelled = false;
+
+    (async () => {
+      try {
+        let rows = (await requestRings("GET")) as RingRow[];
+
+        if (rows.length === 0) {
+          let local: ExtraRing[] = [];
+          try {
+            const raw = localStorage.getItem(extrasStorageKey);
+            if (raw) local = normalizeExtraRings(JSON.parse(raw));
+          } catch {}
+
+          if (local.length > 0) {
+            rows = (await requestRings("PUT", { body: { rings: local } })) as RingRow[];
+          }
+        }
+
+        // 移行済み（or サーバーが正）なので旧キーは消す
+        try {
+          localStorage.removeItem(extrasStorageKey);
+        } catch {}
+
+        if (!cancelled) setExtraRings(rows.map(toExtraRing));
+      } catch (e) {
+        console.warn("extra rings load failed", e);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userKey, extrasStorageKey, requestRings]);
 
   const canAddExtra = extraRings.length < MAX_EXTRA_RINGS;
 
   // =========================
   // ✅ 「リング別集計」：月次 or 累計を使い分ける
   // =========================
-  const sumByCategoryMonthly = useMemo(() => {
-    const map = new Map<string, { income: number; expense: number }>();
-    for (const t of monthTransactions) {
-      const cat = (t.category ?? "").trim();
-      if (!cat) continue;
-      const cur = map.get(cat) ?? { income: 0, expense: 0 };
-      if (t.type === "income") cur.income += t.amount;
-      else cur.expense += t.amount;
-      map.set(cat, cur);
-    }
-    return map;
-  }, [monthTransactions]);
-
-  const sumByCategoryCarry = useMemo(() => {
-    const map = new Map<string, { income: number; expense: number }>();
-    for (const t of carryOverTransactions) {
-      const cat = (t.category ?? "").trim();
-      if (!cat) continue;
-      const cur = map.get(cat) ?? { income: 0, expense: 0 };
-      if (t.type === "income") cur.income += t.amount;
-      else cur.expense += t.amount;
-      map.set(cat, cur);
-    }
-    return map;
-  }, [carryOverTransactions]);
+  const sumByCategoryMonthly = useMemo(() => new Map(Object.entries(summary?.monthly ?? {})), [summary]);
+
+  const sumByCategoryCarry = useMemo(() => new Map(Object.entries(summary?.carry ?? {})), [summary]);
 
   const getRingSums = (ringKey: string, useCarry: boolean) => {
     const cat = ringCategory(ringKey);
@@ -1407,10 +1795,21 @@ const importBackup = async (file: File) => {
   // =========================
   const [ringGoals, setRingGoals] = useState<RingGoal[]>([]);
 
+  // ✅ 表示月の末日時点で有効だった目標を使う
   useEffect(() => {
     if (!userKey) return;
-    setRingGoals(loadRingGoals());
-  }, [userKey]);
+    let cancelled = false;
+
+    (async () => {
+      await migrateLegacyRingGoals();
+      const g = await loadRingGoals(selectedEnd);
+      if (!cancelled) setRingGoals(g);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userKey, selectedEnd]);
 
   const targetBalance = getTarget(ringGoals, GOAL_ASSET_KEY);
   const lifeTarget = getTarget(ringGoals, ringCategory(FIXED_LIFE_KEY));
@@ -1422,37 +1821,8 @@ const importBackup = async (file: File) => {
       return { ...r, sums: s };
     });
   }, [extraRings, sumByCategoryMonthly, sumByCategoryCarry]);
-  const carryOverRingCategorySet = useMemo(() => {
-    return new Set(
-      extraRings
-        .filter((r) => !!r.carryOver)
-        .map((r) => ringCategory(r.ringKey))
-    );
-  }, [extraRings]);
-  const totalAssetTransferAdjustment = useMemo(() => {
-    let adjust = 0;
-
-    for (const t of carryOverTransactions) {
-      const cat = (t.category ?? "").trim();
-      if (!carryOverRingCategorySet.has(cat)) continue;
-      if (!isTransferTransaction(t)) continue;
-
-      if (t.type === "income") adjust += t.amount;
-      else adjust -= t.amount;
-    }
-
-    return adjust;
-  }, [carryOverTransactions, carryOverRingCategorySet]);
-
-
-  const totalAssetBalance = useMemo(() => {
-  let total = 0;
-  for (const r of extraComputed) {
-    if (!r.carryOver) continue;
-    total += r.sums.balance;
-  }
-  return total - totalAssetTransferAdjustment;
-}, [extraComputed, totalAssetTransferAdjustment]);
+  // ✅ 資金移動はリングの残高には入る（出金側が減り入金側が増える）。累計リング同士なら合計は変わらない
+  const totalAssetBalance = useMemo(() => carryOverTotal(extraComputed), [extraComputed]);
 
 
   const progressToTarget = targetBalance > 0 ? clamp01(totalAssetBalance / targetBalance) : 0;
@@ -1537,7 +1907,7 @@ useEffect(() => {
   const closeGoalEditor = () => {
     setGoalModalOpen(false);
     setGoalFocusCategory(null);
-    setRingGoals(loadRingGoals());
+    loadRingGoals(selectedEnd).then(setRingGoals);
   };
 
   // =========================
@@ -1549,21 +1919,38 @@ useEffect(() => {
   const [quickTarget, setQuickTarget] = useState<QuickAddTarget>(null);
   const [quickType, setQuickType] = useState<TxType>("expense");
   const [quickAmountStr, setQuickAmountStr] = useState("");
+  const [quickCurrency, setQuickCurrency] = useState(DEFAULT_CURRENCY);
   const [quickDate, setQuickDate] = useState(todayYMD());
   const [quickDetail, setQuickDetail] = useState("");
+  const [quickTags, setQuickTags] = useState<string[]>([]);
   const [isSavingQuick, setIsSavingQuick] = useState(false);
 
+  // ✅ 資金移動モード：このリングから quickTransferTo（category）へ移す
+  const [quickTransfer, setQuickTransfer] = useState(false);
+  const [quickTransferTo, setQuickTransferTo] = useState("");
+
+  // ✅ 同じ入力内容での再送は同じ Idempotency-Key（二重登録防止）
+  const quickSubmitKeyRef = useRef<string | null>(null);
+  useEffect(() => {
+    quickSubmitKeyRef.current = null;
+  }, [quickTarget, quickType, quickAmountStr, quickCurrency, quickDate, quickDetail, quickTags, quickTransfer, quickTransferTo]);
+
   const openQuickAdd = (target: QuickAddTarget, defaultType: TxType) => {
     setQuickTarget(target);
     setQuickType(defaultType);
     setQuickAmountStr("");
+    setQuickCurrency(baseCurrency);
     setQuickDetail("");
+    setQuickTags([]);
     setQuickDate(todayYMD());
+    setQuickTransfer(false);
+    setQuickTransferTo("");
     setIsSavingQuick(false);
     setQuickAddOpen(true);
   };
 
   const closeQuickAdd = () => {
+    quickSubmitKeyRef.current = null;
     setQuickAddOpen(false);
     setQuickTarget(null);
     setIsSavingQuick(false);
@@ -1578,18 +1965,24 @@ useEffect(() => {
     return { ringKey: r.ringKey, title: r.title, mode: r.mode };
   };
 
-  const createTransaction = async (payload: {
-    type: TxType;
-    amount: number;
-    occurredAt: string;
-    category: string;
-    detailCategory?: string;
-  }) => {
+  const createTransaction = async (
+    payload: {
+      type: TxType;
+      amount: number;
+      currency: string;
+      occurredAt: string;
+      category: string;
+      detailCategory?: string;
+      tags?: string[];
+    },
+    idempotencyKey?: string
+  ) => {
     const res = await fetch("/api/transactions", {
       method: "POST",
       headers: {
         "content-type": "application/json",
         "x-user-key": userKey,
+        ...(idempotencyKey ? { "idempotency-key": idempotencyKey } : {}),
       },
       body: JSON.stringify(payload),
     });
@@ -1599,6 +1992,32 @@ useEffect(() => {
     return data as Transaction;
   };
 
+  const createTransfer = async (
+    payload: {
+      amount: number;
+      currency: string;
+      occurredAt: string;
+      fromCategory: string;
+      toCategory: string;
+      memo?: string;
+    },
+    idempotencyKey?: string
+  ) => {
+    const res = await fetch("/api/transfers", {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-user-key": userKey,
+        ...(idempotencyKey ? { "idempotency-key": idempotencyKey } : {}),
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(JSON.stringify(data ?? { error: "POST failed" }));
+    return data as Transfer;
+  };
+
   // =========================
   // ✅ 保存演出（全身モフ/ひな ＋ 一言） + 見守りモフ吹き出し、完済エフェクト
   // =========================
@@ -1770,27 +2189,69 @@ useEffect(() => {
       return;
     }
 
-    const amount = parseAmountLike(quickAmountStr);
+    const amount = toMinor(parseAmountExpression(quickAmountStr) ?? 0, quickCurrency);
     if (amount <= 0) {
       alert("金額を入力してください（例: 50000 / 5万 / 1.2万）");
       return;
     }
 
+    if (quickTransfer) {
+      if (!quickTransferTo) {
+        alert("移動先のリングを選んでください");
+        return;
+      }
+
+      setIsSavingQuick(true);
+      quickSubmitKeyRef.current ??= newIdempotencyKey();
+
+      try {
+        const transfer = await createTransfer(
+          {
+            amount,
+            currency: quickCurrency,
+            occurredAt: quickDate,
+            fromCategory: ringCategory(meta.ringKey),
+            toCategory: quickTransferTo,
+            memo: quickDetail.trim() ? quickDetail.trim().slice(0, 24) : undefined,
+          },
+          quickSubmitKeyRef.current
+        );
+
+        const legIds = new Set(transfer.legs.map((t) => t.id));
+        setTransactions((prev) => [...transfer.legs, ...prev.filter((t) => !legIds.has(t.id))]);
+        closeQuickAdd();
+
+        const reaction = decideSaveReaction(meta);
+        triggerSaveOverlay(reaction.kind, reaction.tone);
+      } catch (e) {
+        console.error(e);
+        alert("保存に失敗しました（ネットワーク or API）。Vercel Logsも確認してね。");
+        setIsSavingQuick(false);
+      }
+      return;
+    }
+
     const type: TxType =
       meta.mode === "income_only" ? "income" : meta.mode === "expense_only" ? "expense" : quickType;
 
     setIsSavingQuick(true);
+    quickSubmitKeyRef.current ??= newIdempotencyKey();
 
     try {
-      const tx = await createTransaction({
-        type,
-        amount,
-        occurredAt: quickDate,
-        category: ringCategory(meta.ringKey),
-        detailCategory: quickDetail.trim() ? quickDetail.trim().slice(0, 24) : undefined,
-      });
-
-      setTransactions((prev) => [tx, ...prev]);
+      const tx = await createTransaction(
+        {
+          type,
+          amount,
+          currency: quickCurrency,
+          occurredAt: quickDate,
+          category: ringCategory(meta.ringKey),
+          detailCategory: quickDetail.trim() ? quickDetail.trim().slice(0, 24) : undefined,
+          tags: quickTags,
+        },
+        quickSubmitKeyRef.current
+      );
+
+      setTransactions((prev) => [tx, ...prev.filter((t) => t.id !== tx.id)]);
       closeQuickAdd();
 
       // ✅ 保存演出は常に出す
@@ -1800,7 +2261,8 @@ useEffect(() => {
             // ✅ 返済リングだけ：保存後に完済判定
       const targetRing = extraRings.find((r) => r.ringKey === meta.ringKey);
 
-      if (targetRing && isRepayRingLike(targetRing) && type === "expense") {
+      // 完済判定は集計通貨で入れたときだけ（リングの合計と同じ単位で比べる）
+      if (targetRing && isRepayRingLike(targetRing) && type === "expense" && quickCurrency === baseCurrency) {
         const totalDebt = getTarget(ringGoals, ringCategory(targetRing.ringKey));
         const currentCarry = getRingSums(targetRing.ringKey, true).expense;
         const nextRepaidTotal = currentCarry + amount;
@@ -1864,27 +2326,32 @@ useEffect(() => {
     setCreateOpen(true);
   };
 
-  const saveCreate = () => {
+  const saveCreate = async () => {
     if (!canAddExtra) return;
 
     const title = String(createTitle).trim().slice(0, 24) || "追加リング";
-    const id = makeId();
     const ringKey = makeId();
     const carryOver = !!createCarryOver;
 
-    const next: ExtraRing = {
-      id,
-      ringKey,
-      title,
-      mode: createMode,
-      color: "#60a5fa",
-      ringType: isRepayRingLike({ title, mode: createMode, carryOver }) ? "debt" : "asset",
-      carryOver,
-      charMode: "auto",
-    };
-
-    setExtraRings((prev) => [...prev, next]);
-    setCreateOpen(false);
+    try {
+      const row = (await requestRings("POST", {
+        body: {
+          ringKey,
+          title,
+          mode: createMode,
+          color: "#60a5fa",
+          ringType: isRepayRingLike({ title, mode: createMode, carryOver }) ? "debt" : "asset",
+          carryOver,
+          charMode: "auto",
+        },
+      })) as RingRow;
+
+      setExtraRings((prev) => [...prev, toExtraRing(row)]);
+      setCreateOpen(false);
+    } catch (e) {
+      console.error(e);
+      alert("リングの作成に失敗しました");
+    }
   };
 
   // =========================
@@ -1908,33 +2375,47 @@ useEffect(() => {
     setExtraEditId(id);
   };
 
-  const saveExtraEdit = () => {
+  const saveExtraEdit = async () => {
     if (!extraEditId) return;
+    const r = extraRings.find((x) => x.id === extraEditId);
+    if (!r) return;
+
     const title = String(extraDraft.title).trim().slice(0, 24) || "追加リング";
     const mode = extraDraft.mode;
     const carryOver = !!extraDraft.carryOver;
 
-    setExtraRings((prev) =>
-      prev.map((x) =>
-        x.id === extraEditId
-          ? {
-              ...x,
-              title,
-              mode,
-              carryOver,
-              ringType: isRepayRingLike({ title, mode, carryOver }) ? "debt" : "asset",
-            }
-          : x
-      )
-    );
-    setExtraEditId(null);
+    try {
+      const row = (await requestRings("PATCH", {
+        ringKey: r.ringKey,
+        body: {
+          title,
+          mode,
+          carryOver,
+          ringType: isRepayRingLike({ title, mode, carryOver }) ? "debt" : "asset",
+        },
+      })) as RingRow;
+
+      setExtraRings((prev) => prev.map((x) => (x.id === r.id ? toExtraRing(row) : x)));
+      setExtraEditId(null);
+    } catch (e) {
+      console.error(e);
+      alert("リングの保存に失敗しました");
+    }
   };
 
-  const removeExtraRing = () => {
+  const removeExtraRing = async () => {
     if (!extraEditId) return;
-    const id = extraEditId;
-    setExtraRings((prev) => prev.filter((x) => x.id !== id));
-    setExtraEditId(null);
+    const r = extraRings.find((x) => x.id === extraEditId);
+    if (!r) return;
+
+    try {
+      await requestRings("DELETE", { ringKey: r.ringKey });
+      setExtraRings((prev) => prev.filter((x) => x.id !== r.id));
+      setExtraEditId(null);
+    } catch (e) {
+      console.error(e);
+      alert("リングの削除に失敗しました");
+    }
   };
 
   // =========================
@@ -1946,8 +2427,8 @@ useEffect(() => {
       value: totalAssetBalance,
       progress: progressToTarget,
       color: "#9ca3af",
-      sub1: `収入 ${yen(monthSummary.income)} / 支出 ${yen(monthSummary.expense)}`,
-      sub2: targetBalance > 0 ? `目標まであと ${yen(remainToTarget)}円` : "",
+      sub1: `収入 ${formatMoney(monthSummary.income, baseCurrency)} / 支出 ${formatMoney(monthSummary.expense, baseCurrency)}`,
+      sub2: targetBalance > 0 ? `目標まであと ${formatMoney(remainToTarget, baseCurrency)}` : "",
       achieved: balanceAchieved,
     };
   }, [
@@ -1958,6 +2439,7 @@ useEffect(() => {
     targetBalance,
     remainToTarget,
     balanceAchieved,
+    baseCurrency,
   ]);
 
   // =========================
@@ -2044,29 +2526,52 @@ useEffect(() => {
       .sort((a, b) => String(a.occurredAt).localeCompare(String(b.occurredAt)))
       .map((t) => {
         const ymd = (t.occurredAt ?? "").slice(0, 10);
-        const type = t.type === "income" ? "収入" : "支出";
-        const amount = yen(t.amount);
+        const type = (t.type === "income" ? "収入" : "支出") + (t.splitId ? "（分割）" : "");
+        const amount = formatMoney(t.amount, t.currency);
         const cat = esc(resolveCategoryLabel(t.category ?? ""));
         const detail = esc(t.detailCategory ?? "");
+        const tags = esc((t.tags ?? []).map((x) => `#${x}`).join(" "));
         return `<tr>
           <td>${esc(ymd)}</td>
           <td>${type}</td>
           <td style="text-align:right;">${esc(amount)}</td>
           <td>${cat}</td>
           <td>${detail}</td>
+          <td>${tags}</td>
         </tr>`;
       })
       .join("");
 
-    const expenseOnly = monthTransactions.filter((t) => t.type === "expense");
+    // 資金移動の2明細は支出でも収入でもない（calcSummary と同じ）
+    const expenseOnly = monthTransactions.filter((t) => t.type === "expense" && !t.transferId);
     const breakdown = new Map<string, number>();
     for (const t of expenseOnly) {
       const key = (t.detailCategory ?? "").trim() || "（未分類）";
-      breakdown.set(key, (breakdown.get(key) ?? 0) + t.amount);
+      breakdown.set(key, (breakdown.get(key) ?? 0) + amountInBase(t, baseCurrency));
     }
     const breakdownRows = Array.from(breakdown.entries())
       .sort((a, b) => b[1] - a[1])
-      .map(([k, v]) => `<tr><td>${esc(k)}</td><td style="text-align:right;">${esc(yen(v))}</td></tr>`)
+      .map(([k, v]) => `<tr><td>${esc(k)}</td><td style="text-align:right;">${esc(formatMoney(v, baseCurrency))}</td></tr>`)
+      .join("");
+
+    // タグ別（1件に複数タグがあればそれぞれに数える）
+    const byTag = new Map<string, { income: number; expense: number }>();
+    for (const t of monthTransactions) {
+      if (t.transferId) continue;
+      for (const tag of t.tags ?? []) {
+        const cur = byTag.get(tag) ?? { income: 0, expense: 0 };
+        cur[t.type] += amountInBase(t, baseCurrency);
+        byTag.set(tag, cur);
+      }
+    }
+    const tagRows = Array.from(byTag.entries())
+      .sort((a, b) => b[1].expense + b[1].income - (a[1].expense + a[1].income))
+      .map(
+        ([k, v]) =>
+          `<tr><td>#${esc(k)}</td><td style="text-align:right;">${esc(formatMoney(v.income, baseCurrency))}</td><td style="text-align:right;">${esc(
+            formatMoney(v.expense, baseCurrency)
+          )}</td></tr>`
+      )
       .join("");
 
     const html = `<!doctype html>
@@ -2097,9 +2602,9 @@ useEffect(() => {
   </div>
 
   <h1>${esc(title)}</h1>
-  <div class="meta">収入 ${esc(yen(monthSummary.income))} / 支出 ${esc(yen(monthSummary.expense))} / 収支 ${esc(
-      yen(monthSummary.balance)
-    )}</div>
+  <div class="meta">収入 ${esc(formatMoney(monthSummary.income, baseCurrency))} / 支出 ${esc(
+      formatMoney(monthSummary.expense, baseCurrency)
+    )} / 収支 ${esc(formatMoney(monthSummary.balance, baseCurrency))}</div>
 
   <div class="box">
     <div style="font-weight:900; margin-bottom:8px;">支出内訳（detailCategory）</div>
@@ -2109,6 +2614,14 @@ useEffect(() => {
     </table>
   </div>
 
+  <div class="box">
+    <div style="font-weight:900; margin-bottom:8px;">タグ別合計</div>
+    <table>
+      <thead><tr><th>タグ</th><th class="right">収入</th><th class="right">支出</th></tr></thead>
+      <tbody>${tagRows || "<tr><td colspan='3'>（タグ付きの明細がありません）</td></tr>"}</tbody>
+    </table>
+  </div>
+
   <div class="box">
     <div style="font-weight:900; margin-bottom:8px;">明細（収入・支出ログ）</div>
     <table>
@@ -2119,9 +2632,10 @@ useEffect(() => {
           <th class="right">金額</th>
           <th>リング</th>
           <th>detailCategory</th>
+          <th>タグ</th>
         </tr>
       </thead>
-      <tbody>${rows || "<tr><td colspan='5'>（データがありません）</td></tr>"}</tbody>
+      <tbody>${rows || "<tr><td colspan='6'>（データがありません）</td></tr>"}</tbody>
     </table>
   </div>
 </body>
@@ -2195,6 +2709,7 @@ useEffect(() => {
   amount={payoffModal.amount}
   date={payoffModal.date}
   isMobile={isMobile}
+  currency={baseCurrency}
   onClose={() => {
     setPayoffModal(null);
 
@@ -2249,48 +2764,150 @@ useEffect(() => {
               切替
             </button>
 
-            <button
-              type="button"
-              onClick={hardReload}
-              style={{
-                padding: "8px 10px",
-                borderRadius: 10,
-                border: "1px solid #ddd",
-                background: "#fff",
-                cursor: "pointer",
-                fontWeight: 900,
-                fontSize: 12,
-              }}
-            >
-              最新版読み直し
-            </button>
-          </>
-        )}
+            <button
+              type="button"
+              onClick={hardReload}
+              style={{
+                padding: "8px 10px",
+                borderRadius: 10,
+                border: "1px solid #ddd",
+                background: "#fff",
+                cursor: "pointer",
+                fontWeight: 900,
+                fontSize: 12,
+              }}
+            >
+              最新版読み直し
+            </button>
+          </>
+        )}
+
+        <button
+        type="button"
+        onClick={exportBackup}
+        style={{
+        padding: "10px 12px",
+        borderRadius: 12,
+        border: "1px solid #111",
+        background: "#fff",
+        color: "#111",
+        cursor: "pointer",
+        fontWeight: 900,
+        fontSize: 12,
+      }}
+>
+  バックアップ
+</button>
+
+<button
+  type="button"
+  onClick={() => importFileRef.current?.click()}
+  style={{
+    padding: "10px 12px",
+    borderRadius: 12,
+    border: "1px solid #111",
+    background: "#fff",
+    color: "#111",
+    cursor: "pointer",
+    fontWeight: 900,
+    fontSize: 12,
+  }}
+>
+  復元
+</button>
+
+<button
+  type="button"
+  onClick={() => setTrashOpen(true)}
+  style={{
+    padding: "10px 12px",
+    borderRadius: 12,
+    border: "1px solid #ddd",
+    background: "#fff",
+    color: "#111",
+    cursor: "pointer",
+    fontWeight: 900,
+    fontSize: 12,
+  }}
+>
+  ゴミ箱
+</button>
+
+<button
+  type="button"
+  onClick={() => setRecurringOpen(true)}
+  style={{
+    padding: "10px 12px",
+    borderRadius: 12,
+    border: "1px solid #ddd",
+    background: "#fff",
+    color: "#111",
+    cursor: "pointer",
+    fontWeight: 900,
+    fontSize: 12,
+  }}
+>
+  定期
+</button>
+
+<button
+  type="button"
+  onClick={() => setRatesOpen(true)}
+  style={{
+    padding: "10px 12px",
+    borderRadius: 12,
+    border: "1px solid #ddd",
+    background: "#fff",
+    color: "#111",
+    cursor: "pointer",
+    fontWeight: 900,
+    fontSize: 12,
+  }}
+>
+  通貨
+</button>
+
+<button
+  type="button"
+  onClick={() => setCsvOpen(true)}
+  style={{
+    padding: "10px 12px",
+    borderRadius: 12,
+    border: "1px solid #ddd",
+    background: "#fff",
+    color: "#111",
+    cursor: "pointer",
+    fontWeight: 900,
+    fontSize: 12,
+  }}
+>
+  CSV・Excel
+</button>
 
-        <button
-        type="button"
-        onClick={exportBackup}
-        style={{
-        padding: "10px 12px",
-        borderRadius: 12,
-        border: "1px solid #111",
-        background: "#fff",
-        color: "#111",
-        cursor: "pointer",
-        fontWeight: 900,
-        fontSize: 12,
-      }}
+<button
+  type="button"
+  onClick={() => setStatementOpen(true)}
+  style={{
+    padding: "10px 12px",
+    borderRadius: 12,
+    border: "1px solid #ddd",
+    background: "#fff",
+    color: "#111",
+    cursor: "pointer",
+    fontWeight: 900,
+    fontSize: 12,
+  }}
 >
-  バックアップ
+  銀行・カード
 </button>
 
 <button
   type="button"
-  onClick={() => importFileRef.current?.click()}
+  onClick={() => setAppImportOpen(true)}
   style={{
     padding: "10px 12px",
     borderRadius: 12,
-    border: "1px solid #111",
+    border: "1px solid #ddd",
     background: "#fff",
     color: "#111",
     cursor: "pointer",
@@ -2298,7 +2915,7 @@ useEffect(() => {
     fontSize: 12,
   }}
 >
-  復元
+  他のアプリから
 </button>
 
 <input
@@ -2359,6 +2976,28 @@ useEffect(() => {
         >
           ▶
         </button>
+
+        {activeHousehold && (
+          <>
+            <span style={{ fontSize: 12, fontWeight: 800, opacity: 0.75 }}>
+              👪 {activeHousehold.name}
+              {activeHousehold.role === "viewer" ? "（見るだけ）" : ""}
+            </span>
+            <select
+              value={summaryMember ?? ""}
+              onChange={(e) => setMemberFilter(e.target.value ? Number(e.target.value) : null)}
+              aria-label="集計するメンバー"
+              style={{ padding: "8px 10px", borderRadius: 12, border: "1px solid #ccc", background: "#fff", fontSize: 12 }}
+            >
+              <option value="">全員の集計</option>
+              {activeHousehold.members.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.name} の集計
+                </option>
+              ))}
+            </select>
+          </>
+        )}
       </div>
 
       {/* ✅ userKey表示モーダル（本番OK） */}
@@ -2381,6 +3020,8 @@ useEffect(() => {
           <div
             style={{
               width: "min(560px, 96vw)",
+              maxHeight: "88vh",
+              overflowY: "auto",
               background: "#fff",
               borderRadius: 16,
               padding: 16,
@@ -2451,6 +3092,25 @@ useEffect(() => {
 
             <hr style={{ margin: "12px 0" }} />
 
+            <div style={{ fontSize: 11, opacity: 0.7, fontWeight: 900, marginBottom: 6 }}>
+              アカウント（ログインすると、どの端末でも同じデータを安全に使えます）
+            </div>
+            <AccountPanel userKey={userKey} onSwitchUserKey={switchUserKey} />
+
+            <hr style={{ margin: "12px 0" }} />
+
+            <div style={{ fontSize: 11, opacity: 0.7, fontWeight: 900, marginBottom: 6 }}>
+              共有家計簿（家族で1つの家計簿をつける）
+            </div>
+            <HouseholdPanel
+              userKey={userKey}
+              households={households}
+              onChanged={setHouseholds}
+              onSwitched={hardReload}
+            />
+
+            <hr style={{ margin: "12px 0" }} />
+
             <div style={{ fontSize: 11, opacity: 0.7, fontWeight: 900, marginBottom: 6 }}>
               別のユーザーIDを貼り付けて、この端末のIDを揃える
             </div>
@@ -2525,6 +3185,16 @@ useEffect(() => {
                 クリア
               </button>
             </div>
+
+            <hr style={{ margin: "12px 0" }} />
+
+            <div style={{ fontSize: 11, opacity: 0.7, fontWeight: 900, marginBottom: 6 }}>
+              別のユーザーIDのデータを、このIDにまとめる
+            </div>
+            <div style={{ fontSize: 11, opacity: 0.65, marginBottom: 8 }}>
+              ※ 2台の端末で別々に付けていた時など。明細・リング・目標を移します
+            </div>
+            <MergePanel userKey={userKey} householdActive={!!activeHousehold} onMerged={hardReload} />
           </div>
         </div>
       )}
@@ -2606,12 +3276,30 @@ useEffect(() => {
         <summary style={{ fontWeight: 900, cursor: "pointer" }}>手入力で追加（ここをタップで開く）</summary>
 
         <div style={{ marginTop: 12 }}>
+          <button
+            type="button"
+            onClick={() => openSplitEditor()}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: "1px solid #ddd",
+              background: "#fff",
+              cursor: "pointer",
+              fontWeight: 800,
+              fontSize: 12,
+              marginBottom: 10,
+            }}
+          >
+            レシートを分割して入力（食費＋日用品 など）
+          </button>
+
           <TransactionForm
             editing={editing}
             categorySuggestions={categorySuggestions}
+            tagSuggestions={tagSuggestions}
             ringTitleResolver={ringTitleResolver}
             onAdded={(t) => {
-              setTransactions((prev) => [t, ...prev]);
+              setTransactions((prev) => [t, ...prev.filter((x) => x.id !== t.id)]);
               setEditing(null);
             }}
             onUpdated={(t) => {
@@ -2782,7 +3470,7 @@ useEffect(() => {
                   lineHeight: 1.05,
                 }}
               >
-                {yen(centerCard.value)}円
+                {formatMoney(centerCard.value, baseCurrency)}
               </div>
 
               {centerCard.sub1 && <div style={{ marginTop: 10, fontSize: 13, opacity: 0.75 }}>{centerCard.sub1}</div>}
@@ -2835,11 +3523,11 @@ useEffect(() => {
 
             <div style={{ zIndex: 2 }}>
               <div style={{ fontSize: 13, opacity: 0.75, fontWeight: 800 }}>生活費</div>
-              <div style={{ fontSize: isMobile ? 26 : 30, fontWeight: 900 }}>{yen(lifeSpent)}円</div>
+              <div style={{ fontSize: isMobile ? 26 : 30, fontWeight: 900 }}>{formatMoney(lifeSpent, baseCurrency)}</div>
               <div style={{ marginTop: 4, fontSize: 11, opacity: 0.6 }}>今月</div>
 
               {lifeTarget > 0 && lifeTarget - lifeSpent > 0 && (
-                <div style={{ fontSize: 11, marginTop: 2, opacity: 0.75 }}>目標まであと {(lifeTarget - lifeSpent).toLocaleString()}円</div>
+                <div style={{ fontSize: 11, marginTop: 2, opacity: 0.75 }}>目標まであと {formatMoney(lifeTarget - lifeSpent, baseCurrency)}</div>
               )}
 
               {lifeTarget > 0 && lifeTarget - lifeSpent <= 0 && <div style={{ fontSize: 11, marginTop: 2, color: "green" }}>🎉 達成！</div>}
@@ -2884,7 +3572,7 @@ useEffect(() => {
 
             <div style={{ zIndex: 2 }}>
               <div style={{ fontSize: 13, opacity: 0.75, fontWeight: 800 }}>貯蓄</div>
-              <div style={{ fontSize: isMobile ? 26 : 30, fontWeight: 900 }}>{yen(savedThisMonth)}円</div>
+              <div style={{ fontSize: isMobile ? 26 : 30, fontWeight: 900 }}>{formatMoney(savedThisMonth, baseCurrency)}</div>
               <div style={{ marginTop: 4, fontSize: 11, opacity: 0.6 }}>今月</div>
             </div>
           </button>
@@ -2936,6 +3624,7 @@ useEffect(() => {
                 repayInfo={repayInfo}
                 isGlowing={glowRingId === r.id}
                 selected={selectedRing === r.id}
+                currency={baseCurrency}
                 isMobile={isMobile}
                 pos={p}
                 strokeSmall={strokeSmall}
@@ -2971,6 +3660,275 @@ useEffect(() => {
         </div>
       </div>
 
+      {restoreDraft && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          style={{
+            position: "fixed",
+            inset: 0,
+            background: "rgba(0,0,0,0.35)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: 16,
+            zIndex: 10000,
+          }}
+          onClick={() => !restoreDraft.busy && setRestoreDraft(null)}
+        >
+          <div
+            style={{
+              width: "min(560px, 96vw)",
+              maxHeight: "88vh",
+              overflowY: "auto",
+              background: "#fff",
+              borderRadius: 16,
+              padding: 16,
+              boxShadow: "0 20px 60px rgba(0,0,0,0.25)",
+            }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div style={{ fontWeight: 900, fontSize: 18, marginBottom: 6 }}>バックアップから復元</div>
+            <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 12 }}>
+              {restoreDraft.backup.exportedAt ? `作成日時：${restoreDraft.backup.exportedAt.slice(0, 16).replace("T", " ")}` : ""}
+              {restoreDraft.backup.userKey ? ` / userKey：${maskKey(restoreDraft.backup.userKey)}` : ""}
+            </div>
+
+            <div style={{ display: "flex", gap: 10, marginBottom: 12 }}>
+              {(
+                [
+                  ["merge", "追加（重複はスキップ）"],
+                  ["replace", "全部置き換え"],
+                ] as const
+              ).map(([m, label]) => (
+                <button
+                  key={m}
+                  type="button"
+                  disabled={restoreDraft.busy}
+                  onClick={() => previewRestore(restoreDraft.raw, restoreDraft.backup, m)}
+                  style={{
+                    flex: 1,
+                    padding: "10px 12px",
+                    borderRadius: 12,
+                    border: "1px solid #ccc",
+                    background: restoreDraft.mode === m ? "#111" : "#fff",
+                    color: restoreDraft.mode === m ? "#fff" : "#111",
+                    fontWeight: 900,
+                    cursor: "pointer",
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {restoreDraft.error && (
+              <div style={{ fontSize: 12, color: "#b42318", marginBottom: 10 }}>エラー：{restoreDraft.error}</div>
+            )}
+
+            {!restoreDraft.diff && !restoreDraft.error && <div style={{ fontSize: 12, opacity: 0.7 }}>差分を確認中…</div>}
+
+            {restoreDraft.diff && (
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 12 }}>
+                <thead>
+                  <tr>
+                    <th style={{ textAlign: "left", padding: 6 }}></th>
+                    <th style={{ textAlign: "right", padding: 6 }}>バックアップ</th>
+                    <th style={{ textAlign: "right", padding: 6 }}>追加</th>
+                    <th style={{ textAlign: "right", padding: 6 }}>スキップ</th>
+                    <th style={{ textAlign: "right", padding: 6 }}>削除</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(
+                    [
+                      ["明細", restoreDraft.diff.transactions],
+                      ["リング", restoreDraft.diff.rings],
+                      ["目標", restoreDraft.diff.goals],
+                    ] as const
+                  ).map(([label, d]) => (
+                    <tr key={label} style={{ borderTop: "1px solid #eee" }}>
+                      <td style={{ padding: 6, fontWeight: 900 }}>{label}</td>
+                      <td style={{ padding: 6, textAlign: "right" }}>{d.incoming}</td>
+                      <td style={{ padding: 6, textAlign: "right" }}>{d.create}</td>
+                      <td style={{ padding: 6, textAlign: "right" }}>{d.skip}</td>
+                      <td style={{ padding: 6, textAlign: "right", color: d.delete > 0 ? "#b42318" : undefined }}>{d.delete}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div style={{ display: "flex", gap: 10, marginTop: 14 }}>
+              <button
+                type="button"
+                onClick={applyRestore}
+                disabled={restoreDraft.busy || !restoreDraft.diff}
+                style={{
+                  flex: 1,
+                  padding: "10px 14px",
+                  borderRadius: 12,
+                  border: "1px solid #111",
+                  background: "#111",
+                  color: "#fff",
+                  fontWeight: 900,
+                  cursor: restoreDraft.busy || !restoreDraft.diff ? "not-allowed" : "pointer",
+                  opacity: restoreDraft.busy || !restoreDraft.diff ? 0.6 : 1,
+                }}
+              >
+                {restoreDraft.busy ? "処理中…" : "この内容で復元"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setRestoreDraft(null)}
+                disabled={restoreDraft.busy}
+                style={{
+                  padding: "10px 14px",
+                  borderRadius: 12,
+                  border: "1px solid #ddd",
+                  background: "#fff",
+                  fontWeight: 900,
+                  cursor: "pointer",
+                }}
+              >
+                キャンセル
+              </button>
+            </div>
+
+            <div style={{ marginTop: 10, fontSize: 11, opacity: 0.65 }}>
+              ※復元は一括で行われます。途中で失敗した場合は何も変更されません
+            </div>
+          </div>
+        </div>
+      )}
+
+      {trashOpen && (
+        <TrashPanel
+          userKey={userKey}
+          resolveLabel={resolveCategoryLabel}
+          onClose={() => setTrashOpen(false)}
+          onRestored={putBackTransaction}
+        />
+      )}
+
+      {recurringOpen && (
+        <RecurringPanel
+          userKey={userKey}
+          categories={ringTitleResolver}
+          resolveLabel={resolveCategoryLabel}
+          onClose={() => setRecurringOpen(false)}
+          onChanged={() => setTxReloadTick((n) => n + 1)}
+        />
+      )}
+
+      {splitEditor && (
+        <SplitEditor
+          userKey={userKey}
+          editing={splitEditor.split}
+          defaultCurrency={baseCurrency}
+          ringTitleResolver={ringTitleResolver}
+          categorySuggestions={categorySuggestions}
+          onClose={() => setSplitEditor(null)}
+          onSaved={onSplitSaved}
+        />
+      )}
+
+      {ratesOpen && (
+        <ExchangeRatePanel
+          userKey={userKey}
+          baseCurrency={baseCurrency}
+          onBaseCurrencyChange={changeBaseCurrency}
+          onClose={() => setRatesOpen(false)}
+          onChanged={() => setTxReloadTick((n) => n + 1)}
+        />
+      )}
+
+      {csvOpen && (
+        <CsvPanel
+          userKey={userKey}
+          selectedYm={selectedYm}
+          defaultCurrency={baseCurrency}
+          categories={ringTitleResolver}
+          resolveLabel={resolveCategoryLabel}
+          onClose={() => setCsvOpen(false)}
+          onImported={() => setTxReloadTick((n) => n + 1)}
+        />
+      )}
+
+      {statementOpen && (
+        <StatementPanel
+          userKey={userKey}
+          categories={ringTitleResolver}
+          resolveLabel={resolveCategoryLabel}
+          onClose={() => setStatementOpen(false)}
+          onImported={() => setTxReloadTick((n) => n + 1)}
+        />
+      )}
+
+      {appImportOpen && (
+        <AppImportPanel
+          userKey={userKey}
+          categories={ringTitleResolver}
+          resolveLabel={resolveCategoryLabel}
+          onClose={() => setAppImportOpen(false)}
+          onImported={() => setTxReloadTick((n) => n + 1)}
+        />
+      )}
+
+      {historyTarget && (
+        <TransactionHistoryPanel
+          userKey={userKey}
+          transaction={historyTarget}
+          resolveLabel={resolveCategoryLabel}
+          onClose={() => setHistoryTarget(null)}
+          onReverted={(t) => {
+            putBackTransaction(t);
+            if (editing?.id === t.id) setEditing(null);
+          }}
+        />
+      )}
+
+      {undoTarget && (
+        <div
+          role="status"
+          style={{
+            position: "fixed",
+            left: "50%",
+            bottom: 24,
+            transform: "translateX(-50%)",
+            background: "#111",
+            color: "#fff",
+            borderRadius: 12,
+            padding: "10px 14px",
+            display: "flex",
+            alignItems: "center",
+            gap: 12,
+            fontSize: 13,
+            boxShadow: "0 10px 30px rgba(0,0,0,0.25)",
+            zIndex: 10001,
+          }}
+        >
+          <span>
+            {resolveCategoryLabel(undoTarget.category)} {formatMoney(undoTarget.amount, undoTarget.currency)} を削除しました
+          </span>
+          <button
+            type="button"
+            onClick={undoDelete}
+            style={{
+              padding: "6px 10px",
+              borderRadius: 10,
+              border: "1px solid #fff",
+              background: "transparent",
+              color: "#fff",
+              fontWeight: 900,
+              cursor: "pointer",
+            }}
+          >
+            元に戻す
+          </button>
+        </div>
+      )}
+
       {goalModalOpen && (
         <div
           role="dialog"
@@ -3013,6 +3971,11 @@ useEffect(() => {
                 if (cat === GOAL_ASSET_KEY) return "総資産 目標";
                 return resolveCategoryLabel(cat);
               }}
+              asOf={selectedEnd}
+              defaultEffectiveFrom={`${selectedYm}-01`}
+              onSaved={() => {
+                loadRingGoals(selectedEnd).then(setRingGoals);
+              }}
             />
 
             <div style={{ display: "flex", justifyContent: "flex-end", marginTop: 12 }}>
@@ -3071,14 +4034,55 @@ useEffect(() => {
               if (!meta) return null;
 
               const mode = meta.mode;
-              const showTabs = mode === "both";
+              const showTabs = mode === "both" && !quickTransfer;
               const forcedType: TxType =
                 meta.mode === "income_only" ? "income" : meta.mode === "expense_only" ? "expense" : quickType;
 
+              // 移動先の候補（このリング以外。貯蓄の別名は1つにまとめる）
+              const fromCategory = ringCategory(meta.ringKey);
+              const transferTargets = ringTitleResolver.filter(
+                (p, i, all) => p.category !== fromCategory && all.findIndex((x) => x.category === p.category) === i
+              );
+
               return (
                 <>
                   <div style={{ fontWeight: 900, fontSize: 18, marginBottom: 10 }}>入力：{meta.title}</div>
 
+                  <div style={{ display: "flex", gap: 10, marginBottom: 12 }}>
+                    <button
+                      type="button"
+                      onClick={() => setQuickTransfer(false)}
+                      style={{
+                        padding: "8px 12px",
+                        borderRadius: 12,
+                        border: !quickTransfer ? "2px solid #111" : "1px solid #ddd",
+                        background: "#fff",
+                        cursor: "pointer",
+                        fontWeight: 900,
+                        flex: 1,
+                      }}
+                    >
+                      通常の入力
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setQuickTransfer(true)}
+                      disabled={transferTargets.length === 0}
+                      style={{
+                        padding: "8px 12px",
+                        borderRadius: 12,
+                        border: quickTransfer ? "2px solid #111" : "1px solid #ddd",
+                        background: "#fff",
+                        cursor: transferTargets.length === 0 ? "not-allowed" : "pointer",
+                        fontWeight: 900,
+                        flex: 1,
+                        opacity: transferTargets.length === 0 ? 0.5 : 1,
+                      }}
+                    >
+                      資金移動
+                    </button>
+                  </div>
+
                   {showTabs && (
                     <div style={{ display: "flex", gap: 10, marginBottom: 12 }}>
                       <button
@@ -3114,7 +4118,33 @@ useEffect(() => {
                     </div>
                   )}
 
-                  {!showTabs && (
+                  {quickTransfer && (
+                    <label style={{ display: "block", fontSize: 12, opacity: 0.75, marginBottom: 12 }}>
+                      移動先
+                      <select
+                        value={quickTransferTo}
+                        onChange={(e) => setQuickTransferTo(e.target.value)}
+                        style={{
+                          width: "100%",
+                          padding: 12,
+                          borderRadius: 12,
+                          border: "1px solid #ddd",
+                          fontSize: 14,
+                          marginTop: 6,
+                          background: "#fff",
+                        }}
+                      >
+                        <option value="">選んでください</option>
+                        {transferTargets.map((p) => (
+                          <option key={p.category} value={p.category}>
+                            {p.title}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+
+                  {!showTabs && !quickTransfer && (
                     <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 12 }}>
                       {mode === "income_only" ? "このリングは「収入のみ」入力です" : "このリングは「支出のみ」入力です"}
                     </div>
@@ -3139,21 +4169,35 @@ useEffect(() => {
                     </label>
 
                     <label style={{ fontSize: 12, opacity: 0.75 }}>
-                      金額（円）
-                      <input
-                        value={quickAmountStr}
-                        onChange={(e) => setQuickAmountStr(e.target.value)}
-                        inputMode="text"
-                        style={{
-                          width: "100%",
-                          padding: 12,
-                          borderRadius: 12,
-                          border: "1px solid #ddd",
-                          fontSize: 16,
-                          marginTop: 6,
-                        }}
-                        placeholder="例) 50000 / 5万 / 1.2万"
-                      />
+                      金額
+                      <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+                        <input
+                          value={quickAmountStr}
+                          onChange={(e) => setQuickAmountStr(e.target.value)}
+                          inputMode="text"
+                          style={{
+                            flex: 1,
+                            minWidth: 0,
+                            padding: 12,
+                            borderRadius: 12,
+                            border: "1px solid #ddd",
+                            fontSize: 16,
+                          }}
+                          placeholder={quickCurrency === DEFAULT_CURRENCY ? "例) 50000 / 5万 / 1.2万" : "例) 12.50"}
+                        />
+                        <select
+                          value={quickCurrency}
+                          onChange={(e) => setQuickCurrency(e.target.value)}
+                          aria-label="通貨"
+                          style={{ padding: 12, borderRadius: 12, border: "1px solid #ddd", fontSize: 14, background: "#fff" }}
+                        >
+                          {CURRENCIES.map((c) => (
+                            <option key={c} value={c}>
+                              {c === DEFAULT_CURRENCY ? "円" : c}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
                     </label>
 
                     <label style={{ fontSize: 12, opacity: 0.75 }}>
@@ -3170,14 +4214,36 @@ useEffect(() => {
                           fontSize: 16,
                           marginTop: 6,
                         }}
-                        placeholder={forcedType === "income" ? "例）報酬 / 給与 / その他" : "例）コンビニ / 外食 / スーパー"}
+                        placeholder={
+                          quickTransfer
+                            ? "例）口座移動 / 積立（空なら「資金移動」）"
+                            : forcedType === "income"
+                              ? "例）報酬 / 給与 / その他"
+                              : "例）コンビニ / 外食 / スーパー"
+                        }
                       />
                     </label>
 
-                    <div style={{ fontSize: 11, opacity: 0.6 }}>
-                      保存すると「{forcedType === "income" ? "収入" : "支出"}」として追加されます。<br />
-                      category は自動で {ringCategory(meta.ringKey)} になります
-                    </div>
+                    {!quickTransfer && (
+                      <div style={{ fontSize: 12, opacity: 0.75 }}>
+                        タグ
+                        <div style={{ marginTop: 6 }}>
+                          <TagInput value={quickTags} onChange={setQuickTags} suggestions={tagSuggestions} />
+                        </div>
+                      </div>
+                    )}
+
+                    {quickTransfer ? (
+                      <div style={{ fontSize: 11, opacity: 0.6 }}>
+                        保存すると {meta.title} の「支出」と移動先の「収入」が同じ金額で1組追加されます。<br />
+                        どちらも累計リングなら、総資産は増えも減りもしません
+                      </div>
+                    ) : (
+                      <div style={{ fontSize: 11, opacity: 0.6 }}>
+                        保存すると「{forcedType === "income" ? "収入" : "支出"}」として追加されます。<br />
+                        category は自動で {ringCategory(meta.ringKey)} になります
+                      </div>
+                    )}
                   </div>
 
                 <div
@@ -3486,16 +4552,46 @@ useEffect(() => {
         </div>
       )}
 
+      {(summary?.missingRates?.length ?? 0) > 0 && (
+        <div
+          style={{
+            marginTop: 16,
+            padding: "10px 12px",
+            borderRadius: 12,
+            border: "1px solid #f5c26b",
+            background: "#fffaf0",
+            fontSize: 12,
+          }}
+        >
+          {summary?.missingRates.join(" / ")} の為替レートが無い明細は、合計に入っていません（「通貨」から登録できます）
+        </div>
+      )}
+
       <hr style={{ margin: "24px 0" }} />
 
       <TransactionList
         transactions={monthTransactions}
         onEdit={startEdit}
         onDeleted={(id) => {
-          setTransactions((prev) => prev.filter((t) => t.id !== id));
+          const removed = transactions.find((t) => t.id === id);
+          if (removed) showUndo(removed);
+          // 資金移動・分割明細は同じ組の明細も一緒にゴミ箱へ入る
+          const transferId = removed?.transferId ?? null;
+          const splitId = removed?.splitId ?? null;
+          setTransactions((prev) =>
+            prev.filter(
+              (t) =>
+                t.id !== id &&
+                (transferId === null || t.transferId !== transferId) &&
+                (splitId === null || t.splitId !== splitId)
+            )
+          );
           if (editing?.id === id) setEditing(null);
         }}
+        onShowHistory={setHistoryTarget}
+        onEditSplit={openSplitEditor}
         resolveCategoryLabel={resolveCategoryLabel}
+        memberNames={memberNames}
       />
     </div> 
   );
@@ -0,0 +1,53 @@
+// app/api/auth/account/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { badRequest, internalError, isUniqueViolation } from "@/lib/api";
+import { hashPassword, listLedgers, startSession } from "@/lib/auth";
+import { getRequestedUserKey } from "@/lib/identity";
+import { parseCredentials } from "@/lib/validators";
+
+/**
+ * POST /api/auth/account
+ * - body: { email, password }
+ * - アカウントを作ってそのままログインする
+ * - 送ってきた userKey がまだどのアカウントにも紐づいていなければ、この台帳として引き継ぐ
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") return badRequest("body must be JSON");
+
+    const input = parseCredentials(body);
+    if (typeof input === "string") return badRequest(input);
+
+    const passwordHash = await hashPassword(input.password);
+    const userKey = getRequestedUserKey(req);
+
+    let account;
+    try {
+      account = await prisma.$transaction(async (tx) => {
+        const created = await tx.account.create({
+          data: { email: input.email, passwordHash },
+          select: { id: true, email: true },
+        });
+        if (userKey) {
+          // 別アカウントに紐づいている userKey は引き継がない
+          await tx.accountLedger.createMany({
+            data: [{ userKey, accountId: created.id }],
+            skipDuplicates: true,
+          });
+        }
+        return created;
+      });
+    } catch (e) {
+      if (isUniqueViolation(e)) return NextResponse.json({ error: "email is already registered" }, { status: 409 });
+      throw e;
+    }
+
+    const res = NextResponse.json({ account, ledgers: await listLedgers(account.id) }, { status: 201 });
+    await startSession(res, account.id);
+    return res;
+  } catch (e) {
+    return internalError(e);
+  }
+}
@@ -0,0 +1,69 @@
+// app/api/auth/ledgers/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { badRequest, internalError, notFound, unauthorized, USER_KEY_REQUIRED } from "@/lib/api";
+import { getSessionAccount, listLedgers } from "@/lib/auth";
+import { getRequestedUserKey } from "@/lib/identity";
+
+/**
+ * GET /api/auth/ledgers
+ * - ログイン中のアカウントに紐づいた userKey の一覧
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const account = await getSessionAccount(req);
+    if (!account) return unauthorized();
+
+    return NextResponse.json({ ledgers: await listLedgers(account.id) });
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * POST /api/auth/ledgers
+ * - いま使っている userKey（x-user-key / cookie）をログイン中のアカウントに紐づける
+ * - 紐づけた後は、ログインしていない端末からはその userKey で読み書きできない
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const account = await getSessionAccount(req);
+    if (!account) return unauthorized();
+
+    const userKey = getRequestedUserKey(req);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const link = await prisma.accountLedger.findUnique({ where: { userKey } });
+    if (link && link.accountId !== account.id) {
+      return NextResponse.json({ error: "this user key is linked to another account" }, { status: 409 });
+    }
+    if (!link) {
+      await prisma.accountLedger.createMany({ data: [{ userKey, accountId: account.id }], skipDuplicates: true });
+    }
+
+    return NextResponse.json({ ledgers: await listLedgers(account.id) });
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * DELETE /api/auth/ledgers?userKey=...
+ * - 紐づけを外す（台帳のデータはそのまま。userKey を知っていれば誰でも使える状態に戻る）
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const account = await getSessionAccount(req);
+    if (!account) return unauthorized();
+
+    const userKey = new URL(req.url).searchParams.get("userKey")?.trim();
+    if (!userKey) return badRequest("userKey is required");
+
+    const deleted = await prisma.accountLedger.deleteMany({ where: { userKey, accountId: account.id } });
+    if (deleted.count === 0) return notFound();
+
+    return NextResponse.json({ ledgers: await listLedgers(account.id) });
+  } catch (e) {
+    return internalError(e);
+  }
+}
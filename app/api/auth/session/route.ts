@@ -0,0 +1,63 @@
+// app/api/auth/session/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { badRequest, internalError, unauthorized } from "@/lib/api";
+import { burnPasswordCheck, endSession, getSessionAccount, listLedgers, startSession, verifyPassword } from "@/lib/auth";
+import { parseCredentials } from "@/lib/validators";
+
+/**
+ * GET /api/auth/session
+ * - ログイン中のアカウントと、紐づいている userKey の一覧（未ログインなら account: null）
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const account = await getSessionAccount(req);
+    return NextResponse.json({ account, ledgers: account ? await listLedgers(account.id) : [] });
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * POST /api/auth/session
+ * - body: { email, password } でログイン（httpOnly cookie にセッションを入れる）
+ * - メールとパスワードのどちらが違うかは返さない
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") return badRequest("body must be JSON");
+
+    const input = parseCredentials(body);
+    if (typeof input === "string") return badRequest(input);
+
+    const row = await prisma.account.findUnique({ where: { email: input.email } });
+    if (!row) {
+      await burnPasswordCheck(input.password);
+      return unauthorized("email or password is incorrect");
+    }
+    if (!(await verifyPassword(input.password, row.passwordHash))) {
+      return unauthorized("email or password is incorrect");
+    }
+
+    const res = NextResponse.json({ account: { id: row.id, email: row.email }, ledgers: await listLedgers(row.id) });
+    await startSession(res, row.id);
+    return res;
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * DELETE /api/auth/session
+ * - ログアウト
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const res = NextResponse.json({ ok: true });
+    await endSession(req, res);
+    return res;
+  } catch (e) {
+    return internalError(e);
+  }
+}
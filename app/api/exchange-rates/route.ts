@@ -0,0 +1,110 @@
+// app/api/exchange-rates/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import type { ExchangeRate } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getUserKey,
+  internalError,
+  notFound,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { parseRatesCsv } from "@/lib/exchangeRates";
+import { parseExchangeRateInput } from "@/lib/validators";
+
+// 日付は YYYY-MM-DD、rate は文字列（Decimal の桁を落とさない）
+function toJson(r: ExchangeRate) {
+  return { ...r, date: r.date.toISOString().slice(0, 10), rate: r.rate.toString() };
+}
+
+/**
+ * GET /api/exchange-rates
+ * - 登録済みのレート（新しい日付順）
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const rows = await prisma.exchangeRate.findMany({
+      where: { userKey },
+      orderBy: [{ date: "desc" }, { currency: "asc" }, { quote: "asc" }],
+    });
+
+    return NextResponse.json(rows.map(toJson));
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * POST /api/exchange-rates
+ * - body: { date, currency, quote?, rate }（1件の手入力）または { csv: "..." }（まとめて取り込み）
+ * - 同じ日・同じ通貨ペアは上書き
+ * - CSV は1行でも壊れていたら何も保存せず 400（errors に行番号）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const body = (await req.json()) ?? {};
+
+    let rates;
+    if (typeof body.csv === "string") {
+      const parsed = parseRatesCsv(body.csv);
+      if (parsed.errors.length > 0) {
+        return NextResponse.json({ error: "csv has invalid rows", errors: parsed.errors }, { status: 400 });
+      }
+      if (parsed.rates.length === 0) return badRequest("csv has no rates");
+      rates = parsed.rates;
+    } else {
+      const input = parseExchangeRateInput(body);
+      if (typeof input === "string") return badRequest(input);
+      rates = [input];
+    }
+
+    const saved = await prisma.$transaction(
+      rates.map((r) =>
+        prisma.exchangeRate.upsert({
+          where: {
+            userKey_currency_quote_date: { userKey, currency: r.currency, quote: r.quote, date: r.date },
+          },
+          create: { userKey, ...r },
+          update: { rate: r.rate },
+        })
+      )
+    );
+
+    return NextResponse.json({ imported: saved.length, items: saved.map(toJson) });
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * DELETE /api/exchange-rates?id=123
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const idStr = new URL(req.url).searchParams.get("id");
+    const id = Number(idStr);
+    if (!idStr || !Number.isInteger(id) || id <= 0) return badRequest("id is required");
+
+    const deleted = await prisma.exchangeRate.deleteMany({ where: { id, userKey } });
+    if (deleted.count === 0) return notFound();
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return internalError(e);
+  }
+}
@@ -0,0 +1,32 @@
+// app/api/households/active/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { badRequest, getPersonalKey, internalError, notFound, USER_KEY_REQUIRED } from "@/lib/api";
+import { findMembership } from "@/lib/households";
+import { setHouseholdCookie } from "@/lib/identity";
+
+/**
+ * POST /api/households/active
+ * - body: { householdId: number | null }
+ * - この端末で使う台帳を切り替える（null なら自分の台帳に戻す）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const personal = await getPersonalKey(req);
+    if (!personal) return badRequest(USER_KEY_REQUIRED);
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") return badRequest("body must be JSON");
+
+    const householdId = body.householdId === null ? null : Number(body.householdId);
+    if (householdId !== null) {
+      if (!Number.isInteger(householdId) || householdId <= 0) return badRequest("householdId must be an id or null");
+      if (!(await findMembership(householdId, personal))) return notFound();
+    }
+
+    const res = NextResponse.json({ activeId: householdId });
+    setHouseholdCookie(res, householdId);
+    return res;
+  } catch (e) {
+    return internalError(e);
+  }
+}
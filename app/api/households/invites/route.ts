@@ -0,0 +1,41 @@
+// app/api/households/invites/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { badRequest, getPersonalKey, internalError, notFound, USER_KEY_REQUIRED } from "@/lib/api";
+import { findMembership, hashInviteCode, INVITE_DAYS, newInviteCode } from "@/lib/households";
+import { parseMemberRole } from "@/lib/validators";
+
+/**
+ * POST /api/households/invites
+ * - body: { householdId, role: "editor" | "viewer" }
+ * - owner だけ。1回だけ使える招待コードを発行する（コードはこの応答でしか見られない）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const personal = await getPersonalKey(req);
+    if (!personal) return badRequest(USER_KEY_REQUIRED);
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") return badRequest("body must be JSON");
+
+    const householdId = Number(body.householdId);
+    if (!Number.isInteger(householdId) || householdId <= 0) return badRequest("householdId is required");
+
+    const role = parseMemberRole(body.role);
+    if (!role) return badRequest('role must be "editor" or "viewer"');
+
+    const me = await findMembership(householdId, personal);
+    if (!me) return notFound();
+    if (me.role !== "owner") return NextResponse.json({ error: "only the owner can invite" }, { status: 403 });
+
+    const code = newInviteCode();
+    const expiresAt = new Date(Date.now() + INVITE_DAYS * 24 * 60 * 60 * 1000);
+    await prisma.householdInvite.create({
+      data: { householdId, codeHash: hashInviteCode(code), role, createdBy: me.id, expiresAt },
+    });
+
+    return NextResponse.json({ code, role, expiresAt }, { status: 201 });
+  } catch (e) {
+    return internalError(e);
+  }
+}
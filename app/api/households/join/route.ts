@@ -0,0 +1,59 @@
+// app/api/households/join/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { badRequest, getPersonalKey, internalError, isUniqueViolation, USER_KEY_REQUIRED } from "@/lib/api";
+import { hashInviteCode, listHouseholds } from "@/lib/households";
+import { setHouseholdCookie } from "@/lib/identity";
+import { parseJoinInput } from "@/lib/validators";
+
+/**
+ * POST /api/households/join
+ * - body: { code, memberName }
+ * - 招待コードで共有家計簿に入り、そのままこの家計簿に切り替える（コードは使ったら無効）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const personal = await getPersonalKey(req);
+    if (!personal) return badRequest(USER_KEY_REQUIRED);
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") return badRequest("body must be JSON");
+
+    const input = parseJoinInput(body);
+    if (typeof input === "string") return badRequest(input);
+
+    let householdId: number | null;
+    try {
+      householdId = await prisma.$transaction(async (tx) => {
+        const invite = await tx.householdInvite.findUnique({ where: { codeHash: hashInviteCode(input.code) } });
+        if (!invite) return null;
+
+        // 同時に同じコードを使われても、入れるのは1人だけ
+        const claimed = await tx.householdInvite.updateMany({
+          where: { id: invite.id, usedAt: null, expiresAt: { gt: new Date() } },
+          data: { usedAt: new Date() },
+        });
+        if (claimed.count === 0) return null;
+
+        const member = await tx.householdMember.create({
+          data: { householdId: invite.householdId, memberKey: personal, name: input.memberName, role: invite.role },
+        });
+        await tx.householdInvite.update({ where: { id: invite.id }, data: { usedBy: member.id } });
+        return invite.householdId;
+      });
+    } catch (e) {
+      if (isUniqueViolation(e)) {
+        return NextResponse.json({ error: "already a member of this household" }, { status: 409 });
+      }
+      throw e;
+    }
+
+    if (!householdId) return NextResponse.json({ error: "invite code is invalid or expired" }, { status: 410 });
+
+    const res = NextResponse.json({ activeId: householdId, households: await listHouseholds(personal) });
+    setHouseholdCookie(res, householdId);
+    return res;
+  } catch (e) {
+    return internalError(e);
+  }
+}
@@ -0,0 +1,77 @@
+// app/api/households/members/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { badRequest, getPersonalKey, internalError, notFound, USER_KEY_REQUIRED } from "@/lib/api";
+import { findMembership, listHouseholds } from "@/lib/households";
+import { parseMemberRole } from "@/lib/validators";
+
+function parseId(req: NextRequest): number | null {
+  const idStr = new URL(req.url).searchParams.get("id");
+  const id = Number(idStr);
+  if (!idStr || !Number.isInteger(id) || id <= 0) return null;
+  return id;
+}
+
+const ownerOnly = () => NextResponse.json({ error: "only the owner can change members" }, { status: 403 });
+
+/**
+ * PATCH /api/households/members?id=12
+ * - body: { role: "editor" | "viewer" }
+ * - owner だけ。owner 自身の役割は変えられない
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const personal = await getPersonalKey(req);
+    if (!personal) return badRequest(USER_KEY_REQUIRED);
+
+    const id = parseId(req);
+    if (!id) return badRequest("id is required");
+
+    const body = await req.json().catch(() => null);
+    const role = parseMemberRole(body?.role);
+    if (!role) return badRequest('role must be "editor" or "viewer"');
+
+    const target = await prisma.householdMember.findUnique({ where: { id } });
+    if (!target) return notFound();
+
+    const me = await findMembership(target.householdId, personal);
+    if (!me) return notFound();
+    if (me.role !== "owner") return ownerOnly();
+    if (target.role === "owner") return badRequest("the owner's role cannot be changed");
+
+    await prisma.householdMember.update({ where: { id }, data: { role } });
+
+    return NextResponse.json({ households: await listHouseholds(personal) });
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * DELETE /api/households/members?id=12
+ * - owner はほかのメンバーを外せる。owner 以外は自分だけ（家計簿から抜ける）
+ * - 外れたメンバーが付けた明細は家計簿に残る
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const personal = await getPersonalKey(req);
+    if (!personal) return badRequest(USER_KEY_REQUIRED);
+
+    const id = parseId(req);
+    if (!id) return badRequest("id is required");
+
+    const target = await prisma.householdMember.findUnique({ where: { id } });
+    if (!target) return notFound();
+
+    const me = await findMembership(target.householdId, personal);
+    if (!me) return notFound();
+    if (target.role === "owner") return badRequest("the owner cannot leave the household");
+    if (me.id !== target.id && me.role !== "owner") return ownerOnly();
+
+    await prisma.householdMember.delete({ where: { id } });
+
+    return NextResponse.json({ households: await listHouseholds(personal) });
+  } catch (e) {
+    return internalError(e);
+  }
+}
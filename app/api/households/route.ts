@@ -0,0 +1,65 @@
+// app/api/households/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { badRequest, getPersonalKey, internalError, USER_KEY_REQUIRED } from "@/lib/api";
+import { listHouseholds, newLedgerKey } from "@/lib/households";
+import { getRequestedHouseholdId, setHouseholdCookie } from "@/lib/identity";
+import { parseHouseholdInput } from "@/lib/validators";
+
+/**
+ * GET /api/households
+ * - 自分（この端末の userKey）が入っている共有家計簿の一覧と、いま選んでいる家計簿（activeId。自分の台帳なら null）
+ * - 抜けた・外された家計簿が選ばれたままなら、選択を外す
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const personal = await getPersonalKey(req);
+    if (!personal) return badRequest(USER_KEY_REQUIRED);
+
+    const households = await listHouseholds(personal);
+    const requested = getRequestedHouseholdId(req);
+    const activeId = households.some((h) => h.id === requested) ? requested : null;
+
+    const res = NextResponse.json({ activeId, households });
+    if (requested && !activeId) setHouseholdCookie(res, null);
+    return res;
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * POST /api/households
+ * - body: { name, memberName }
+ * - 空の共有家計簿を作って自分を owner にし、そのままこの家計簿に切り替える
+ * - 今までの明細を入れたい時は、切り替えた後に /api/merge で自分の userKey からまとめる
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const personal = await getPersonalKey(req);
+    if (!personal) return badRequest(USER_KEY_REQUIRED);
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") return badRequest("body must be JSON");
+
+    const input = parseHouseholdInput(body);
+    if (typeof input === "string") return badRequest(input);
+
+    const household = await prisma.household.create({
+      data: {
+        ledgerKey: newLedgerKey(),
+        name: input.name,
+        members: { create: { memberKey: personal, name: input.memberName, role: "owner" } },
+      },
+    });
+
+    const res = NextResponse.json(
+      { activeId: household.id, households: await listHouseholds(personal) },
+      { status: 201 }
+    );
+    setHouseholdCookie(res, household.id);
+    return res;
+  } catch (e) {
+    return internalError(e);
+  }
+}
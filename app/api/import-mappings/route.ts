@@ -0,0 +1,73 @@
+// app/api/import-mappings/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getUserKey,
+  internalError,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { IMPORT_SOURCES } from "@/lib/appImports";
+import { parseImportMappings, parseImportSource } from "@/lib/validators";
+
+const MAPPING_SELECT = { sourceCategory: true, category: true, detailCategory: true } as const;
+
+/**
+ * GET /api/import-mappings?source=moneyforward
+ * - 前回の取り込みで保存したカテゴリの対応表
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const source = parseImportSource(new URL(req.url).searchParams.get("source"));
+    if (!source) return badRequest(`source must be one of ${IMPORT_SOURCES.join(", ")}`);
+
+    const items = await prisma.importMapping.findMany({
+      where: { userKey, source },
+      select: MAPPING_SELECT,
+      orderBy: { sourceCategory: "asc" },
+    });
+    return NextResponse.json(items);
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * PUT /api/import-mappings
+ * - body: { source, mappings: [{ sourceCategory, category, detailCategory? }] }
+ * - 渡したものだけ上書き保存（今回のファイルに無かったカテゴリの対応は残す）
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") return badRequest("body must be JSON");
+    const input = parseImportMappings(body);
+    if (typeof input === "string") return badRequest(input);
+    const { source, mappings } = input;
+
+    await prisma.$transaction(async (tx) => {
+      for (const m of mappings) {
+        await tx.importMapping.upsert({
+          where: { userKey_source_sourceCategory: { userKey, source, sourceCategory: m.sourceCategory } },
+          create: { userKey, source, ...m },
+          update: { category: m.category, detailCategory: m.detailCategory },
+        });
+      }
+    });
+
+    return NextResponse.json({ ok: true, saved: mappings.length });
+  } catch (e) {
+    return internalError(e);
+  }
+}
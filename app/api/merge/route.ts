@@ -0,0 +1,63 @@
+// app/api/merge/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getLedgerAccess,
+  internalError,
+  READ_ONLY,
+  unauthorized,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { canUseLedger } from "@/lib/auth";
+import { normalizeUserKey } from "@/lib/identity";
+import { applyMergePlan, loadMergeSide, planMerge } from "@/lib/merge";
+
+/**
+ * POST /api/merge
+ * - body: { sourceKey, dryRun?: boolean }
+ * - sourceKey の明細・リング・目標を、いま使っている userKey にまとめる（重複は sourceKey に残す）
+ * - dryRun のときは件数とリングの付け替えだけ返して何も書かない
+ * - 本番は1つのDBトランザクションで実行（途中で失敗したら何も残らない）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") return badRequest("body must be JSON");
+
+    const sourceKey = normalizeUserKey(body.sourceKey);
+    if (!sourceKey) return badRequest("sourceKey is required");
+    if (sourceKey === userKey) return badRequest("sourceKey must be different from the current user key");
+    if (!(await canUseLedger(req, sourceKey))) {
+      return unauthorized("sourceKey is linked to an account; sign in to that account first");
+    }
+
+    const dryRun = !!body.dryRun;
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const [source, target] = await Promise.all([loadMergeSide(tx, sourceKey), loadMergeSide(tx, userKey)]);
+
+        const plan = planMerge(source, target);
+        if (typeof plan === "string") return plan;
+
+        if (!dryRun) await applyMergePlan(tx, sourceKey, userKey, actor, plan);
+        return plan.diff;
+      },
+      { timeout: 30_000 }
+    );
+
+    if (typeof result === "string") return badRequest(result);
+
+    return NextResponse.json({ sourceKey, dryRun, diff: result });
+  } catch (e) {
+    return internalError(e);
+  }
+}
@@ -0,0 +1,37 @@
+// app/api/recurring/materialize/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  badRequest,
+  forbidden,
+  getUserKey,
+  internalError,
+  parseOccurredAt,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { materializeRecurring, toUtcDay, ymd } from "@/lib/recurring";
+
+/**
+ * POST /api/recurring/materialize?asOf=YYYY-MM-DD
+ * - asOf（省略時は今日）までに期日が来た定期明細を作る
+ * - 何度呼んでも同じ回は1回しか作らない（アプリ起動時に毎回呼んでOK）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const asOfStr = new URL(req.url).searchParams.get("asOf");
+    const asOf = asOfStr ? parseOccurredAt(asOfStr) : new Date();
+    if (!asOf) return badRequest("asOf must be a date (YYYY-MM-DD)");
+
+    const day = toUtcDay(asOf);
+    const created = await materializeRecurring(userKey, day);
+
+    return NextResponse.json({ asOf: ymd(day), created });
+  } catch (e) {
+    return internalError(e);
+  }
+}
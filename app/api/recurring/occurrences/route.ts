@@ -0,0 +1,147 @@
+// app/api/recurring/occurrences/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getUserKey,
+  internalError,
+  isUniqueViolation,
+  notFound,
+  parseOccurredAt,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { dueDatesBetween, listOccurrences, toUtcDay } from "@/lib/recurring";
+import { MAX_AMOUNT, parseAmount } from "@/lib/validators";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type OccurrenceAction = "skip" | "pause" | "resume" | "edit";
+
+function parseRuleId(sp: URLSearchParams): number | null {
+  const n = Number(sp.get("ruleId"));
+  if (!sp.get("ruleId") || !Number.isInteger(n) || n <= 0) return null;
+  return n;
+}
+
+/**
+ * GET /api/recurring/occurrences?ruleId=1&from=YYYY-MM-DD&to=YYYY-MM-DD
+ * - 省略時は「1か月前〜3か月後」
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const sp = new URL(req.url).searchParams;
+    const ruleId = parseRuleId(sp);
+    if (!ruleId) return badRequest("ruleId is required");
+
+    const today = toUtcDay(new Date());
+    const from = sp.get("from") ? parseOccurredAt(sp.get("from")) : new Date(today.getTime() - 31 * DAY_MS);
+    const to = sp.get("to") ? parseOccurredAt(sp.get("to")) : new Date(today.getTime() + 93 * DAY_MS);
+    if (!from || !to) return badRequest("from/to must be dates (YYYY-MM-DD)");
+
+    const rule = await prisma.recurringRule.findFirst({ where: { id: ruleId, userKey } });
+    if (!rule) return notFound();
+
+    const stored = await prisma.recurringOccurrence.findMany({
+      where: { ruleId, dueDate: { gte: toUtcDay(from), lte: toUtcDay(to) } },
+    });
+
+    return NextResponse.json(listOccurrences(rule, stored, from, to));
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * PUT /api/recurring/occurrences?ruleId=1&dueDate=YYYY-MM-DD
+ * - body: { action: "skip" | "pause" | "resume" | "edit", amount?, detailCategory?, occurredAt? }
+ * - skip: この回は作らない / pause: 保留（resume するまで作らない）
+ * - edit: この回だけ金額・内訳・日付を変える
+ * - すでに明細になった回は 409（明細の方を編集する）
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const sp = new URL(req.url).searchParams;
+    const ruleId = parseRuleId(sp);
+    if (!ruleId) return badRequest("ruleId is required");
+
+    const due = parseOccurredAt(sp.get("dueDate"));
+    if (!due) return badRequest("dueDate is required (YYYY-MM-DD)");
+    const dueDate = toUtcDay(due);
+
+    const rule = await prisma.recurringRule.findFirst({ where: { id: ruleId, userKey } });
+    if (!rule) return notFound();
+    if (dueDatesBetween(rule, dueDate, dueDate, 1).length === 0) return badRequest("dueDate is not a scheduled date");
+
+    const body = (await req.json().catch(() => null)) ?? {};
+    const action = body.action as OccurrenceAction;
+
+    const data: { status: string; amount?: number | null; detailCategory?: string | null; occurredAt?: Date | null } = {
+      status: "scheduled",
+    };
+    if (action === "skip") data.status = "skipped";
+    else if (action === "pause") data.status = "paused";
+    else if (action === "edit") {
+      if (body.amount !== undefined && body.amount !== null && body.amount !== "") {
+        const amount = parseAmount(body.amount);
+        if (!Number.isFinite(amount) || amount <= 0) return badRequest("amount must be a positive number");
+        if (amount > MAX_AMOUNT) return badRequest(`amount must be at most ${MAX_AMOUNT}`);
+        data.amount = Math.trunc(amount);
+      } else data.amount = null;
+
+      const detail = String(body.detailCategory ?? "").trim();
+      data.detailCategory = detail ? detail.slice(0, 64) : null;
+
+      if (body.occurredAt) {
+        const d = parseOccurredAt(body.occurredAt);
+        if (!d) return badRequest("occurredAt must be a date (YYYY-MM-DD)");
+        data.occurredAt = toUtcDay(d);
+      } else data.occurredAt = null;
+    } else if (action !== "resume") {
+      return badRequest('action must be "skip", "pause", "resume" or "edit"');
+    }
+
+    const postedError = () =>
+      NextResponse.json({ error: "this occurrence is already posted; edit the transaction instead" }, { status: 409 });
+
+    const existing = await prisma.recurringOccurrence.findUnique({
+      where: { ruleId_dueDate: { ruleId, dueDate } },
+    });
+    if (existing?.status === "posted") return postedError();
+
+    if (existing) {
+      // 同時に明細化された回は上書きしない
+      const updated = await prisma.recurringOccurrence.updateMany({
+        where: { id: existing.id, status: { not: "posted" } },
+        data,
+      });
+      if (updated.count === 0) return postedError();
+    } else {
+      try {
+        await prisma.recurringOccurrence.create({
+          data: { ruleId, userKey, dueDate, ...data },
+        });
+      } catch (e) {
+        if (isUniqueViolation(e)) {
+          return NextResponse.json({ error: "occurrence was updated at the same time; please retry" }, { status: 409 });
+        }
+        throw e;
+      }
+    }
+
+    const stored = await prisma.recurringOccurrence.findMany({ where: { ruleId, dueDate } });
+    return NextResponse.json(listOccurrences(rule, stored, dueDate, dueDate)[0] ?? null);
+  } catch (e) {
+    return internalError(e);
+  }
+}
@@ -0,0 +1,161 @@
+// app/api/recurring/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import type { RecurringRule } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getLedgerAccess,
+  getUserKey,
+  internalError,
+  notFound,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { dueDatesBetween, materializeFrom, toUtcDay, ymd } from "@/lib/recurring";
+import { parseRecurringRuleInput, type RecurringRuleInput } from "@/lib/validators";
+
+function parseId(req: NextRequest): number | null {
+  const idStr = new URL(req.url).searchParams.get("id");
+  const id = Number(idStr);
+  if (!idStr || !Number.isInteger(id) || id <= 0) return null;
+  return id;
+}
+
+// 変えると予定日が変わる項目
+const SCHEDULE_FIELDS = ["frequency", "interval", "dayOfMonth", "dayOfWeek", "monthOfYear", "startDate", "endDate"] as const;
+
+function sameScheduleValue(a: Date | number | string | null, b: Date | number | string | null) {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return a === b;
+}
+
+/**
+ * ✅ PATCH 後の resumeFrom
+ * - スケジュールを変えたら翌日から（今日までの回は変更前の予定で作り済みとみなす）
+ * - 再開したら今日から（止めていた間の回はさかのぼって作らない）
+ * - 前に戻すことはしない
+ */
+function nextResumeFrom(current: RecurringRule, input: RecurringRuleInput): Date | null {
+  const today = toUtcDay(new Date());
+  let resume: Date | null = null;
+  if (SCHEDULE_FIELDS.some((k) => !sameScheduleValue(current[k], input[k]))) {
+    resume = new Date(today.getTime() + 24 * 60 * 60 * 1000);
+  } else if (current.paused && !input.paused) {
+    resume = today;
+  }
+  if (!resume) return current.resumeFrom;
+  return current.resumeFrom && current.resumeFrom > resume ? current.resumeFrom : resume;
+}
+
+// 日付は YYYY-MM-DD で返す（PATCH にそのまま戻せる形）
+function toJson(rule: RecurringRule) {
+  const today = toUtcDay(new Date());
+  const far = new Date(Date.UTC(today.getUTCFullYear() + 2, today.getUTCMonth(), today.getUTCDate()));
+  const from = materializeFrom(rule);
+  const next = rule.paused ? undefined : dueDatesBetween(rule, from > today ? from : today, far, 1)[0];
+  return {
+    ...rule,
+    startDate: ymd(rule.startDate),
+    endDate: rule.endDate ? ymd(rule.endDate) : null,
+    resumeFrom: rule.resumeFrom ? ymd(rule.resumeFrom) : null,
+    nextDueDate: next ? ymd(next) : null,
+  };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const rules = await prisma.recurringRule.findMany({
+      where: { userKey },
+      orderBy: [{ paused: "asc" }, { id: "asc" }],
+    });
+
+    return NextResponse.json(rules.map(toJson));
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
+
+    const body = await req.json();
+    const input = parseRecurringRuleInput(body ?? {});
+    if (typeof input === "string") return badRequest(input);
+
+    const created = await prisma.recurringRule.create({
+      data: { userKey, ...input, createdBy: actor },
+    });
+
+    return NextResponse.json(toJson(created));
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * PATCH /api/recurring?id=123
+ * - 渡した項目だけ変える（{ paused: true } で一時停止など）
+ * - 変更はこれから作る回にだけ効く（作成済みの明細はそのまま）
+ * - スケジュールの変更・再開では、過ぎた予定日をさかのぼって作らない（resumeFrom）
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const id = parseId(req);
+    if (!id) return badRequest("id is required");
+
+    const current = await prisma.recurringRule.findFirst({ where: { id, userKey } });
+    if (!current) return notFound();
+
+    const body = (await req.json()) ?? {};
+    const input = parseRecurringRuleInput({ ...toJson(current), ...body });
+    if (typeof input === "string") return badRequest(input);
+
+    const updated = await prisma.recurringRule.update({
+      where: { id },
+      data: { ...input, resumeFrom: nextResumeFrom(current, input) },
+    });
+
+    return NextResponse.json(toJson(updated));
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * DELETE /api/recurring?id=123
+ * - ルールと回ごとの状態を消す（作成済みの明細は残す）
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const id = parseId(req);
+    if (!id) return badRequest("id is required");
+
+    const deleted = await prisma.recurringRule.deleteMany({
+      where: { id, userKey },
+    });
+
+    if (deleted.count === 0) return notFound();
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return internalError(e);
+  }
+}
@@ -0,0 +1,68 @@
+// app/api/restore/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getLedgerAccess,
+  internalError,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { verifyChecksum } from "@/lib/backup";
+import { applyRestorePlan, parseRestoreInput, planRestore, RestoreInputError, type RestoreMode } from "@/lib/restore";
+
+/**
+ * POST /api/restore
+ * - body: { mode: "replace" | "merge", dryRun?: boolean, backup: バックアップJSON（どの版でも可） }
+ * - dryRun のときは件数の差分だけ返して何も書かない
+ * - replace でも今の明細は消さずにゴミ箱へ移す
+ * - 本番は1つのDBトランザクションで実行（途中で失敗したら何も残らない）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") return badRequest("body must be JSON");
+
+    const mode = body.mode as RestoreMode;
+    if (mode !== "replace" && mode !== "merge") return badRequest('mode must be "replace" or "merge"');
+
+    const dryRun = !!body.dryRun;
+
+    if (!body.backup || typeof body.backup !== "object") return badRequest("backup is required");
+    if (!(await verifyChecksum(body.backup))) return badRequest("backup checksum does not match");
+    const incoming = parseRestoreInput(body.backup);
+    if (typeof incoming === "string") return badRequest(incoming);
+
+    const diff = await prisma.$transaction(
+      async (tx) => {
+        const [transactions, rings, goals] = await Promise.all([
+          // ゴミ箱の明細は重複判定に使わない（復元しても見えないため）
+          tx.transaction.findMany({
+            where: { userKey, deletedAt: null },
+            select: { occurredAt: true, type: true, amount: true, currency: true, category: true, detailCategory: true },
+          }),
+          tx.ring.findMany({ where: { userKey }, select: { ringKey: true } }),
+          tx.ringGoal.findMany({ where: { userKey }, select: { category: true, effectiveFrom: true } }),
+        ]);
+
+        const plan = planRestore(mode, { transactions, rings, goals }, incoming);
+        if (!dryRun) await applyRestorePlan(tx, userKey, actor, mode, plan);
+        return plan.diff;
+      },
+      { timeout: 30_000 }
+    );
+
+    return NextResponse.json({ mode, dryRun, diff });
+  } catch (e) {
+    // 適用中に見つかったバックアップの誤り（書いたものは取り消し済み）
+    if (e instanceof RestoreInputError) return badRequest(e.message);
+    return internalError(e);
+  }
+}
@@ -0,0 +1,140 @@
+// app/api/ring-goals/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getUserKey,
+  internalError,
+  parseRangeEnd,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { parseGoalInput, type GoalInput } from "@/lib/validators";
+
+function toJson(g: { category: string; target: number; effectiveFrom: Date; updatedAt: Date }) {
+  return {
+    category: g.category,
+    target: g.target,
+    effectiveFrom: g.effectiveFrom.toISOString().slice(0, 10),
+    updatedAt: g.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * GET /api/ring-goals?asOf=YYYY-MM-DD
+ * - asOf 時点で有効な目標（カテゴリごとに最新の版）
+ *
+ * GET /api/ring-goals?category=ring:xxx
+ * - そのカテゴリの変更履歴（新しい順）
+ *
+ * GET /api/ring-goals?all=1
+ * - 全カテゴリの全履歴（バックアップ用）
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const sp = new URL(req.url).searchParams;
+
+    const category = sp.get("category")?.trim();
+    if (category) {
+      const history = await prisma.ringGoal.findMany({
+        where: { userKey, category },
+        orderBy: { effectiveFrom: "desc" },
+      });
+      return NextResponse.json(history.map(toJson));
+    }
+
+    if (sp.get("all") === "1") {
+      const all = await prisma.ringGoal.findMany({
+        where: { userKey },
+        orderBy: [{ category: "asc" }, { effectiveFrom: "asc" }],
+      });
+      return NextResponse.json(all.map(toJson));
+    }
+
+    const asOfStr = sp.get("asOf");
+    const asOf = asOfStr ? parseRangeEnd(asOfStr) : { lte: new Date() };
+    if (!asOf) return badRequest("asOf must be a date (YYYY-MM-DD)");
+
+    const goals = await prisma.ringGoal.findMany({
+      where: { userKey, effectiveFrom: asOf },
+      orderBy: [{ category: "asc" }, { effectiveFrom: "desc" }],
+      distinct: ["category"],
+    });
+
+    return NextResponse.json(goals.map(toJson));
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * POST /api/ring-goals
+ * - { category, target, effectiveFrom } の版を追加（同じ適用開始日なら上書き）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const body = await req.json();
+    const input = parseGoalInput(body ?? {});
+    if (typeof input === "string") return badRequest(input);
+
+    const saved = await prisma.ringGoal.upsert({
+      where: {
+        userKey_category_effectiveFrom: {
+          userKey,
+          category: input.category,
+          effectiveFrom: input.effectiveFrom,
+        },
+      },
+      create: { userKey, ...input },
+      update: { target: input.target },
+    });
+
+    return NextResponse.json(toJson(saved));
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * PUT /api/ring-goals
+ * - { goals: [...] } で履歴ごと置き換える（localStorage からの移行・バックアップ復元用）
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const body = await req.json();
+    if (!Array.isArray(body?.goals)) return badRequest("goals must be an array");
+
+    // 同じ (category, effectiveFrom) は後勝ち
+    const byKey = new Map<string, GoalInput>();
+    for (const raw of body.goals) {
+      const input = parseGoalInput(raw ?? {});
+      if (typeof input === "string") return badRequest(input);
+      byKey.set(`${input.category}\u0000${input.effectiveFrom.toISOString()}`, input);
+    }
+
+    await prisma.$transaction([
+      prisma.ringGoal.deleteMany({ where: { userKey } }),
+      prisma.ringGoal.createMany({
+        data: Array.from(byKey.values()).map((g) => ({ userKey, ...g })),
+      }),
+    ]);
+
+    return NextResponse.json({ ok: true, count: byKey.size });
+  } catch (e) {
+    return internalError(e);
+  }
+}
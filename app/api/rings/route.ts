@@ -0,0 +1,188 @@
+// app/api/rings/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getUserKey,
+  internalError,
+  notFound,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import {
+  CHAR_MODES,
+  MAX_RINGS,
+  normalizeRingKey,
+  parseRingInput,
+  RING_MODES,
+  RING_TYPES,
+  type RingInput,
+} from "@/lib/validators";
+
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const rings = await prisma.ring.findMany({
+      where: { userKey },
+      orderBy: [{ sortOrder: "asc" }, { id: "asc" }],
+    });
+
+    return NextResponse.json(rings);
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const body = await req.json();
+    const input = parseRingInput(body ?? {});
+    if (typeof input === "string") return badRequest(input);
+
+    const count = await prisma.ring.count({ where: { userKey } });
+    if (count >= MAX_RINGS) return badRequest(`rings are limited to ${MAX_RINGS}`);
+
+    const exists = await prisma.ring.findUnique({
+      where: { userKey_ringKey: { userKey, ringKey: input.ringKey } },
+    });
+    if (exists) return NextResponse.json({ error: "ringKey already exists" }, { status: 409 });
+
+    const last = await prisma.ring.findFirst({
+      where: { userKey },
+      orderBy: { sortOrder: "desc" },
+    });
+
+    const created = await prisma.ring.create({
+      data: { userKey, ...input, sortOrder: (last?.sortOrder ?? -1) + 1 },
+    });
+
+    return NextResponse.json(created);
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * PUT /api/rings
+ * - body: { rings: [...] } の並び順でまるごと置き換える
+ * - localStorage からの移行・バックアップ復元・並び替えに使う
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const body = await req.json();
+    if (!Array.isArray(body?.rings)) return badRequest("rings must be an array");
+    if (body.rings.length > MAX_RINGS) return badRequest(`rings are limited to ${MAX_RINGS}`);
+
+    const inputs: RingInput[] = [];
+    const seen = new Set<string>();
+    for (const raw of body.rings) {
+      const input = parseRingInput(raw ?? {});
+      if (typeof input === "string") return badRequest(input);
+      if (seen.has(input.ringKey)) return badRequest(`duplicate ringKey: ${input.ringKey}`);
+      seen.add(input.ringKey);
+      inputs.push(input);
+    }
+
+    const rings = await prisma.$transaction(async (tx) => {
+      await tx.ring.deleteMany({ where: { userKey } });
+      await tx.ring.createMany({
+        data: inputs.map((r, i) => ({ userKey, ...r, sortOrder: i })),
+      });
+      return tx.ring.findMany({
+        where: { userKey },
+        orderBy: [{ sortOrder: "asc" }, { id: "asc" }],
+      });
+    });
+
+    return NextResponse.json(rings);
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const ringKey = normalizeRingKey(new URL(req.url).searchParams.get("ringKey"));
+    if (!ringKey) return badRequest("ringKey is required");
+
+    const body = (await req.json()) ?? {};
+
+    // 渡された項目だけ更新する
+    const data: Partial<Omit<RingInput, "ringKey">> & { sortOrder?: number } = {};
+    if (body.title !== undefined) data.title = String(body.title).trim().slice(0, 24) || "追加リング";
+    if (body.mode !== undefined) {
+      if (!RING_MODES.includes(body.mode)) return badRequest("mode is invalid");
+      data.mode = body.mode;
+    }
+    if (body.color !== undefined) data.color = String(body.color).trim().slice(0, 32) || "#60a5fa";
+    if (body.carryOver !== undefined) data.carryOver = !!body.carryOver;
+    if (body.ringType !== undefined) {
+      if (!RING_TYPES.includes(body.ringType)) return badRequest("ringType is invalid");
+      data.ringType = body.ringType;
+    }
+    if (body.charMode !== undefined) {
+      if (!CHAR_MODES.includes(body.charMode)) return badRequest("charMode is invalid");
+      data.charMode = body.charMode;
+    }
+    if (body.sortOrder !== undefined) {
+      const n = Number(body.sortOrder);
+      if (!Number.isInteger(n)) return badRequest("sortOrder must be an integer");
+      data.sortOrder = n;
+    }
+
+    const updated = await prisma.ring.updateMany({
+      where: { userKey, ringKey },
+      data,
+    });
+
+    if (updated.count === 0) return notFound();
+
+    const latest = await prisma.ring.findUnique({
+      where: { userKey_ringKey: { userKey, ringKey } },
+    });
+
+    if (!latest) return notFound();
+
+    return NextResponse.json(latest);
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const ringKey = normalizeRingKey(new URL(req.url).searchParams.get("ringKey"));
+    if (!ringKey) return badRequest("ringKey is required");
+
+    const deleted = await prisma.ring.deleteMany({
+      where: { userKey, ringKey },
+    });
+
+    if (deleted.count === 0) return notFound();
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return internalError(e);
+  }
+}
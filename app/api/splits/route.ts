@@ -0,0 +1,211 @@
+// app/api/splits/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getLedgerAccess,
+  getUserKey,
+  internalError,
+  notFound,
+  parseIfMatch,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import {
+  findIdempotentReplay,
+  IDEMPOTENCY_HEADER,
+  isIdempotencyConflict,
+  parseIdempotencyKey,
+  requestHash,
+  saveIdempotentResponse,
+} from "@/lib/idempotency";
+import { createSplit, updateSplit } from "@/lib/splits";
+import { moveToTrash, purgeExpiredTrash } from "@/lib/trash";
+import { parseSplitInput } from "@/lib/validators";
+
+function parseId(req: NextRequest): number | null {
+  const idStr = new URL(req.url).searchParams.get("id");
+  const id = Number(idStr);
+  if (!idStr || !Number.isInteger(id) || id <= 0) return null;
+  return id;
+}
+
+// 行はゴミ箱以外を作成順で
+const LINES_INCLUDE = {
+  lines: { where: { deletedAt: null }, orderBy: { id: "asc" } },
+} satisfies Prisma.SplitInclude;
+
+/**
+ * GET /api/splits
+ * - 分割明細の一覧（新しい順）。ゴミ箱に入っているものは出さない
+ * - ?id=123 ならその1件
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const id = parseId(req);
+    if (id) {
+      const split = await prisma.split.findFirst({
+        where: { id, userKey, lines: { some: { deletedAt: null } } },
+        include: LINES_INCLUDE,
+      });
+      if (!split) return notFound();
+      return NextResponse.json(split);
+    }
+
+    const splits = await prisma.split.findMany({
+      where: { userKey, lines: { some: { deletedAt: null } } },
+      include: LINES_INCLUDE,
+      orderBy: [{ occurredAt: "desc" }, { id: "desc" }],
+    });
+
+    return NextResponse.json(splits);
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * POST /api/splits
+ * - body: { type, amount, currency?, occurredAt, memo?, lines: [{ amount, category, detailCategory? }] }
+ * - lines の金額の合計は amount と一致させる（2行以上）
+ * - Idempotency-Key の扱いは POST /api/transactions と同じ
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
+
+    const rawKey = req.headers.get(IDEMPOTENCY_HEADER);
+    const idemKey = parseIdempotencyKey(rawKey);
+    if (rawKey !== null && !idemKey) return badRequest("Idempotency-Key is invalid");
+
+    const body = await req.json();
+    const input = parseSplitInput(body ?? {});
+    if (typeof input === "string") return badRequest(input);
+
+    const hash = requestHash(body);
+    if (idemKey) {
+      const replay = await findIdempotentReplay(userKey, idemKey, hash);
+      if (replay) return replay;
+    }
+
+    try {
+      const created = await prisma.$transaction(async (tx) => {
+        const split = await createSplit(tx, userKey, actor, input);
+        if (idemKey) {
+          await saveIdempotentResponse(tx, {
+            userKey,
+            key: idemKey,
+            hash,
+            transactionId: split.lines[0].id,
+            response: split,
+          });
+        }
+        return split;
+      });
+
+      return NextResponse.json(created);
+    } catch (e) {
+      if (idemKey && isIdempotencyConflict(e)) {
+        const replay = await findIdempotentReplay(userKey, idemKey, hash);
+        if (replay) return replay;
+      }
+      throw e;
+    }
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * PATCH /api/splits?id=123
+ * - 渡した項目だけ変える（lines を渡したら行ごと置き換え。合計は amount と一致させる）
+ * - 今ある行は lines[].id で指定する（id の無い行は新しく作り、入っていない行はゴミ箱へ）
+ * - If-Match（または body.version）に Split の version が必要。違っていたら 409 と今の内容
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
+
+    const id = parseId(req);
+    if (!id) return badRequest("id is required");
+
+    const current = await prisma.split.findFirst({ where: { id, userKey }, include: LINES_INCLUDE });
+    if (!current) return notFound();
+
+    const body = (await req.json()) ?? {};
+    const input = parseSplitInput({
+      ...current,
+      occurredAt: current.occurredAt.toISOString(),
+      lines: current.lines.map((l) => ({ id: l.id, amount: l.amount, category: l.category, detailCategory: l.detailCategory })),
+      ...body,
+    });
+    if (typeof input === "string") return badRequest(input);
+
+    const expected = parseIfMatch(req.headers.get("if-match")) ?? parseIfMatch(String(body.version ?? ""));
+    if (!expected) {
+      return NextResponse.json({ error: "If-Match header (or version) is required" }, { status: 428 });
+    }
+
+    const result = await prisma.$transaction((tx) => updateSplit(tx, userKey, actor, id, expected, input));
+    if (!result) return notFound();
+    if (typeof result === "string") return badRequest(result);
+
+    if (result.conflict) {
+      const latest = await prisma.split.findFirst({ where: { id, userKey }, include: LINES_INCLUDE });
+      if (!latest) return notFound();
+      return NextResponse.json(
+        { error: "split was modified by someone else", current: latest },
+        { status: 409, headers: { ETag: `"${latest.version}"` } }
+      );
+    }
+
+    return NextResponse.json(result.split, { headers: { ETag: `"${result.split.version}"` } });
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * DELETE /api/splits?id=123
+ * - 全行ともゴミ箱へ（復元も全行まとめて）
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
+
+    const id = parseId(req);
+    if (!id) return badRequest("id is required");
+
+    const deleted = await prisma.$transaction(async (tx) => {
+      const line = await tx.transaction.findFirst({
+        where: { splitId: id, userKey, deletedAt: null },
+      });
+      if (!line) return null;
+      return moveToTrash(tx, userKey, actor, line);
+    });
+
+    if (!deleted) return notFound();
+
+    await purgeExpiredTrash(userKey);
+
+    return NextResponse.json({ ok: true, ...deleted });
+  } catch (e) {
+    return internalError(e);
+  }
+}
@@ -0,0 +1,113 @@
+// app/api/summary/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getUserKey,
+  internalError,
+  monthRange,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { CURRENCIES } from "@/lib/currency";
+import { loadRateTable, type RateTable } from "@/lib/exchangeRates";
+import { memberActor } from "@/lib/households";
+import { summarizeRows, type SummaryRow } from "@/lib/summary";
+import { parseCurrency } from "@/lib/validators";
+
+/**
+ * ✅ カテゴリ別の合計と収入/支出の合計（base 通貨の最小単位。lib/summary.ts の summarizeRows）
+ * - base と同じ通貨の明細は groupBy でまとめて足す（資金移動かどうかで分けるため transferId でも分ける）
+ * - それ以外は1件ずつ発生日のレートで換算する（レートが無い通貨は missing に入れて足さない）
+ */
+async function summarize(where: Prisma.TransactionWhereInput, base: string, rates: RateTable, missing: Set<string>) {
+  const [rows, foreign] = await Promise.all([
+    prisma.transaction.groupBy({
+      by: ["category", "type", "transferId"],
+      where: { AND: [where, { currency: base }] },
+      _sum: { amount: true },
+    }),
+    prisma.transaction.findMany({
+      where: { AND: [where, { currency: { not: base } }] },
+      select: { category: true, type: true, amount: true, currency: true, occurredAt: true, transferId: true },
+    }),
+  ]);
+
+  const converted: SummaryRow[] = [];
+  for (const t of foreign) {
+    const amount = rates.convert(t.amount, t.currency, base, t.occurredAt);
+    if (amount === null) {
+      missing.add(t.currency);
+      continue;
+    }
+    converted.push({ ...t, amount });
+  }
+  return summarizeRows([...rows.map((r) => ({ ...r, amount: r._sum.amount ?? 0 })), ...converted]);
+}
+
+/**
+ * GET /api/summary?ym=YYYY-MM&base=JPY&member=3
+ * - monthly: その月だけのカテゴリ別集計
+ * - carry: 月末までの累計（月またぎリング用）
+ * - monthSummary: その月の収入/支出/収支
+ * - 金額はすべて base 通貨（省略時 JPY）の最小単位。missingRates: レートが無くて足せなかった通貨
+ * - member: 共有家計簿のメンバー id（そのメンバーが付けた明細だけ集計する）
+ * - 資金移動（transferId あり）の2明細は monthly / carry には入れる（出金側のリングが減り、入金側が増える）
+ *   monthSummary には入れない（収入でも支出でもない）
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const sp = new URL(req.url).searchParams;
+    const ym = sp.get("ym") ?? "";
+    const range = monthRange(ym);
+    if (!range) return badRequest("ym is required (YYYY-MM)");
+
+    const base = parseCurrency(sp.get("base"));
+    if (!base) return badRequest(`base must be one of ${CURRENCIES.join(", ")}`);
+
+    // 共有家計簿：そのメンバーが付けた明細だけ
+    const memberStr = sp.get("member");
+    const memberId = Number(memberStr);
+    if (memberStr && (!Number.isInteger(memberId) || memberId <= 0)) return badRequest("member must be a member id");
+    const createdBy = memberStr ? memberActor(memberId) : undefined;
+
+    const monthWhere: Prisma.TransactionWhereInput = {
+      userKey,
+      deletedAt: null,
+      createdBy,
+      occurredAt: { gte: range.start, lt: range.end },
+    };
+    const carryWhere: Prisma.TransactionWhereInput = {
+      userKey,
+      deletedAt: null,
+      createdBy,
+      occurredAt: { lt: range.end },
+    };
+
+    const rates = await loadRateTable(userKey);
+    const missing = new Set<string>();
+    const [monthly, carry] = await Promise.all([
+      summarize(monthWhere, base, rates, missing),
+      summarize(carryWhere, base, rates, missing),
+    ]);
+
+    return NextResponse.json({
+      ym,
+      base,
+      member: memberStr ? memberId : null,
+      missingRates: Array.from(missing).sort(),
+      monthly: monthly.byCategory,
+      carry: carry.byCategory,
+      monthSummary: monthly.total,
+    });
+  } catch (e) {
+    return internalError(e);
+  }
+}
@@ -0,0 +1,60 @@
+// app/api/tags/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getUserKey,
+  internalError,
+  notFound,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+
+/**
+ * GET /api/tags
+ * - タグ一覧（入力候補用）。count: ゴミ箱以外の明細に付いている数。よく使う順
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const tags = await prisma.tag.findMany({
+      where: { userKey },
+      include: { _count: { select: { transactions: { where: { transaction: { deletedAt: null } } } } } },
+    });
+
+    const items = tags
+      .map((t) => ({ id: t.id, name: t.name, count: t._count.transactions }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name, "ja"));
+
+    return NextResponse.json(items);
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * DELETE /api/tags?name=旅行2026
+ * - タグを消す（付いていた明細からも外れる。明細そのものは残す）
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const name = new URL(req.url).searchParams.get("name")?.trim();
+    if (!name) return badRequest("name is required");
+
+    const deleted = await prisma.tag.deleteMany({ where: { userKey, name } });
+    if (deleted.count === 0) return notFound();
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return internalError(e);
+  }
+}
@@ -0,0 +1,163 @@
+// app/api/transactions/attachments/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getUserKey,
+  internalError,
+  notFound,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { addAttachments, ATTACHMENT_META_SELECT, parseAttachmentInput, toAttachmentMeta } from "@/lib/attachments";
+
+function parsePositiveInt(value: string | null): number | null {
+  const n = Number(value);
+  if (!value || !Number.isInteger(n) || n <= 0) return null;
+  return n;
+}
+
+async function readBytes(value: FormDataEntryValue | null): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (!value || typeof value === "string") return null;
+  return new Uint8Array(await value.arrayBuffer());
+}
+
+/**
+ * GET /api/transactions/attachments?transactionId=123
+ * - その明細の添付一覧（本体は含めない。thumbnail は data URL）
+ *
+ * GET /api/transactions/attachments?id=5
+ * - 添付の本体（Content-Type は保存時に判定した種類）
+ *
+ * GET /api/transactions/attachments?backup=1
+ * - バックアップ用：ゴミ箱以外の明細の添付を本体ごと（data / thumbnail は base64）
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const sp = new URL(req.url).searchParams;
+
+    const id = parsePositiveInt(sp.get("id"));
+    if (id) {
+      const row = await prisma.attachment.findFirst({ where: { id, userKey } });
+      if (!row) return notFound();
+
+      return new NextResponse(new Uint8Array(row.data), {
+        headers: {
+          "content-type": row.mimeType,
+          "content-length": String(row.size),
+          "content-disposition": `inline; filename*=UTF-8''${encodeURIComponent(row.fileName)}`,
+          "cache-control": "private, no-store",
+          "x-content-type-options": "nosniff",
+        },
+      });
+    }
+
+    if (sp.get("backup") === "1") {
+      const rows = await prisma.attachment.findMany({
+        where: { userKey, transaction: { deletedAt: null } },
+        orderBy: { id: "asc" },
+      });
+      return NextResponse.json(
+        rows.map((a) => ({
+          transactionId: a.transactionId,
+          fileName: a.fileName,
+          mimeType: a.mimeType,
+          data: Buffer.from(a.data).toString("base64"),
+          thumbnail: a.thumbnail ? Buffer.from(a.thumbnail).toString("base64") : null,
+        }))
+      );
+    }
+
+    const transactionId = parsePositiveInt(sp.get("transactionId"));
+    if (!transactionId) return badRequest("transactionId or id is required");
+
+    const rows = await prisma.attachment.findMany({
+      where: { userKey, transactionId },
+      select: ATTACHMENT_META_SELECT,
+      orderBy: { id: "asc" },
+    });
+
+    return NextResponse.json(rows.map(toAttachmentMeta));
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * POST /api/transactions/attachments?transactionId=123
+ * - multipart/form-data: file（画像 or PDF）, thumbnail?（画像のときクライアントで縮小したもの）
+ * - ゴミ箱の明細には付けられない
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const transactionId = parsePositiveInt(new URL(req.url).searchParams.get("transactionId"));
+    if (!transactionId) return badRequest("transactionId is required");
+
+    const form = await req.formData().catch(() => null);
+    if (!form) return badRequest("body must be multipart/form-data");
+
+    const file = form.get("file");
+    if (!file || typeof file === "string") return badRequest("file is required");
+
+    const input = parseAttachmentInput(
+      file.name,
+      new Uint8Array(await file.arrayBuffer()),
+      await readBytes(form.get("thumbnail"))
+    );
+    if (typeof input === "string") return badRequest(input);
+
+    const result = await prisma.$transaction(async (tx) => {
+      const target = await tx.transaction.findFirst({ where: { id: transactionId, userKey } });
+      if (!target) return null;
+      if (target.deletedAt) return "transaction is in the trash; restore it first";
+
+      const added = await addAttachments(tx, userKey, transactionId, [input]);
+      if (typeof added === "string") return added;
+
+      return tx.attachment.findFirstOrThrow({
+        where: { userKey, transactionId },
+        select: ATTACHMENT_META_SELECT,
+        orderBy: { id: "desc" },
+      });
+    });
+
+    if (!result) return notFound();
+    if (typeof result === "string") return badRequest(result);
+
+    return NextResponse.json(toAttachmentMeta(result), { status: 201 });
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * DELETE /api/transactions/attachments?id=5
+ * - 添付を1つ消す（明細はそのまま）
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const id = parsePositiveInt(new URL(req.url).searchParams.get("id"));
+    if (!id) return badRequest("id is required");
+
+    const deleted = await prisma.attachment.deleteMany({ where: { id, userKey } });
+    if (deleted.count === 0) return notFound();
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return internalError(e);
+  }
+}
@@ -0,0 +1,89 @@
+// app/api/transactions/export/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getUserKey,
+  internalError,
+  parseOccurredAt,
+  parseRangeEnd,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { CSV_BOM, toCsv } from "@/lib/csv";
+import { fromMinor } from "@/lib/currency";
+import { kindLabel, loadCategoryLabels, ymdOf } from "@/lib/exports";
+import { TAGS_INCLUDE, withTagNames } from "@/lib/tags";
+
+const HEADER = ["日付", "種別", "金額", "通貨", "カテゴリ", "内訳", "タグ", "区分"];
+
+/**
+ * GET /api/transactions/export?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * - 明細の CSV（UTF-8・BOM つきなので Excel でそのまま開ける。ゴミ箱の明細は含めない）
+ * - 金額は通貨の単位（12.34 USD は 12.34）、リングのカテゴリはリング名にする
+ * - = + - @ で始まる文字の列は ' を付けて書く（開いたときに式として動かないように）
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const sp = new URL(req.url).searchParams;
+    const where: Prisma.TransactionWhereInput = { userKey, deletedAt: null };
+
+    const fromStr = sp.get("from");
+    const toStr = sp.get("to");
+    if (fromStr || toStr) {
+      const occurredAt: Prisma.DateTimeFilter = {};
+      if (fromStr) {
+        const from = parseOccurredAt(fromStr);
+        if (!from) return badRequest("from must be a date (YYYY-MM-DD)");
+        occurredAt.gte = from;
+      }
+      if (toStr) {
+        const end = parseRangeEnd(toStr);
+        if (!end) return badRequest("to must be a date (YYYY-MM-DD)");
+        Object.assign(occurredAt, end);
+      }
+      where.occurredAt = occurredAt;
+    }
+
+    const [rows, labels] = await Promise.all([
+      prisma.transaction.findMany({
+        where,
+        include: TAGS_INCLUDE,
+        orderBy: [{ occurredAt: "asc" }, { createdAt: "asc" }, { id: "asc" }],
+      }),
+      loadCategoryLabels(userKey),
+    ]);
+
+    const csv = toCsv([
+      HEADER,
+      ...rows.map(withTagNames).map((t) => [
+        ymdOf(t.occurredAt),
+        t.type === "income" ? "収入" : "支出",
+        fromMinor(t.amount, t.currency),
+        t.currency,
+        labels.get(t.category) ?? t.category,
+        t.detailCategory,
+        t.tags.join(" "),
+        kindLabel(t),
+      ]),
+    ]);
+
+    const name = `miyamu-transactions${fromStr ? `-${fromStr}` : ""}${toStr ? `_${toStr}` : ""}.csv`;
+    return new NextResponse(CSV_BOM + csv + "\r\n", {
+      headers: {
+        "content-type": "text/csv; charset=utf-8",
+        "content-disposition": `attachment; filename="${name.replace(/[^\w.-]/g, "_")}"`,
+        "cache-control": "no-store",
+      },
+    });
+  } catch (e) {
+    return internalError(e);
+  }
+}
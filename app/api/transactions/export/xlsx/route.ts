@@ -0,0 +1,180 @@
+// app/api/transactions/export/xlsx/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getUserKey,
+  internalError,
+  monthRange,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { CURRENCIES, fromMinor } from "@/lib/currency";
+import { loadRateTable } from "@/lib/exchangeRates";
+import { kindLabel, loadCategoryLabels, ymdOf } from "@/lib/exports";
+import { TAGS_INCLUDE, withTagNames } from "@/lib/tags";
+import { parseCurrency } from "@/lib/validators";
+import { buildXlsx, type XlsxCell, type XlsxSheet } from "@/lib/xlsx";
+
+// 1ファイルに入れる月数の上限（1か月 = 1シート）
+const MAX_MONTHS = 60;
+
+const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+type MonthSums = { income: number; expense: number };
+
+// "YYYY-MM" の from〜to（両端を含む）
+function monthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  let [y, m] = from.split("-").map(Number);
+  while (months.length <= MAX_MONTHS) {
+    const ym = `${y}-${String(m).padStart(2, "0")}`;
+    months.push(ym);
+    if (ym === to) break;
+    m += 1;
+    if (m > 12) {
+      y += 1;
+      m = 1;
+    }
+  }
+  return months;
+}
+
+/**
+ * GET /api/transactions/export/xlsx?from=YYYY-MM&to=YYYY-MM&base=JPY
+ * - 明細の XLSX（外部サービスは使わずサーバーで作る。ゴミ箱の明細は含めない）
+ * - 「集計」: 月ごとの収入/支出/収支（/api/summary の monthSummary と同じ計算）
+ * - 「カテゴリ別」: カテゴリ × 月の支出・収入（リングのカテゴリはリング名）
+ * - 資金移動の明細は月のシートには出すが、「集計」「カテゴリ別」には足さない
+ * - 月ごとのシート: その月の明細（金額は通貨の単位。base 換算の列つき）
+ * - 集計の金額は base 通貨（省略時 JPY）。レートが無い通貨は集計に足さず「集計」に書く
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const sp = new URL(req.url).searchParams;
+    const fromYm = (sp.get("from") ?? "").trim();
+    const toYm = (sp.get("to") ?? fromYm).trim();
+    const first = monthRange(fromYm);
+    const last = monthRange(toYm);
+    if (!first) return badRequest("from is required (YYYY-MM)");
+    if (!last) return badRequest("to must be a month (YYYY-MM)");
+    if (first.start > last.start) return badRequest("from must not be after to");
+
+    const months = monthsBetween(fromYm, toYm);
+    if (months.length > MAX_MONTHS) return badRequest(`at most ${MAX_MONTHS} months`);
+
+    const base = parseCurrency(sp.get("base"));
+    if (!base) return badRequest(`base must be one of ${CURRENCIES.join(", ")}`);
+
+    const [rows, labels, rates] = await Promise.all([
+      prisma.transaction.findMany({
+        where: { userKey, deletedAt: null, occurredAt: { gte: first.start, lt: last.end } },
+        include: TAGS_INCLUDE,
+        orderBy: [{ occurredAt: "asc" }, { createdAt: "asc" }, { id: "asc" }],
+      }),
+      loadCategoryLabels(userKey),
+      loadRateTable(userKey),
+    ]);
+
+    const labelOf = (category: string) => labels.get(category) ?? category;
+    const missing = new Set<string>();
+    const byMonth = new Map<string, Array<XlsxCell[]>>(months.map((ym) => [ym, []]));
+    const totals = new Map<string, MonthSums>(months.map((ym) => [ym, { income: 0, expense: 0 }]));
+    // カテゴリ → 月 → 合計（base の最小単位）
+    const pivot = { income: new Map<string, Map<string, number>>(), expense: new Map<string, Map<string, number>>() };
+
+    for (const t of rows.map(withTagNames)) {
+      const ym = ymdOf(t.occurredAt).slice(0, 7);
+      const inBase = t.currency === base ? t.amount : rates.convert(t.amount, t.currency, base, t.occurredAt);
+      if (inBase === null && t.transferId === null) missing.add(t.currency);
+
+      byMonth.get(ym)?.push([
+        ymdOf(t.occurredAt),
+        t.type === "income" ? "収入" : "支出",
+        fromMinor(t.amount, t.currency),
+        t.currency,
+        inBase === null ? null : fromMinor(inBase, base),
+        labelOf(t.category),
+        t.detailCategory,
+        t.tags.join(" "),
+        kindLabel(t),
+      ]);
+
+      const category = t.category.trim();
+      if (inBase === null || !category || t.transferId !== null) continue;
+      const type = t.type === "income" ? "income" : "expense";
+      const sums = totals.get(ym);
+      if (sums) sums[type] += inBase;
+
+      const label = labelOf(category);
+      const perMonth = pivot[type].get(label) ?? new Map<string, number>();
+      perMonth.set(ym, (perMonth.get(ym) ?? 0) + inBase);
+      pivot[type].set(label, perMonth);
+    }
+
+    const major = (minor: number) => fromMinor(minor, base);
+
+    // ✅ 集計
+    const summaryRows: XlsxCell[][] = [[`月（${base}）`, "収入", "支出", "収支"]];
+    const all: MonthSums = { income: 0, expense: 0 };
+    for (const ym of months) {
+      const s = totals.get(ym)!;
+      all.income += s.income;
+      all.expense += s.expense;
+      summaryRows.push([ym, major(s.income), major(s.expense), major(s.income - s.expense)]);
+    }
+    summaryRows.push(["合計", major(all.income), major(all.expense), major(all.income - all.expense)]);
+    if (missing.size > 0) {
+      summaryRows.push([], [`レートが無いため集計に含めていない通貨: ${Array.from(missing).sort().join(", ")}`]);
+    }
+
+    // ✅ カテゴリ × 月（合計の大きい順）
+    const pivotRows: XlsxCell[][] = [["カテゴリ", "区分", ...months, "合計"]];
+    for (const type of ["expense", "income"] as const) {
+      const typeLabel = type === "income" ? "収入" : "支出";
+      const entries = Array.from(pivot[type], ([label, perMonth]) => {
+        const total = Array.from(perMonth.values()).reduce((a, b) => a + b, 0);
+        return { label, perMonth, total };
+      }).sort((a, b) => b.total - a.total || a.label.localeCompare(b.label, "ja"));
+
+      for (const e of entries) {
+        pivotRows.push([e.label, typeLabel, ...months.map((ym) => major(e.perMonth.get(ym) ?? 0)), major(e.total)]);
+      }
+      const monthTotals = months.map((ym) => totals.get(ym)![type]);
+      pivotRows.push([
+        `${typeLabel}合計`,
+        typeLabel,
+        ...monthTotals.map(major),
+        major(monthTotals.reduce((a, b) => a + b, 0)),
+      ]);
+    }
+
+    const sheets: XlsxSheet[] = [
+      { name: "集計", rows: summaryRows, header: true, widths: [14, 14, 14, 14] },
+      { name: "カテゴリ別", rows: pivotRows, header: true, widths: [20, 6, ...months.map(() => 12), 14] },
+      ...months.map((ym) => ({
+        name: ym,
+        rows: [["日付", "種別", "金額", "通貨", `金額（${base}）`, "カテゴリ", "内訳", "タグ", "区分"], ...byMonth.get(ym)!],
+        header: true,
+        widths: [12, 6, 12, 6, 12, 16, 24, 16, 8],
+      })),
+    ];
+
+    const name = `miyamu-${fromYm}${toYm !== fromYm ? `_${toYm}` : ""}.xlsx`;
+    return new NextResponse(new Uint8Array(buildXlsx(sheets)), {
+      headers: {
+        "content-type": XLSX_CONTENT_TYPE,
+        "content-disposition": `attachment; filename="${name.replace(/[^\w.-]/g, "_")}"`,
+        "cache-control": "no-store",
+      },
+    });
+  } catch (e) {
+    return internalError(e);
+  }
+}
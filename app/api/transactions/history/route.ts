@@ -0,0 +1,142 @@
+// app/api/transactions/history/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getLedgerAccess,
+  getUserKey,
+  internalError,
+  notFound,
+  parseIfMatch,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { parseSnapshot, recordRevision, snapshotOf } from "@/lib/revisions";
+import { setTransactionTags, TAGS_INCLUDE, withTagNames } from "@/lib/tags";
+
+function parsePositiveInt(value: string | null): number | null {
+  const n = Number(value);
+  if (!value || !Number.isInteger(n) || n <= 0) return null;
+  return n;
+}
+
+/**
+ * GET /api/transactions/history?id=123
+ * - その明細の変更履歴（新しい順）。完全削除された明細でも履歴は返す
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const id = parsePositiveInt(new URL(req.url).searchParams.get("id"));
+    if (!id) return badRequest("id is required");
+
+    const [current, revisions] = await Promise.all([
+      prisma.transaction.findFirst({ where: { id, userKey } }),
+      prisma.transactionRevision.findMany({
+        where: { userKey, transactionId: id },
+        orderBy: { id: "desc" },
+      }),
+    ]);
+
+    if (!current && revisions.length === 0) return notFound();
+
+    return NextResponse.json({ transactionId: id, current, revisions });
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * POST /api/transactions/history?id=123&revisionId=456
+ * - その版の「変更後」の内容に戻す（戻したこと自体も revert として履歴に残る）
+ * - If-Match（または body.version）に今の version が必要（PATCH /api/transactions と同じ。違っていたら 409）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
+
+    const sp = new URL(req.url).searchParams;
+    const id = parsePositiveInt(sp.get("id"));
+    if (!id) return badRequest("id is required");
+    const revisionId = parsePositiveInt(sp.get("revisionId"));
+    if (!revisionId) return badRequest("revisionId is required");
+
+    const revision = await prisma.transactionRevision.findFirst({
+      where: { id: revisionId, userKey, transactionId: id },
+    });
+    if (!revision) return notFound();
+
+    const target = parseSnapshot(revision.after);
+    if (!target) return badRequest("this revision has no state to revert to");
+
+    const body = await req.json().catch(() => null);
+    const expected = parseIfMatch(req.headers.get("if-match")) ?? parseIfMatch(String(body?.version ?? ""));
+    if (!expected) {
+      return NextResponse.json({ error: "If-Match header (or version) is required" }, { status: 428 });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const current = await tx.transaction.findFirst({ where: { id, userKey }, include: TAGS_INCLUDE });
+      if (!current) return null;
+      if (current.deletedAt) return "transaction is in the trash; restore it first";
+      if (current.transferId) return "transfer legs must be edited via /api/transfers";
+      if (current.splitId) return "split lines must be edited via /api/splits";
+      if (current.version !== expected) return { conflict: true, row: current };
+
+      // version が一致したときだけ戻す（同時に来た方は count 0 になる）
+      const claimed = await tx.transaction.updateMany({
+        where: { id, version: expected },
+        data: {
+          amount: target.amount,
+          currency: target.currency,
+          category: target.category,
+          detailCategory: target.detailCategory,
+          type: target.type,
+          occurredAt: new Date(target.occurredAt),
+          version: { increment: 1 },
+        },
+      });
+      if (claimed.count === 0) {
+        const latest = await tx.transaction.findFirst({ where: { id, userKey }, include: TAGS_INCLUDE });
+        return latest ? { conflict: true, row: latest } : null;
+      }
+
+      // タグの無い（タグ対応より前の）版に戻すときは、タグは今のまま
+      if (target.tags) await setTransactionTags(tx, userKey, id, target.tags);
+      const updated = await tx.transaction.findUniqueOrThrow({ where: { id }, include: TAGS_INCLUDE });
+      await recordRevision(tx, {
+        transactionId: id,
+        userKey,
+        actor,
+        action: "revert",
+        before: snapshotOf(current),
+        after: snapshotOf(updated),
+        revertOf: revision.id,
+      });
+      return { conflict: false, row: updated };
+    });
+
+    if (!result) return notFound();
+    if (typeof result === "string") return badRequest(result);
+
+    const row = withTagNames(result.row);
+    if (result.conflict) {
+      return NextResponse.json(
+        { error: "transaction was modified by someone else", current: row },
+        { status: 409, headers: { ETag: `"${row.version}"` } }
+      );
+    }
+
+    return NextResponse.json(row, { headers: { ETag: `"${row.version}"` } });
+  } catch (e) {
+    return internalError(e);
+  }
+}
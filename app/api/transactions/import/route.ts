@@ -0,0 +1,54 @@
+// app/api/transactions/import/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getLedgerAccess,
+  internalError,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { createImportedTransactions, findDuplicates, loadExistingForImport, parseImportRows } from "@/lib/imports";
+
+/**
+ * POST /api/transactions/import
+ * - body: { rows: [{ occurredAt, type, amount（通貨の最小単位）, currency, category, detailCategory?, tags? }], dryRun?: boolean }
+ * - 台帳にもうある明細（発生日・種別・金額・通貨・カテゴリ・内訳が同じ）は作らない
+ * - dryRun のときは件数と重複の行番号（rows の添字）だけ返して何も書かない
+ * - 本番は1つのDBトランザクションで実行（途中で失敗したら何も残らない）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") return badRequest("body must be JSON");
+
+    const rows = parseImportRows(body.rows);
+    if (typeof rows === "string") return badRequest(rows);
+
+    const dryRun = !!body.dryRun;
+
+    const duplicates = await prisma.$transaction(
+      async (tx) => {
+        const flags = findDuplicates(await loadExistingForImport(tx, userKey, rows), rows);
+        if (!dryRun) await createImportedTransactions(tx, userKey, actor, rows.filter((_, i) => !flags[i]));
+        return flags.flatMap((dup, i) => (dup ? [i] : []));
+      },
+      { timeout: 30_000 }
+    );
+
+    return NextResponse.json({
+      dryRun,
+      diff: { incoming: rows.length, create: rows.length - duplicates.length, skip: duplicates.length },
+      duplicates,
+    });
+  } catch (e) {
+    return internalError(e);
+  }
+}
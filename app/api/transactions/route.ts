@@ -1,185 +1,365 @@
 import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
-
-type TxType = "income" | "expense";
-
-const COOKIE_NAME = "miyamu_user_key";
-
-function badRequest(message: string) {
-  return NextResponse.json({ error: message }, { status: 400 });
+import {
+  badRequest,
+  forbidden,
+  getLedgerAccess,
+  getUserKey,
+  internalError,
+  notFound,
+  parseIfMatch,
+  parseOccurredAt,
+  parseRangeEnd,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import {
+  findIdempotentReplay,
+  IDEMPOTENCY_HEADER,
+  isIdempotencyConflict,
+  parseIdempotencyKey,
+  requestHash,
+  saveIdempotentResponse,
+} from "@/lib/idempotency";
+import { CURRENCIES, normalizeCurrency } from "@/lib/currency";
+import { loadRateTable } from "@/lib/exchangeRates";
+import { recordRevision, snapshotOf } from "@/lib/revisions";
+import { setTransactionTags, TAGS_INCLUDE, tagsWhere, withTagNames } from "@/lib/tags";
+import { moveToTrash, purgeExpiredTrash } from "@/lib/trash";
+import { parseAmount, parseTagNames, parseTransactionInput } from "@/lib/validators";
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+type Cursor = {
+  occurredAt: Date;
+  createdAt: Date;
+  id: number;
+};
+
+// ✅ cursor は (occurredAt, createdAt, id) を base64url にしただけの不透明な文字列
+function encodeCursor(t: { occurredAt: Date; createdAt: Date; id: number }): string {
+  const raw = JSON.stringify([t.occurredAt.toISOString(), t.createdAt.toISOString(), t.id]);
+  return Buffer.from(raw, "utf8").toString("base64url");
 }
 
-function normalizeAndValidateKey(raw: unknown): string | null {
-  if (typeof raw !== "string") return null;
+function decodeCursor(value: string): Cursor | null {
+  try {
+    const arr = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (!Array.isArray(arr) || arr.length !== 3) return null;
 
-  const key = raw.trim();
+    const occurredAt = new Date(String(arr[0]));
+    const createdAt = new Date(String(arr[1]));
+    const id = Number(arr[2]);
 
-  if (key.length < 8 || key.length > 64) return null;
+    if (Number.isNaN(occurredAt.getTime()) || Number.isNaN(createdAt.getTime())) return null;
+    if (!Number.isInteger(id) || id <= 0) return null;
 
-  return key;
+    return { occurredAt, createdAt, id };
+  } catch {
+    return null;
+  }
 }
 
-// ✅ header優先 → cookie fallback
-function getUserKey(req: NextRequest): string | null {
-  const headerKey = normalizeAndValidateKey(req.headers.get("x-user-key"));
-  if (headerKey) return headerKey;
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const sp = new URL(req.url).searchParams;
+    const where: Prisma.TransactionWhereInput = { userKey, deletedAt: null };
+
+    // 期間（from/to は発生日ベース）
+    const fromStr = sp.get("from");
+    const toStr = sp.get("to");
+    if (fromStr || toStr) {
+      const occurredAt: Prisma.DateTimeFilter = {};
+      if (fromStr) {
+        const from = parseOccurredAt(fromStr);
+        if (!from) return badRequest("from must be a date (YYYY-MM-DD)");
+        occurredAt.gte = from;
+      }
+      if (toStr) {
+        const end = parseRangeEnd(toStr);
+        if (!end) return badRequest("to must be a date (YYYY-MM-DD)");
+        Object.assign(occurredAt, end);
+      }
+      where.occurredAt = occurredAt;
+    }
 
-  const cookieKey = normalizeAndValidateKey(req.cookies.get(COOKIE_NAME)?.value);
-  if (cookieKey) return cookieKey;
+    const typeStr = sp.get("type");
+    if (typeStr) {
+      if (typeStr !== "income" && typeStr !== "expense")
+        return badRequest('type must be "income" or "expense"');
+      where.type = typeStr;
+    }
 
-  return null;
-}
+    const category = sp.get("category")?.trim();
+    if (category) where.category = category;
 
-function parseAmount(value: unknown): number {
-  const s = String(value ?? "")
-    .trim()
-    .replace(/[０-９]/g, (ch) => String(ch.charCodeAt(0) - 0xfee0))
-    .replace(/[,，]/g, "");
-  return Number(s);
-}
+    const currencyStr = sp.get("currency");
+    if (currencyStr) {
+      const currency = normalizeCurrency(currencyStr);
+      if (!currency) return badRequest(`currency must be one of ${CURRENCIES.join(", ")}`);
+      where.currency = currency;
+    }
 
-function parseOccurredAt(value: unknown): Date | null {
-  if (!value) return null;
-  const s = String(value).trim();
-  const d = new Date(s);
-  if (Number.isNaN(d.getTime())) return null;
-  return d;
-}
+    // タグ（?tag=旅行2026&tag=経費 → 両方付いている明細）
+    const tagNames = parseTagNames(sp.getAll("tag"));
+    if (typeof tagNames === "string") return badRequest(tagNames);
+    if (tagNames && tagNames.length > 0) where.AND = tagsWhere(tagNames);
+
+    // base を付けると各明細に baseAmount（発生日のレートで換算した額。レートが無ければ null）を足す
+    const baseStr = sp.get("base");
+    const base = baseStr ? normalizeCurrency(baseStr) : null;
+    if (baseStr && !base) return badRequest(`base must be one of ${CURRENCIES.join(", ")}`);
+
+    // detailCategory は自由入力なので部分一致
+    const detailCategory = sp.get("detailCategory")?.trim();
+    if (detailCategory) where.detailCategory = { contains: detailCategory };
+
+    const minStr = sp.get("minAmount");
+    const maxStr = sp.get("maxAmount");
+    if (minStr || maxStr) {
+      const amount: Prisma.IntFilter = {};
+      if (minStr) {
+        const min = parseAmount(minStr);
+        if (!Number.isFinite(min)) return badRequest("minAmount must be a number");
+        amount.gte = Math.trunc(min);
+      }
+      if (maxStr) {
+        const max = parseAmount(maxStr);
+        if (!Number.isFinite(max)) return badRequest("maxAmount must be a number");
+        amount.lte = Math.trunc(max);
+      }
+      where.amount = amount;
+    }
 
-export async function GET(req: NextRequest) {
-  try {
-    const userKey = getUserKey(req);
-    if (!userKey) return badRequest("user key is required (x-user-key header or cookie)");
+    const limitStr = sp.get("limit");
+    const limit = limitStr ? Number(limitStr) : DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit <= 0) return badRequest("limit must be a positive integer");
+
+    // ✅ (occurredAt, createdAt, id) の降順で「cursor より後ろ」だけ取る
+    const cursorStr = sp.get("cursor");
+    if (cursorStr) {
+      const c = decodeCursor(cursorStr);
+      if (!c) return badRequest("cursor is invalid");
+      where.OR = [
+        { occurredAt: { lt: c.occurredAt } },
+        { occurredAt: c.occurredAt, createdAt: { lt: c.createdAt } },
+        { occurredAt: c.occurredAt, createdAt: c.createdAt, id: { lt: c.id } },
+      ];
+    }
 
-    const transactions = await prisma.transaction.findMany({
-      where: { userKey },
-      orderBy: [{ occurredAt: "desc" }, { createdAt: "desc" }],
+    const take = Math.min(limit, MAX_PAGE_SIZE);
+    const rows = await prisma.transaction.findMany({
+      where,
+      include: TAGS_INCLUDE,
+      orderBy: [{ occurredAt: "desc" }, { createdAt: "desc" }, { id: "desc" }],
+      take: take + 1,
     });
 
-    return NextResponse.json(transactions);
+    const hasMore = rows.length > take;
+    const page = (hasMore ? rows.slice(0, take) : rows).map(withTagNames);
+    const nextCursor = hasMore ? encodeCursor(page[page.length - 1]) : null;
+
+    if (!base) return NextResponse.json({ items: page, nextCursor });
+
+    const rates = await loadRateTable(userKey);
+    const items = page.map((t) => ({ ...t, baseAmount: rates.convert(t.amount, t.currency, base, t.occurredAt) }));
+    return NextResponse.json({ items, nextCursor });
   } catch (e) {
-    console.error(e);
-    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    return internalError(e);
   }
 }
 
+/**
+ * POST /api/transactions
+ * - Idempotency-Key ヘッダー付きなら、同じキーの再送には最初のレスポンスをそのまま返す
+ */
 export async function POST(req: NextRequest) {
   try {
-    const userKey = getUserKey(req);
-    if (!userKey) return badRequest("user key is required (x-user-key header or cookie)");
-
-    const body = await req.json();
-
-    const amount = parseAmount(body.amount);
-    const category = String(body.category ?? "").trim();
-
-    const detailCategoryRaw = String(body.detailCategory ?? "").trim();
-    const detailCategory = detailCategoryRaw ? detailCategoryRaw.slice(0, 64) : null;
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
 
-    const type = body.type as TxType;
-    const occurredAt = parseOccurredAt(body.occurredAt) ?? new Date();
+    const rawKey = req.headers.get(IDEMPOTENCY_HEADER);
+    const idemKey = parseIdempotencyKey(rawKey);
+    if (rawKey !== null && !idemKey) return badRequest("Idempotency-Key is invalid");
 
-    if (!Number.isFinite(amount) || amount <= 0)
-      return badRequest("amount must be a positive number");
-    if (!category) return badRequest("category is required");
-    if (type !== "income" && type !== "expense")
-      return badRequest('type must be "income" or "expense"');
-
-    const created = await prisma.transaction.create({
-      data: {
-        userKey,
-        amount: Math.trunc(amount),
-        category,
-        detailCategory,
-        type,
-        occurredAt,
-      },
-    });
+    const body = await req.json();
+    const input = parseTransactionInput(body ?? {});
+    if (typeof input === "string") return badRequest(input);
+    const tags = parseTagNames(body?.tags);
+    if (typeof tags === "string") return badRequest(tags);
+
+    const hash = requestHash(body);
+    if (idemKey) {
+      const replay = await findIdempotentReplay(userKey, idemKey, hash);
+      if (replay) return replay;
+    }
 
-    return NextResponse.json(created);
+    try {
+      const created = await prisma.$transaction(async (tx) => {
+        const row = await tx.transaction.create({
+          data: {
+            userKey,
+            ...input,
+            occurredAt: input.occurredAt ?? new Date(),
+            createdBy: actor,
+          },
+        });
+        if (tags && tags.length > 0) await setTransactionTags(tx, userKey, row.id, tags);
+
+        const full = withTagNames(
+          await tx.transaction.findUniqueOrThrow({ where: { id: row.id }, include: TAGS_INCLUDE })
+        );
+        await recordRevision(tx, {
+          transactionId: row.id,
+          userKey,
+          actor,
+          action: "create",
+          before: null,
+          after: snapshotOf(full),
+        });
+        if (idemKey) {
+          await saveIdempotentResponse(tx, { userKey, key: idemKey, hash, transactionId: row.id, response: full });
+        }
+        return full;
+      });
+
+      return NextResponse.json(created);
+    } catch (e) {
+      // 同じキーの同時送信：先に保存された方のレスポンスを返す
+      if (idemKey && isIdempotencyConflict(e)) {
+        const replay = await findIdempotentReplay(userKey, idemKey, hash);
+        if (replay) return replay;
+      }
+      throw e;
+    }
   } catch (e) {
-    console.error(e);
-    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    return internalError(e);
   }
 }
 
 export async function DELETE(req: NextRequest) {
   try {
-    const userKey = getUserKey(req);
-    if (!userKey) return badRequest("user key is required (x-user-key header or cookie)");
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
 
     const idStr = new URL(req.url).searchParams.get("id");
     const id = Number(idStr);
     if (!idStr || !Number.isFinite(id) || id <= 0) return badRequest("id is required");
 
-    const deleted = await prisma.transaction.deleteMany({
-      where: { id, userKey },
+    // ✅ すぐには消さずゴミ箱へ（元に戻す/復元できるように）
+    const deleted = await prisma.$transaction(async (tx) => {
+      const current = await tx.transaction.findFirst({
+        where: { id, userKey, deletedAt: null },
+      });
+      if (!current) return null;
+      return moveToTrash(tx, userKey, actor, current);
     });
 
-    if (deleted.count === 0) {
-      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    if (!deleted) {
+      return notFound();
     }
 
-    return NextResponse.json({ ok: true });
+    await purgeExpiredTrash(userKey);
+
+    // ids: 資金移動なら2明細ぶん、分割明細なら全行ぶん
+    return NextResponse.json({ ok: true, ...deleted });
   } catch (e) {
-    console.error(e);
-    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    return internalError(e);
   }
 }
 
+/**
+ * PATCH /api/transactions?id=123
+ * - If-Match ヘッダー（または body.version）で編集元の version を必須にする
+ * - サーバー側が先に更新されていたら 409 + { current: サーバーの最新 }
+ */
 export async function PATCH(req: NextRequest) {
   try {
-    const userKey = getUserKey(req);
-    if (!userKey) return badRequest("user key is required (x-user-key header or cookie)");
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
 
     const idStr = new URL(req.url).searchParams.get("id");
     const id = Number(idStr);
     if (!idStr || !Number.isFinite(id) || id <= 0) return badRequest("id is required");
 
     const body = await req.json();
-
-    const amount = parseAmount(body.amount);
-    const category = String(body.category ?? "").trim();
-
-    const detailCategoryRaw = String(body.detailCategory ?? "").trim();
-    const detailCategory = detailCategoryRaw ? detailCategoryRaw.slice(0, 64) : null;
-
-    const type = body.type as TxType;
-    const occurredAt = parseOccurredAt(body.occurredAt);
-
-    if (!Number.isFinite(amount) || amount <= 0)
-      return badRequest("amount must be a positive number");
-    if (!category) return badRequest("category is required");
-    if (type !== "income" && type !== "expense")
-      return badRequest('type must be "income" or "expense"');
-    if (!occurredAt) return badRequest("occurredAt is required (YYYY-MM-DD)");
-
-    const updated = await prisma.transaction.updateMany({
-      where: { id, userKey },
-      data: {
-        amount: Math.trunc(amount),
-        category,
-        detailCategory, // ✅ PATCHでも保持できるように（未使用ならnullでもOK）
-        type,
-        occurredAt,
-      },
-    });
-
-    if (updated.count === 0) {
-      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    const input = parseTransactionInput(body ?? {});
+    if (typeof input === "string") return badRequest(input);
+    if (!input.occurredAt) return badRequest("occurredAt is required (YYYY-MM-DD)");
+    const occurredAt = input.occurredAt;
+    const tags = parseTagNames(body?.tags); // 省略時は今のタグのまま
+    if (typeof tags === "string") return badRequest(tags);
+
+    const expected = parseIfMatch(req.headers.get("if-match")) ?? parseIfMatch(String(body?.version ?? ""));
+    if (!expected) {
+      return NextResponse.json({ error: "If-Match header (or version) is required" }, { status: 428 });
     }
 
-    const latest = await prisma.transaction.findFirst({
-      where: { id, userKey },
+    const result = await prisma.$transaction(async (tx) => {
+      const current = await tx.transaction.findFirst({
+        where: { id, userKey, deletedAt: null },
+        include: TAGS_INCLUDE,
+      });
+      if (!current) return null;
+      if (current.transferId) return "transfer legs must be edited via /api/transfers";
+      if (current.splitId) return "split lines must be edited via /api/splits";
+      if (current.version !== expected) return { conflict: true, row: current };
+
+      // version が一致したときだけ更新（同時に来た方は count 0 になる）
+      const updated = await tx.transaction.updateMany({
+        where: { id, version: expected },
+        data: {
+          ...input, // ✅ detailCategory もPATCHで保持できるように（未使用ならnullでもOK）
+          occurredAt,
+          version: { increment: 1 },
+        },
+      });
+
+      if (updated.count > 0 && tags !== null) await setTransactionTags(tx, userKey, id, tags);
+
+      const latest = await tx.transaction.findFirst({ where: { id, userKey }, include: TAGS_INCLUDE });
+      if (!latest) return null;
+      if (updated.count === 0) return { conflict: true, row: latest };
+
+      await recordRevision(tx, {
+        transactionId: id,
+        userKey,
+        actor,
+        action: "update",
+        before: snapshotOf(current),
+        after: snapshotOf(latest),
+      });
+      return { conflict: false, row: latest };
     });
 
-    if (!latest) {
-      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    if (!result) {
+      return notFound();
+    }
+    if (typeof result === "string") return badRequest(result);
+
+    const row = withTagNames(result.row);
+    if (result.conflict) {
+      return NextResponse.json(
+        { error: "transaction was modified by someone else", current: row },
+        { status: 409, headers: { ETag: `"${row.version}"` } }
+      );
     }
 
-    return NextResponse.json(latest);
+    return NextResponse.json(row, { headers: { ETag: `"${row.version}"` } });
   } catch (e) {
-    console.error(e);
-    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    return internalError(e);
   }
 }
@@ -0,0 +1,119 @@
+// app/api/transactions/trash/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getLedgerAccess,
+  getUserKey,
+  internalError,
+  notFound,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import { TAGS_INCLUDE, withTagNames } from "@/lib/tags";
+import {
+  purgeExpiredTrash,
+  purgeTrash,
+  restoreFromTrash,
+  TRASH_RETENTION_DAYS,
+  trashCutoff,
+  trashExpiresAt,
+} from "@/lib/trash";
+
+function parseId(req: NextRequest): number | null {
+  const idStr = new URL(req.url).searchParams.get("id");
+  const id = Number(idStr);
+  if (!idStr || !Number.isInteger(id) || id <= 0) return null;
+  return id;
+}
+
+/**
+ * GET /api/transactions/trash
+ * - ゴミ箱の明細（削除が新しい順）
+ * - 保存期間を過ぎたものは出さない（完全に消すのは書き込みのとき）
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const rows = await prisma.transaction.findMany({
+      where: { userKey, deletedAt: { not: null, gte: trashCutoff() } },
+      include: TAGS_INCLUDE,
+      orderBy: [{ deletedAt: "desc" }, { id: "desc" }],
+    });
+
+    return NextResponse.json({
+      retentionDays: TRASH_RETENTION_DAYS,
+      items: rows.map((t) => ({ ...withTagNames(t), expiresAt: t.deletedAt ? trashExpiresAt(t.deletedAt) : null })),
+    });
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * POST /api/transactions/trash?id=123
+ * - ゴミ箱から戻す（「元に戻す」もこれ）
+ * - 資金移動の片側なら、もう片側も一緒に戻る（レスポンスは指定した id の明細）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
+
+    const id = parseId(req);
+    if (!id) return badRequest("id is required");
+
+    // 保存期間を過ぎたものは戻せない（先に完全に消す）
+    await purgeExpiredTrash(userKey);
+
+    const latest = await prisma.$transaction(async (tx) => {
+      const current = await tx.transaction.findFirst({
+        where: { id, userKey, deletedAt: { not: null } },
+      });
+      if (!current) return null;
+
+      await restoreFromTrash(tx, userKey, actor, current);
+      return tx.transaction.findFirst({ where: { id, userKey }, include: TAGS_INCLUDE });
+    });
+
+    if (!latest) return notFound();
+
+    return NextResponse.json(withTagNames(latest));
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * DELETE /api/transactions/trash?id=123
+ * - id あり: その1件を完全に消す
+ * - id なし: ゴミ箱を空にする
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
+
+    const hasId = new URL(req.url).searchParams.has("id");
+    const id = parseId(req);
+    if (hasId && !id) return badRequest("id is invalid");
+
+    const purged = await purgeTrash(userKey, actor, id ? { id } : {});
+    if (id) await purgeExpiredTrash(userKey);
+
+    if (id && purged === 0) return notFound();
+
+    return NextResponse.json({ ok: true, purged });
+  } catch (e) {
+    return internalError(e);
+  }
+}
@@ -0,0 +1,193 @@
+// app/api/transfers/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  forbidden,
+  getLedgerAccess,
+  getUserKey,
+  internalError,
+  notFound,
+  parseIfMatch,
+  READ_ONLY,
+  USER_KEY_REQUIRED,
+  VIEWER_READ_ONLY,
+} from "@/lib/api";
+import {
+  findIdempotentReplay,
+  IDEMPOTENCY_HEADER,
+  isIdempotencyConflict,
+  parseIdempotencyKey,
+  requestHash,
+  saveIdempotentResponse,
+} from "@/lib/idempotency";
+import { createTransfer, updateTransfer } from "@/lib/transfers";
+import { moveToTrash, purgeExpiredTrash } from "@/lib/trash";
+import { parseTransferInput } from "@/lib/validators";
+
+function parseId(req: NextRequest): number | null {
+  const idStr = new URL(req.url).searchParams.get("id");
+  const id = Number(idStr);
+  if (!idStr || !Number.isInteger(id) || id <= 0) return null;
+  return id;
+}
+
+// 明細はゴミ箱以外を作成順で
+const LEGS_INCLUDE = {
+  legs: { where: { deletedAt: null }, orderBy: { id: "asc" } },
+} satisfies Prisma.TransferInclude;
+
+/**
+ * GET /api/transfers
+ * - 資金移動の一覧（新しい順）。ゴミ箱に入っているものは出さない
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userKey = await getUserKey(req);
+    if (userKey === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!userKey) return badRequest(USER_KEY_REQUIRED);
+
+    const transfers = await prisma.transfer.findMany({
+      where: { userKey, legs: { some: { deletedAt: null } } },
+      include: LEGS_INCLUDE,
+      orderBy: [{ occurredAt: "desc" }, { id: "desc" }],
+    });
+
+    return NextResponse.json(transfers);
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * POST /api/transfers
+ * - body: { amount, fromCategory, toCategory, occurredAt, memo? }
+ * - 出金側（fromCategory の支出）と入金側（toCategory の収入）の2明細を一緒に作る
+ * - Idempotency-Key の扱いは POST /api/transactions と同じ
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
+
+    const rawKey = req.headers.get(IDEMPOTENCY_HEADER);
+    const idemKey = parseIdempotencyKey(rawKey);
+    if (rawKey !== null && !idemKey) return badRequest("Idempotency-Key is invalid");
+
+    const body = await req.json();
+    const input = parseTransferInput(body ?? {});
+    if (typeof input === "string") return badRequest(input);
+
+    const hash = requestHash(body);
+    if (idemKey) {
+      const replay = await findIdempotentReplay(userKey, idemKey, hash);
+      if (replay) return replay;
+    }
+
+    try {
+      const created = await prisma.$transaction(async (tx) => {
+        const transfer = await createTransfer(tx, userKey, actor, input);
+        if (idemKey) {
+          await saveIdempotentResponse(tx, {
+            userKey,
+            key: idemKey,
+            hash,
+            transactionId: transfer.legs[0].id,
+            response: transfer,
+          });
+        }
+        return transfer;
+      });
+
+      return NextResponse.json(created);
+    } catch (e) {
+      if (idemKey && isIdempotencyConflict(e)) {
+        const replay = await findIdempotentReplay(userKey, idemKey, hash);
+        if (replay) return replay;
+      }
+      throw e;
+    }
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * PATCH /api/transfers?id=123
+ * - 渡した項目だけ変える（2明細もまとめて書き換わる）
+ * - If-Match（または body.version）に Transfer の version が必要。違っていたら 409 と今の内容
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
+
+    const id = parseId(req);
+    if (!id) return badRequest("id is required");
+
+    const current = await prisma.transfer.findFirst({ where: { id, userKey } });
+    if (!current) return notFound();
+
+    const body = (await req.json()) ?? {};
+    const input = parseTransferInput({ ...current, occurredAt: current.occurredAt.toISOString(), ...body });
+    if (typeof input === "string") return badRequest(input);
+
+    const expected = parseIfMatch(req.headers.get("if-match")) ?? parseIfMatch(String(body.version ?? ""));
+    if (!expected) {
+      return NextResponse.json({ error: "If-Match header (or version) is required" }, { status: 428 });
+    }
+
+    const result = await prisma.$transaction((tx) => updateTransfer(tx, userKey, actor, id, expected, input));
+    if (!result) return notFound();
+
+    if (result.conflict) {
+      const latest = await prisma.transfer.findFirst({ where: { id, userKey }, include: LEGS_INCLUDE });
+      if (!latest) return notFound();
+      return NextResponse.json(
+        { error: "transfer was modified by someone else", current: latest },
+        { status: 409, headers: { ETag: `"${latest.version}"` } }
+      );
+    }
+
+    return NextResponse.json(result.transfer, { headers: { ETag: `"${result.transfer.version}"` } });
+  } catch (e) {
+    return internalError(e);
+  }
+}
+
+/**
+ * DELETE /api/transfers?id=123
+ * - 2明細ともゴミ箱へ（復元も2明細まとめて）
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const access = await getLedgerAccess(req);
+    if (access === READ_ONLY) return forbidden(VIEWER_READ_ONLY);
+    if (!access) return badRequest(USER_KEY_REQUIRED);
+    const { userKey, actor } = access;
+
+    const id = parseId(req);
+    if (!id) return badRequest("id is required");
+
+    const deleted = await prisma.$transaction(async (tx) => {
+      const leg = await tx.transaction.findFirst({
+        where: { transferId: id, userKey, deletedAt: null },
+      });
+      if (!leg) return null;
+      return moveToTrash(tx, userKey, actor, leg);
+    });
+
+    if (!deleted) return notFound();
+
+    await purgeExpiredTrash(userKey);
+
+    return NextResponse.json({ ok: true, ...deleted });
+  } catch (e) {
+    return internalError(e);
+  }
+}
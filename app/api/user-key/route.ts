@@ -1,29 +1,41 @@
 // app/api/user-key/route.ts
-import { cookies } from "next/headers";
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { badRequest, internalError, unauthorized } from "@/lib/api";
+import { canUseLedger } from "@/lib/auth";
+import { clearUserKeyCookie, normalizeUserKey, setUserKeyCookie, USER_KEY_MAX_LENGTH, USER_KEY_MIN_LENGTH } from "@/lib/identity";
 
-function isValidUserKey(v: string) {
-  // 例：32文字の16進数（今の 3e15a0... 形式に合わせる）
-  return /^[0-9a-f]{32}$/i.test(v);
-}
+/**
+ * POST /api/user-key
+ * - body: { userKey }
+ * - この端末の userKey を cookie に入れる（以降ヘッダが無いリクエストも同じ台帳を読む）
+ * - アカウントに紐づいた userKey は、そのアカウントでログインしている時だけ
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json().catch(() => null)) as { userKey?: unknown } | null;
+    const userKey = normalizeUserKey(body?.userKey);
+    if (!userKey) {
+      return badRequest(`userKey must be ${USER_KEY_MIN_LENGTH}-${USER_KEY_MAX_LENGTH} characters`);
+    }
 
-export async function POST(req: Request) {
-  const body = (await req.json().catch(() => null)) as { userKey?: string } | null;
-  const userKey = body?.userKey?.trim() ?? "";
+    if (!(await canUseLedger(req, userKey))) {
+      return unauthorized("this user key is linked to an account; sign in first");
+    }
 
-  if (!isValidUserKey(userKey)) {
-    return NextResponse.json({ error: "Invalid userKey" }, { status: 400 });
+    const res = NextResponse.json({ ok: true, userKey });
+    setUserKeyCookie(res, userKey);
+    return res;
+  } catch (e) {
+    return internalError(e);
   }
+}
 
-  // ✅ cookie書き換え（GET側と同じキー名/オプションに合わせてね）
-  const c = await cookies();
-  c.set("userKey", userKey, {
-    httpOnly: true,
-    sameSite: "lax",
-    path: "/",
-    secure: process.env.NODE_ENV === "production",
-    maxAge: 60 * 60 * 24 * 365, // 1年
-  });
-
-  return NextResponse.json({ ok: true, userKey });
-}
\ No newline at end of file
+/**
+ * DELETE /api/user-key
+ * - cookie の userKey を消す（x-user-key ヘッダで送る分はそのまま使える）
+ */
+export async function DELETE() {
+  const res = NextResponse.json({ ok: true });
+  clearUserKeyCookie(res);
+  return res;
+}
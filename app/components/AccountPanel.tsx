@@ -0,0 +1,259 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Props = {
+  userKey: string;
+
+  // ✅ この端末で使う userKey を切り替える（localStorage も書き換える）
+  onSwitchUserKey: (next: string) => void;
+};
+
+type SessionState = { account: { id: number; email: string } | null; ledgers: string[] };
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: 10,
+  borderRadius: 10,
+  border: "1px solid #ccc",
+  fontSize: 12,
+};
+const smallButton: React.CSSProperties = {
+  padding: "6px 10px",
+  borderRadius: 10,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontWeight: 800,
+  fontSize: 12,
+};
+const primaryButton: React.CSSProperties = {
+  padding: "10px 14px",
+  borderRadius: 12,
+  border: "1px solid #111",
+  background: "#111",
+  color: "#fff",
+  fontWeight: 900,
+  cursor: "pointer",
+};
+
+const shortKey = (k: string) => (k.length > 12 ? `${k.slice(0, 6)}…${k.slice(-4)}` : k);
+
+/**
+ * ✅ アカウント（メール + パスワード）でログインして、ユーザーIDを自分だけのものにする
+ * - 紐づけたユーザーIDは、ログインしていない端末からは読み書きできない
+ */
+export default function AccountPanel({ userKey, onSwitchUserKey }: Props) {
+  const [session, setSession] = useState<SessionState | null>(null);
+  const [mode, setMode] = useState<"login" | "signup">("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/auth/session", { cache: "no-store" });
+        const data = await res.json().catch(() => null);
+        if (!cancelled && res.ok && data) setSession(data as SessionState);
+      } catch (e) {
+        console.error(e);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const submit = async () => {
+    if (busy || !email.trim() || !password) return;
+    setBusy(true);
+    try {
+      const res = await fetch(mode === "signup" ? "/api/auth/account" : "/api/auth/session", {
+        method: "POST",
+        headers: { "content-type": "application/json", "x-user-key": userKey },
+        body: JSON.stringify({ email: email.trim(), password }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        alert(data?.error ?? (mode === "signup" ? "登録に失敗しました" : "ログインに失敗しました"));
+        return;
+      }
+      const next = data as SessionState;
+      setSession(next);
+      setPassword("");
+
+      // いまのIDがこのアカウントのものでなければ、アカウントの最初のIDに切り替える
+      if (next.ledgers.length > 0 && !next.ledgers.includes(userKey)) {
+        onSwitchUserKey(next.ledgers[0]);
+      }
+    } catch (e) {
+      console.error(e);
+      alert("通信に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const logout = async () => {
+    setBusy(true);
+    try {
+      await fetch("/api/auth/session", { method: "DELETE" });
+      setSession({ account: null, ledgers: [] });
+    } catch (e) {
+      console.error(e);
+      alert("ログアウトに失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const claimCurrent = async () => {
+    setBusy(true);
+    try {
+      const res = await fetch("/api/auth/ledgers", { method: "POST", headers: { "x-user-key": userKey } });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        alert(data?.error ?? "紐づけに失敗しました");
+        return;
+      }
+      setSession((s) => (s ? { ...s, ledgers: data.ledgers } : s));
+    } catch (e) {
+      console.error(e);
+      alert("紐づけに失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const unlink = async (key: string) => {
+    if (!confirm("このユーザーIDの紐づけを外しますか？（IDを知っていれば誰でも使える状態に戻ります）")) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/auth/ledgers?userKey=${encodeURIComponent(key)}`, { method: "DELETE" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        alert(data?.error ?? "紐づけの解除に失敗しました");
+        return;
+      }
+      setSession((s) => (s ? { ...s, ledgers: data.ledgers } : s));
+    } catch (e) {
+      console.error(e);
+      alert("紐づけの解除に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!session) return <div style={{ fontSize: 12, opacity: 0.6 }}>アカウントを確認中…</div>;
+
+  if (!session.account) {
+    return (
+      <div>
+        <div style={{ display: "flex", gap: 8, marginBottom: 8 }}>
+          {(["login", "signup"] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              style={{ ...smallButton, flex: 1, border: mode === m ? "2px solid #111" : "1px solid #ddd" }}
+            >
+              {m === "login" ? "ログイン" : "新規登録"}
+            </button>
+          ))}
+        </div>
+
+        <div style={{ display: "grid", gap: 6 }}>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="メールアドレス"
+            autoComplete="email"
+            style={inputStyle}
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && submit()}
+            placeholder={mode === "signup" ? "パスワード（8文字以上）" : "パスワード"}
+            autoComplete={mode === "signup" ? "new-password" : "current-password"}
+            style={inputStyle}
+          />
+        </div>
+
+        {mode === "signup" && (
+          <div style={{ marginTop: 6, fontSize: 11, opacity: 0.65 }}>
+            ※ いまのユーザーID（{shortKey(userKey)}）のデータをそのままアカウントに引き継ぎます
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={submit}
+          disabled={busy || !email.trim() || !password}
+          style={{ ...primaryButton, marginTop: 10, opacity: busy || !email.trim() || !password ? 0.6 : 1 }}
+        >
+          {busy ? "送信中…" : mode === "signup" ? "登録してログイン" : "ログイン"}
+        </button>
+      </div>
+    );
+  }
+
+  const currentLinked = session.ledgers.includes(userKey);
+
+  return (
+    <div>
+      <div style={{ fontSize: 12 }}>
+        ログイン中：<b>{session.account.email}</b>
+      </div>
+
+      <div style={{ display: "grid", gap: 6, marginTop: 8 }}>
+        {session.ledgers.map((k) => (
+          <div
+            key={k}
+            style={{
+              display: "flex",
+              gap: 6,
+              alignItems: "center",
+              border: "1px solid #eee",
+              borderRadius: 10,
+              padding: "6px 8px",
+              fontSize: 12,
+            }}
+          >
+            <span style={{ fontWeight: 800, wordBreak: "break-all", flex: 1 }}>
+              {shortKey(k)}
+              {k === userKey && <span style={{ marginLeft: 6, opacity: 0.6 }}>（この端末）</span>}
+            </span>
+            {k !== userKey && (
+              <button type="button" onClick={() => onSwitchUserKey(k)} disabled={busy} style={smallButton}>
+                この端末で使う
+              </button>
+            )}
+            <button type="button" onClick={() => unlink(k)} disabled={busy} style={smallButton}>
+              解除
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap" }}>
+        {!currentLinked && userKey && (
+          <button type="button" onClick={claimCurrent} disabled={busy} style={smallButton}>
+            いまのIDをこのアカウントに紐づける
+          </button>
+        )}
+        <button type="button" onClick={logout} disabled={busy} style={smallButton}>
+          ログアウト
+        </button>
+      </div>
+
+      <div style={{ marginTop: 8, fontSize: 11, opacity: 0.65 }}>
+        ※ 紐づけたユーザーIDは、ログインしていない端末からは使えません
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { ImportMapping } from "../types";
+import { APP_IMPORTERS, guessImporter, type ForeignRow, type ImportSource } from "../../lib/appImports";
+import { decodeCsvBytes, MAX_IMPORT_ROWS } from "../../lib/csv";
+import { toMinor } from "../../lib/currency";
+
+type Props = {
+  userKey: string;
+  // ✅ 選べるカテゴリ（リング）: [{ title: "生活費", category: "ring:life" }, ...]
+  categories: Array<{ title: string; category: string }>;
+  resolveLabel: (category: string) => string;
+  onClose: () => void;
+
+  // ✅ 取り込んだ（親で取り直す）
+  onImported: () => void;
+};
+
+type MappingDraft = { category: string; detail: string };
+
+const inputStyle: React.CSSProperties = { width: "100%", padding: 6, borderRadius: 8, border: "1px solid #ccc", fontSize: 12 };
+const smallButton: React.CSSProperties = {
+  padding: "6px 10px",
+  borderRadius: 10,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontWeight: 800,
+  fontSize: 12,
+};
+const cellStyle: React.CSSProperties = { padding: "3px 4px", borderBottom: "1px solid #f2f2f2" };
+
+/**
+ * ✅ 他の家計簿アプリの書き出しファイルを取り込む
+ * - 取り込み元のカテゴリごとにリングと内訳を決める（対応表は保存して次回に使う）
+ * - 何年分もあることがあるので、MAX_IMPORT_ROWS 件ずつに分けて送る
+ */
+export default function AppImportPanel({ userKey, categories, resolveLabel, onClose, onImported }: Props) {
+  const [busy, setBusy] = useState(false);
+  const [source, setSource] = useState<ImportSource>(APP_IMPORTERS[0].id);
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [rows, setRows] = useState<ForeignRow[]>([]);
+  const [mapping, setMapping] = useState<Record<string, MappingDraft>>({});
+  const [duplicates, setDuplicates] = useState<number | null>(null);
+
+  const uniqueCategories = useMemo(
+    () => Array.from(new Map(categories.map((c) => [c.category, c])).values()),
+    [categories]
+  );
+  const [bulkCategory, setBulkCategory] = useState(uniqueCategories[0]?.category ?? "");
+
+  // 取り込み元のカテゴリ（多い順）
+  const sourceCategories = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const r of rows) counts.set(r.sourceCategory, (counts.get(r.sourceCategory) ?? 0) + 1);
+    return Array.from(counts).sort((a, b) => b[1] - a[1]);
+  }, [rows]);
+
+  const unassigned = sourceCategories.filter(([sc]) => !mapping[sc]?.category).length;
+
+  const payloads = useMemo(
+    () =>
+      rows.map((r) => ({
+        occurredAt: r.occurredAt,
+        type: r.type,
+        amount: toMinor(r.amount, r.currency),
+        currency: r.currency,
+        category: mapping[r.sourceCategory]?.category ?? "",
+        detailCategory: mapping[r.sourceCategory]?.detail.trim() || r.memo,
+      })),
+    [rows, mapping]
+  );
+
+  const request = async (method: string, path: string, body?: unknown) => {
+    const res = await fetch(path, {
+      method,
+      headers: { "content-type": "application/json", "x-user-key": userKey },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      cache: "no-store",
+    });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(data?.error ?? `${method} ${path} failed`);
+    return data;
+  };
+
+  // 読み直して、保存してある対応表（無ければ同じ名前のリング・小分類）で埋める
+  const parseWith = async (next: ImportSource, name: string, text: string) => {
+    const importer = APP_IMPORTERS.find((i) => i.id === next)!;
+    const parsed = importer.parse(text);
+    setSource(next);
+    setDuplicates(null);
+    if (typeof parsed === "string") {
+      setRows([]);
+      alert(parsed);
+      return;
+    }
+
+    const saved = (await request("GET", `/api/import-mappings?source=${next}`)) as ImportMapping[];
+    const savedBy = new Map(saved.map((m) => [m.sourceCategory, m]));
+    const draft: Record<string, MappingDraft> = {};
+    for (const r of parsed) {
+      if (draft[r.sourceCategory]) continue;
+      const s = savedBy.get(r.sourceCategory);
+      const major = r.sourceCategory.split("/")[0];
+      draft[r.sourceCategory] = s
+        ? { category: s.category, detail: s.detailCategory ?? "" }
+        : { category: categories.find((c) => c.title === major)?.category ?? "", detail: r.defaultDetail };
+    }
+    setFile({ name, text });
+    setRows(parsed);
+    setMapping(draft);
+  };
+
+  const run = async (fn: () => Promise<void>, failMessage: string) => {
+    if (busy) return;
+    setBusy(true);
+    try {
+      await fn();
+    } catch (e) {
+      console.error(e);
+      alert(e instanceof Error && e.message ? `${failMessage}\n${e.message}` : failMessage);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loadFile = (f: File) =>
+    run(async () => {
+      const text = decodeCsvBytes(await f.arrayBuffer());
+      await parseWith(guessImporter(f.name, text).id, f.name, text);
+    }, "ファイルを読み込めませんでした");
+
+  const updateMapping = (sourceCategory: string, patch: Partial<MappingDraft>) => {
+    setMapping((m) => ({ ...m, [sourceCategory]: { ...m[sourceCategory], ...patch } }));
+    setDuplicates(null);
+  };
+
+  const assignUnassigned = () => {
+    if (!bulkCategory) return;
+    setMapping((m) =>
+      Object.fromEntries(Object.entries(m).map(([k, v]) => [k, v.category ? v : { ...v, category: bulkCategory }]))
+    );
+    setDuplicates(null);
+  };
+
+  // MAX_IMPORT_ROWS 件ずつ送る（重複の件数は合計）
+  const sendChunks = async (dryRun: boolean) => {
+    let skip = 0;
+    let create = 0;
+    for (let i = 0; i < payloads.length; i += MAX_IMPORT_ROWS) {
+      const data = await request("POST", "/api/transactions/import", {
+        rows: payloads.slice(i, i + MAX_IMPORT_ROWS),
+        dryRun,
+      });
+      skip += data.diff.skip;
+      create += data.diff.create;
+    }
+    return { skip, create };
+  };
+
+  const check = () =>
+    run(async () => {
+      setDuplicates((await sendChunks(true)).skip);
+    }, "重複チェックに失敗しました");
+
+  const runImport = () =>
+    run(async () => {
+      if (!confirm(`${rows.length - (duplicates ?? 0)} 件を取り込みますか？（重複 ${duplicates ?? 0} 件は飛ばします）`)) return;
+
+      await request("PUT", "/api/import-mappings", {
+        source,
+        mappings: Object.entries(mapping).map(([sourceCategory, m]) => ({
+          sourceCategory,
+          category: m.category,
+          detailCategory: m.detail,
+        })),
+      });
+      const { create } = await sendChunks(false);
+      alert(`${create} 件を取り込みました`);
+      onImported();
+      onClose();
+    }, `取り込みに失敗しました（${MAX_IMPORT_ROWS} 件ごとに取り込むため、途中まで取り込まれていることがあります。もう一度取り込むと、取り込み済みの分は重複として飛ばします）`);
+
+  const canCheck = !busy && rows.length > 0 && unassigned === 0;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0,0,0,0.35)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: 16,
+        zIndex: 10000,
+      }}
+      onClick={() => !busy && onClose()}
+    >
+      <div
+        style={{
+          width: "min(760px, 96vw)",
+          maxHeight: "88vh",
+          overflowY: "auto",
+          background: "#fff",
+          borderRadius: 16,
+          padding: 16,
+          boxShadow: "0 20px 60px rgba(0,0,0,0.25)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ fontWeight: 900, fontSize: 18, marginBottom: 6 }}>ほかの家計簿アプリから取り込む</div>
+        <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 12 }}>
+          マネーフォワード ME・Zaim の CSV、OFX / QFX、QIF に対応しています。アプリから書き出したファイルを選んでください
+        </div>
+
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          <input
+            type="file"
+            accept={Array.from(new Set(APP_IMPORTERS.map((i) => i.accept))).join(",")}
+            onChange={async (e) => {
+              const f = e.target.files?.[0];
+              if (f) await loadFile(f);
+              e.currentTarget.value = "";
+            }}
+            style={{ fontSize: 12 }}
+          />
+          {file && (
+            <select
+              value={source}
+              onChange={(e) => run(() => parseWith(e.target.value as ImportSource, file.name, file.text), "読み直せませんでした")}
+              disabled={busy}
+              aria-label="取り込み元"
+              style={{ ...inputStyle, width: "auto" }}
+            >
+              {APP_IMPORTERS.map((i) => (
+                <option key={i.id} value={i.id}>
+                  {i.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {rows.length > 0 && (
+          <>
+            <div style={{ marginTop: 10, fontSize: 12 }}>
+              明細 <b>{rows.length}</b> 件 ／ カテゴリ <b>{sourceCategories.length}</b> 種類
+              {unassigned > 0 && (
+                <>
+                  （リング未割り当て <b style={{ color: "#b42318" }}>{unassigned}</b>）
+                </>
+              )}
+              {duplicates !== null && (
+                <>
+                  {" "}
+                  ／ 重複 <b>{duplicates}</b> ／ 取り込む <b>{rows.length - duplicates}</b>
+                </>
+              )}
+            </div>
+
+            <div style={{ display: "flex", gap: 6, alignItems: "center", marginTop: 8, flexWrap: "wrap" }}>
+              <select
+                value={bulkCategory}
+                onChange={(e) => setBulkCategory(e.target.value)}
+                aria-label="まとめて割り当てるリング"
+                style={{ ...inputStyle, width: "auto" }}
+              >
+                {uniqueCategories.map((c) => (
+                  <option key={c.category} value={c.category}>
+                    {resolveLabel(c.category)}
+                  </option>
+                ))}
+              </select>
+              <button type="button" onClick={assignUnassigned} disabled={busy || !bulkCategory} style={smallButton}>
+                未割り当てのカテゴリに割り当てる
+              </button>
+            </div>
+
+            <div style={{ marginTop: 8, overflowX: "auto", border: "1px solid #eee", borderRadius: 10 }}>
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 12 }}>
+                <thead>
+                  <tr style={{ textAlign: "left", opacity: 0.7, fontSize: 11 }}>
+                    <th style={cellStyle}>取り込み元のカテゴリ</th>
+                    <th style={{ ...cellStyle, textAlign: "right" }}>件数</th>
+                    <th style={cellStyle}>リング</th>
+                    <th style={cellStyle}>内訳（空ならメモ・内容）</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sourceCategories.map(([sc, count]) => (
+                    <tr key={sc}>
+                      <td style={cellStyle}>{sc}</td>
+                      <td style={{ ...cellStyle, textAlign: "right" }}>{count}</td>
+                      <td style={cellStyle}>
+                        <select
+                          value={mapping[sc]?.category ?? ""}
+                          onChange={(e) => updateMapping(sc, { category: e.target.value })}
+                          aria-label={`${sc} のリング`}
+                          style={inputStyle}
+                        >
+                          <option value="">（未割り当て）</option>
+                          {uniqueCategories.map((c) => (
+                            <option key={c.category} value={c.category}>
+                              {resolveLabel(c.category)}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td style={cellStyle}>
+                        <input
+                          value={mapping[sc]?.detail ?? ""}
+                          onChange={(e) => updateMapping(sc, { detail: e.target.value })}
+                          maxLength={64}
+                          aria-label={`${sc} の内訳`}
+                          style={inputStyle}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap" }}>
+              <button type="button" onClick={check} disabled={!canCheck} style={{ ...smallButton, opacity: canCheck ? 1 : 0.5 }}>
+                重複チェック
+              </button>
+              <button
+                type="button"
+                onClick={runImport}
+                disabled={busy || duplicates === null}
+                style={{
+                  ...smallButton,
+                  background: "#111",
+                  color: "#fff",
+                  border: "1px solid #111",
+                  opacity: busy || duplicates === null ? 0.5 : 1,
+                }}
+              >
+                {busy ? "処理中…" : "取り込む"}
+              </button>
+            </div>
+            <div style={{ marginTop: 6, fontSize: 11, opacity: 0.65 }}>
+              ※ カテゴリの対応は保存され、次に同じアプリから取り込む時に使われます。振替・計算対象外の明細は取り込みません
+            </div>
+          </>
+        )}
+
+        <div style={{ display: "flex", justifyContent: "flex-end", marginTop: 12 }}>
+          <button type="button" onClick={onClose} disabled={busy} style={smallButton}>
+            閉じる
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
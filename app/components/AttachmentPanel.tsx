@@ -0,0 +1,294 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import type { Attachment } from "../types";
+import { getOrCreateUserKey } from "../../lib/userKey";
+
+type Props = {
+  transactionId: number;
+};
+
+// lib/attachments.ts の MAX_ATTACHMENT_BYTES / MAX_ATTACHMENTS_PER_TRANSACTION と合わせる
+const MAX_BYTES = 4 * 1024 * 1024;
+const MAX_FILES = 10;
+const THUMB_SIZE = 240;
+
+function fmtSize(bytes: number) {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+// ✅ 画像は端末側で縮小したサムネイルも一緒に送る（読めない形式なら無しで送る）
+async function makeThumbnail(file: File): Promise<Blob | null> {
+  if (!file.type.startsWith("image/")) return null;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMB_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise((resolve) => canvas.toBlob((b) => resolve(b), "image/jpeg", 0.7));
+  } catch {
+    return null;
+  }
+}
+
+const smallButton: React.CSSProperties = {
+  padding: "6px 10px",
+  borderRadius: 10,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontWeight: 800,
+  fontSize: 12,
+};
+
+/**
+ * ✅ 明細の添付（レシート画像 / PDF）：一覧・追加・表示・削除
+ */
+export default function AttachmentPanel({ transactionId }: Props) {
+  const [items, setItems] = useState<Attachment[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [viewing, setViewing] = useState<{ item: Attachment; url: string } | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const key = await getOrCreateUserKey();
+        const res = await fetch(`/api/transactions/attachments?transactionId=${transactionId}`, {
+          headers: { "x-user-key": key },
+          cache: "no-store",
+        });
+        const data = await res.json().catch(() => null);
+        if (!res.ok || !Array.isArray(data)) throw new Error(JSON.stringify(data));
+        if (!cancelled) setItems(data as Attachment[]);
+      } catch (e) {
+        console.error(e);
+        if (!cancelled) setItems([]);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [transactionId]);
+
+  // 表示を閉じたら object URL を捨てる
+  useEffect(() => {
+    if (!viewing) return;
+    return () => URL.revokeObjectURL(viewing.url);
+  }, [viewing]);
+
+  const upload = async (files: FileList | null) => {
+    if (!files || files.length === 0 || busy) return;
+    const list = Array.from(files);
+
+    if ((items?.length ?? 0) + list.length > MAX_FILES) {
+      alert(`添付は1件の明細につき${MAX_FILES}個までです`);
+      return;
+    }
+    const tooLarge = list.find((f) => f.size > MAX_BYTES);
+    if (tooLarge) {
+      alert(`${tooLarge.name} は大きすぎます（${fmtSize(MAX_BYTES)}まで）`);
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const key = await getOrCreateUserKey();
+      for (const file of list) {
+        const form = new FormData();
+        form.append("file", file, file.name);
+        const thumb = await makeThumbnail(file);
+        if (thumb) form.append("thumbnail", thumb, "thumbnail.jpg");
+
+        const res = await fetch(`/api/transactions/attachments?transactionId=${transactionId}`, {
+          method: "POST",
+          headers: { "x-user-key": key },
+          body: form,
+        });
+        const data = await res.json().catch(() => null);
+        if (!res.ok) {
+          alert(`${file.name}: ${data?.error ?? "アップロードに失敗しました"}`);
+          return;
+        }
+        setItems((prev) => [...(prev ?? []), data as Attachment]);
+      }
+    } catch (e) {
+      console.error(e);
+      alert("アップロードに失敗しました");
+    } finally {
+      setBusy(false);
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  };
+
+  const open = async (item: Attachment) => {
+    try {
+      const key = await getOrCreateUserKey();
+      const res = await fetch(`/api/transactions/attachments?id=${item.id}`, {
+        headers: { "x-user-key": key },
+        cache: "no-store",
+      });
+      if (!res.ok) throw new Error(`GET attachment ${item.id} failed`);
+      setViewing({ item, url: URL.createObjectURL(await res.blob()) });
+    } catch (e) {
+      console.error(e);
+      alert("添付を開けませんでした");
+    }
+  };
+
+  const remove = async (item: Attachment) => {
+    if (busy || !confirm(`${item.fileName} を削除しますか？`)) return;
+    setBusy(true);
+    try {
+      const key = await getOrCreateUserKey();
+      const res = await fetch(`/api/transactions/attachments?id=${item.id}`, {
+        method: "DELETE",
+        headers: { "x-user-key": key },
+      });
+      if (!res.ok) {
+        const e = await res.json().catch(() => ({}));
+        alert(e?.error ?? "削除に失敗しました");
+        return;
+      }
+      setItems((prev) => (prev ?? []).filter((a) => a.id !== item.id));
+    } catch (e) {
+      console.error(e);
+      alert("削除に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      {!items && <div style={{ fontSize: 12, opacity: 0.7 }}>読み込み中…</div>}
+
+      {items && items.length > 0 && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 8, marginBottom: 8 }}>
+          {items.map((a) => (
+            <div key={a.id} style={{ width: 96, border: "1px solid #eee", borderRadius: 10, padding: 6, fontSize: 11 }}>
+              <button
+                type="button"
+                onClick={() => open(a)}
+                title={a.fileName}
+                style={{
+                  width: "100%",
+                  height: 72,
+                  border: "none",
+                  borderRadius: 6,
+                  background: "#f6f6f6",
+                  cursor: "pointer",
+                  padding: 0,
+                  overflow: "hidden",
+                  fontSize: 24,
+                }}
+              >
+                {a.thumbnail ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={a.thumbnail} alt={a.fileName} style={{ width: "100%", height: "100%", objectFit: "cover" }} />
+                ) : a.mimeType === "application/pdf" ? (
+                  "📄"
+                ) : (
+                  "🖼"
+                )}
+              </button>
+              <div style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", marginTop: 4 }}>
+                {a.fileName}
+              </div>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", opacity: 0.7 }}>
+                {fmtSize(a.size)}
+                <button
+                  type="button"
+                  onClick={() => remove(a)}
+                  disabled={busy}
+                  aria-label={`${a.fileName} を削除`}
+                  style={{ border: "none", background: "transparent", cursor: "pointer", color: "#b42318", padding: 0 }}
+                >
+                  削除
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <input
+        ref={fileRef}
+        type="file"
+        accept="image/*,application/pdf"
+        multiple
+        onChange={(e) => upload(e.target.files)}
+        style={{ display: "none" }}
+      />
+      <button
+        type="button"
+        onClick={() => fileRef.current?.click()}
+        disabled={busy || (items?.length ?? 0) >= MAX_FILES}
+        style={smallButton}
+      >
+        {busy ? "送信中…" : "レシート・書類を添付"}
+      </button>
+      <span style={{ fontSize: 11, opacity: 0.6, marginLeft: 8 }}>
+        画像 / PDF、{fmtSize(MAX_BYTES)}まで・{MAX_FILES}個まで
+      </span>
+
+      {viewing && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          style={{
+            position: "fixed",
+            inset: 0,
+            background: "rgba(0,0,0,0.35)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: 16,
+            zIndex: 10000,
+          }}
+          onClick={() => setViewing(null)}
+        >
+          <div
+            style={{
+              width: "min(860px, 96vw)",
+              maxHeight: "92vh",
+              overflow: "auto",
+              background: "#fff",
+              borderRadius: 16,
+              padding: 16,
+              boxShadow: "0 20px 60px rgba(0,0,0,0.25)",
+            }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, marginBottom: 10 }}>
+              <div style={{ fontWeight: 900, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {viewing.item.fileName}
+              </div>
+              <div style={{ display: "flex", gap: 6 }}>
+                <a href={viewing.url} download={viewing.item.fileName} style={{ ...smallButton, textDecoration: "none", color: "#111" }}>
+                  保存
+                </a>
+                <button type="button" onClick={() => setViewing(null)} style={smallButton}>
+                  閉じる
+                </button>
+              </div>
+            </div>
+
+            {viewing.item.mimeType === "application/pdf" ? (
+              <iframe src={viewing.url} title={viewing.item.fileName} style={{ width: "100%", height: "75vh", border: "none" }} />
+            ) : (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={viewing.url} alt={viewing.item.fileName} style={{ maxWidth: "100%", display: "block", margin: "0 auto" }} />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
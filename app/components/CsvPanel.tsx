@@ -0,0 +1,588 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import type { TxType } from "../types";
+import {
+  DATE_FORMAT_LABELS,
+  DATE_FORMATS,
+  decodeCsvBytes,
+  detectAmountFormat,
+  detectDateFormat,
+  MAX_IMPORT_ROWS,
+  parseCsv,
+  parseCsvAmount,
+  parseDateAs,
+  type AmountFormat,
+  type DateFormat,
+} from "../../lib/csv";
+import { CURRENCIES, normalizeCurrency, toMinor } from "../../lib/currency";
+
+type Props = {
+  userKey: string;
+  // 書き出しの初期期間（表示中の月 "YYYY-MM"）
+  selectedYm: string;
+  defaultCurrency: string;
+  // ✅ 選べるカテゴリ（リング）: [{ title: "生活費", category: "ring:life" }, ...]
+  categories: Array<{ title: string; category: string }>;
+  resolveLabel: (category: string) => string;
+  onClose: () => void;
+
+  // ✅ 取り込んだ（親で取り直す）
+  onImported: () => void;
+};
+
+// 対応づける列（date と amount は必須）
+const FIELDS = ["date", "amount", "type", "category", "detail", "tags", "currency"] as const;
+type Field = (typeof FIELDS)[number];
+
+const FIELD_LABELS: Record<Field, string> = {
+  date: "日付",
+  amount: "金額",
+  type: "種別（収入/支出）",
+  category: "カテゴリ",
+  detail: "内訳・メモ",
+  tags: "タグ",
+  currency: "通貨",
+};
+
+// 見出しから列を推測する
+const FIELD_HINTS: Record<Field, RegExp> = {
+  date: /日付|年月日|取引日|利用日|date/i,
+  amount: /金額|amount|price/i,
+  type: /種別|収支|type/i,
+  category: /カテゴリ|分類|category/i,
+  detail: /内訳|メモ|摘要|内容|detail|memo|note|description/i,
+  tags: /タグ|tag/i,
+  currency: /通貨|currency/i,
+};
+
+const INCOME_WORDS = /^(収入|入金|income|credit)$/i;
+const EXPENSE_WORDS = /^(支出|出金|expense|debit)$/i;
+
+const PREVIEW_ROWS = 100;
+
+type Mapping = Record<Field, number | null>;
+
+type ImportPayload = {
+  occurredAt: string;
+  type: TxType;
+  amount: number;
+  currency: string;
+  category: string;
+  detailCategory: string;
+  tags: string;
+};
+
+type ParsedRow = { line: number; cells: string[]; payload: ImportPayload | null; error: string | null };
+
+const inputStyle: React.CSSProperties = { width: "100%", padding: 8, borderRadius: 10, border: "1px solid #ccc", fontSize: 12 };
+const smallButton: React.CSSProperties = {
+  padding: "6px 10px",
+  borderRadius: 10,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontWeight: 800,
+  fontSize: 12,
+};
+const selectStyle: React.CSSProperties = { ...inputStyle, marginTop: 2 };
+const dateStyle: React.CSSProperties = { ...inputStyle, width: "auto" };
+const gridStyle: React.CSSProperties = {
+  display: "grid",
+  gridTemplateColumns: "repeat(auto-fill, minmax(160px, 1fr))",
+  gap: 8,
+  marginTop: 8,
+};
+const cellStyle: React.CSSProperties = { padding: "2px 4px", borderBottom: "1px solid #f2f2f2", whiteSpace: "nowrap" };
+
+function monthBounds(ym: string) {
+  const [y, m] = ym.split("-").map(Number);
+  const last = new Date(Date.UTC(y, m, 0)).getUTCDate();
+  return { from: `${ym}-01`, to: `${ym}-${String(last).padStart(2, "0")}` };
+}
+
+function guessMapping(header: string[]): Mapping {
+  const mapping = Object.fromEntries(FIELDS.map((f) => [f, null])) as Mapping;
+  const used = new Set<number>();
+  for (const f of FIELDS) {
+    const i = header.findIndex((h, idx) => !used.has(idx) && FIELD_HINTS[f].test(h.trim()));
+    if (i >= 0) {
+      mapping[f] = i;
+      used.add(i);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * ✅ 明細の CSV・Excel（XLSX）書き出し（期間指定）と、CSV 取り込みウィザード（列の対応づけ → プレビュー・重複チェック → 取り込み）
+ */
+export default function CsvPanel({
+  userKey,
+  selectedYm,
+  defaultCurrency,
+  categories,
+  resolveLabel,
+  onClose,
+  onImported,
+}: Props) {
+  const [busy, setBusy] = useState(false);
+
+  // ✅ 書き出し
+  const [from, setFrom] = useState(() => monthBounds(selectedYm).from);
+  const [to, setTo] = useState(() => monthBounds(selectedYm).to);
+
+  // ✅ 取り込み
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<Mapping>(() => guessMapping([]));
+  const [dateFormat, setDateFormat] = useState<DateFormat>("YMD");
+  const [amountFormat, setAmountFormat] = useState<AmountFormat>("standard");
+  const [positiveType, setPositiveType] = useState<TxType>("expense");
+  const [defaultCategory, setDefaultCategory] = useState(categories[0]?.category ?? "");
+  const [fallbackCurrency, setFallbackCurrency] = useState(defaultCurrency);
+  const [checked, setChecked] = useState<{ duplicates: Set<number> } | null>(null);
+
+  const uniqueCategories = useMemo(
+    () => Array.from(new Map(categories.map((c) => [c.category, c])).values()),
+    [categories]
+  );
+
+  // リング名（書き出した CSV の「貯蓄（今月）」なども）→ category
+  const categoryByTitle = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const c of categories) {
+      map.set(c.title, c.category);
+      map.set(resolveLabel(c.category), c.category);
+    }
+    return map;
+  }, [categories, resolveLabel]);
+
+  const header = hasHeader ? table[0] ?? [] : [];
+  const body = useMemo(() => (hasHeader ? table.slice(1) : table), [table, hasHeader]);
+  const columnCount = table.reduce((n, r) => Math.max(n, r.length), 0);
+  const columnName = (i: number) => header[i]?.trim() || `${i + 1}列目`;
+
+  // 列を変えたら日付・金額の形式を見本から推測し直す
+  useEffect(() => {
+    const sample = (i: number | null) => (i === null ? [] : body.slice(0, 50).map((r) => r[i] ?? ""));
+    const df = detectDateFormat(sample(mapping.date));
+    if (df) setDateFormat(df);
+    setAmountFormat(detectAmountFormat(sample(mapping.amount)));
+  }, [body, mapping.date, mapping.amount]);
+
+  // 設定を変えたら重複チェックはやり直し
+  useEffect(() => {
+    setChecked(null);
+  }, [body, mapping, dateFormat, amountFormat, positiveType, defaultCategory, fallbackCurrency]);
+
+  const parsed: ParsedRow[] = useMemo(() => {
+    const cell = (r: string[], f: Field) => (mapping[f] === null ? "" : (r[mapping[f]!] ?? "").trim());
+    return body.map((r, idx) => {
+      const line = idx + 1 + (hasHeader ? 1 : 0);
+      const fail = (error: string): ParsedRow => ({ line, cells: r, payload: null, error });
+
+      const date = parseDateAs(cell(r, "date"), dateFormat);
+      if (!date) return fail("日付が読めません");
+
+      const value = parseCsvAmount(cell(r, "amount"), amountFormat);
+      if (value === null || value === 0) return fail("金額が読めません");
+
+      let type: TxType = value < 0 ? "expense" : positiveType;
+      if (mapping.type !== null) {
+        const t = cell(r, "type");
+        if (INCOME_WORDS.test(t)) type = "income";
+        else if (EXPENSE_WORDS.test(t)) type = "expense";
+        else if (t) return fail(`種別「${t}」が分かりません`);
+      }
+
+      const currencyCell = cell(r, "currency");
+      const currency = currencyCell ? normalizeCurrency(currencyCell) : fallbackCurrency;
+      if (!currency) return fail(`通貨「${currencyCell}」には対応していません`);
+
+      const amount = toMinor(Math.abs(value), currency);
+      if (amount <= 0) return fail("金額が小さすぎます");
+
+      const categoryCell = cell(r, "category");
+      const category = categoryCell ? categoryByTitle.get(categoryCell) ?? categoryCell : defaultCategory;
+      if (!category) return fail("カテゴリがありません");
+
+      return {
+        line,
+        cells: r,
+        error: null,
+        payload: {
+          occurredAt: date,
+          type,
+          amount,
+          currency,
+          category,
+          detailCategory: cell(r, "detail"),
+          tags: cell(r, "tags"),
+        },
+      };
+    });
+  }, [body, hasHeader, mapping, dateFormat, amountFormat, positiveType, fallbackCurrency, categoryByTitle, defaultCategory]);
+
+  const valid = parsed.filter((p) => p.payload);
+  const errorCount = parsed.length - valid.length;
+
+  // ✅ 書き出したファイルを保存する（失敗はエラーメッセージを alert）
+  const download = async (url: string, fileName: string, label: string) => {
+    setBusy(true);
+    try {
+      const res = await fetch(url, {
+        headers: { "x-user-key": userKey },
+        cache: "no-store",
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        alert(data?.error ?? `${label} の書き出しに失敗しました`);
+        return;
+      }
+
+      const href = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = href;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(href);
+    } catch (e) {
+      console.error(e);
+      alert(`${label} の書き出しに失敗しました`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportCsv = () => {
+    const qs = new URLSearchParams();
+    if (from) qs.set("from", from);
+    if (to) qs.set("to", to);
+    void download(`/api/transactions/export?${qs}`, `miyamuMaker-${from || "all"}_${to || "all"}.csv`, "CSV");
+  };
+
+  // XLSX は月単位（日付が空なら表示中の月）
+  const exportXlsx = () => {
+    const fromYm = from.slice(0, 7) || selectedYm;
+    const toYm = to.slice(0, 7) || selectedYm;
+    const qs = new URLSearchParams({ from: fromYm, to: toYm, base: defaultCurrency });
+    void download(`/api/transactions/export/xlsx?${qs}`, `miyamuMaker-${fromYm}_${toYm}.xlsx`, "Excel");
+  };
+
+  const loadFile = async (file: File) => {
+    try {
+      const rows = parseCsv(decodeCsvBytes(await file.arrayBuffer()));
+      if (rows.length === 0) {
+        alert("CSV に行がありません");
+        return;
+      }
+      setFileName(file.name);
+      setTable(rows);
+      setHasHeader(true);
+      setMapping(guessMapping(rows[0]));
+    } catch (e) {
+      console.error(e);
+      alert("CSV を読み込めませんでした");
+    }
+  };
+
+  const send = async (dryRun: boolean) => {
+    const res = await fetch("/api/transactions/import", {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-user-key": userKey },
+      body: JSON.stringify({ rows: valid.map((p) => p.payload), dryRun }),
+    });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      alert(data?.error ?? "取り込めませんでした");
+      return null;
+    }
+    return data as { diff: { incoming: number; create: number; skip: number }; duplicates: number[] };
+  };
+
+  const check = async () => {
+    if (valid.length === 0 || valid.length > MAX_IMPORT_ROWS) return;
+    setBusy(true);
+    try {
+      const data = await send(true);
+      // 返ってくる添字は valid の中の位置なので、CSV の行番号にする
+      if (data) setChecked({ duplicates: new Set(data.duplicates.map((i) => valid[i].line)) });
+    } catch (e) {
+      console.error(e);
+      alert("重複チェックに失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runImport = async () => {
+    if (!checked) return;
+    const create = valid.length - checked.duplicates.size;
+    if (!confirm(`${create} 件を取り込みますか？（重複 ${checked.duplicates.size} 件・エラー ${errorCount} 件は飛ばします）`)) return;
+    setBusy(true);
+    try {
+      const data = await send(false);
+      if (!data) return;
+      alert(`${data.diff.create} 件を取り込みました`);
+      onImported();
+      onClose();
+    } catch (e) {
+      console.error(e);
+      alert("取り込みに失敗しました（データは変更されていません）");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const tooMany = valid.length > MAX_IMPORT_ROWS;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0,0,0,0.35)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: 16,
+        zIndex: 10000,
+      }}
+      onClick={() => !busy && onClose()}
+    >
+      <div
+        style={{
+          width: "min(760px, 96vw)",
+          maxHeight: "88vh",
+          overflowY: "auto",
+          background: "#fff",
+          borderRadius: 16,
+          padding: 16,
+          boxShadow: "0 20px 60px rgba(0,0,0,0.25)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ fontWeight: 900, fontSize: 18, marginBottom: 6 }}>CSV・Excel</div>
+
+        <div style={{ border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
+          <div style={{ fontWeight: 900, fontSize: 14, marginBottom: 6 }}>書き出し</div>
+          <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap", fontSize: 12 }}>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label="開始日" style={dateStyle} />
+            〜
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label="終了日" style={dateStyle} />
+            <button type="button" onClick={exportCsv} disabled={busy} style={smallButton}>
+              CSV を保存
+            </button>
+            <button type="button" onClick={exportXlsx} disabled={busy} style={smallButton}>
+              Excel を保存
+            </button>
+          </div>
+          <div style={{ marginTop: 6, fontSize: 11, opacity: 0.65 }}>
+            ※ CSV は Excel でそのまま開けます（UTF-8）。日付を空にすると全期間
+          </div>
+          <div style={{ marginTop: 2, fontSize: 11, opacity: 0.65 }}>
+            ※ Excel は月ごとのシートと、集計・カテゴリ別のシート（{defaultCurrency} 換算）。期間は月単位
+          </div>
+        </div>
+
+        <div style={{ marginTop: 12, border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
+          <div style={{ fontWeight: 900, fontSize: 14, marginBottom: 6 }}>取り込み</div>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              if (file) await loadFile(file);
+              e.currentTarget.value = "";
+            }}
+            style={{ fontSize: 12 }}
+          />
+          {fileName && (
+            <div style={{ marginTop: 4, fontSize: 11, opacity: 0.65 }}>
+              {fileName}（{body.length} 行）
+            </div>
+          )}
+
+          {table.length > 0 && (
+            <>
+              <label style={{ display: "flex", gap: 6, alignItems: "center", marginTop: 10, fontSize: 12 }}>
+                <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                1行目は見出し
+              </label>
+
+              <div style={gridStyle}>
+                {FIELDS.map((f) => (
+                  <label key={f} style={{ fontSize: 11, fontWeight: 800 }}>
+                    {FIELD_LABELS[f]}
+                    {(f === "date" || f === "amount") && <span style={{ color: "#b42318" }}> *</span>}
+                    <select
+                      value={mapping[f] ?? ""}
+                      onChange={(e) => setMapping((m) => ({ ...m, [f]: e.target.value === "" ? null : Number(e.target.value) }))}
+                      style={selectStyle}
+                    >
+                      <option value="">（使わない）</option>
+                      {Array.from({ length: columnCount }, (_, i) => (
+                        <option key={i} value={i}>
+                          {columnName(i)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <div style={gridStyle}>
+                <label style={{ fontSize: 11, fontWeight: 800 }}>
+                  日付の形式
+                  <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value as DateFormat)} style={selectStyle}>
+                    {DATE_FORMATS.map((f) => (
+                      <option key={f} value={f}>
+                        {DATE_FORMAT_LABELS[f]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label style={{ fontSize: 11, fontWeight: 800 }}>
+                  金額の形式
+                  <select value={amountFormat} onChange={(e) => setAmountFormat(e.target.value as AmountFormat)} style={selectStyle}>
+                    <option value="standard">1,234.56</option>
+                    <option value="decimalComma">1.234,56</option>
+                  </select>
+                </label>
+                {mapping.type === null && (
+                  <label style={{ fontSize: 11, fontWeight: 800 }}>
+                    プラスの金額は
+                    <select value={positiveType} onChange={(e) => setPositiveType(e.target.value as TxType)} style={selectStyle}>
+                      <option value="expense">支出（マイナスも支出）</option>
+                      <option value="income">収入（マイナスは支出）</option>
+                    </select>
+                  </label>
+                )}
+                <label style={{ fontSize: 11, fontWeight: 800 }}>
+                  カテゴリが空なら
+                  <select value={defaultCategory} onChange={(e) => setDefaultCategory(e.target.value)} style={selectStyle}>
+                    {uniqueCategories.map((c) => (
+                      <option key={c.category} value={c.category}>
+                        {resolveLabel(c.category)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {mapping.currency === null && (
+                  <label style={{ fontSize: 11, fontWeight: 800 }}>
+                    通貨
+                    <select value={fallbackCurrency} onChange={(e) => setFallbackCurrency(e.target.value)} style={selectStyle}>
+                      {CURRENCIES.map((c) => (
+                        <option key={c} value={c}>
+                          {c}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+              </div>
+
+              <div style={{ marginTop: 10, fontSize: 12 }}>
+                読めた行 <b>{valid.length}</b> ／ エラー <b style={{ color: errorCount > 0 ? "#b42318" : undefined }}>{errorCount}</b>
+                {checked && (
+                  <>
+                    {" "}
+                    ／ 重複 <b>{checked.duplicates.size}</b> ／ 取り込む <b>{valid.length - checked.duplicates.size}</b>
+                  </>
+                )}
+              </div>
+              {tooMany && (
+                <div style={{ marginTop: 4, fontSize: 11, color: "#b42318" }}>
+                  1回に取り込めるのは {MAX_IMPORT_ROWS} 行までです。ファイルを分けてください
+                </div>
+              )}
+
+              <div style={{ marginTop: 8, overflowX: "auto", border: "1px solid #eee", borderRadius: 10 }}>
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 11 }}>
+                  <thead>
+                    <tr style={{ textAlign: "left", opacity: 0.7 }}>
+                      <th style={cellStyle}>行</th>
+                      <th style={cellStyle}>日付</th>
+                      <th style={cellStyle}>種別</th>
+                      <th style={{ ...cellStyle, textAlign: "right" }}>金額</th>
+                      <th style={cellStyle}>カテゴリ</th>
+                      <th style={cellStyle}>内訳</th>
+                      <th style={cellStyle}>状態</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {parsed.slice(0, PREVIEW_ROWS).map((p) => {
+                      const dup = checked?.duplicates.has(p.line) ?? false;
+                      return (
+                        <tr key={p.line} style={{ opacity: dup ? 0.5 : 1 }}>
+                          <td style={cellStyle}>{p.line}</td>
+                          {p.payload ? (
+                            <>
+                              <td style={cellStyle}>{p.payload.occurredAt}</td>
+                              <td style={cellStyle}>{p.payload.type === "income" ? "収入" : "支出"}</td>
+                              <td style={{ ...cellStyle, textAlign: "right" }}>
+                                {p.cells[mapping.amount!]} {p.payload.currency}
+                              </td>
+                              <td style={cellStyle}>{resolveLabel(p.payload.category)}</td>
+                              <td style={cellStyle}>{p.payload.detailCategory}</td>
+                              <td style={cellStyle}>{dup ? "重複（飛ばす）" : checked ? "取り込む" : ""}</td>
+                            </>
+                          ) : (
+                            <td colSpan={6} style={{ ...cellStyle, color: "#b42318" }}>
+                              {p.error}：{p.cells.join(" , ")}
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {parsed.length > PREVIEW_ROWS && (
+                <div style={{ marginTop: 4, fontSize: 11, opacity: 0.65 }}>※ 先頭の {PREVIEW_ROWS} 行だけ表示しています</div>
+              )}
+
+              <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap" }}>
+                <button
+                  type="button"
+                  onClick={check}
+                  disabled={busy || valid.length === 0 || tooMany}
+                  style={{ ...smallButton, opacity: busy || valid.length === 0 || tooMany ? 0.5 : 1 }}
+                >
+                  重複チェック
+                </button>
+                <button
+                  type="button"
+                  onClick={runImport}
+                  disabled={busy || !checked}
+                  style={{
+                    ...smallButton,
+                    background: "#111",
+                    color: "#fff",
+                    border: "1px solid #111",
+                    opacity: busy || !checked ? 0.5 : 1,
+                  }}
+                >
+                  {busy ? "処理中…" : "取り込む"}
+                </button>
+              </div>
+              <div style={{ marginTop: 6, fontSize: 11, opacity: 0.65 }}>
+                ※ 日付・種別・金額・通貨・カテゴリ・内訳がすべて同じ明細がもうあれば取り込みません。取り込みは一括で行われ、途中で失敗した場合は何も変更されません
+              </div>
+            </>
+          )}
+        </div>
+
+        <div style={{ display: "flex", justifyContent: "flex-end", marginTop: 12 }}>
+          <button type="button" onClick={onClose} disabled={busy} style={smallButton}>
+            閉じる
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
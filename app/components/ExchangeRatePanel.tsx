@@ -0,0 +1,285 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { ExchangeRate } from "../types";
+import { CURRENCIES, DEFAULT_CURRENCY } from "../../lib/currency";
+
+type Props = {
+  userKey: string;
+  baseCurrency: string;
+  onBaseCurrencyChange: (currency: string) => void;
+  onClose: () => void;
+
+  // ✅ レートが変わった（親で集計を取り直す）
+  onChanged: () => void;
+};
+
+function todayYMD() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+const inputStyle: React.CSSProperties = { width: "100%", padding: 10, borderRadius: 10, border: "1px solid #ccc" };
+const smallButton: React.CSSProperties = {
+  padding: "6px 10px",
+  borderRadius: 10,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontWeight: 800,
+  fontSize: 12,
+};
+
+// 一括登録のエラーは行ごとのメッセージ（先頭10件）も出す
+async function requestJson(userKey: string, method: string, path: string, body?: unknown) {
+  const res = await fetch(path, {
+    method,
+    headers: { "content-type": "application/json", "x-user-key": userKey },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    cache: "no-store",
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    const lines = Array.isArray(data?.errors) ? `\n${data.errors.slice(0, 10).join("\n")}` : "";
+    throw new Error(`${data?.error ?? `${method} ${path} failed`}${lines}`);
+  }
+  return data;
+}
+
+export default function ExchangeRatePanel({ userKey, baseCurrency, onBaseCurrencyChange, onClose, onChanged }: Props) {
+  const [rates, setRates] = useState<ExchangeRate[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // ✅ 手入力フォーム（1 currency = rate quote）
+  const [date, setDate] = useState(todayYMD());
+  const [currency, setCurrency] = useState(CURRENCIES.find((c) => c !== DEFAULT_CURRENCY) ?? "USD");
+  const [quote, setQuote] = useState(DEFAULT_CURRENCY);
+  const [rateStr, setRateStr] = useState("");
+
+  // ✅ CSV 取り込み
+  const [csv, setCsv] = useState("");
+
+  const request = (method: string, path: string, body?: unknown) => requestJson(userKey, method, path, body);
+
+  const reload = async () => {
+    setRates((await request("GET", "/api/exchange-rates")) as ExchangeRate[]);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const list = (await requestJson(userKey, "GET", "/api/exchange-rates")) as ExchangeRate[];
+        if (!cancelled) setRates(list);
+      } catch (e) {
+        console.error(e);
+        if (!cancelled) setRates([]);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [userKey]);
+
+  const run = async (fn: () => Promise<void>) => {
+    if (busy) return;
+    setBusy(true);
+    try {
+      await fn();
+      await reload();
+      onChanged();
+    } catch (e) {
+      console.error(e);
+      alert(e instanceof Error ? e.message : "保存に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addRate = () =>
+    run(async () => {
+      await request("POST", "/api/exchange-rates", { date, currency, quote, rate: rateStr });
+      setRateStr("");
+    });
+
+  const importCsv = () =>
+    run(async () => {
+      const r = await request("POST", "/api/exchange-rates", { csv });
+      setCsv("");
+      alert(`${r.imported}件のレートを取り込みました`);
+    });
+
+  const removeRate = (id: number) => {
+    if (!confirm("このレートを削除しますか？")) return;
+    return run(async () => {
+      await request("DELETE", `/api/exchange-rates?id=${id}`);
+    });
+  };
+
+  const readCsvFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsv(await file.text());
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0,0,0,0.35)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: 16,
+        zIndex: 10000,
+      }}
+      onClick={() => !busy && onClose()}
+    >
+      <div
+        style={{
+          width: "min(560px, 96vw)",
+          maxHeight: "88vh",
+          overflowY: "auto",
+          background: "#fff",
+          borderRadius: 16,
+          padding: 16,
+          boxShadow: "0 20px 60px rgba(0,0,0,0.25)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ fontWeight: 900, fontSize: 18, marginBottom: 12 }}>通貨と為替レート</div>
+
+        <label style={{ display: "block", fontSize: 12, opacity: 0.75, marginBottom: 4 }}>
+          集計通貨（リング・月次サマリー・レポート）
+          <select
+            value={baseCurrency}
+            onChange={(e) => onBaseCurrencyChange(e.target.value)}
+            style={{ ...inputStyle, marginTop: 6, background: "#fff" }}
+          >
+            {CURRENCIES.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div style={{ fontSize: 11, opacity: 0.6, marginBottom: 14 }}>
+          ほかの通貨の明細は発生日時点のレートで換算します。リング目標の金額は集計通貨のまま読みます。
+        </div>
+
+        <div style={{ fontWeight: 800, marginBottom: 8 }}>レートを追加</div>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+          <label style={{ fontSize: 12, opacity: 0.75 }}>
+            適用開始日
+            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} style={inputStyle} />
+          </label>
+          <label style={{ fontSize: 12, opacity: 0.75 }}>
+            レート
+            <input
+              value={rateStr}
+              onChange={(e) => setRateStr(e.target.value)}
+              inputMode="decimal"
+              placeholder="例) 151.25"
+              style={inputStyle}
+            />
+          </label>
+          <label style={{ fontSize: 12, opacity: 0.75 }}>
+            1 単位の通貨
+            <select value={currency} onChange={(e) => setCurrency(e.target.value)} style={{ ...inputStyle, background: "#fff" }}>
+              {CURRENCIES.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={{ fontSize: 12, opacity: 0.75 }}>
+            換算先
+            <select value={quote} onChange={(e) => setQuote(e.target.value)} style={{ ...inputStyle, background: "#fff" }}>
+              {CURRENCIES.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div style={{ fontSize: 11, opacity: 0.6, marginTop: 6 }}>
+          1 {currency} = {rateStr || "?"} {quote}（次のレートの日まで有効）
+        </div>
+        <button
+          type="button"
+          onClick={addRate}
+          disabled={busy || !rateStr.trim() || currency === quote}
+          style={{ ...smallButton, marginTop: 8, background: "#111", color: "#fff", border: "1px solid #111" }}
+        >
+          追加
+        </button>
+
+        <div style={{ fontWeight: 800, margin: "16px 0 8px" }}>CSV で取り込む</div>
+        <div style={{ fontSize: 11, opacity: 0.6, marginBottom: 6 }}>
+          1行1レート：<code>日付,通貨,レート</code>（換算先は JPY）または <code>日付,通貨,換算先,レート</code>
+        </div>
+        <input type="file" accept=".csv,text/csv,text/plain" onChange={(e) => readCsvFile(e.target.files?.[0])} />
+        <textarea
+          value={csv}
+          onChange={(e) => setCsv(e.target.value)}
+          rows={4}
+          placeholder={"2026-01-01,USD,151.25\n2026-02-01,USD,149.80"}
+          style={{ ...inputStyle, marginTop: 6, fontFamily: "monospace", fontSize: 12 }}
+        />
+        <button type="button" onClick={importCsv} disabled={busy || !csv.trim()} style={{ ...smallButton, marginTop: 8 }}>
+          取り込む
+        </button>
+
+        <div style={{ fontWeight: 800, margin: "16px 0 8px" }}>登録済みのレート</div>
+        {!rates && <div style={{ fontSize: 12, opacity: 0.7 }}>読み込み中…</div>}
+        {rates && rates.length === 0 && <div style={{ fontSize: 12, opacity: 0.7 }}>まだレートがありません</div>}
+        <div style={{ display: "grid", gap: 6 }}>
+          {(rates ?? []).map((r) => (
+            <div
+              key={r.id}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+                gap: 8,
+                border: "1px solid #eee",
+                borderRadius: 10,
+                padding: "8px 10px",
+                fontSize: 13,
+              }}
+            >
+              <div>
+                {r.date} ・ 1 {r.currency} = {Number(r.rate).toLocaleString("ja-JP", { maximumFractionDigits: 10 })} {r.quote}
+              </div>
+              <button type="button" onClick={() => removeRate(r.id)} disabled={busy} style={smallButton}>
+                削除
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: "flex", justifyContent: "flex-end", marginTop: 14 }}>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={busy}
+            style={{
+              padding: "10px 14px",
+              borderRadius: 12,
+              border: "1px solid #ddd",
+              background: "#fff",
+              fontWeight: 900,
+              cursor: "pointer",
+            }}
+          >
+            閉じる
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import React, { useState } from "react";
+import type { Household, HouseholdRole, HouseholdsResponse } from "../types";
+import { getUserKeyName } from "../../lib/userKey";
+
+type Props = {
+  userKey: string;
+  households: HouseholdsResponse | null;
+
+  // 一覧・メンバーが変わった（切り替えはしていない）
+  onChanged: (next: HouseholdsResponse) => void;
+
+  // 使う台帳が変わった（画面の再読み込みなど）
+  onSwitched: () => void;
+};
+
+const ROLE_LABELS: Record<HouseholdRole, string> = {
+  owner: "オーナー",
+  editor: "編集できる",
+  viewer: "見るだけ",
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: 10,
+  borderRadius: 10,
+  border: "1px solid #ccc",
+  fontSize: 12,
+};
+const smallButton: React.CSSProperties = {
+  padding: "6px 10px",
+  borderRadius: 10,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontWeight: 800,
+  fontSize: 12,
+};
+const rowStyle: React.CSSProperties = {
+  display: "flex",
+  gap: 6,
+  alignItems: "center",
+  border: "1px solid #eee",
+  borderRadius: 10,
+  padding: "6px 8px",
+  fontSize: 12,
+};
+
+/**
+ * ✅ 共有家計簿：作る・招待コードで入る・切り替える・メンバーの管理
+ */
+export default function HouseholdPanel({ userKey, households, onChanged, onSwitched }: Props) {
+  const [busy, setBusy] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [joinCode, setJoinCode] = useState("");
+  const [myName, setMyName] = useState(() => getUserKeyName(userKey));
+  const [inviteRole, setInviteRole] = useState<Exclude<HouseholdRole, "owner">>("editor");
+  const [invite, setInvite] = useState<{ code: string; expiresAt: string } | null>(null);
+
+  const active: Household | null = households?.households.find((h) => h.id === households.activeId) ?? null;
+
+  const send = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "content-type": "application/json", "x-user-key": userKey },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        alert(data?.error ?? "うまくいきませんでした");
+        return null;
+      }
+      return data;
+    } catch (e) {
+      console.error(e);
+      alert("通信に失敗しました");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const switchTo = async (householdId: number | null) => {
+    if (await send("/api/households/active", "POST", { householdId })) onSwitched();
+  };
+
+  const create = async () => {
+    if (!newName.trim() || !myName.trim()) return;
+    if (await send("/api/households", "POST", { name: newName.trim(), memberName: myName.trim() })) onSwitched();
+  };
+
+  const join = async () => {
+    if (!joinCode.trim() || !myName.trim()) return;
+    if (await send("/api/households/join", "POST", { code: joinCode.trim(), memberName: myName.trim() })) onSwitched();
+  };
+
+  const issueInvite = async () => {
+    if (!active) return;
+    const data = await send("/api/households/invites", "POST", { householdId: active.id, role: inviteRole });
+    if (data) setInvite({ code: data.code, expiresAt: data.expiresAt });
+  };
+
+  const changeRole = async (memberId: number, role: string) => {
+    const data = await send(`/api/households/members?id=${memberId}`, "PATCH", { role });
+    if (data && households) onChanged({ ...households, households: data.households });
+  };
+
+  const removeMember = async (memberId: number, self: boolean) => {
+    if (!confirm(self ? "この家計簿から抜けますか？" : "このメンバーを外しますか？（付けた明細は残ります）")) return;
+    const data = await send(`/api/households/members?id=${memberId}`, "DELETE");
+    if (!data) return;
+    if (self) onSwitched();
+    else if (households) onChanged({ ...households, households: data.households });
+  };
+
+  if (!households) return <div style={{ fontSize: 12, opacity: 0.6 }}>共有家計簿を確認中…</div>;
+
+  return (
+    <div>
+      <div style={{ display: "grid", gap: 6 }}>
+        <div style={rowStyle}>
+          <span style={{ flex: 1, fontWeight: 800 }}>
+            自分の台帳
+            {!active && <span style={{ marginLeft: 6, opacity: 0.6 }}>（使用中）</span>}
+          </span>
+          {active && (
+            <button type="button" onClick={() => switchTo(null)} disabled={busy} style={smallButton}>
+              使う
+            </button>
+          )}
+        </div>
+        {households.households.map((h) => (
+          <div key={h.id} style={rowStyle}>
+            <span style={{ flex: 1, fontWeight: 800 }}>
+              {h.name}
+              <span style={{ marginLeft: 6, opacity: 0.6 }}>
+                {ROLE_LABELS[h.role]}
+                {h.id === active?.id ? "・使用中" : ""}
+              </span>
+            </span>
+            {h.id !== active?.id && (
+              <button type="button" onClick={() => switchTo(h.id)} disabled={busy} style={smallButton}>
+                使う
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {active && (
+        <div style={{ marginTop: 10, border: "1px solid #eee", borderRadius: 12, padding: 10 }}>
+          <div style={{ fontSize: 12, fontWeight: 900, marginBottom: 6 }}>{active.name} のメンバー</div>
+          <div style={{ display: "grid", gap: 4 }}>
+            {active.members.map((m) => (
+              <div key={m.id} style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 12 }}>
+                <span style={{ flex: 1 }}>
+                  {m.name}
+                  {m.id === active.memberId && <span style={{ opacity: 0.6 }}>（自分）</span>}
+                </span>
+                {active.role === "owner" && m.role !== "owner" ? (
+                  <select
+                    value={m.role}
+                    onChange={(e) => changeRole(m.id, e.target.value)}
+                    disabled={busy}
+                    aria-label={`${m.name} の役割`}
+                    style={{ padding: 4, borderRadius: 8, border: "1px solid #ccc", fontSize: 12 }}
+                  >
+                    <option value="editor">{ROLE_LABELS.editor}</option>
+                    <option value="viewer">{ROLE_LABELS.viewer}</option>
+                  </select>
+                ) : (
+                  <span style={{ opacity: 0.6 }}>{ROLE_LABELS[m.role]}</span>
+                )}
+                {m.role !== "owner" && (active.role === "owner" || m.id === active.memberId) && (
+                  <button
+                    type="button"
+                    onClick={() => removeMember(m.id, m.id === active.memberId)}
+                    disabled={busy}
+                    style={smallButton}
+                  >
+                    {m.id === active.memberId ? "抜ける" : "外す"}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {active.role === "owner" && (
+            <div style={{ marginTop: 10 }}>
+              <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as Exclude<HouseholdRole, "owner">)}
+                  aria-label="招待する人の役割"
+                  style={{ padding: 6, borderRadius: 8, border: "1px solid #ccc", fontSize: 12 }}
+                >
+                  <option value="editor">{ROLE_LABELS.editor}</option>
+                  <option value="viewer">{ROLE_LABELS.viewer}</option>
+                </select>
+                <button type="button" onClick={issueInvite} disabled={busy} style={smallButton}>
+                  招待コードを発行
+                </button>
+              </div>
+              {invite && (
+                <div style={{ marginTop: 6, fontSize: 12 }}>
+                  招待コード：<b style={{ fontSize: 16, letterSpacing: 2 }}>{invite.code}</b>
+                  <div style={{ fontSize: 11, opacity: 0.65 }}>
+                    ※ 1回だけ使えます（{invite.expiresAt.slice(0, 10)} まで）。相手の端末の「招待コードで入る」に入れてもらってね
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div style={{ marginTop: 10, display: "grid", gap: 6 }}>
+        <input
+          value={myName}
+          onChange={(e) => setMyName(e.target.value)}
+          placeholder="家計簿での自分の名前（例：ママ）"
+          maxLength={24}
+          style={inputStyle}
+        />
+        <div style={{ display: "flex", gap: 6 }}>
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="新しい家計簿の名前（例：わが家）"
+            maxLength={40}
+            style={inputStyle}
+          />
+          <button
+            type="button"
+            onClick={create}
+            disabled={busy || !newName.trim() || !myName.trim()}
+            style={{ ...smallButton, whiteSpace: "nowrap" }}
+          >
+            作る
+          </button>
+        </div>
+        <div style={{ display: "flex", gap: 6 }}>
+          <input
+            value={joinCode}
+            onChange={(e) => setJoinCode(e.target.value)}
+            placeholder="招待コード（例：7KQ2MX9P）"
+            autoCapitalize="characters"
+            style={inputStyle}
+          />
+          <button
+            type="button"
+            onClick={join}
+            disabled={busy || !joinCode.trim() || !myName.trim()}
+            style={{ ...smallButton, whiteSpace: "nowrap" }}
+          >
+            招待コードで入る
+          </button>
+        </div>
+      </div>
+
+      <div style={{ marginTop: 8, fontSize: 11, opacity: 0.65 }}>
+        ※ 作った家計簿は空から始まります。今までの明細は、切り替えた後に下の「このIDにまとめる」で自分のユーザーIDを入れると移せます
+      </div>
+    </div>
+  );
+}
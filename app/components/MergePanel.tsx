@@ -0,0 +1,181 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { MergeDiff } from "../../lib/merge";
+import { normalizeUserKey } from "../../lib/identity";
+
+type Props = {
+  userKey: string;
+
+  // 共有家計簿を使っている時は、まとめ先が家計簿なので自分のIDもまとめられる
+  householdActive?: boolean;
+
+  // まとめ終わったら（画面の再読み込みなど）
+  onMerged: () => void;
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: 10,
+  borderRadius: 10,
+  border: "1px solid #ccc",
+  fontSize: 12,
+};
+const smallButton: React.CSSProperties = {
+  padding: "6px 10px",
+  borderRadius: 10,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontWeight: 800,
+  fontSize: 12,
+};
+
+const PART_LABELS: Array<[keyof Omit<MergeDiff, "remappedRings">, string]> = [
+  ["transactions", "明細"],
+  ["rings", "リング"],
+  ["goals", "目標"],
+];
+
+/**
+ * ✅ 別のユーザーIDのデータを、いまのIDにまとめる（先にプレビューを出す）
+ */
+export default function MergePanel({ userKey, householdActive = false, onMerged }: Props) {
+  const [sourceInput, setSourceInput] = useState("");
+  const [preview, setPreview] = useState<{ sourceKey: string; diff: MergeDiff } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const sourceKey = normalizeUserKey(sourceInput);
+  const sameAsTarget = !householdActive && sourceKey === userKey;
+
+  // 入力を変えたらプレビューは出し直し
+  useEffect(() => {
+    setPreview(null);
+  }, [sourceInput, userKey]);
+
+  const request = async (dryRun: boolean) => {
+    if (!sourceKey) return null;
+    const res = await fetch("/api/merge", {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-user-key": userKey },
+      body: JSON.stringify({ sourceKey, dryRun }),
+    });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      alert(data?.error ?? "まとめられませんでした");
+      return null;
+    }
+    return data as { sourceKey: string; diff: MergeDiff };
+  };
+
+  const loadPreview = async () => {
+    if (!sourceKey || sameAsTarget) return;
+    setBusy(true);
+    try {
+      const data = await request(true);
+      if (data) setPreview(data);
+    } catch (e) {
+      console.error(e);
+      alert("プレビューに失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const merge = async () => {
+    if (!preview) return;
+    if (!confirm("このIDにまとめますか？（元のIDから移した明細は元に戻せません）")) return;
+    setBusy(true);
+    try {
+      const data = await request(false);
+      if (!data) return;
+      alert(`明細 ${data.diff.transactions.move} 件をまとめました。画面を再読み込みします。`);
+      onMerged();
+    } catch (e) {
+      console.error(e);
+      alert("まとめるのに失敗しました（データは変更されていません）");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canPreview = !busy && !!sourceKey && !sameAsTarget;
+
+  return (
+    <div>
+      <input
+        value={sourceInput}
+        onChange={(e) => setSourceInput(e.target.value)}
+        placeholder="まとめたい（もう使わない）ユーザーID"
+        style={inputStyle}
+      />
+      {sourceKey && sameAsTarget && (
+        <div style={{ marginTop: 6, fontSize: 11, color: "#b42318" }}>いま使っているIDとは別のIDを入れてください</div>
+      )}
+
+      <div style={{ display: "flex", gap: 8, marginTop: 8, flexWrap: "wrap" }}>
+        <button
+          type="button"
+          onClick={loadPreview}
+          disabled={!canPreview}
+          style={{ ...smallButton, opacity: canPreview ? 1 : 0.5 }}
+        >
+          プレビュー
+        </button>
+      </div>
+
+      {preview && (
+        <div style={{ marginTop: 10, border: "1px solid #eee", borderRadius: 12, padding: 10, fontSize: 12 }}>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ textAlign: "left", opacity: 0.7 }}>
+                <th style={{ padding: "2px 4px" }}></th>
+                <th style={{ padding: "2px 4px" }}>元のID</th>
+                <th style={{ padding: "2px 4px" }}>移す</th>
+                <th style={{ padding: "2px 4px" }}>重複（元のIDに残す）</th>
+              </tr>
+            </thead>
+            <tbody>
+              {PART_LABELS.map(([key, label]) => (
+                <tr key={key}>
+                  <td style={{ padding: "2px 4px", fontWeight: 800 }}>{label}</td>
+                  <td style={{ padding: "2px 4px" }}>{preview.diff[key].incoming}</td>
+                  <td style={{ padding: "2px 4px", fontWeight: 800 }}>{preview.diff[key].move}</td>
+                  <td style={{ padding: "2px 4px" }}>{preview.diff[key].skip}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {preview.diff.remappedRings.length > 0 && (
+            <div style={{ marginTop: 8 }}>
+              <div style={{ fontWeight: 800 }}>同じキーで別のリングがあるため、付け替えて移すリング</div>
+              {preview.diff.remappedRings.map((r) => (
+                <div key={r.from} style={{ opacity: 0.8 }}>
+                  {r.title}（{r.from} → {r.to}）
+                </div>
+              ))}
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={merge}
+            disabled={busy}
+            style={{
+              ...smallButton,
+              marginTop: 10,
+              padding: "10px 14px",
+              background: "#111",
+              color: "#fff",
+              border: "1px solid #111",
+              opacity: busy ? 0.6 : 1,
+            }}
+          >
+            {busy ? "まとめています…" : "このIDにまとめる"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,453 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import type { RecurringFrequency, RecurringOccurrence, RecurringRule, TxType } from "../types";
+import { parseAmountExpression } from "../../lib/amount";
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney, fromMinor, toMinor } from "../../lib/currency";
+
+type Props = {
+  userKey: string;
+  // ✅ 選べるカテゴリ（リング）: [{ title: "生活費", category: "ring:life" }, ...]
+  categories: Array<{ title: string; category: string }>;
+  resolveLabel?: (category: string) => string;
+  onClose: () => void;
+
+  // ✅ 明細が作られた/変わったかもしれないとき（親で取り直す）
+  onChanged: () => void;
+};
+
+const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  monthly: "毎月",
+  weekly: "毎週",
+  yearly: "毎年",
+  last_business_day: "月末営業日",
+};
+
+const WEEKDAYS = ["日", "月", "火", "水", "木", "金", "土"];
+
+const STATUS_LABELS: Record<RecurringOccurrence["status"], string> = {
+  upcoming: "予定",
+  scheduled: "予定（変更あり）",
+  posted: "作成済み",
+  skipped: "スキップ",
+  paused: "保留中",
+};
+
+function todayYMD() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function describeSchedule(r: RecurringRule) {
+  const every = r.interval > 1 ? `（${r.interval}${r.frequency === "weekly" ? "週" : r.frequency === "yearly" ? "年" : "か月"}ごと）` : "";
+  if (r.frequency === "weekly") return `毎週${WEEKDAYS[r.dayOfWeek ?? 0]}曜${every}`;
+  if (r.frequency === "yearly") return `毎年${r.monthOfYear}月${r.dayOfMonth}日${every}`;
+  if (r.frequency === "last_business_day") return `毎月の最終営業日${every}`;
+  return `毎月${r.dayOfMonth}日${every}`;
+}
+
+async function requestJson(userKey: string, method: string, path: string, body?: unknown) {
+  const res = await fetch(path, {
+    method,
+    headers: { "content-type": "application/json", "x-user-key": userKey },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    cache: "no-store",
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error ?? `${method} ${path} failed`);
+  return data;
+}
+
+const inputStyle: React.CSSProperties = { width: "100%", padding: 10, borderRadius: 10, border: "1px solid #ccc" };
+const smallButton: React.CSSProperties = {
+  padding: "6px 10px",
+  borderRadius: 10,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontWeight: 800,
+  fontSize: 12,
+};
+
+export default function RecurringPanel({ userKey, categories, resolveLabel, onClose, onChanged }: Props) {
+  const [rules, setRules] = useState<RecurringRule[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // ✅ 予定を開いているルール
+  const [openRuleId, setOpenRuleId] = useState<number | null>(null);
+  const [occurrences, setOccurrences] = useState<RecurringOccurrence[]>([]);
+
+  // ✅ 追加フォーム
+  const uniqueCategories = useMemo(
+    () => Array.from(new Map(categories.map((c) => [c.category, c])).values()),
+    [categories]
+  );
+  const [title, setTitle] = useState("");
+  const [type, setType] = useState<TxType>("expense");
+  const [amountStr, setAmountStr] = useState("");
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [category, setCategory] = useState(uniqueCategories[0]?.category ?? "");
+  const [detail, setDetail] = useState("");
+  const [frequency, setFrequency] = useState<RecurringFrequency>("monthly");
+  const [intervalStr, setIntervalStr] = useState("1");
+  const [dayOfMonth, setDayOfMonth] = useState("25");
+  const [dayOfWeek, setDayOfWeek] = useState("5");
+  const [monthOfYear, setMonthOfYear] = useState("4");
+  const [startDate, setStartDate] = useState(todayYMD());
+  const [endDate, setEndDate] = useState("");
+
+  const request = (method: string, path: string, body?: unknown) => requestJson(userKey, method, path, body);
+
+  const reloadRules = async () => {
+    setRules((await request("GET", "/api/recurring")) as RecurringRule[]);
+  };
+
+  const reloadOccurrences = async (ruleId: number) => {
+    setOccurrences((await request("GET", `/api/recurring/occurrences?ruleId=${ruleId}`)) as RecurringOccurrence[]);
+  };
+
+  // ✅ 期日が来た分を作って、親に取り直してもらう
+  const materialize = async () => {
+    const r = await request("POST", `/api/recurring/materialize?asOf=${todayYMD()}`);
+    if (Number(r?.created ?? 0) > 0) onChanged();
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const list = (await requestJson(userKey, "GET", "/api/recurring")) as RecurringRule[];
+        if (!cancelled) setRules(list);
+      } catch (e) {
+        console.error(e);
+        if (!cancelled) setRules([]);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [userKey]);
+
+  const run = async (fn: () => Promise<void>, failMessage: string) => {
+    if (busy) return;
+    setBusy(true);
+    try {
+      await fn();
+    } catch (e) {
+      console.error(e);
+      alert(e instanceof Error && e.message ? `${failMessage}\n${e.message}` : failMessage);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createRule = () =>
+    run(async () => {
+      const major = parseAmountExpression(amountStr);
+      if (major === null) throw new Error("金額を確認してください");
+      await request("POST", "/api/recurring", {
+        title,
+        type,
+        amount: toMinor(major, currency),
+        currency,
+        category,
+        detailCategory: detail,
+        frequency,
+        interval: Number(intervalStr) || 1,
+        dayOfMonth: Number(dayOfMonth),
+        dayOfWeek: Number(dayOfWeek),
+        monthOfYear: Number(monthOfYear),
+        startDate,
+        endDate: endDate || null,
+      });
+      setTitle("");
+      setAmountStr("");
+      setDetail("");
+      await reloadRules();
+      await materialize();
+    }, "定期明細を追加できませんでした");
+
+  const togglePaused = (r: RecurringRule) =>
+    run(async () => {
+      await request("PATCH", `/api/recurring?id=${r.id}`, { paused: !r.paused });
+      await reloadRules();
+      if (r.paused) await materialize();
+    }, "変更できませんでした");
+
+  const removeRule = (r: RecurringRule) => {
+    if (!confirm(`「${r.title}」を削除します。作成済みの明細は残ります。よろしいですか？`)) return;
+    run(async () => {
+      await request("DELETE", `/api/recurring?id=${r.id}`);
+      if (openRuleId === r.id) setOpenRuleId(null);
+      await reloadRules();
+    }, "削除できませんでした");
+  };
+
+  const toggleOccurrences = (ruleId: number) => {
+    if (openRuleId === ruleId) {
+      setOpenRuleId(null);
+      return;
+    }
+    setOpenRuleId(ruleId);
+    setOccurrences([]);
+    run(() => reloadOccurrences(ruleId), "予定を読み込めませんでした");
+  };
+
+  const updateOccurrence = (r: RecurringRule, o: RecurringOccurrence, action: "skip" | "pause" | "resume" | "edit") => {
+    const ruleId = r.id;
+    let body: Record<string, unknown> = { action };
+    if (action === "edit") {
+      const amountStr = prompt(`この回の金額（${r.currency}）`, String(fromMinor(o.amount, r.currency)));
+      if (amountStr === null) return;
+      const major = parseAmountExpression(amountStr);
+      if (major === null) return alert("金額を確認してください");
+      const occurredAt = prompt("この回の日付（YYYY-MM-DD）", o.occurredAt);
+      if (occurredAt === null) return;
+      body = { action, amount: toMinor(major, r.currency), occurredAt, detailCategory: o.detailCategory ?? "" };
+    }
+    run(async () => {
+      await request("PUT", `/api/recurring/occurrences?ruleId=${ruleId}&dueDate=${o.dueDate}`, body);
+      if (action === "resume" || action === "edit") await materialize();
+      await reloadOccurrences(ruleId);
+    }, "変更できませんでした");
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0,0,0,0.35)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: 16,
+        zIndex: 10000,
+      }}
+      onClick={() => !busy && onClose()}
+    >
+      <div
+        style={{
+          width: "min(600px, 96vw)",
+          maxHeight: "88vh",
+          overflowY: "auto",
+          background: "#fff",
+          borderRadius: 16,
+          padding: 16,
+          boxShadow: "0 20px 60px rgba(0,0,0,0.25)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ fontWeight: 900, fontSize: 18, marginBottom: 6 }}>定期明細</div>
+        <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 12 }}>
+          家賃・保険・サブスク・給料など。期日が来ると自動で明細になります（同じ回が二重に作られることはありません）
+        </div>
+
+        {rules === null && <div style={{ fontSize: 12, opacity: 0.7 }}>読み込み中…</div>}
+        {rules?.length === 0 && <div style={{ fontSize: 12, opacity: 0.7 }}>まだ定期明細はありません</div>}
+
+        <div style={{ display: "grid", gap: 8 }}>
+          {(rules ?? []).map((r) => (
+            <div key={r.id} style={{ border: "1px solid #eee", borderRadius: 12, padding: 12, opacity: r.paused ? 0.6 : 1 }}>
+              <div style={{ display: "flex", justifyContent: "space-between", gap: 8, alignItems: "center" }}>
+                <div>
+                  <div style={{ fontWeight: 800 }}>
+                    {r.title} {formatMoney(r.type === "expense" ? -r.amount : r.amount, r.currency)}
+                  </div>
+                  <div style={{ fontSize: 12, opacity: 0.75 }}>
+                    {resolveLabel ? resolveLabel(r.category) : r.category}
+                    {r.detailCategory ? `（${r.detailCategory}）` : ""} ・ {describeSchedule(r)}
+                  </div>
+                  <div style={{ fontSize: 11, opacity: 0.6 }}>
+                    {r.startDate}〜{r.endDate ?? ""} ／ {r.paused ? "停止中" : `次回：${r.nextDueDate ?? "なし"}`}
+                  </div>
+                </div>
+                <div style={{ display: "flex", gap: 6, flexWrap: "wrap", justifyContent: "flex-end" }}>
+                  <button type="button" onClick={() => toggleOccurrences(r.id)} disabled={busy} style={smallButton}>
+                    {openRuleId === r.id ? "閉じる" : "予定"}
+                  </button>
+                  <button type="button" onClick={() => togglePaused(r)} disabled={busy} style={smallButton}>
+                    {r.paused ? "再開" : "停止"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeRule(r)}
+                    disabled={busy}
+                    style={{ ...smallButton, border: "1px solid #f2b3b3", color: "#b42318", background: "#fff0f0" }}
+                  >
+                    削除
+                  </button>
+                </div>
+              </div>
+
+              {openRuleId === r.id && (
+                <div style={{ marginTop: 10, display: "grid", gap: 6 }}>
+                  {occurrences.length === 0 && <div style={{ fontSize: 12, opacity: 0.7 }}>この期間の予定はありません</div>}
+                  {occurrences.map((o) => (
+                    <div
+                      key={o.dueDate}
+                      style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, fontSize: 12 }}
+                    >
+                      <div>
+                        {o.occurredAt}
+                        {o.occurredAt !== o.dueDate ? `（予定 ${o.dueDate}）` : ""} ・ {formatMoney(o.amount, r.currency)} ・{" "}
+                        <span style={{ fontWeight: 800 }}>{STATUS_LABELS[o.status]}</span>
+                      </div>
+                      {o.status !== "posted" && (
+                        <div style={{ display: "flex", gap: 4 }}>
+                          {o.status === "skipped" || o.status === "paused" ? (
+                            <button type="button" onClick={() => updateOccurrence(r, o, "resume")} disabled={busy} style={smallButton}>
+                              戻す
+                            </button>
+                          ) : (
+                            <>
+                              <button type="button" onClick={() => updateOccurrence(r, o, "skip")} disabled={busy} style={smallButton}>
+                                スキップ
+                              </button>
+                              <button type="button" onClick={() => updateOccurrence(r, o, "pause")} disabled={busy} style={smallButton}>
+                                保留
+                              </button>
+                            </>
+                          )}
+                          <button type="button" onClick={() => updateOccurrence(r, o, "edit")} disabled={busy} style={smallButton}>
+                            変更
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <hr style={{ margin: "16px 0" }} />
+
+        <div style={{ fontWeight: 900, marginBottom: 8 }}>追加</div>
+        <div style={{ display: "grid", gap: 8 }}>
+          <div style={{ display: "flex", gap: 8 }}>
+            {(["expense", "income"] as const).map((t) => (
+              <button
+                key={t}
+                type="button"
+                onClick={() => setType(t)}
+                style={{ ...smallButton, flex: 1, padding: "8px 10px", background: type === t ? "#111" : "#fff", color: type === t ? "#fff" : "#111" }}
+              >
+                {t === "expense" ? "支出" : "収入"}
+              </button>
+            ))}
+          </div>
+          <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="名前（例：家賃 / 給料 / Netflix）" style={inputStyle} />
+          <div style={{ display: "flex", gap: 8 }}>
+            <input value={amountStr} onChange={(e) => setAmountStr(e.target.value)} placeholder="金額（例：80000）" inputMode="decimal" style={inputStyle} />
+            <select value={currency} onChange={(e) => setCurrency(e.target.value)} style={{ ...inputStyle, width: "auto" }}>
+              {CURRENCIES.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          </div>
+          <select value={category} onChange={(e) => setCategory(e.target.value)} style={inputStyle}>
+            {uniqueCategories.map((c) => (
+              <option key={c.category} value={c.category}>
+                {c.title}
+              </option>
+            ))}
+          </select>
+          <input value={detail} onChange={(e) => setDetail(e.target.value)} placeholder="内訳（任意）" style={inputStyle} />
+
+          <div style={{ display: "flex", gap: 8 }}>
+            <select value={frequency} onChange={(e) => setFrequency(e.target.value as RecurringFrequency)} style={inputStyle}>
+              {(Object.keys(FREQUENCY_LABELS) as RecurringFrequency[]).map((f) => (
+                <option key={f} value={f}>
+                  {FREQUENCY_LABELS[f]}
+                </option>
+              ))}
+            </select>
+            {frequency === "yearly" && (
+              <select value={monthOfYear} onChange={(e) => setMonthOfYear(e.target.value)} style={inputStyle}>
+                {Array.from({ length: 12 }, (_, i) => (
+                  <option key={i + 1} value={String(i + 1)}>
+                    {i + 1}月
+                  </option>
+                ))}
+              </select>
+            )}
+            {(frequency === "monthly" || frequency === "yearly") && (
+              <select value={dayOfMonth} onChange={(e) => setDayOfMonth(e.target.value)} style={inputStyle}>
+                {Array.from({ length: 31 }, (_, i) => (
+                  <option key={i + 1} value={String(i + 1)}>
+                    {i + 1}日{i + 1 >= 29 ? "（月末まで）" : ""}
+                  </option>
+                ))}
+              </select>
+            )}
+            {frequency === "weekly" && (
+              <select value={dayOfWeek} onChange={(e) => setDayOfWeek(e.target.value)} style={inputStyle}>
+                {WEEKDAYS.map((w, i) => (
+                  <option key={w} value={String(i)}>
+                    {w}曜
+                  </option>
+                ))}
+              </select>
+            )}
+            <select value={intervalStr} onChange={(e) => setIntervalStr(e.target.value)} style={inputStyle}>
+              {[1, 2, 3, 6, 12].map((n) => (
+                <option key={n} value={String(n)}>
+                  {n === 1 ? "毎回" : `${n}回に1回`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 12 }}>
+            <span style={{ whiteSpace: "nowrap" }}>開始</span>
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} style={inputStyle} />
+            <span style={{ whiteSpace: "nowrap" }}>終了</span>
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} style={inputStyle} />
+          </div>
+        </div>
+
+        <div style={{ display: "flex", gap: 10, marginTop: 14 }}>
+          <button
+            type="button"
+            onClick={createRule}
+            disabled={busy || !amountStr.trim() || !category}
+            style={{
+              flex: 1,
+              padding: "10px 14px",
+              borderRadius: 12,
+              border: "1px solid #111",
+              background: "#111",
+              color: "#fff",
+              fontWeight: 900,
+              cursor: busy ? "not-allowed" : "pointer",
+              opacity: busy || !amountStr.trim() || !category ? 0.6 : 1,
+            }}
+          >
+            {busy ? "処理中…" : "定期明細を追加"}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={busy}
+            style={{
+              padding: "10px 14px",
+              borderRadius: 12,
+              border: "1px solid #ddd",
+              background: "#fff",
+              fontWeight: 900,
+              cursor: "pointer",
+            }}
+          >
+            閉じる
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,28 +1,72 @@
 "use client";
 
 import React, { useEffect, useMemo, useState } from "react";
-import { loadRingGoals, upsertTarget, type RingGoal, getTarget } from "../../lib/ringGoals";
+import {
+  loadRingGoals,
+  loadRingGoalHistory,
+  saveRingGoal,
+  upsertTarget,
+  type RingGoal,
+  type RingGoalVersion,
+  getTarget,
+} from "../../lib/ringGoals";
 
 type Props = {
   ringCategories: string[]; // ["ring:debt","ring:save","ring:xxx"...]
   resolveLabel?: (category: string) => string;
 
+  // ✅ 表示中の月の末日（この時点で有効な目標を出す）
+  asOf: string;
+  // ✅ 保存した目標の適用開始日（既定は表示中の月の1日）
+  defaultEffectiveFrom: string;
+
   // ✅ 追加：保存後に親へ通知（同一タブで即反映させる）
   onSaved?: () => void;
 };
 
-export default function RingGoalEditor({ ringCategories, resolveLabel, onSaved }: Props) {
+export default function RingGoalEditor({ ringCategories, resolveLabel, asOf, defaultEffectiveFrom, onSaved }: Props) {
   const [goals, setGoals] = useState<RingGoal[]>([]);
   const [draft, setDraft] = useState<Record<string, number>>({});
+  const [effectiveFrom, setEffectiveFrom] = useState(defaultEffectiveFrom);
+  const [savingCat, setSavingCat] = useState<string | null>(null);
+
+  // ✅ 変更履歴（開いているカテゴリだけ取得）
+  const [historyCat, setHistoryCat] = useState<string | null>(null);
+  const [history, setHistory] = useState<RingGoalVersion[]>([]);
 
   useEffect(() => {
-    const g = loadRingGoals();
-    setGoals(g);
-    const initial: Record<string, number> = {};
-    for (const c of ringCategories) initial[c] = getTarget(g, c);
-    setDraft(initial);
+    let cancelled = false;
+    (async () => {
+      const g = await loadRingGoals(asOf);
+      if (cancelled) return;
+      setGoals(g);
+      const initial: Record<string, number> = {};
+      for (const c of ringCategories) initial[c] = getTarget(g, c);
+      setDraft(initial);
+    })();
+    return () => {
+      cancelled = true;
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [ringCategories.join("|")]);
+  }, [ringCategories.join("|"), asOf]);
+
+  useEffect(() => {
+    setEffectiveFrom(defaultEffectiveFrom);
+  }, [defaultEffectiveFrom]);
+
+  const openHistory = async (cat: string) => {
+    if (historyCat === cat) {
+      setHistoryCat(null);
+      return;
+    }
+    setHistoryCat(cat);
+    setHistory([]);
+    try {
+      setHistory(await loadRingGoalHistory(cat));
+    } catch (e) {
+      console.error(e);
+    }
+  };
 
   const cats = useMemo(() => {
     const uniq = Array.from(new Set(ringCategories));
@@ -36,55 +80,108 @@ export default function RingGoalEditor({ ringCategories, resolveLabel, onSaved }
     <div style={{ border: "1px solid #eee", borderRadius: 12, padding: 14, marginBottom: 16 }}>
       <div style={{ fontWeight: 900, marginBottom: 8 }}>リング目標（円）</div>
 
+      <label style={{ display: "flex", gap: 10, alignItems: "center", fontSize: 12, marginBottom: 10 }}>
+        <span style={{ opacity: 0.75 }}>適用開始日</span>
+        <input
+          type="date"
+          value={effectiveFrom}
+          onChange={(e) => setEffectiveFrom(e.target.value)}
+          style={{ padding: 8, borderRadius: 10, border: "1px solid #ccc" }}
+        />
+      </label>
+
       <div style={{ display: "grid", gap: 10 }}>
         {cats.map((cat) => {
           const label = resolveLabel ? resolveLabel(cat) : cat;
           return (
-            <div
-              key={cat}
-              style={{
-                display: "grid",
-                gridTemplateColumns: "1fr 160px 90px",
-                gap: 10,
-                alignItems: "center",
-              }}
-            >
-              <div style={{ fontWeight: 700, opacity: 0.9 }}>{label}</div>
-
-              <input
-                type="number"
-                inputMode="numeric"
-                value={draft[cat] ?? 0}
-                onChange={(e) => setDraft((p) => ({ ...p, [cat]: Number(e.target.value) }))}
-                placeholder="例：300000"
-                style={{ padding: 10, borderRadius: 10, border: "1px solid #ccc" }}
-              />
-
-              <button
-                type="button"
-                onClick={() => {
-                  const nextGoals = upsertTarget(goals, cat, draft[cat] ?? 0);
-                  setGoals(nextGoals);
-
-                  // ✅ 追加：親に「保存したよ」を通知して、即反映させる
-                  onSaved?.();
-                }}
+            <div key={cat}>
+              <div
                 style={{
-                  padding: "10px 12px",
-                  borderRadius: 10,
-                  border: "1px solid #ddd",
-                  background: "#fff",
-                  cursor: "pointer",
+                  display: "grid",
+                  gridTemplateColumns: "1fr 160px 90px 60px",
+                  gap: 10,
+                  alignItems: "center",
                 }}
               >
-                保存
-              </button>
+                <div style={{ fontWeight: 700, opacity: 0.9 }}>{label}</div>
+
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  value={draft[cat] ?? 0}
+                  onChange={(e) => setDraft((p) => ({ ...p, [cat]: Number(e.target.value) }))}
+                  placeholder="例：300000"
+                  style={{ padding: 10, borderRadius: 10, border: "1px solid #ccc" }}
+                />
+
+                <button
+                  type="button"
+                  disabled={savingCat === cat}
+                  onClick={async () => {
+                    setSavingCat(cat);
+                    try {
+                      await saveRingGoal(cat, draft[cat] ?? 0, effectiveFrom);
+                      setGoals(upsertTarget(goals, cat, draft[cat] ?? 0));
+                      if (historyCat === cat) setHistory(await loadRingGoalHistory(cat));
+
+                      // ✅ 追加：親に「保存したよ」を通知して、即反映させる
+                      onSaved?.();
+                    } catch (e) {
+                      console.error(e);
+                      alert("目標の保存に失敗しました");
+                    } finally {
+                      setSavingCat(null);
+                    }
+                  }}
+                  style={{
+                    padding: "10px 12px",
+                    borderRadius: 10,
+                    border: "1px solid #ddd",
+                    background: "#fff",
+                    cursor: "pointer",
+                    opacity: savingCat === cat ? 0.6 : 1,
+                  }}
+                >
+                  保存
+                </button>
+
+                <button
+                  type="button"
+                  onClick={() => openHistory(cat)}
+                  style={{
+                    padding: "10px 6px",
+                    borderRadius: 10,
+                    border: "1px solid #ddd",
+                    background: historyCat === cat ? "#eee" : "#fff",
+                    cursor: "pointer",
+                    fontSize: 12,
+                  }}
+                >
+                  履歴
+                </button>
+              </div>
+
+              {historyCat === cat && (
+                <div style={{ marginTop: 6, padding: 10, borderRadius: 10, background: "#fafafa", fontSize: 12 }}>
+                  {history.length === 0 && <div style={{ opacity: 0.65 }}>履歴はまだありません</div>}
+                  {history.map((h) => (
+                    <div key={h.effectiveFrom} style={{ display: "flex", justifyContent: "space-between", padding: "2px 0" }}>
+                      <span style={{ opacity: 0.75 }}>
+                        {h.effectiveFrom === "1970-01-01" ? "最初から" : `${h.effectiveFrom} から`}
+                      </span>
+                      <b>{h.target.toLocaleString("ja-JP")}円</b>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           );
         })}
       </div>
 
-      <div style={{ marginTop: 10, fontSize: 12, opacity: 0.65 }}>※目標は端末内に保存（userKeyごとに分離）</div>
+      <div style={{ marginTop: 10, fontSize: 12, opacity: 0.65 }}>
+        ※目標はサーバーに保存（userKeyごとに分離）。過去の月は、その時点の目標で表示されます
+      </div>
     </div>
   );
 }
@@ -0,0 +1,361 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Split, TxType } from "../types";
+import { parseAmountExpression } from "../../lib/amount";
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney, fromMinor, toMinor } from "../../lib/currency";
+import { newIdempotencyKey } from "../../lib/userKey";
+
+type Props = {
+  userKey: string;
+
+  // ✅ null なら新規
+  editing: Split | null;
+  defaultCurrency: string;
+
+  // リング名 ⇔ category（「生活費」→ ring:life など）
+  ringTitleResolver: Array<{ title: string; category: string }>;
+  categorySuggestions?: string[];
+
+  onClose: () => void;
+  onSaved: (split: Split) => void;
+};
+
+// id: 編集中の分割明細の既存の行（新しく足した行は null）
+type LineDraft = { id: number | null; category: string; detailCategory: string; amountStr: string };
+
+// lib/validators.ts の MAX_SPLIT_LINES と合わせる
+const MAX_LINES = 20;
+
+function todayYMD() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+const inputStyle: React.CSSProperties = { width: "100%", padding: 10, borderRadius: 10, border: "1px solid #ccc" };
+const smallButton: React.CSSProperties = {
+  padding: "6px 10px",
+  borderRadius: 10,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontWeight: 800,
+  fontSize: 12,
+};
+
+const emptyLine = (): LineDraft => ({ id: null, category: "", detailCategory: "", amountStr: "" });
+
+/**
+ * ✅ 分割明細の作成・編集（1件の支払い/入金をリング・内訳ごとの行に分ける）
+ */
+export default function SplitEditor({
+  userKey,
+  editing,
+  defaultCurrency,
+  ringTitleResolver,
+  categorySuggestions = [],
+  onClose,
+  onSaved,
+}: Props) {
+  const labelOf = useCallback(
+    (category: string) => ringTitleResolver.find((p) => p.category === category)?.title ?? category,
+    [ringTitleResolver]
+  );
+
+  const [type, setType] = useState<TxType>(editing?.type ?? "expense");
+  const [currency, setCurrency] = useState(editing?.currency ?? defaultCurrency ?? DEFAULT_CURRENCY);
+  const [occurredAt, setOccurredAt] = useState(editing ? editing.occurredAt.slice(0, 10) : todayYMD());
+  const [totalStr, setTotalStr] = useState(editing ? String(fromMinor(editing.amount, editing.currency)) : "");
+  const [memo, setMemo] = useState(editing?.memo ?? "");
+  const [lines, setLines] = useState<LineDraft[]>(
+    editing
+      ? editing.lines.map((l) => ({
+          id: l.id,
+          category: labelOf(l.category),
+          detailCategory: l.detailCategory ?? "",
+          amountStr: String(fromMinor(l.amount, editing.currency)),
+        }))
+      : [emptyLine(), emptyLine()]
+  );
+  const [busy, setBusy] = useState(false);
+
+  // ✅ 同じ入力内容での再送は同じ Idempotency-Key（新規のときだけ）
+  const submitKeyRef = useRef<string | null>(null);
+  useEffect(() => {
+    submitKeyRef.current = null;
+  }, [type, currency, occurredAt, totalStr, memo, lines]);
+
+  // 入力候補：リング名 + これまでのカテゴリ（ring: はリング名で出す）
+  const categoryOptions = useMemo(() => {
+    const set = new Set<string>();
+    for (const p of ringTitleResolver) set.add(p.title);
+    for (const c of categorySuggestions) set.add(labelOf(c));
+    return Array.from(set);
+  }, [ringTitleResolver, categorySuggestions, labelOf]);
+
+  const total = toMinor(parseAmountExpression(totalStr) ?? 0, currency);
+  const lineAmounts = lines.map((l) => toMinor(parseAmountExpression(l.amountStr) ?? 0, currency));
+  const assigned = lineAmounts.reduce((s, n) => s + n, 0);
+  const remaining = total - assigned;
+
+  const updateLine = (i: number, patch: Partial<LineDraft>) =>
+    setLines((prev) => prev.map((l, j) => (j === i ? { ...l, ...patch } : l)));
+
+  // 残りを最後の空いている行（無ければ最後の行）に足す
+  const fillRemaining = () => {
+    if (remaining === 0) return;
+    const idx = lineAmounts.findIndex((n) => n === 0);
+    const i = idx >= 0 ? idx : lines.length - 1;
+    updateLine(i, { amountStr: String(fromMinor(lineAmounts[i] + remaining, currency)) });
+  };
+
+  // リング名で入れたら category に直す
+  const normalizeCategory = (raw: string) => {
+    const v = raw.trim();
+    return ringTitleResolver.find((p) => p.title === v)?.category ?? v;
+  };
+
+  const canSave =
+    !busy &&
+    total > 0 &&
+    remaining === 0 &&
+    lines.length >= 2 &&
+    lines.every((l, i) => l.category.trim() && lineAmounts[i] > 0);
+
+  const save = async () => {
+    if (!canSave) return;
+
+    const body = {
+      type,
+      amount: total,
+      currency,
+      occurredAt,
+      memo: memo.trim() || undefined,
+      lines: lines.map((l, i) => ({
+        id: l.id ?? undefined,
+        amount: lineAmounts[i],
+        category: normalizeCategory(l.category),
+        detailCategory: l.detailCategory.trim() ? l.detailCategory.trim().slice(0, 24) : undefined,
+      })),
+    };
+
+    setBusy(true);
+    if (!editing) submitKeyRef.current ??= newIdempotencyKey();
+    try {
+      const res = await fetch(editing ? `/api/splits?id=${editing.id}` : "/api/splits", {
+        method: editing ? "PATCH" : "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-user-key": userKey,
+          ...(!editing && submitKeyRef.current ? { "idempotency-key": submitKeyRef.current } : {}),
+          ...(editing ? { "If-Match": `"${editing.version}"` } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => null);
+      if (res.status === 409) {
+        alert("ほかの端末でこの分割明細が変更されました。開き直してから編集してください");
+        return;
+      }
+      if (!res.ok) {
+        alert(data?.error ?? "保存に失敗しました");
+        return;
+      }
+      onSaved(data as Split);
+    } catch (e) {
+      console.error(e);
+      alert("保存に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0,0,0,0.35)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: 16,
+        zIndex: 10000,
+      }}
+      onClick={() => !busy && onClose()}
+    >
+      <div
+        style={{
+          width: "min(560px, 96vw)",
+          maxHeight: "88vh",
+          overflowY: "auto",
+          background: "#fff",
+          borderRadius: 16,
+          padding: 16,
+          boxShadow: "0 20px 60px rgba(0,0,0,0.25)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ fontWeight: 900, fontSize: 18, marginBottom: 12 }}>
+          {editing ? "分割明細を編集" : "分割して入力"}
+        </div>
+
+        <div style={{ display: "flex", gap: 8, marginBottom: 10 }}>
+          {(["expense", "income"] as const).map((t) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setType(t)}
+              style={{
+                ...smallButton,
+                flex: 1,
+                padding: "10px 12px",
+                border: type === t ? "2px solid #111" : "1px solid #ddd",
+              }}
+            >
+              {t === "expense" ? "支出" : "収入"}
+            </button>
+          ))}
+        </div>
+
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+          <label style={{ fontSize: 12, opacity: 0.75 }}>
+            日付
+            <input type="date" value={occurredAt} onChange={(e) => setOccurredAt(e.target.value)} style={inputStyle} />
+          </label>
+          <label style={{ fontSize: 12, opacity: 0.75 }}>
+            合計
+            <div style={{ display: "flex", gap: 6 }}>
+              <input
+                value={totalStr}
+                onChange={(e) => setTotalStr(e.target.value)}
+                inputMode="decimal"
+                placeholder={currency === DEFAULT_CURRENCY ? "例) 3280" : "例) 32.80"}
+                style={inputStyle}
+              />
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                aria-label="通貨"
+                style={{ padding: 10, borderRadius: 10, border: "1px solid #ccc", background: "#fff" }}
+              >
+                {CURRENCIES.map((c) => (
+                  <option key={c} value={c}>
+                    {c === DEFAULT_CURRENCY ? "円" : c}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </label>
+        </div>
+
+        <label style={{ display: "block", fontSize: 12, opacity: 0.75, marginTop: 8 }}>
+          メモ（お店など）
+          <input value={memo} onChange={(e) => setMemo(e.target.value)} placeholder="例) スーパー" style={inputStyle} />
+        </label>
+
+        <div style={{ fontWeight: 800, margin: "14px 0 8px" }}>行（リング・内訳ごと）</div>
+
+        <datalist id="split-category-options">
+          {categoryOptions.map((c) => (
+            <option key={c} value={c} />
+          ))}
+        </datalist>
+
+        <div style={{ display: "grid", gap: 8 }}>
+          {lines.map((l, i) => (
+            <div
+              key={i}
+              style={{ display: "grid", gridTemplateColumns: "1.2fr 1fr 0.9fr auto", gap: 6, alignItems: "center" }}
+            >
+              <input
+                value={l.category}
+                onChange={(e) => updateLine(i, { category: e.target.value })}
+                list="split-category-options"
+                placeholder="リング / カテゴリ"
+                aria-label={`${i + 1}行目のカテゴリ`}
+                style={inputStyle}
+              />
+              <input
+                value={l.detailCategory}
+                onChange={(e) => updateLine(i, { detailCategory: e.target.value })}
+                placeholder="内訳（例: 食費）"
+                aria-label={`${i + 1}行目の内訳`}
+                style={inputStyle}
+              />
+              <input
+                value={l.amountStr}
+                onChange={(e) => updateLine(i, { amountStr: e.target.value })}
+                inputMode="decimal"
+                placeholder="金額"
+                aria-label={`${i + 1}行目の金額`}
+                style={inputStyle}
+              />
+              <button
+                type="button"
+                onClick={() => setLines((prev) => prev.filter((_, j) => j !== i))}
+                disabled={lines.length <= 2}
+                aria-label={`${i + 1}行目を削除`}
+                style={{ ...smallButton, opacity: lines.length <= 2 ? 0.4 : 1 }}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8, flexWrap: "wrap" }}>
+          <button
+            type="button"
+            onClick={() => setLines((prev) => [...prev, emptyLine()])}
+            disabled={lines.length >= MAX_LINES}
+            style={smallButton}
+          >
+            行を追加
+          </button>
+          <button type="button" onClick={fillRemaining} disabled={remaining === 0 || total <= 0} style={smallButton}>
+            残りを割り当て
+          </button>
+          <div
+            style={{
+              marginLeft: "auto",
+              fontSize: 12,
+              fontWeight: 800,
+              color: remaining === 0 ? "#067647" : "#b42318",
+            }}
+          >
+            {remaining === 0
+              ? "合計と一致しています"
+              : remaining > 0
+                ? `あと ${formatMoney(remaining, currency)}`
+                : `${formatMoney(-remaining, currency)} 多すぎます`}
+          </div>
+        </div>
+
+        <div style={{ display: "flex", justifyContent: "flex-end", gap: 8, marginTop: 16 }}>
+          <button type="button" onClick={onClose} disabled={busy} style={{ ...smallButton, padding: "10px 14px" }}>
+            キャンセル
+          </button>
+          <button
+            type="button"
+            onClick={save}
+            disabled={!canSave}
+            style={{
+              ...smallButton,
+              padding: "10px 14px",
+              background: "#111",
+              color: "#fff",
+              border: "1px solid #111",
+              opacity: canSave ? 1 : 0.5,
+              cursor: canSave ? "pointer" : "not-allowed",
+            }}
+          >
+            {busy ? "保存中…" : "保存"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
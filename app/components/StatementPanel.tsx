@@ -0,0 +1,365 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { decodeCsvBytes, MAX_IMPORT_ROWS, parseCsv } from "../../lib/csv";
+import { DEFAULT_CURRENCY } from "../../lib/currency";
+import { parseStatement, STATEMENT_PARSERS, type StatementRow } from "../../lib/statements";
+
+type Props = {
+  userKey: string;
+  // ✅ 選べるカテゴリ（リング）: [{ title: "生活費", category: "ring:life" }, ...]
+  categories: Array<{ title: string; category: string }>;
+  resolveLabel: (category: string) => string;
+  onClose: () => void;
+
+  // ✅ 取り込んだ（親で取り直す）
+  onImported: () => void;
+};
+
+type ReviewRow = StatementRow & { include: boolean; category: string };
+
+const PREVIEW_ROWS = 300;
+
+const inputStyle: React.CSSProperties = { width: "100%", padding: 8, borderRadius: 10, border: "1px solid #ccc", fontSize: 12 };
+const smallButton: React.CSSProperties = {
+  padding: "6px 10px",
+  borderRadius: 10,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontWeight: 800,
+  fontSize: 12,
+};
+const cellStyle: React.CSSProperties = { padding: "3px 4px", borderBottom: "1px solid #f2f2f2", whiteSpace: "nowrap" };
+
+/**
+ * ✅ 銀行・カードの明細 CSV を読み取り、行ごとにリングを割り当ててから取り込む
+ */
+export default function StatementPanel({ userKey, categories, resolveLabel, onClose, onImported }: Props) {
+  const [busy, setBusy] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<string[][]>([]);
+  const [parserId, setParserId] = useState<string | null>(null);
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [skipped, setSkipped] = useState(0);
+  const [checked, setChecked] = useState<{ duplicates: Set<number> } | null>(null);
+
+  const uniqueCategories = useMemo(
+    () => Array.from(new Map(categories.map((c) => [c.category, c])).values()),
+    [categories]
+  );
+  const [bulkCategory, setBulkCategory] = useState(uniqueCategories[0]?.category ?? "");
+
+  // 読み方を変えたら行を作り直す（割り当てたリングは消える）
+  useEffect(() => {
+    if (table.length === 0) return;
+    const result = parseStatement(table, parserId ?? undefined);
+    if (!result) {
+      setRows([]);
+      setSkipped(table.length);
+      return;
+    }
+    if (parserId === null) {
+      setParserId(result.parser.id);
+      return;
+    }
+    setRows(result.rows.map((r) => ({ ...r, include: true, category: "" })));
+    setSkipped(result.skipped);
+  }, [table, parserId]);
+
+  // 行を変えたら重複チェックはやり直し
+  useEffect(() => {
+    setChecked(null);
+  }, [rows]);
+
+  const selected = rows.flatMap((r, i) => (r.include ? [i] : []));
+  const unassigned = selected.filter((i) => !rows[i].category).length;
+
+  const updateRow = (index: number, patch: Partial<ReviewRow>) => {
+    setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  // 摘要が同じ行にはまとめて同じリング（毎月同じお店が並ぶので）
+  const assignCategory = (index: number, category: string) => {
+    const description = rows[index].description;
+    setRows((prev) =>
+      prev.map((r, i) => (i === index || (description && !r.category && r.description === description) ? { ...r, category } : r))
+    );
+  };
+
+  const assignSelected = () => {
+    if (!bulkCategory) return;
+    setRows((prev) => prev.map((r) => (r.include && !r.category ? { ...r, category: bulkCategory } : r)));
+  };
+
+  const loadFile = async (file: File) => {
+    try {
+      const parsed = parseCsv(decodeCsvBytes(await file.arrayBuffer()));
+      if (parsed.length === 0) {
+        alert("CSV に行がありません");
+        return;
+      }
+      setFileName(file.name);
+      setParserId(null);
+      setTable(parsed);
+    } catch (e) {
+      console.error(e);
+      alert("CSV を読み込めませんでした");
+    }
+  };
+
+  const send = async (dryRun: boolean) => {
+    const res = await fetch("/api/transactions/import", {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-user-key": userKey },
+      body: JSON.stringify({
+        dryRun,
+        rows: selected.map((i) => ({
+          occurredAt: rows[i].occurredAt,
+          type: rows[i].type,
+          amount: rows[i].amount,
+          currency: DEFAULT_CURRENCY,
+          category: rows[i].category,
+          detailCategory: rows[i].description,
+        })),
+      }),
+    });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      alert(data?.error ?? "取り込めませんでした");
+      return null;
+    }
+    return data as { diff: { incoming: number; create: number; skip: number }; duplicates: number[] };
+  };
+
+  const check = async () => {
+    if (selected.length === 0 || unassigned > 0 || selected.length > MAX_IMPORT_ROWS) return;
+    setBusy(true);
+    try {
+      const data = await send(true);
+      // 返ってくる添字は選んだ行の中の位置なので、rows の位置にする
+      if (data) setChecked({ duplicates: new Set(data.duplicates.map((i) => selected[i])) });
+    } catch (e) {
+      console.error(e);
+      alert("重複チェックに失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runImport = async () => {
+    if (!checked) return;
+    if (!confirm(`${selected.length - checked.duplicates.size} 件を取り込みますか？（重複 ${checked.duplicates.size} 件は飛ばします）`)) {
+      return;
+    }
+    setBusy(true);
+    try {
+      const data = await send(false);
+      if (!data) return;
+      alert(`${data.diff.create} 件を取り込みました`);
+      onImported();
+      onClose();
+    } catch (e) {
+      console.error(e);
+      alert("取り込みに失敗しました（データは変更されていません）");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canCheck = !busy && selected.length > 0 && unassigned === 0 && selected.length <= MAX_IMPORT_ROWS;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0,0,0,0.35)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: 16,
+        zIndex: 10000,
+      }}
+      onClick={() => !busy && onClose()}
+    >
+      <div
+        style={{
+          width: "min(760px, 96vw)",
+          maxHeight: "88vh",
+          overflowY: "auto",
+          background: "#fff",
+          borderRadius: 16,
+          padding: 16,
+          boxShadow: "0 20px 60px rgba(0,0,0,0.25)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ fontWeight: 900, fontSize: 18, marginBottom: 6 }}>銀行・カードの明細を取り込む</div>
+        <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 12 }}>
+          ネットバンキング・カード会社のサイトからダウンロードした CSV をそのまま選んでください（Shift_JIS のままで大丈夫）
+        </div>
+
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            if (file) await loadFile(file);
+            e.currentTarget.value = "";
+          }}
+          style={{ fontSize: 12 }}
+        />
+
+        {table.length > 0 && (
+          <>
+            <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 10, fontSize: 12, flexWrap: "wrap" }}>
+              <span style={{ opacity: 0.65 }}>{fileName}</span>
+              <select
+                value={parserId ?? ""}
+                onChange={(e) => setParserId(e.target.value || null)}
+                aria-label="明細の形式"
+                style={{ ...inputStyle, width: "auto" }}
+              >
+                {parserId === null && <option value="">（形式が分かりませんでした）</option>}
+                {STATEMENT_PARSERS.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div style={{ marginTop: 8, fontSize: 12 }}>
+              明細 <b>{rows.length}</b> 件（取り込む <b>{selected.length}</b> 件
+              {unassigned > 0 && (
+                <>
+                  ・リング未割り当て <b style={{ color: "#b42318" }}>{unassigned}</b> 件
+                </>
+              )}
+              {checked && (
+                <>
+                  ・重複 <b>{checked.duplicates.size}</b> 件
+                </>
+              )}
+              ）
+              {skipped > 0 && <span style={{ opacity: 0.6 }}> ／ 明細でない行 {skipped} 行は飛ばしました</span>}
+            </div>
+
+            <div style={{ display: "flex", gap: 6, alignItems: "center", marginTop: 8, flexWrap: "wrap" }}>
+              <select
+                value={bulkCategory}
+                onChange={(e) => setBulkCategory(e.target.value)}
+                aria-label="まとめて割り当てるリング"
+                style={{ ...inputStyle, width: "auto" }}
+              >
+                {uniqueCategories.map((c) => (
+                  <option key={c.category} value={c.category}>
+                    {resolveLabel(c.category)}
+                  </option>
+                ))}
+              </select>
+              <button type="button" onClick={assignSelected} disabled={busy || !bulkCategory} style={smallButton}>
+                未割り当ての行に割り当てる
+              </button>
+            </div>
+
+            {rows.length > 0 && (
+              <div style={{ marginTop: 8, overflowX: "auto", border: "1px solid #eee", borderRadius: 10 }}>
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 11 }}>
+                  <thead>
+                    <tr style={{ textAlign: "left", opacity: 0.7 }}>
+                      <th style={cellStyle}></th>
+                      <th style={cellStyle}>日付</th>
+                      <th style={cellStyle}>摘要</th>
+                      <th style={{ ...cellStyle, textAlign: "right" }}>金額</th>
+                      <th style={cellStyle}>リング</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.slice(0, PREVIEW_ROWS).map((r, i) => {
+                      const dup = checked?.duplicates.has(i) ?? false;
+                      return (
+                        <tr key={i} style={{ opacity: !r.include || dup ? 0.45 : 1 }}>
+                          <td style={cellStyle}>
+                            <input
+                              type="checkbox"
+                              checked={r.include}
+                              onChange={(e) => updateRow(i, { include: e.target.checked })}
+                              aria-label="取り込む"
+                            />
+                          </td>
+                          <td style={cellStyle}>{r.occurredAt}</td>
+                          <td style={{ ...cellStyle, whiteSpace: "normal" }}>
+                            {r.description}
+                            {dup && <span style={{ marginLeft: 4, opacity: 0.8 }}>（重複・飛ばす）</span>}
+                          </td>
+                          <td
+                            style={{ ...cellStyle, textAlign: "right", color: r.type === "income" ? "#067647" : undefined }}
+                          >
+                            {(r.type === "expense" ? -r.amount : r.amount).toLocaleString("ja-JP")}円
+                          </td>
+                          <td style={cellStyle}>
+                            <select
+                              value={r.category}
+                              onChange={(e) => assignCategory(i, e.target.value)}
+                              aria-label="リング"
+                              style={{ padding: 4, borderRadius: 8, border: "1px solid #ccc", fontSize: 11 }}
+                            >
+                              <option value="">（未割り当て）</option>
+                              {uniqueCategories.map((c) => (
+                                <option key={c.category} value={c.category}>
+                                  {resolveLabel(c.category)}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {rows.length > PREVIEW_ROWS && (
+              <div style={{ marginTop: 4, fontSize: 11, opacity: 0.65 }}>
+                ※ 先頭の {PREVIEW_ROWS} 行だけ表示しています（残りは「未割り当ての行に割り当てる」で割り当ててください）
+              </div>
+            )}
+
+            <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap" }}>
+              <button type="button" onClick={check} disabled={!canCheck} style={{ ...smallButton, opacity: canCheck ? 1 : 0.5 }}>
+                重複チェック
+              </button>
+              <button
+                type="button"
+                onClick={runImport}
+                disabled={busy || !checked}
+                style={{
+                  ...smallButton,
+                  background: "#111",
+                  color: "#fff",
+                  border: "1px solid #111",
+                  opacity: busy || !checked ? 0.5 : 1,
+                }}
+              >
+                {busy ? "処理中…" : "取り込む"}
+              </button>
+            </div>
+            <div style={{ marginTop: 6, fontSize: 11, opacity: 0.65 }}>
+              ※ 前月分と期間が重なっていても、同じ日付・金額・リング・摘要の明細は二重に取り込みません
+            </div>
+          </>
+        )}
+
+        <div style={{ display: "flex", justifyContent: "flex-end", marginTop: 12 }}>
+          <button type="button" onClick={onClose} disabled={busy} style={smallButton}>
+            閉じる
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+
+type Props = {
+  value: string[];
+  onChange: (tags: string[]) => void;
+
+  // ✅ 入力候補（よく使う順）
+  suggestions?: string[];
+  placeholder?: string;
+};
+
+// lib/validators.ts の MAX_TAGS_PER_TRANSACTION / MAX_TAG_LENGTH と合わせる
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 32;
+
+const chipStyle: React.CSSProperties = {
+  display: "inline-flex",
+  alignItems: "center",
+  gap: 4,
+  padding: "4px 8px",
+  borderRadius: 999,
+  border: "1px solid #ccc",
+  background: "#fff",
+  fontSize: 12,
+};
+
+/**
+ * ✅ タグ入力（Enter / 読点 / カンマで確定、候補はタップで追加）
+ */
+export default function TagInput({ value, onChange, suggestions = [], placeholder = "例) 旅行2026 / 立替 / 経費" }: Props) {
+  const [draft, setDraft] = useState("");
+
+  const add = (raw: string) => {
+    const name = raw.trim().replace(/^#/, "").slice(0, MAX_TAG_LENGTH);
+    setDraft("");
+    if (!name || value.includes(name) || value.length >= MAX_TAGS) return;
+    onChange([...value, name]);
+  };
+
+  const remove = (name: string) => onChange(value.filter((t) => t !== name));
+
+  // 入力中の文字で絞った候補（付いているものは出さない）
+  const candidates = useMemo(() => {
+    const q = draft.trim().replace(/^#/, "");
+    return suggestions.filter((s) => !value.includes(s) && (!q || s.includes(q))).slice(0, 8);
+  }, [draft, suggestions, value]);
+
+  return (
+    <div>
+      {value.length > 0 && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginBottom: 6 }}>
+          {value.map((t) => (
+            <span key={t} style={chipStyle}>
+              #{t}
+              <button
+                type="button"
+                onClick={() => remove(t)}
+                aria-label={`${t} を外す`}
+                style={{ border: "none", background: "transparent", cursor: "pointer", padding: 0, opacity: 0.6 }}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <input
+        value={draft}
+        onChange={(e) => {
+          const v = e.target.value;
+          // 区切り文字を打ったらそこまでを確定
+          if (/[,、\s]$/.test(v)) add(v.slice(0, -1));
+          else setDraft(v);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            add(draft);
+          } else if (e.key === "Backspace" && !draft && value.length > 0) {
+            remove(value[value.length - 1]);
+          }
+        }}
+        onBlur={() => draft.trim() && add(draft)}
+        placeholder={value.length >= MAX_TAGS ? `タグは${MAX_TAGS}個までです` : placeholder}
+        disabled={value.length >= MAX_TAGS}
+        style={{ width: "100%", padding: 12, borderRadius: 10, border: "1px solid #ccc" }}
+      />
+
+      {candidates.length > 0 && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginTop: 6 }}>
+          {candidates.map((s) => (
+            <button
+              key={s}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()} // blur で draft が確定しないように
+              onClick={() => add(s)}
+              style={{ ...chipStyle, cursor: "pointer", opacity: 0.8 }}
+            >
+              #{s}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { RevisionAction, Transaction, TransactionHistoryResponse, TransactionSnapshot } from "../types";
+import { formatMoney } from "../../lib/currency";
+
+type Props = {
+  userKey: string;
+  transaction: Transaction;
+  resolveLabel?: (category: string) => string;
+  onClose: () => void;
+
+  // ✅ 戻した後の明細を親の一覧へ反映する
+  onReverted: (t: Transaction) => void;
+};
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  create: "作成",
+  update: "編集",
+  delete: "削除",
+  restore: "復元",
+  purge: "完全削除",
+  revert: "以前の版に戻す",
+};
+
+const FIELD_LABELS: Record<keyof TransactionSnapshot, string> = {
+  amount: "金額",
+  currency: "通貨",
+  category: "カテゴリ",
+  detailCategory: "内訳",
+  type: "種別",
+  occurredAt: "発生日",
+  tags: "タグ",
+};
+
+function fmtDateTime(iso: string) {
+  return new Date(iso).toLocaleString("ja-JP", { dateStyle: "short", timeStyle: "short" });
+}
+
+function maskActor(key: string) {
+  if (key === "system") return "自動";
+  if (key === "recurring") return "定期明細";
+  return key.length <= 8 ? key : `${key.slice(0, 4)}…${key.slice(-4)}`;
+}
+
+export default function TransactionHistoryPanel({ userKey, transaction, resolveLabel, onClose, onReverted }: Props) {
+  const [data, setData] = useState<TransactionHistoryResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [reloadTick, setReloadTick] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/transactions/history?id=${transaction.id}`, {
+          headers: { "x-user-key": userKey },
+          cache: "no-store",
+        });
+        const json = await res.json().catch(() => null);
+        if (!res.ok || !json) throw new Error(json?.error ?? "履歴の取得に失敗しました");
+        if (!cancelled) setData(json as TransactionHistoryResponse);
+      } catch (e) {
+        console.error(e);
+        if (!cancelled) setError(e instanceof Error ? e.message : "履歴の取得に失敗しました");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [userKey, transaction.id, reloadTick]);
+
+  // 金額はその版の通貨で表示する
+  const formatValue = (field: keyof TransactionSnapshot, value: unknown, currency = transaction.currency) => {
+    if (value === null || value === undefined || value === "") return "—";
+    if (field === "amount") return formatMoney(Number(value), currency);
+    if (field === "type") return value === "income" ? "収入" : "支出";
+    if (field === "occurredAt") return new Date(String(value)).toLocaleDateString("ja-JP");
+    if (field === "category" && resolveLabel) return resolveLabel(String(value));
+    if (field === "tags") return Array.isArray(value) && value.length > 0 ? value.map((t) => `#${t}`).join(" ") : "—";
+    return String(value);
+  };
+
+  const revert = async (revisionId: number) => {
+    if (busyId !== null) return;
+    const version = data?.current?.version;
+    if (version === undefined) return;
+    if (!confirm("この版の内容に戻します。よろしいですか？")) return;
+
+    setBusyId(revisionId);
+    try {
+      const res = await fetch(`/api/transactions/history?id=${transaction.id}&revisionId=${revisionId}`, {
+        method: "POST",
+        headers: { "x-user-key": userKey, "If-Match": `"${version}"` },
+      });
+      const json = await res.json().catch(() => null);
+      if (res.status === 409 && json?.current) {
+        // 開いている間にほかで変更された：今の内容を反映して履歴を取り直す
+        alert("ほかの端末でこの明細が変更されました。履歴を読み直したので、もう一度選んでください");
+        onReverted(json.current as Transaction);
+        setReloadTick((n) => n + 1);
+        return;
+      }
+      if (!res.ok) {
+        alert(json?.error ?? "戻せませんでした");
+        return;
+      }
+      onReverted(json as Transaction);
+      setReloadTick((n) => n + 1);
+    } catch (e) {
+      console.error(e);
+      alert("戻せませんでした");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // 資金移動の片側・分割明細の1行は戻せない（組が崩れるため）
+  const canRevert = !!data?.current && !data.current.deletedAt && !data.current.transferId && !data.current.splitId;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0,0,0,0.35)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: 16,
+        zIndex: 10000,
+      }}
+      onClick={() => busyId === null && onClose()}
+    >
+      <div
+        style={{
+          width: "min(560px, 96vw)",
+          maxHeight: "88vh",
+          overflowY: "auto",
+          background: "#fff",
+          borderRadius: 16,
+          padding: 16,
+          boxShadow: "0 20px 60px rgba(0,0,0,0.25)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ fontWeight: 900, fontSize: 18, marginBottom: 6 }}>変更履歴</div>
+        <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 12 }}>
+          {resolveLabel ? resolveLabel(transaction.category) : transaction.category} ・{" "}
+          {new Date(transaction.occurredAt).toLocaleDateString("ja-JP")}
+        </div>
+
+        {error && <div style={{ fontSize: 12, color: "#b42318", marginBottom: 10 }}>エラー：{error}</div>}
+        {!data && !error && <div style={{ fontSize: 12, opacity: 0.7 }}>読み込み中…</div>}
+        {data && data.revisions.length === 0 && (
+          <div style={{ fontSize: 12, opacity: 0.7 }}>履歴はまだありません（履歴機能より前に登録された明細です）</div>
+        )}
+
+        <div style={{ display: "grid", gap: 8 }}>
+          {(data?.revisions ?? []).map((r, i) => {
+            const fields = Object.keys(r.changes) as Array<keyof TransactionSnapshot>;
+            return (
+              <div key={r.id} style={{ border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 8, alignItems: "center" }}>
+                  <div style={{ fontWeight: 800 }}>
+                    {ACTION_LABELS[r.action] ?? r.action}
+                    {r.revertOf ? <span style={{ fontSize: 11, opacity: 0.6 }}>（#{r.revertOf}）</span> : null}
+                  </div>
+                  <div style={{ fontSize: 11, opacity: 0.65 }}>
+                    #{r.id} ・ {fmtDateTime(r.createdAt)} ・ {maskActor(r.actor)}
+                  </div>
+                </div>
+
+                {(r.action === "update" || r.action === "revert") && fields.length > 0 && (
+                  <div style={{ marginTop: 6, fontSize: 12, display: "grid", gap: 2 }}>
+                    {fields.map((f) => (
+                      <div key={f}>
+                        {FIELD_LABELS[f] ?? f}：{formatValue(f, r.changes[f]?.from, r.before?.currency)} →{" "}
+                        {formatValue(f, r.changes[f]?.to, r.after?.currency)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {r.after && (r.action === "create" || r.action === "restore") && (
+                  <div style={{ marginTop: 6, fontSize: 12, opacity: 0.8 }}>
+                    {formatValue("amount", r.after.amount, r.after.currency)} ／ {formatValue("category", r.after.category)}
+                    {r.after.detailCategory ? `（${r.after.detailCategory}）` : ""}
+                  </div>
+                )}
+
+                {canRevert && r.after && i > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => revert(r.id)}
+                    disabled={busyId !== null}
+                    style={{
+                      marginTop: 8,
+                      padding: "6px 10px",
+                      borderRadius: 10,
+                      border: "1px solid #ddd",
+                      background: "#fff",
+                      cursor: "pointer",
+                      fontWeight: 800,
+                      fontSize: 12,
+                      opacity: busyId === r.id ? 0.6 : 1,
+                    }}
+                  >
+                    {busyId === r.id ? "処理中…" : "この版に戻す"}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div style={{ display: "flex", justifyContent: "flex-end", marginTop: 14 }}>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={busyId !== null}
+            style={{
+              padding: "10px 14px",
+              borderRadius: 12,
+              border: "1px solid #ddd",
+              background: "#fff",
+              fontWeight: 900,
+              cursor: "pointer",
+            }}
+          >
+            閉じる
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { Transaction, TrashedTransaction, TrashResponse } from "../types";
+import { formatMoney } from "../../lib/currency";
+
+type Props = {
+  userKey: string;
+  resolveLabel?: (category: string) => string;
+  onClose: () => void;
+
+  // ✅ 復元した明細を親の一覧へ戻す
+  onRestored: (t: Transaction) => void;
+};
+
+function fmtDate(iso: string) {
+  return new Date(iso).toLocaleDateString("ja-JP");
+}
+
+export default function TrashPanel({ userKey, resolveLabel, onClose, onRestored }: Props) {
+  const [items, setItems] = useState<TrashedTransaction[] | null>(null);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [busyId, setBusyId] = useState<number | "all" | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/transactions/trash", {
+          headers: { "x-user-key": userKey },
+          cache: "no-store",
+        });
+        const data = (await res.json().catch(() => null)) as TrashResponse | null;
+        if (!res.ok || !data || !Array.isArray(data.items)) throw new Error(JSON.stringify(data));
+        if (cancelled) return;
+        setItems(data.items);
+        setRetentionDays(data.retentionDays);
+      } catch (e) {
+        console.error(e);
+        if (!cancelled) setItems([]);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [userKey]);
+
+  const restore = async (id: number) => {
+    if (busyId !== null) return;
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/transactions/trash?id=${id}`, {
+        method: "POST",
+        headers: { "x-user-key": userKey },
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        alert(data?.error ?? "復元に失敗しました");
+        return;
+      }
+      setItems((prev) => (prev ?? []).filter((t) => t.id !== id));
+      onRestored(data as Transaction);
+    } catch (e) {
+      console.error(e);
+      alert("復元に失敗しました");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const purge = async (id?: number) => {
+    if (busyId !== null) return;
+    const ok = confirm(id ? "この明細を完全に削除します。元に戻せません。よろしいですか？" : "ゴミ箱を空にします。元に戻せません。よろしいですか？");
+    if (!ok) return;
+
+    setBusyId(id ?? "all");
+    try {
+      const res = await fetch(`/api/transactions/trash${id ? `?id=${id}` : ""}`, {
+        method: "DELETE",
+        headers: { "x-user-key": userKey },
+      });
+      if (!res.ok) {
+        const e = await res.json().catch(() => ({}));
+        alert(e?.error ?? "削除に失敗しました");
+        return;
+      }
+      setItems((prev) => (id ? (prev ?? []).filter((t) => t.id !== id) : []));
+    } catch (e) {
+      console.error(e);
+      alert("削除に失敗しました");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0,0,0,0.35)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: 16,
+        zIndex: 10000,
+      }}
+      onClick={() => busyId === null && onClose()}
+    >
+      <div
+        style={{
+          width: "min(560px, 96vw)",
+          maxHeight: "88vh",
+          overflowY: "auto",
+          background: "#fff",
+          borderRadius: 16,
+          padding: 16,
+          boxShadow: "0 20px 60px rgba(0,0,0,0.25)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ fontWeight: 900, fontSize: 18, marginBottom: 6 }}>ゴミ箱</div>
+        <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 12 }}>
+          削除した明細は {retentionDays} 日後に自動で完全削除されます
+        </div>
+
+        {items === null && <div style={{ fontSize: 12, opacity: 0.7 }}>読み込み中…</div>}
+        {items?.length === 0 && <div style={{ fontSize: 12, opacity: 0.7 }}>ゴミ箱は空です</div>}
+
+        <div style={{ display: "grid", gap: 8 }}>
+          {(items ?? []).map((t) => {
+            const label = resolveLabel ? resolveLabel(t.category ?? "") : t.category ?? "";
+            return (
+              <div
+                key={t.id}
+                style={{
+                  border: "1px solid #eee",
+                  borderRadius: 12,
+                  padding: 12,
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  gap: 10,
+                }}
+              >
+                <div>
+                  <div style={{ fontWeight: 800 }}>
+                    {formatMoney(t.type === "expense" ? -t.amount : t.amount, t.currency)}
+                  </div>
+                  <div style={{ fontSize: 12, opacity: 0.75 }}>
+                    {label} ・ {fmtDate(t.occurredAt)}
+                  </div>
+                  <div style={{ fontSize: 11, opacity: 0.6 }}>
+                    削除：{fmtDate(t.deletedAt)} ／ 完全削除予定：{fmtDate(t.expiresAt)}
+                  </div>
+                </div>
+
+                <div style={{ display: "flex", gap: 6 }}>
+                  <button
+                    type="button"
+                    onClick={() => restore(t.id)}
+                    disabled={busyId !== null}
+                    style={{
+                      padding: "8px 10px",
+                      borderRadius: 10,
+                      border: "1px solid #ddd",
+                      background: "#fff",
+                      cursor: "pointer",
+                      fontWeight: 800,
+                      opacity: busyId === t.id ? 0.6 : 1,
+                    }}
+                  >
+                    復元
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => purge(t.id)}
+                    disabled={busyId !== null}
+                    style={{
+                      padding: "8px 10px",
+                      borderRadius: 10,
+                      border: "1px solid #f2b3b3",
+                      color: "#b42318",
+                      background: "#fff0f0",
+                      cursor: "pointer",
+                      fontWeight: 800,
+                      opacity: busyId === t.id ? 0.6 : 1,
+                    }}
+                  >
+                    完全に削除
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div style={{ display: "flex", gap: 10, marginTop: 14 }}>
+          <button
+            type="button"
+            onClick={() => purge()}
+            disabled={busyId !== null || !items || items.length === 0}
+            style={{
+              flex: 1,
+              padding: "10px 14px",
+              borderRadius: 12,
+              border: "1px solid #f2b3b3",
+              color: "#b42318",
+              background: "#fff0f0",
+              fontWeight: 900,
+              cursor: !items || items.length === 0 ? "not-allowed" : "pointer",
+              opacity: !items || items.length === 0 ? 0.6 : 1,
+            }}
+          >
+            {busyId === "all" ? "処理中…" : "ゴミ箱を空にする"}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={busyId !== null}
+            style={{
+              padding: "10px 14px",
+              borderRadius: 12,
+              border: "1px solid #ddd",
+              background: "#fff",
+              fontWeight: 900,
+              cursor: "pointer",
+            }}
+          >
+            閉じる
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
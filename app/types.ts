@@ -2,10 +2,204 @@ export type TxType = "income" | "expense";
 
 export type Transaction = {
   id: number;
-  amount: number;
+  amount: number; // 通貨の最小単位（JPY=円、USD=セント）
+  currency?: string; // 省略時 JPY
   category: string;
   detailCategory?: string; // ← ★ここ追加！！
   type: TxType;
   createdAt: string;   // ISO文字列
   occurredAt: string;  // ISO文字列（発生日）
-};
\ No newline at end of file
+  deletedAt?: string | null; // ゴミ箱に入れた日時
+  version?: number; // 楽観ロック用（PATCH の If-Match に入れる）
+  transferId?: number | null; // 資金移動の片側なら Transfer の id
+  splitId?: number | null; // 分割明細の1行なら Split の id
+  baseAmount?: number | null; // GET /api/transactions?base= のときだけ（レートが無ければ null）
+  tags?: string[]; // タグ名
+  createdBy?: string | null; // 作った人（共有家計簿では member:<メンバーid>）
+};
+
+// GET /api/transactions/attachments?transactionId= の1件（本体は ?id= で取る）
+export type Attachment = {
+  id: number;
+  transactionId: number;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  thumbnail: string | null; // data URL（画像のときだけ）
+  createdAt: string;
+};
+
+// GET /api/tags の1件（count: 付いている明細の数）
+export type TagSummary = {
+  id: number;
+  name: string;
+  count: number;
+};
+
+// ✅ 資金移動（POST /api/transfers）
+// - legs: 出金側（fromCategory の支出）と入金側（toCategory の収入）
+export type Transfer = {
+  id: number;
+  amount: number;
+  currency: string;
+  fromCategory: string;
+  toCategory: string;
+  occurredAt: string;
+  memo: string | null;
+  version: number; // PATCH の If-Match に使う
+  createdAt: string;
+  updatedAt: string;
+  legs: Transaction[];
+};
+
+// ✅ 分割明細（/api/splits）
+// - lines: カテゴリごとの行（金額の合計 = amount）
+export type Split = {
+  id: number;
+  type: TxType;
+  amount: number;
+  currency: string;
+  occurredAt: string;
+  memo: string | null;
+  version: number; // PATCH の If-Match に使う
+  createdAt: string;
+  updatedAt: string;
+  lines: Transaction[];
+};
+
+// GET /api/transactions のレスポンス（cursor ページング）
+export type TransactionPage = {
+  items: Transaction[];
+  nextCursor: string | null;
+};
+
+// GET /api/transactions/trash のレスポンス
+export type TrashedTransaction = Transaction & {
+  deletedAt: string;
+  expiresAt: string; // この日時を過ぎると自動で完全削除
+};
+
+export type TrashResponse = {
+  retentionDays: number;
+  items: TrashedTransaction[];
+};
+
+export type CategorySums = {
+  income: number;
+  expense: number;
+  balance: number;
+};
+
+// GET /api/summary?ym=YYYY-MM のレスポンス
+// - 金額はすべて base 通貨の最小単位
+export type SummaryResponse = {
+  ym: string;
+  base: string;
+  missingRates: string[]; // レートが無くて合計に入れられなかった通貨
+  monthly: Record<string, CategorySums>;
+  carry: Record<string, CategorySums>;
+  monthSummary: CategorySums;
+  member?: number | null; // ?member= で絞り込んだメンバー id
+};
+
+// ✅ 明細の変更履歴（GET /api/transactions/history?id=）
+export type RevisionAction = "create" | "update" | "delete" | "restore" | "purge" | "revert";
+
+export type TransactionSnapshot = {
+  amount: number;
+  currency: string;
+  category: string;
+  detailCategory: string | null;
+  type: TxType;
+  occurredAt: string;
+  tags?: string[]; // タグ対応より前の履歴には無い
+};
+
+export type TransactionRevision = {
+  id: number;
+  transactionId: number;
+  actor: string;
+  action: RevisionAction;
+  before: TransactionSnapshot | null;
+  after: TransactionSnapshot | null;
+  changes: Partial<Record<keyof TransactionSnapshot, { from: unknown; to: unknown }>>;
+  revertOf: number | null;
+  createdAt: string;
+};
+
+export type TransactionHistoryResponse = {
+  transactionId: number;
+  current: Transaction | null;
+  revisions: TransactionRevision[];
+};
+
+// ✅ 定期明細（GET /api/recurring）
+export type RecurringFrequency = "monthly" | "weekly" | "yearly" | "last_business_day";
+
+export type RecurringRule = {
+  id: number;
+  title: string;
+  type: TxType;
+  amount: number; // 通貨の最小単位
+  currency: string;
+  category: string;
+  detailCategory: string | null;
+  frequency: RecurringFrequency;
+  interval: number;
+  dayOfMonth: number | null;
+  dayOfWeek: number | null;
+  monthOfYear: number | null;
+  startDate: string; // YYYY-MM-DD
+  endDate: string | null;
+  paused: boolean;
+  resumeFrom: string | null; // これより前の予定日は作らない
+  nextDueDate: string | null;
+};
+
+// GET /api/recurring/occurrences の1件
+export type RecurringOccurrence = {
+  dueDate: string;
+  status: "upcoming" | "scheduled" | "posted" | "skipped" | "paused";
+  amount: number;
+  detailCategory: string | null;
+  occurredAt: string;
+  transactionId: number | null;
+};
+
+// ✅ 為替レート（GET /api/exchange-rates）：1 currency = rate quote
+export type ExchangeRate = {
+  id: number;
+  currency: string;
+  quote: string;
+  date: string; // YYYY-MM-DD
+  rate: string;
+};
+
+// ✅ 共有家計簿（GET /api/households）
+export type HouseholdRole = "owner" | "editor" | "viewer";
+
+export type HouseholdMember = {
+  id: number;
+  name: string;
+  role: HouseholdRole;
+};
+
+export type Household = {
+  id: number;
+  name: string;
+  role: HouseholdRole; // 自分の役割
+  memberId: number; // 自分のメンバー id
+  members: HouseholdMember[];
+};
+
+export type HouseholdsResponse = {
+  activeId: number | null; // いま使っている家計簿（null = 自分の台帳）
+  households: Household[];
+};
+
+// ✅ 他の家計簿アプリから取り込む時のカテゴリの対応（/api/import-mappings）
+export type ImportMapping = {
+  sourceCategory: string;
+  category: string; // ring:<ringKey>
+  detailCategory: string | null;
+};
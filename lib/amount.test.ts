@@ -0,0 +1,58 @@
+// lib/amount.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseAmountExpression } from "./amount";
+
+describe("parseAmountExpression", () => {
+  it("数字・桁区切り・全角・円記号", () => {
+    assert.equal(parseAmountExpression("1200"), 1200);
+    assert.equal(parseAmountExpression("1,200円"), 1200);
+    assert.equal(parseAmountExpression("￥１２００"), 1200);
+    assert.equal(parseAmountExpression(" 12.5 "), 12.5);
+  });
+
+  it("万・千・億などの単位", () => {
+    assert.equal(parseAmountExpression("5万"), 50_000);
+    assert.equal(parseAmountExpression("1万2千"), 12_000);
+    assert.equal(parseAmountExpression("1.2万"), 12_000);
+    assert.equal(parseAmountExpression("0.29万"), 2_900);
+    assert.equal(parseAmountExpression("1億"), 100_000_000);
+    assert.equal(parseAmountExpression("1億2000万"), 120_000_000);
+  });
+
+  it("漢数字", () => {
+    assert.equal(parseAmountExpression("三千五百円"), 3_500);
+    assert.equal(parseAmountExpression("十五"), 15);
+    assert.equal(parseAmountExpression("二万五千"), 25_000);
+  });
+
+  it("四則演算（かけ算・わり算が先、かっこが最優先）", () => {
+    assert.equal(parseAmountExpression("1200+800"), 2_000);
+    assert.equal(parseAmountExpression("3000*3"), 9_000);
+    assert.equal(parseAmountExpression("3000×3"), 9_000);
+    assert.equal(parseAmountExpression("1000+200*3"), 1_600);
+    assert.equal(parseAmountExpression("1000-200/2"), 900);
+    assert.equal(parseAmountExpression("(1200+800)/2"), 1_000);
+    assert.equal(parseAmountExpression("（1万+2千）×2"), 24_000);
+  });
+
+  it("0 でわる・式が途中で終わる・かっこが閉じていないものは null", () => {
+    assert.equal(parseAmountExpression("1000/0"), null);
+    assert.equal(parseAmountExpression("1000/(5-5)"), null);
+    assert.equal(parseAmountExpression("1000+"), null);
+    assert.equal(parseAmountExpression("(1000+200"), null);
+    assert.equal(parseAmountExpression(""), null);
+    assert.equal(parseAmountExpression("abc"), null);
+  });
+
+  it("単位の並びがおかしいものは null", () => {
+    assert.equal(parseAmountExpression("1万2億"), null);
+    assert.equal(parseAmountExpression("百千"), null);
+    assert.equal(parseAmountExpression("1..2"), null);
+  });
+
+  it("大きい整数は桁が崩れない", () => {
+    assert.equal(parseAmountExpression("10000000000336"), 10_000_000_000_336);
+    assert.equal(parseAmountExpression("2147483647"), 2_147_483_647);
+  });
+});
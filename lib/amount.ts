@@ -0,0 +1,190 @@
+// lib/amount.ts
+// ✅ 金額の入力（「5万」「1万2千」「三千五百円」「1200+800」「3000*3」など）を数値にする
+// - クライアントの入力欄と API（parseAmount）の両方で使う（DB には触らない）
+// - 通貨の単位は見ない（クライアントは通貨の単位、API は最小単位のまま計算する）
+import { toHalfWidth } from "./csv";
+
+const KANJI_DIGITS: Record<string, string> = {
+  〇: "0",
+  零: "0",
+  一: "1",
+  二: "2",
+  三: "3",
+  四: "4",
+  五: "5",
+  六: "6",
+  七: "7",
+  八: "8",
+  九: "9",
+};
+
+const SMALL_UNITS: Record<string, number> = { 十: 10, 百: 100, 千: 1000 };
+
+// 大きい順（「1億2000万」の順で並んでいる時だけ読める）
+const LARGE_UNITS: Array<[string, number]> = [
+  ["兆", 1e12],
+  ["億", 1e8],
+  ["万", 1e4],
+];
+
+const NUMERAL_CHAR = /[\d.〇零一二三四五六七八九十百千万億兆]/;
+
+// 「1.2」「三」「二〇二六」（数字だけの並び）
+function digitsValue(s: string): number | null {
+  const arabic = s.replace(/[〇零一二三四五六七八九]/g, (ch) => KANJI_DIGITS[ch]);
+  if (!/^(\d+(\.\d*)?|\.\d+)$/.test(arabic)) return null;
+  return Number(arabic);
+}
+
+// 万未満の位（「3千5百」「三千五百」「十五」「1200」）
+function sectionValue(s: string): number | null {
+  let total = 0;
+  let digits = "";
+  let lastUnit = Infinity;
+  for (const ch of s) {
+    const unit = SMALL_UNITS[ch];
+    if (!unit) {
+      digits += ch;
+      continue;
+    }
+    // 「百千」のような並びは読まない
+    if (unit >= lastUnit) return null;
+    const n = digits ? digitsValue(digits) : 1;
+    if (n === null) return null;
+    total += n * unit;
+    digits = "";
+    lastUnit = unit;
+  }
+  if (digits) {
+    const n = digitsValue(digits);
+    if (n === null) return null;
+    total += n;
+  }
+  return total;
+}
+
+// 数（単位つき）1つ：「1万2千」「1.2万」「三千五百」「1億」
+function numeralValue(s: string): number | null {
+  let rest = s;
+  let total = 0;
+  for (const [ch, unit] of LARGE_UNITS) {
+    const i = rest.indexOf(ch);
+    if (i < 0) continue;
+    const head = rest.slice(0, i);
+    const n = head ? sectionValue(head) : 1;
+    if (n === null) return null;
+    total += n * unit;
+    rest = rest.slice(i + 1);
+  }
+  if (rest) {
+    // 残りに大きい単位があれば並びがおかしい（「1万2億」など）
+    const n = sectionValue(rest);
+    if (n === null) return null;
+    total += n;
+  }
+  return total;
+}
+
+type Token = { kind: "num"; value: number } | { kind: "op"; value: string };
+
+function tokenize(s: string): Token[] | null {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < s.length) {
+    const ch = s[i];
+    if ("+-*/()".includes(ch)) {
+      tokens.push({ kind: "op", value: ch });
+      i += 1;
+      continue;
+    }
+    let j = i;
+    while (j < s.length && NUMERAL_CHAR.test(s[j])) j += 1;
+    if (j === i) return null;
+    const value = numeralValue(s.slice(i, j));
+    if (value === null) return null;
+    tokens.push({ kind: "num", value });
+    i = j;
+  }
+  return tokens;
+}
+
+// 式 = 項 (+|- 項)* / 項 = 因子 (*|/ 因子)* / 因子 = (+|-) 因子 | ( 式 ) | 数
+function evaluate(tokens: Token[]): number | null {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.kind === "op" && peek()?.value === value;
+
+  const factor = (): number | null => {
+    const t = peek();
+    if (!t) return null;
+    if (t.kind === "num") {
+      pos += 1;
+      return t.value;
+    }
+    if (t.value === "-" || t.value === "+") {
+      pos += 1;
+      const v = factor();
+      return v === null ? null : t.value === "-" ? -v : v;
+    }
+    if (t.value === "(") {
+      pos += 1;
+      const v = expr();
+      if (v === null || !isOp(")")) return null;
+      pos += 1;
+      return v;
+    }
+    return null;
+  };
+
+  const term = (): number | null => {
+    let v = factor();
+    while (v !== null && (isOp("*") || isOp("/"))) {
+      const op = peek().value;
+      pos += 1;
+      const rhs = factor();
+      if (rhs === null || (op === "/" && rhs === 0)) return null;
+      v = op === "*" ? v * rhs : v / rhs;
+    }
+    return v;
+  };
+
+  const expr = (): number | null => {
+    let v = term();
+    while (v !== null && (isOp("+") || isOp("-"))) {
+      const op = peek().value;
+      pos += 1;
+      const rhs = term();
+      if (rhs === null) return null;
+      v = op === "+" ? v + rhs : v - rhs;
+    }
+    return v;
+  };
+
+  const value = expr();
+  return value !== null && pos === tokens.length ? value : null;
+}
+
+/**
+ * ✅ 金額の入力 → 数値（読めなければ null）
+ * - 全角の数字・記号、桁区切り（, ，）、空白、円・¥ は無視する
+ * - 万・千・億などの単位（「1.2万」「1万2千」）、漢数字（「三千五百円」）
+ * - 四則演算とかっこ（「1200+800」「3000*3」「3000×3」「(1200+800)/2」）
+ * - 小数はそのまま返す（通貨の最小単位への丸めは呼び出し側で）
+ */
+export function parseAmountExpression(input: string): number | null {
+  const s = toHalfWidth(input)
+    .replace(/[＋]/g, "+")
+    .replace(/[＊×xX]/g, "*")
+    .replace(/[÷]/g, "/")
+    .replace(/[（]/g, "(")
+    .replace(/[）]/g, ")")
+    .replace(/[,\s円¥￥]/g, "");
+  if (!s) return null;
+
+  const tokens = tokenize(s);
+  if (!tokens) return null;
+  const value = evaluate(tokens);
+  if (value === null || !Number.isFinite(value)) return null;
+  // 「0.29万」が 2899.9999… になるような小数の誤差を落とす（整数は大きい値で桁が崩れるのでそのまま）
+  return Number.isInteger(value) ? value : Math.round(value * 1e6) / 1e6;
+}
@@ -0,0 +1,124 @@
+// lib/api.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { canUseLedger } from "./auth";
+import { canWrite, findMembership, memberActor, type HouseholdRole } from "./households";
+import { getRequestedHouseholdId, getRequestedUserKey, HOUSEHOLD_HEADER } from "./identity";
+
+export function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+export function unauthorized(message = "sign-in required") {
+  return NextResponse.json({ error: message }, { status: 401 });
+}
+
+export function forbidden(message: string) {
+  return NextResponse.json({ error: message }, { status: 403 });
+}
+
+export function notFound() {
+  return NextResponse.json({ error: "Not found" }, { status: 404 });
+}
+
+export function internalError(e: unknown) {
+  console.error(e);
+  return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+}
+
+// 一意制約違反（同時に同じものを作ろうとした）
+export function isUniqueViolation(e: unknown) {
+  return e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002";
+}
+
+// ✅ この端末（本人）の userKey
+// - アカウントに紐づいた userKey は、そのアカウントでログインしている時だけ返す
+export async function getPersonalKey(req: NextRequest): Promise<string | null> {
+  const key = getRequestedUserKey(req);
+  if (!key) return null;
+  return (await canUseLedger(req, key)) ? key : null;
+}
+
+// 台帳を書き換えないメソッド（閲覧のみのメンバーも使える）
+const READ_METHODS = new Set(["GET", "HEAD"]);
+
+export type LedgerAccess = {
+  userKey: string; // 読み書きする台帳
+  actor: string; // 履歴・作成者に残す名前（自分の台帳なら userKey、共有家計簿なら member:<id>）
+  role: HouseholdRole | null; // 共有家計簿のときの役割
+};
+
+// 閲覧のみのメンバーが書き込もうとした（userKey が無いのとは分けて 403 にする）
+export const READ_ONLY: unique symbol = Symbol("read-only");
+
+// ✅ このリクエストで使う台帳
+// - 共有家計簿が選ばれていれば、そのメンバーの時だけ家計簿の台帳（閲覧のみのメンバーは GET だけ。書き込みは READ_ONLY）
+export async function getLedgerAccess(req: NextRequest): Promise<LedgerAccess | typeof READ_ONLY | null> {
+  const personal = await getPersonalKey(req);
+  if (!personal) return null;
+
+  const own: LedgerAccess = { userKey: personal, actor: personal, role: null };
+  const householdId = getRequestedHouseholdId(req);
+  if (!householdId) return own;
+
+  const member = await findMembership(householdId, personal);
+  if (!member) {
+    // cookie に残った古い選択（IDを切り替えた・家計簿から抜けた）なら自分の台帳
+    return req.headers.has(HOUSEHOLD_HEADER) ? null : own;
+  }
+  if (!canWrite(member.role) && !READ_METHODS.has(req.method)) return READ_ONLY;
+
+  return { userKey: member.household.ledgerKey, actor: memberActor(member.id), role: member.role as HouseholdRole };
+}
+
+// ✅ API で使う userKey（台帳）
+export async function getUserKey(req: NextRequest): Promise<string | typeof READ_ONLY | null> {
+  const access = await getLedgerAccess(req);
+  return access === READ_ONLY ? READ_ONLY : (access?.userKey ?? null);
+}
+
+export const USER_KEY_REQUIRED =
+  "user key is required (x-user-key header or cookie); keys linked to an account also need that account's sign-in";
+
+export const VIEWER_READ_ONLY = "household viewers can only read";
+
+export function parseOccurredAt(value: unknown): Date | null {
+  if (!value) return null;
+  const s = String(value).trim();
+  const d = new Date(s);
+  if (Number.isNaN(d.getTime())) return null;
+  return d;
+}
+
+// ✅ If-Match: "3" / W/"3" / 3 → 3（楽観ロック用の version）
+export function parseIfMatch(value: string | null | undefined): number | null {
+  const m = /^(?:W\/)?"?(\d+)"?$/.exec((value ?? "").trim());
+  if (!m) return null;
+  const n = Number(m[1]);
+  return Number.isSafeInteger(n) && n > 0 ? n : null;
+}
+
+// ✅ "YYYY-MM-DD" だけ渡された to はその日の終わりまで含める
+export function parseRangeEnd(value: string): { lt: Date } | { lte: Date } | null {
+  const d = parseOccurredAt(value);
+  if (!d) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    const next = new Date(d);
+    next.setUTCDate(next.getUTCDate() + 1);
+    return { lt: next };
+  }
+  return { lte: d };
+}
+
+// ✅ "YYYY-MM" → [月初, 翌月初) のUTC範囲
+export function monthRange(ym: string): { start: Date; end: Date } | null {
+  const m = /^(\d{4})-(\d{2})$/.exec(ym.trim());
+  if (!m) return null;
+  const y = Number(m[1]);
+  const mo = Number(m[2]);
+  if (mo < 1 || mo > 12) return null;
+  return {
+    start: new Date(Date.UTC(y, mo - 1, 1)),
+    end: new Date(Date.UTC(y, mo, 1)),
+  };
+}
@@ -0,0 +1,227 @@
+// lib/appImports.ts
+// ✅ 他の家計簿アプリの書き出しファイル（マネーフォワード ME・Zaim の CSV、OFX、QIF）の読み取り
+// - 取り込み元のカテゴリは、ユーザーが編集できる対応表（ImportMapping）でリングと内訳に置き換える
+// - クライアントとサーバー（取り込み元の種類の検証）の両方で使う（DB には触らない）
+import { detectDateFormat, findColumn, parseCsv, parseCsvAmount, parseDateAs, toHalfWidth } from "./csv";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "./currency";
+import type { TxType } from "./validators";
+
+export const IMPORT_SOURCES = ["moneyforward", "zaim", "ofx", "qif"] as const;
+export type ImportSource = (typeof IMPORT_SOURCES)[number];
+
+export type ForeignRow = {
+  occurredAt: string; // "YYYY-MM-DD"
+  type: TxType;
+  amount: number; // 通貨の単位（正の数）
+  currency: string;
+  sourceCategory: string; // 対応表のキー
+  defaultDetail: string; // 対応表の内訳の初期値（小分類など）
+  memo: string; // 対応表の内訳が空の時の detailCategory
+};
+
+export type AppImporter = {
+  id: ImportSource;
+  label: string;
+  accept: string; // <input type="file"> の accept
+  // 読めなければエラーメッセージ
+  parse: (text: string) => ForeignRow[] | string;
+};
+
+// 対応表のキーの長さ（ImportMapping.sourceCategory と合わせる）
+export const MAX_SOURCE_CATEGORY_LENGTH = 128;
+
+// 取り込み元にカテゴリが無い行
+export const UNCATEGORIZED = "（カテゴリなし）";
+
+function joinCategory(major: string, minor: string) {
+  if (!major) return UNCATEGORIZED;
+  return (minor ? `${major}/${minor}` : major).slice(0, MAX_SOURCE_CATEGORY_LENGTH);
+}
+
+function firstOf(...values: string[]) {
+  return values.map((v) => v.trim()).find(Boolean) ?? "";
+}
+
+// 見出し行を先頭の数行から探して、名前 → 列の値を返す関数にする
+function csvTable(text: string, required: string[][]) {
+  const table = parseCsv(text);
+  const headerIndex = table.slice(0, 10).findIndex((row) => required.every((names) => findColumn(row, names) >= 0));
+  if (headerIndex < 0) return null;
+  const header = table[headerIndex];
+  return {
+    rows: table.slice(headerIndex + 1),
+    get: (row: string[], names: string[]) => {
+      const i = findColumn(header, names);
+      return i >= 0 ? (row[i] ?? "").trim() : "";
+    },
+  };
+}
+
+// ✅ マネーフォワード ME（入出金の CSV。振替と計算対象外の行は取り込まない）
+const moneyforward: AppImporter = {
+  id: "moneyforward",
+  label: "マネーフォワード ME（CSV）",
+  accept: ".csv,text/csv",
+  parse: (text) => {
+    const t = csvTable(text, [["日付"], ["金額"], ["大項目"]]);
+    if (!t) return "マネーフォワード ME の CSV ではないようです（日付・金額・大項目の列がありません）";
+
+    const out: ForeignRow[] = [];
+    for (const r of t.rows) {
+      if (t.get(r, ["計算対象"]) === "0" || t.get(r, ["振替"]) === "1") continue;
+      const occurredAt = parseDateAs(t.get(r, ["日付"]), "YMD");
+      const amount = parseCsvAmount(t.get(r, ["金額"]));
+      if (!occurredAt || !amount) continue;
+
+      const minor = t.get(r, ["中項目"]);
+      out.push({
+        occurredAt,
+        type: amount < 0 ? "expense" : "income",
+        amount: Math.abs(amount),
+        currency: DEFAULT_CURRENCY,
+        sourceCategory: joinCategory(t.get(r, ["大項目"]), minor),
+        defaultDetail: minor,
+        memo: firstOf(t.get(r, ["内容"]), t.get(r, ["メモ"])),
+      });
+    }
+    return out;
+  },
+};
+
+// ✅ Zaim（CSV。振替・残高調整は取り込まない）
+const zaim: AppImporter = {
+  id: "zaim",
+  label: "Zaim（CSV）",
+  accept: ".csv,text/csv",
+  parse: (text) => {
+    const t = csvTable(text, [["日付"], ["方法"], ["カテゴリ"], ["収入"], ["支出"]]);
+    if (!t) return "Zaim の CSV ではないようです（日付・方法・カテゴリ・収入・支出の列がありません）";
+
+    const out: ForeignRow[] = [];
+    for (const r of t.rows) {
+      const method = t.get(r, ["方法"]);
+      if (method !== "payment" && method !== "income") continue;
+      const occurredAt = parseDateAs(t.get(r, ["日付"]), "YMD");
+      const amount = parseCsvAmount(t.get(r, method === "income" ? ["収入"] : ["支出"]));
+      const currency = normalizeCurrency(t.get(r, ["通貨"]) || DEFAULT_CURRENCY);
+      if (!occurredAt || !amount || !currency) continue;
+
+      const minor = t.get(r, ["カテゴリの内訳"]);
+      out.push({
+        occurredAt,
+        type: method === "income" ? "income" : "expense",
+        amount: Math.abs(amount),
+        currency,
+        sourceCategory: joinCategory(t.get(r, ["カテゴリ"]), minor),
+        defaultDetail: minor,
+        memo: firstOf(t.get(r, ["品目"]), t.get(r, ["お店"]), t.get(r, ["メモ"])),
+      });
+    }
+    return out;
+  },
+};
+
+// OFX の <TAG>値（SGML 形式は閉じタグが無いので、次の < か改行まで）
+function ofxField(block: string, tag: string) {
+  const m = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  return m ? m[1].trim() : "";
+}
+
+// ✅ OFX / QFX（銀行・カードの書き出し。カテゴリが無いので、取引先名を対応表のキーにする）
+const ofx: AppImporter = {
+  id: "ofx",
+  label: "OFX / QFX",
+  accept: ".ofx,.qfx",
+  parse: (text) => {
+    if (!/<OFX>/i.test(text)) return "OFX ファイルではないようです";
+    const currency = normalizeCurrency(ofxField(text, "CURDEF")) ?? DEFAULT_CURRENCY;
+
+    const out: ForeignRow[] = [];
+    for (const block of text.split(/<STMTTRN>/i).slice(1)) {
+      const occurredAt = parseDateAs(ofxField(block, "DTPOSTED").slice(0, 8), "YYYYMMDD");
+      const amount = parseCsvAmount(ofxField(block, "TRNAMT"));
+      if (!occurredAt || !amount) continue;
+
+      const name = ofxField(block, "NAME");
+      out.push({
+        occurredAt,
+        type: amount < 0 ? "expense" : "income",
+        amount: Math.abs(amount),
+        currency,
+        sourceCategory: name.slice(0, MAX_SOURCE_CATEGORY_LENGTH) || UNCATEGORIZED,
+        defaultDetail: name,
+        memo: ofxField(block, "MEMO"),
+      });
+    }
+    return out;
+  },
+};
+
+// QIF の日付（1/31/2026・1/31'26・01/31/26 → 1/31/2026）
+function normalizeQifDate(value: string) {
+  return toHalfWidth(value)
+    .trim()
+    .replace("'", "/")
+    .replace(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2})$/, (_, a, b, y) => `${a}/${b}/20${y}`);
+}
+
+// ✅ QIF（口座の種類は問わない。[口座名] の振替と分割の内訳行は取り込まない）
+const qif: AppImporter = {
+  id: "qif",
+  label: "QIF",
+  accept: ".qif",
+  parse: (text) => {
+    if (!/^!Type:/im.test(text)) return "QIF ファイルではないようです";
+
+    const records: Array<Record<string, string>> = [];
+    let current: Record<string, string> = {};
+    for (const line of text.split(/\r?\n/)) {
+      if (line.startsWith("^")) {
+        records.push(current);
+        current = {};
+      } else if (line && !line.startsWith("!")) {
+        const code = line[0];
+        // 分割の内訳（S/E/$）は読まない。同じコードが2回あれば最初の値
+        if (!(code in current) && !"SE$".includes(code)) current[code] = line.slice(1).trim();
+      }
+    }
+
+    // 月/日/年 か 日/月/年 かはファイル全体で決める
+    const dates = records.map((r) => normalizeQifDate(r.D ?? ""));
+    const format = detectDateFormat(dates) ?? "MDY";
+
+    const out: ForeignRow[] = [];
+    records.forEach((r, i) => {
+      const category = r.L ?? "";
+      if (category.startsWith("[")) return;
+      const occurredAt = parseDateAs(dates[i], format);
+      const amount = parseCsvAmount(r.T ?? r.U ?? "");
+      if (!occurredAt || !amount) return;
+
+      const [major, ...rest] = category.split(":");
+      out.push({
+        occurredAt,
+        type: amount < 0 ? "expense" : "income",
+        amount: Math.abs(amount),
+        currency: DEFAULT_CURRENCY,
+        sourceCategory: joinCategory(major, rest.join(":")),
+        defaultDetail: rest.join(":"),
+        memo: firstOf(r.P ?? "", r.M ?? ""),
+      });
+    });
+    return out;
+  },
+};
+
+/**
+ * ✅ 登録されている取り込み元
+ */
+export const APP_IMPORTERS: AppImporter[] = [moneyforward, zaim, ofx, qif];
+
+// ファイル名から取り込み元を推測する（CSV はどちらのアプリか中身を見ないと分からない）
+export function guessImporter(fileName: string, text: string): AppImporter {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "ofx" || ext === "qfx") return ofx;
+  if (ext === "qif") return qif;
+  return typeof zaim.parse(text) === "string" ? moneyforward : zaim;
+}
@@ -0,0 +1,133 @@
+// lib/attachments.ts
+// ✅ 明細の添付ファイル（レシート画像 / PDF）
+// - 本体とサムネイルは Attachment.data / thumbnail（bytea）に持つ
+// - 明細を完全削除すると onDelete: Cascade で一緒に消える
+import { Prisma } from "@prisma/client";
+
+// Vercel の body 上限（4.5MB）に収まるように
+export const MAX_ATTACHMENT_BYTES = 4 * 1024 * 1024;
+export const MAX_THUMBNAIL_BYTES = 64 * 1024;
+export const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+const MAX_FILE_NAME_LENGTH = 255;
+
+const THUMBNAIL_TYPES = new Set(["image/jpeg", "image/png", "image/webp"]);
+
+function startsWith(bytes: Uint8Array, sig: number[], offset = 0) {
+  return sig.every((b, i) => bytes[offset + i] === b);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number) {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+/**
+ * ✅ 先頭のバイト列からファイルの種類を決める（ブラウザが申告する type は信用しない）
+ * - 添付できない種類なら null
+ */
+export function sniffMimeType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (ascii(bytes, 0, 4) === "GIF8") return "image/gif";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "image/webp";
+  if (ascii(bytes, 4, 8) === "ftyp" && ["heic", "heix", "mif1", "msf1"].includes(ascii(bytes, 8, 12))) {
+    return "image/heic";
+  }
+  if (ascii(bytes, 0, 5) === "%PDF-") return "application/pdf";
+  return null;
+}
+
+export type AttachmentInput = {
+  fileName: string;
+  mimeType: string;
+  data: Uint8Array<ArrayBuffer>;
+  thumbnail: Uint8Array<ArrayBuffer> | null;
+};
+
+// パス区切りや制御文字を落として、長すぎれば拡張子を残して切る
+function normalizeFileName(raw: unknown) {
+  const name = String(raw ?? "")
+    .split(/[\\/]/)
+    .pop()!
+    .replace(/[\u0000-\u001f\u007f]/g, "")
+    .trim();
+  if (!name) return "添付ファイル";
+  if (name.length <= MAX_FILE_NAME_LENGTH) return name;
+  const dot = name.lastIndexOf(".");
+  const ext = dot > 0 && name.length - dot <= 10 ? name.slice(dot) : "";
+  return name.slice(0, MAX_FILE_NAME_LENGTH - ext.length) + ext;
+}
+
+/**
+ * ✅ アップロード / バックアップの1ファイルを検証する
+ * - thumbnail は画像のときだけ使う（PDF に付いてきても捨てる）
+ */
+export function parseAttachmentInput(
+  fileName: unknown,
+  data: Uint8Array<ArrayBuffer>,
+  thumbnail: Uint8Array<ArrayBuffer> | null
+): AttachmentInput | string {
+  if (data.length === 0) return "file is empty";
+  if (data.length > MAX_ATTACHMENT_BYTES) return `file must be at most ${MAX_ATTACHMENT_BYTES} bytes`;
+
+  const mimeType = sniffMimeType(data);
+  if (!mimeType) return "file must be an image (jpeg/png/gif/webp/heic) or a PDF";
+
+  let thumb: Uint8Array<ArrayBuffer> | null = null;
+  if (thumbnail && thumbnail.length > 0 && mimeType.startsWith("image/")) {
+    if (thumbnail.length > MAX_THUMBNAIL_BYTES) return `thumbnail must be at most ${MAX_THUMBNAIL_BYTES} bytes`;
+    if (!THUMBNAIL_TYPES.has(sniffMimeType(thumbnail) ?? "")) return "thumbnail must be jpeg/png/webp";
+    thumb = thumbnail;
+  }
+
+  return { fileName: normalizeFileName(fileName), mimeType, data, thumbnail: thumb };
+}
+
+// ✅ 一覧で返す項目（本体の data は含めない）
+export const ATTACHMENT_META_SELECT = {
+  id: true,
+  transactionId: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  thumbnail: true,
+  createdAt: true,
+} satisfies Prisma.AttachmentSelect;
+
+type AttachmentMetaRow = Prisma.AttachmentGetPayload<{ select: typeof ATTACHMENT_META_SELECT }>;
+
+// thumbnail は data URL にして <img src> にそのまま使えるようにする
+export function toAttachmentMeta(row: AttachmentMetaRow) {
+  const thumbnail = row.thumbnail
+    ? `data:${sniffMimeType(row.thumbnail) ?? "image/jpeg"};base64,${Buffer.from(row.thumbnail).toString("base64")}`
+    : null;
+  return { ...row, thumbnail };
+}
+
+/**
+ * ✅ 明細に添付を足す（件数の上限もここで見る）。呼び出し側で $transaction に包む
+ */
+export async function addAttachments(
+  tx: Prisma.TransactionClient,
+  userKey: string,
+  transactionId: number,
+  inputs: AttachmentInput[]
+) {
+  if (inputs.length === 0) return 0;
+  const existing = await tx.attachment.count({ where: { transactionId } });
+  if (existing + inputs.length > MAX_ATTACHMENTS_PER_TRANSACTION) {
+    return `a transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments`;
+  }
+
+  const created = await tx.attachment.createMany({
+    data: inputs.map((a) => ({
+      userKey,
+      transactionId,
+      fileName: a.fileName,
+      mimeType: a.mimeType,
+      size: a.data.length,
+      data: a.data,
+      thumbnail: a.thumbnail,
+    })),
+  });
+  return created.count;
+}
@@ -0,0 +1,116 @@
+// lib/auth.ts
+// ✅ アカウント（メール + パスワード）とログインセッション
+// - パスワードは scrypt（salt つき）で保存する
+// - セッションはランダムなトークンを httpOnly cookie に入れ、DB には SHA-256 だけを持つ
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import { prisma } from "./prisma";
+
+export const SESSION_COOKIE = "miyamu_session";
+
+// ✅ ログインしたままにする日数（SESSION_DAYS で変更可）
+export const SESSION_DAYS = (() => {
+  const n = Number(process.env.SESSION_DAYS);
+  return Number.isInteger(n) && n > 0 ? n : 30;
+})();
+
+const SCRYPT = { N: 16384, r: 8, p: 1, keyLength: 64 };
+
+function derive(password: string, salt: Buffer, N: number, r: number, p: number, keyLength: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, keyLength, { N, r, p, maxmem: 64 * 1024 * 1024 }, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const { N, r, p, keyLength } = SCRYPT;
+  const key = await derive(password, salt, N, r, p, keyLength);
+  return ["scrypt", N, r, p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+// 保存時のパラメータで計算し直して比べる（形式が違えば false）
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, saltB64, keyB64] = stored.split("$");
+  if (scheme !== "scrypt" || !saltB64 || !keyB64) return false;
+  const expected = Buffer.from(keyB64, "base64");
+  const actual = await derive(password, Buffer.from(saltB64, "base64"), Number(N), Number(r), Number(p), expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// メールが見つからないときも同じだけ時間をかける（登録済みかどうかを漏らさない）
+let dummyHash: Promise<string> | null = null;
+export async function burnPasswordCheck(password: string) {
+  dummyHash ??= hashPassword("miyamu-dummy-password");
+  await verifyPassword(password, await dummyHash);
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * ✅ セッションを作って cookie に載せる
+ */
+export async function startSession(res: NextResponse, accountId: number) {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+
+  await prisma.session.create({ data: { id: hashToken(token), accountId, expiresAt } });
+
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    secure: process.env.NODE_ENV === "production",
+    expires: expiresAt,
+  });
+}
+
+/**
+ * ✅ cookie のセッションを消す（DB からも）
+ */
+export async function endSession(req: NextRequest, res: NextResponse) {
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  if (token) await prisma.session.deleteMany({ where: { id: hashToken(token) } });
+  res.cookies.set(SESSION_COOKIE, "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
+}
+
+/**
+ * ✅ ログイン中のアカウント（期限切れ・無効なら null）
+ */
+export async function getSessionAccount(req: NextRequest) {
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { id: hashToken(token) },
+    include: { account: { select: { id: true, email: true } } },
+  });
+  if (!session) return null;
+
+  if (session.expiresAt <= new Date()) {
+    await prisma.session.deleteMany({ where: { id: session.id } });
+    return null;
+  }
+  return session.account;
+}
+
+/**
+ * ✅ この userKey の台帳を、このリクエストで使ってよいか
+ * - どのアカウントにも紐づいていなければ、これまでどおり userKey を知っていれば使える
+ * - 紐づいていれば、そのアカウントでログインしている時だけ
+ */
+export async function canUseLedger(req: NextRequest, userKey: string): Promise<boolean> {
+  const link = await prisma.accountLedger.findUnique({ where: { userKey } });
+  if (!link) return true;
+  const account = await getSessionAccount(req);
+  return account?.id === link.accountId;
+}
+
+export async function listLedgers(accountId: number): Promise<string[]> {
+  const rows = await prisma.accountLedger.findMany({ where: { accountId }, orderBy: { createdAt: "asc" } });
+  return rows.map((r) => r.userKey);
+}
@@ -0,0 +1,158 @@
+// lib/backup.ts
+// ✅ バックアップJSONの形式（版ごとの移行チェーン + チェックサム）
+// - クライアント（書き出し/読み込み）とサーバー（/api/restore）の両方で使う
+
+export const BACKUP_VERSION = 2;
+
+// 添付ファイル（data / thumbnail は base64）
+export type BackupAttachment = {
+  fileName: string;
+  mimeType: string;
+  data: string;
+  thumbnail?: string | null;
+};
+
+export type BackupTransaction = {
+  amount: number; // 通貨の最小単位
+  currency?: string; // 省略時 JPY
+  tags?: string[];
+  attachments?: BackupAttachment[];
+  category: string;
+  detailCategory?: string | null;
+  type: "income" | "expense";
+  occurredAt: string;
+  createdAt?: string;
+  // 同じ値の明細が1つの資金移動 / 分割（書き出したときの id。復元では親を作り直す）
+  transferId?: number | null;
+  splitId?: number | null;
+};
+
+// 資金移動 / 分割の親（id は明細の transferId / splitId と同じ番号）
+export type BackupGroup = {
+  id: number;
+  memo?: string | null;
+};
+
+export type BackupRing = {
+  ringKey: string;
+  title: string;
+  mode: string;
+  color: string;
+  carryOver?: boolean;
+  ringType?: string;
+  charMode?: string;
+};
+
+export type BackupRingGoal = {
+  category: string;
+  target: number;
+  effectiveFrom?: string; // 省略時は「最初から」
+};
+
+export type BackupV1 = {
+  version: 1;
+  exportedAt: string;
+  userKey: string;
+  transactions: BackupTransaction[];
+  ringGoals: Array<{ category: string; target: number }>;
+  selectedYm: string;
+  extraRings: Array<BackupRing & { id?: string }>;
+};
+
+export type BackupV2 = {
+  version: 2;
+  exportedAt: string;
+  userKey: string;
+  profile: { name: string };
+  settings: { selectedYm: string; baseCurrency?: string }; // baseCurrency: 集計通貨（省略時 JPY）
+  transactions: BackupTransaction[];
+  transfers?: BackupGroup[]; // 省略時は親のメモなし
+  splits?: BackupGroup[];
+  rings: BackupRing[];
+  ringGoals: BackupRingGoal[];
+  watchQuotes: Record<string, string[]> | null; // null = 含まれていない
+  checksum?: string;
+};
+
+export type BackupData = BackupV2;
+
+function asArray(v: unknown): unknown[] {
+  return Array.isArray(v) ? v : [];
+}
+
+// ✅ vN → vN+1 の変換。新しい版を足すときはここに1つ追加する
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  1: (v1) => ({
+    version: 2,
+    exportedAt: String(v1.exportedAt ?? ""),
+    userKey: String(v1.userKey ?? ""),
+    profile: { name: "" },
+    settings: { selectedYm: String(v1.selectedYm ?? "") },
+    transactions: asArray(v1.transactions),
+    // v1 は ringKey が無いリングもある（id がそのまま ringKey）
+    rings: asArray(v1.extraRings).map((r) => {
+      const x = (r ?? {}) as Record<string, unknown>;
+      const { id, ...rest } = x;
+      return { ...rest, ringKey: x.ringKey ?? id };
+    }),
+    ringGoals: asArray(v1.ringGoals),
+    watchQuotes: null,
+  }),
+};
+
+/**
+ * ✅ どの版のバックアップでも最新版に揃える
+ * - 未知の版（新しすぎる/壊れている）はエラーメッセージを返す
+ */
+export function migrateBackup(raw: unknown): BackupData | string {
+  if (!raw || typeof raw !== "object") return "backup must be an object";
+
+  let data = raw as Record<string, unknown>;
+  let version = Number(data.version);
+  if (!Number.isInteger(version) || version < 1) return "backup version is missing";
+  if (version > BACKUP_VERSION) return `backup version ${version} is newer than this app`;
+
+  while (version < BACKUP_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) return `no migration from version ${version}`;
+    data = step(data);
+    version = Number(data.version);
+  }
+
+  return data as unknown as BackupData;
+}
+
+// ✅ キー順を固定したJSON（チェックサム計算用）
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    const keys = Object.keys(obj)
+      .filter((k) => obj[k] !== undefined)
+      .sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify(obj[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * ✅ checksum 以外の中身の SHA-256（hex）
+ */
+export async function computeChecksum(backup: Record<string, unknown>): Promise<string> {
+  const payload = Object.fromEntries(Object.entries(backup).filter(([k]) => k !== "checksum"));
+  const bytes = new TextEncoder().encode(stableStringify(payload));
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * ✅ checksum を検証する（v1 には無いので、v1 だけは無くても true）
+ */
+export async function verifyChecksum(raw: unknown): Promise<boolean> {
+  if (!raw || typeof raw !== "object") return false;
+  const data = raw as Record<string, unknown>;
+  if (typeof data.checksum !== "string") return Number(data.version) === 1;
+  return (await computeChecksum(data)) === data.checksum;
+}
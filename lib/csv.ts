@@ -0,0 +1,203 @@
+// lib/csv.ts
+// ✅ CSV の読み書きと、取り込み時の日付・金額の形式判定
+// - クライアント（取り込みウィザード）とサーバー（書き出し）の両方で使う（DB には触らない）
+
+// Excel が UTF-8 と分かるように先頭に付ける
+export const CSV_BOM = "\uFEFF";
+
+// 1回に取り込める行数
+export const MAX_IMPORT_ROWS = 5000;
+
+function quoteCell(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// 表計算ソフトで式として動く文字で始まる文字列は先頭に ' を付ける（数値はそのまま）
+function neutralizeFormula(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return String(value);
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+// 行の配列 → CSV 文字列（改行は CRLF）
+export function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+  return rows.map((row) => row.map((v) => quoteCell(neutralizeFormula(v))).join(",")).join("\r\n");
+}
+
+/**
+ * ✅ CSV 文字列 → 行の配列（"..." の中のカンマ・改行・"" に対応。空行は飛ばす）
+ */
+export function parseCsv(text: string): string[][] {
+  const src = text.startsWith(CSV_BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((c) => c.trim() !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') quoted = true;
+    else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      endRow();
+    } else cell += ch;
+  }
+  if (cell !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * ✅ ファイルの中身 → 文字列（UTF-8 として読めなければ Shift_JIS。銀行・カード会社の CSV はたいてい Shift_JIS）
+ */
+export function decodeCsvBytes(bytes: ArrayBuffer): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder("shift_jis").decode(bytes);
+  }
+}
+
+// 全角の数字・記号を半角に（validators の parseAmount と同じく ０-９ を受ける）
+export function toHalfWidth(value: string) {
+  return value
+    .replace(/[０-９．，／－ー：]/g, (ch) =>
+      ch === "ー" ? "-" : String.fromCharCode(ch.charCodeAt(0) - 0xfee0)
+    )
+    .replace(/[−‐-―]/g, "-");
+}
+
+// 「金額（円）」→「金額」（空白・単位のゆれを落として見出しを比べる）
+export function normalizeHeader(value: string) {
+  return toHalfWidth(value)
+    .replace(/\s/g, "")
+    .replace(/[(（]円[)）]$/, "");
+}
+
+// 見出しの候補に合う列の位置（無ければ -1）
+export function findColumn(header: string[], names: string[]) {
+  const wanted = new Set(names.map(normalizeHeader));
+  return header.findIndex((h) => wanted.has(normalizeHeader(h)));
+}
+
+// =========================
+// ✅ 日付
+// =========================
+export const DATE_FORMATS = ["YMD", "MDY", "DMY", "YYYYMMDD", "JP"] as const;
+export type DateFormat = (typeof DATE_FORMATS)[number];
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  YMD: "2026-01-31 / 2026/1/31",
+  MDY: "01/31/2026（月/日/年）",
+  DMY: "31/01/2026（日/月/年）",
+  YYYYMMDD: "20260131",
+  JP: "2026年1月31日",
+};
+
+function ymd(y: number, m: number, d: number): string | null {
+  if (y < 1900 || y > 2999 || m < 1 || m > 12 || d < 1 || d > 31) return null;
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCMonth() !== m - 1) return null; // 2/30 など
+  return `${y}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+/**
+ * ✅ 日付の文字列 → "YYYY-MM-DD"（読めなければ null）。時刻が付いていても日付だけ見る
+ */
+export function parseDateAs(value: string, format: DateFormat): string | null {
+  const s = toHalfWidth(value).trim();
+  let m: RegExpMatchArray | null;
+  switch (format) {
+    case "YMD":
+      m = s.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T].*)?$/);
+      return m ? ymd(+m[1], +m[2], +m[3]) : null;
+    case "MDY":
+      m = s.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})(?:\s.*)?$/);
+      return m ? ymd(+m[3], +m[1], +m[2]) : null;
+    case "DMY":
+      m = s.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})(?:\s.*)?$/);
+      return m ? ymd(+m[3], +m[2], +m[1]) : null;
+    case "YYYYMMDD":
+      m = s.match(/^(\d{4})(\d{2})(\d{2})$/);
+      return m ? ymd(+m[1], +m[2], +m[3]) : null;
+    case "JP":
+      m = s.match(/^(\d{4})年\s*(\d{1,2})月\s*(\d{1,2})日/);
+      return m ? ymd(+m[1], +m[2], +m[3]) : null;
+  }
+}
+
+// 見本の値がすべて読める形式（MDY と DMY の両方で読めるなら、日が13以上の行で見分ける。決まらなければ MDY）
+export function detectDateFormat(samples: string[]): DateFormat | null {
+  const values = samples.map((v) => v.trim()).filter(Boolean);
+  if (values.length === 0) return null;
+  return DATE_FORMATS.find((f) => values.every((v) => parseDateAs(v, f) !== null)) ?? null;
+}
+
+// =========================
+// ✅ 金額
+// =========================
+// standard: 1,234.56 / decimalComma: 1.234,56（ヨーロッパ式）
+export type AmountFormat = "standard" | "decimalComma";
+
+/**
+ * ✅ 金額の文字列 → 数値（通貨の単位。マイナスは負の数。読めなければ null）
+ * - 全角数字・円・¥・$・カンマ区切り・(1,000) / △1,000 / ▲1,000 / 1,000- のマイナス表記を受ける
+ */
+export function parseCsvAmount(value: string, format: AmountFormat = "standard"): number | null {
+  let s = toHalfWidth(value)
+    .trim()
+    .replace(/[\s円¥￥$€£]|JPY|USD|EUR/gi, "");
+  if (!s) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(s)) {
+    negative = true;
+    s = s.slice(1, -1);
+  }
+  if (/^[△▲-]/.test(s)) {
+    negative = !negative;
+    s = s.slice(1);
+  } else if (s.startsWith("+")) {
+    s = s.slice(1);
+  }
+  if (s.endsWith("-")) {
+    negative = !negative;
+    s = s.slice(0, -1);
+  }
+
+  s = format === "decimalComma" ? s.replace(/\./g, "").replace(",", ".") : s.replace(/,/g, "");
+  if (!/^\d+(\.\d+)?$/.test(s)) return null;
+
+  const n = Number(s);
+  return negative ? -n : n;
+}
+
+// 1.234,56 の形が1つでもあり、1,234.56 の形が無ければヨーロッパ式
+export function detectAmountFormat(samples: string[]): AmountFormat {
+  const values = samples.map((v) => toHalfWidth(v).replace(/[^\d.,]/g, ""));
+  const comma = values.some((v) => /^\d{1,3}(\.\d{3})*,\d{1,2}$/.test(v) || /^\d+,\d{1,2}$/.test(v));
+  const dot = values.some((v) => /^\d{1,3}(,\d{3})*\.\d+$/.test(v) || /^\d+\.\d+$/.test(v));
+  return comma && !dot ? "decimalComma" : "standard";
+}
@@ -0,0 +1,57 @@
+// lib/currency.ts
+// ✅ 通貨コードと金額の単位
+// - 金額はどの通貨も「最小単位の整数」で持つ（JPY=円、USD=セント）
+// - クライアントとサーバーの両方で使う（DB には触らない）
+
+export const DEFAULT_CURRENCY = "JPY";
+
+// 小数点以下の桁数（ISO 4217）
+const CURRENCY_DIGITS: Record<string, number> = {
+  JPY: 0,
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  AUD: 2,
+  CAD: 2,
+  CHF: 2,
+  CNY: 2,
+  HKD: 2,
+  KRW: 0,
+  SGD: 2,
+  THB: 2,
+  TWD: 2,
+};
+
+export const CURRENCIES = Object.keys(CURRENCY_DIGITS);
+
+// "usd" → "USD"。知らない通貨は null
+export function normalizeCurrency(value: unknown): string | null {
+  const code = String(value ?? "")
+    .trim()
+    .toUpperCase();
+  return code in CURRENCY_DIGITS ? code : null;
+}
+
+export function minorDigits(currency: string): number {
+  return CURRENCY_DIGITS[currency] ?? 0;
+}
+
+// 12.34 USD → 1234
+export function toMinor(major: number, currency: string): number {
+  return Math.round(major * 10 ** minorDigits(currency));
+}
+
+// 1234 USD → 12.34
+export function fromMinor(minor: number, currency: string): number {
+  return minor / 10 ** minorDigits(currency);
+}
+
+// 1234 JPY → "1,234円" / 1234 USD → "12.34 USD"
+export function formatMoney(minor: number, currency: string = DEFAULT_CURRENCY): string {
+  const digits = minorDigits(currency);
+  const s = fromMinor(minor || 0, currency).toLocaleString("ja-JP", {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  });
+  return currency === DEFAULT_CURRENCY ? `${s}円` : `${s} ${currency}`;
+}
@@ -0,0 +1,97 @@
+// lib/exchangeRates.ts
+// ✅ 為替レート表（ExchangeRate）を使った換算
+// - 発生日時点で有効なレート（その日以前で一番新しいもの）を使う
+// - 直接のレートが無ければ逆向き、それも無ければ JPY 経由で換算する
+import { prisma } from "./prisma";
+import { DEFAULT_CURRENCY, minorDigits } from "./currency";
+import { parseCsv } from "./csv";
+import { parseExchangeRateInput, type ExchangeRateInput } from "./validators";
+
+type RatePoint = { at: number; rate: number };
+
+export type RateTable = {
+  // 最小単位 → 最小単位。レートが見つからなければ null
+  convert(minor: number, from: string, to: string, at: Date): number | null;
+};
+
+// 日付の昇順に並んだ points から、at 以前で一番新しいものを探す
+function rateOn(points: RatePoint[] | undefined, at: number): number | null {
+  if (!points || points.length === 0 || points[0].at > at) return null;
+  let lo = 0;
+  let hi = points.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (points[mid].at <= at) lo = mid;
+    else hi = mid - 1;
+  }
+  return points[lo].rate;
+}
+
+/**
+ * ✅ userKey のレートを全部読んで換算表を作る（レートは手入力なので件数は少ない）
+ */
+export async function loadRateTable(userKey: string): Promise<RateTable> {
+  const rows = await prisma.exchangeRate.findMany({
+    where: { userKey },
+    orderBy: { date: "asc" },
+  });
+
+  const pairs = new Map<string, RatePoint[]>();
+  for (const r of rows) {
+    const key = `${r.currency}/${r.quote}`;
+    const list = pairs.get(key) ?? [];
+    list.push({ at: r.date.getTime(), rate: Number(r.rate) });
+    pairs.set(key, list);
+  }
+
+  // 1 from = ? to（major 単位）
+  const majorRate = (from: string, to: string, at: number): number | null => {
+    if (from === to) return 1;
+    const direct = rateOn(pairs.get(`${from}/${to}`), at);
+    if (direct !== null) return direct;
+    const inverse = rateOn(pairs.get(`${to}/${from}`), at);
+    if (inverse !== null) return 1 / inverse;
+    return null;
+  };
+
+  return {
+    convert(minor, from, to, at) {
+      const t = at.getTime();
+      let rate = majorRate(from, to, t);
+      if (rate === null && from !== DEFAULT_CURRENCY && to !== DEFAULT_CURRENCY) {
+        const a = majorRate(from, DEFAULT_CURRENCY, t);
+        const b = majorRate(DEFAULT_CURRENCY, to, t);
+        if (a !== null && b !== null) rate = a * b;
+      }
+      if (rate === null) return null;
+      return Math.round(minor * rate * 10 ** (minorDigits(to) - minorDigits(from)));
+    },
+  };
+}
+
+/**
+ * ✅ レートCSV（1行1レート）を読む
+ * - date,currency,rate（quote は JPY）または date,currency,quote,rate
+ * - "..." で囲んだ値・BOM は parseCsv に任せる
+ * - 見出し行・空行・# で始まる行は飛ばす
+ */
+export function parseRatesCsv(text: string): { rates: ExchangeRateInput[]; errors: string[] } {
+  const rates: ExchangeRateInput[] = [];
+  const errors: string[] = [];
+
+  parseCsv(text).forEach((row, i) => {
+    const cols = row.map((c) => c.trim());
+    if (cols[0].startsWith("#")) return;
+    if (i === 0 && /date|日付/i.test(cols[0])) return;
+
+    const body =
+      cols.length >= 4
+        ? { date: cols[0], currency: cols[1], quote: cols[2], rate: cols[3] }
+        : { date: cols[0], currency: cols[1], rate: cols[2] };
+    const input = parseExchangeRateInput(body);
+    if (typeof input === "string") errors.push(`row ${i + 1}: ${input}`);
+    else rates.push(input);
+  });
+
+  return { rates, errors };
+}
@@ -0,0 +1,28 @@
+// lib/exports.ts
+// ✅ 明細の書き出し（CSV・XLSX）で共通の処理
+import { prisma } from "./prisma";
+
+// 固定リングの表示名（TransactionsClient の categoryLabelMap と合わせる）
+const FIXED_RING_LABELS: Record<string, string> = {
+  "ring:life": "生活費",
+  "ring:save": "貯蓄（今月）",
+};
+
+/**
+ * ✅ カテゴリ → 表示名（ring:xxx はリング名。無いものはカテゴリのまま使う）
+ */
+export async function loadCategoryLabels(userKey: string): Promise<Map<string, string>> {
+  const rings = await prisma.ring.findMany({ where: { userKey }, select: { ringKey: true, title: true } });
+  const labels = new Map(Object.entries(FIXED_RING_LABELS));
+  for (const r of rings) labels.set(`ring:${r.ringKey}`, r.title);
+  return labels;
+}
+
+export function ymdOf(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+// 明細の区分（資金移動・分割）
+export function kindLabel(t: { transferId: number | null; splitId: number | null }) {
+  return t.transferId ? "資金移動" : t.splitId ? "分割" : "";
+}
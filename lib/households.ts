@@ -0,0 +1,76 @@
+// lib/households.ts
+// ✅ 共有家計簿：1つの台帳（Household.ledgerKey）を、招待したメンバーがそれぞれ自分の userKey で使う
+// - 台帳の userKey はクライアントに渡さない（渡すと招待なしで誰にでも共有できてしまう）
+// - 明細の作成者・履歴の actor は member:<メンバーid>
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "./prisma";
+
+export const HOUSEHOLD_ROLES = ["owner", "editor", "viewer"] as const;
+export type HouseholdRole = (typeof HOUSEHOLD_ROLES)[number];
+
+// 招待コードの有効日数
+export const INVITE_DAYS = 7;
+
+// 読み違えやすい 0/O・1/I は使わない
+const INVITE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const INVITE_LENGTH = 8;
+
+export function memberActor(memberId: number) {
+  return `member:${memberId}`;
+}
+
+export function canWrite(role: string) {
+  return role === "owner" || role === "editor";
+}
+
+export function newLedgerKey() {
+  return randomBytes(16).toString("hex");
+}
+
+export function newInviteCode() {
+  const bytes = randomBytes(INVITE_LENGTH);
+  return Array.from(bytes, (b) => INVITE_ALPHABET[b % INVITE_ALPHABET.length]).join("");
+}
+
+// 入力ゆれ（小文字・ハイフン・空白）を落としてからハッシュ
+export function hashInviteCode(code: string) {
+  const normalized = code.toUpperCase().replace(/[\s-]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * ✅ memberKey がその家計簿のメンバーなら、メンバー行（household つき）
+ */
+export function findMembership(householdId: number, memberKey: string) {
+  return prisma.householdMember.findUnique({
+    where: { householdId_memberKey: { householdId, memberKey } },
+    include: { household: true },
+  });
+}
+
+/**
+ * ✅ memberKey が入っている家計簿の一覧（メンバー一覧つき。台帳の userKey は含めない）
+ */
+export async function listHouseholds(memberKey: string) {
+  const rows = await prisma.householdMember.findMany({
+    where: { memberKey },
+    include: {
+      household: {
+        select: {
+          id: true,
+          name: true,
+          members: { select: { id: true, name: true, role: true }, orderBy: { id: "asc" } },
+        },
+      },
+    },
+    orderBy: { householdId: "asc" },
+  });
+
+  return rows.map((m) => ({
+    id: m.household.id,
+    name: m.household.name,
+    role: m.role,
+    memberId: m.id,
+    members: m.household.members,
+  }));
+}
@@ -0,0 +1,74 @@
+// lib/idempotency.ts
+// ✅ Idempotency-Key ヘッダーで同じ送信の二重登録を防ぐ（POST /api/transactions）
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { isUniqueViolation } from "./api";
+import { prisma } from "./prisma";
+
+export const IDEMPOTENCY_HEADER = "idempotency-key";
+
+// ✅ キーを覚えておく時間（IDEMPOTENCY_TTL_HOURS で変更可）
+export const IDEMPOTENCY_TTL_HOURS = (() => {
+  const n = Number(process.env.IDEMPOTENCY_TTL_HOURS);
+  return Number.isFinite(n) && n > 0 ? n : 24;
+})();
+
+// 英数字と - _ . : だけ、1〜128文字
+export function parseIdempotencyKey(value: string | null): string | null {
+  const key = (value ?? "").trim();
+  if (!/^[A-Za-z0-9_.:-]{1,128}$/.test(key)) return null;
+  return key;
+}
+
+export function requestHash(body: unknown): string {
+  return createHash("sha256")
+    .update(JSON.stringify(body ?? null))
+    .digest("hex");
+}
+
+/**
+ * ✅ 期限内に同じキーで保存済みなら、そのときのレスポンスを返す
+ * - 同じキーで中身が違うリクエストは 422
+ * - 期限切れのキーはここで消す
+ */
+export async function findIdempotentReplay(userKey: string, key: string, hash: string): Promise<NextResponse | null> {
+  await prisma.idempotencyKey.deleteMany({
+    where: { userKey, expiresAt: { lte: new Date() } },
+  });
+
+  const saved = await prisma.idempotencyKey.findUnique({
+    where: { userKey_key: { userKey, key } },
+  });
+  if (!saved) return null;
+
+  if (saved.requestHash !== hash) {
+    return NextResponse.json({ error: "Idempotency-Key was already used for a different request" }, { status: 422 });
+  }
+
+  return NextResponse.json(saved.response, { headers: { "Idempotent-Replayed": "true" } });
+}
+
+/**
+ * ✅ 作成した明細とレスポンスをキーに紐づけて保存（作成と同じDBトランザクション内で呼ぶ）
+ */
+export async function saveIdempotentResponse(
+  tx: Prisma.TransactionClient,
+  rec: { userKey: string; key: string; hash: string; transactionId: number; response: unknown }
+) {
+  await tx.idempotencyKey.create({
+    data: {
+      userKey: rec.userKey,
+      key: rec.key,
+      requestHash: rec.hash,
+      transactionId: rec.transactionId,
+      response: JSON.parse(JSON.stringify(rec.response)),
+      expiresAt: new Date(Date.now() + IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000),
+    },
+  });
+}
+
+// 同時に同じキーで来たとき、後から来た方は一意制約で落ちる
+export function isIdempotencyConflict(e: unknown) {
+  return isUniqueViolation(e);
+}
@@ -0,0 +1,48 @@
+// lib/identity.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { NextRequest } from "next/server";
+import { getRequestedUserKey, normalizeUserKey, USER_KEY_COOKIE, USER_KEY_HEADER } from "./identity";
+
+const HEADER_KEY = "header-key-0001";
+const COOKIE_KEY = "cookie-key-0001";
+
+function request(opts: { header?: string; cookie?: string }) {
+  const headers = new Headers();
+  if (opts.header !== undefined) headers.set(USER_KEY_HEADER, opts.header);
+  if (opts.cookie !== undefined) headers.set("cookie", `${USER_KEY_COOKIE}=${opts.cookie}`);
+  return new NextRequest("http://localhost/api/transactions", { headers });
+}
+
+describe("normalizeUserKey", () => {
+  it("8〜64文字を受ける（前後の空白は落とす）", () => {
+    assert.equal(normalizeUserKey("a".repeat(8)), "a".repeat(8));
+    assert.equal(normalizeUserKey("a".repeat(64)), "a".repeat(64));
+    assert.equal(normalizeUserKey(`  ${"b".repeat(10)}  `), "b".repeat(10));
+  });
+
+  it("7文字以下・65文字以上・文字列以外は null", () => {
+    assert.equal(normalizeUserKey("a".repeat(7)), null);
+    assert.equal(normalizeUserKey("a".repeat(65)), null);
+    assert.equal(normalizeUserKey(`   ${"a".repeat(7)}   `), null);
+    assert.equal(normalizeUserKey(12345678), null);
+    assert.equal(normalizeUserKey(null), null);
+  });
+});
+
+describe("getRequestedUserKey", () => {
+  it("ヘッダと cookie の両方があればヘッダ", () => {
+    assert.equal(getRequestedUserKey(request({ header: HEADER_KEY, cookie: COOKIE_KEY })), HEADER_KEY);
+  });
+
+  it("ヘッダが形式違いなら cookie", () => {
+    assert.equal(getRequestedUserKey(request({ header: "short", cookie: COOKIE_KEY })), COOKIE_KEY);
+    assert.equal(getRequestedUserKey(request({ header: "x".repeat(65), cookie: COOKIE_KEY })), COOKIE_KEY);
+  });
+
+  it("ヘッダが無ければ cookie、どちらも無い・形式違いなら null", () => {
+    assert.equal(getRequestedUserKey(request({ cookie: COOKIE_KEY })), COOKIE_KEY);
+    assert.equal(getRequestedUserKey(request({})), null);
+    assert.equal(getRequestedUserKey(request({ header: "short", cookie: "tiny" })), null);
+  });
+});
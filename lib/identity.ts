@@ -0,0 +1,84 @@
+// lib/identity.ts
+// ✅ userKey（この端末のユーザーID）の決まりごと：形式・ヘッダ名・cookie 名はここだけで決める
+// - サーバー（lib/api.ts / app/api/user-key）とクライアント（TransactionsClient / lib/userKey）の両方から使う
+import type { NextRequest, NextResponse } from "next/server";
+
+export const USER_KEY_HEADER = "x-user-key";
+export const USER_KEY_COOKIE = "miyamu_user_key";
+
+// 共有家計簿を使うとき：どの家計簿か（ヘッダ優先 → cookie。無ければ自分の台帳）
+export const HOUSEHOLD_HEADER = "x-household-id";
+export const HOUSEHOLD_COOKIE = "miyamu_household";
+
+export const USER_KEY_MIN_LENGTH = 8;
+export const USER_KEY_MAX_LENGTH = 64;
+
+// cookie は1年もたせる（userKey 自体は端末の localStorage が正）
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * ✅ 前後の空白を落として、8〜64文字なら userKey として返す（それ以外は null）
+ * - 自動で作るのは32桁の16進数だが、貼り付け・手入力のIDも同じ決まりで受ける
+ */
+export function normalizeUserKey(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+
+  const key = raw.trim();
+  if (key.length < USER_KEY_MIN_LENGTH || key.length > USER_KEY_MAX_LENGTH) return null;
+
+  return key;
+}
+
+export function isValidUserKey(raw: unknown): boolean {
+  return normalizeUserKey(raw) !== null;
+}
+
+/**
+ * ✅ リクエストの userKey：x-user-key ヘッダ優先 → cookie
+ * - ヘッダが形式違いなら cookie を見る（使ってよいかは lib/api.ts の getUserKey で見る）
+ */
+export function getRequestedUserKey(req: NextRequest): string | null {
+  return normalizeUserKey(req.headers.get(USER_KEY_HEADER)) ?? normalizeUserKey(req.cookies.get(USER_KEY_COOKIE)?.value);
+}
+
+/**
+ * ✅ リクエストで選ばれている共有家計簿の id（無ければ null = 自分の台帳）
+ */
+export function getRequestedHouseholdId(req: NextRequest): number | null {
+  const raw = req.headers.get(HOUSEHOLD_HEADER) ?? req.cookies.get(HOUSEHOLD_COOKIE)?.value;
+  const id = Number(raw);
+  if (!raw || !Number.isInteger(id) || id <= 0) return null;
+  return id;
+}
+
+/**
+ * ✅ userKey を cookie に入れる（ヘッダを付けられない <a href> / <img src> でも同じ台帳を読めるように）
+ */
+export function setUserKeyCookie(res: NextResponse, userKey: string) {
+  res.cookies.set(USER_KEY_COOKIE, userKey, {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: COOKIE_MAX_AGE,
+  });
+}
+
+export function clearUserKeyCookie(res: NextResponse) {
+  res.cookies.set(USER_KEY_COOKIE, "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
+}
+
+// 共有家計簿の切り替え（null なら自分の台帳に戻す）
+export function setHouseholdCookie(res: NextResponse, householdId: number | null) {
+  if (householdId === null) {
+    res.cookies.set(HOUSEHOLD_COOKIE, "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
+    return;
+  }
+  res.cookies.set(HOUSEHOLD_COOKIE, String(householdId), {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: COOKIE_MAX_AGE,
+  });
+}
@@ -0,0 +1,116 @@
+// lib/imports.ts
+// ✅ 表計算ソフトなど外のデータからの明細の取り込み（行の検証・重複判定・作成）
+// - 列の対応づけ・日付や金額の読み取りはクライアント（lib/csv）で済ませ、ここには明細の形で届く
+import { Prisma } from "@prisma/client";
+import { MAX_IMPORT_ROWS } from "./csv";
+import { transactionDedupeKey } from "./restore";
+import { diffSnapshots, snapshotOf } from "./revisions";
+import { ensureTags } from "./tags";
+import { parseTagNames, parseTransactionInput, type TransactionInput } from "./validators";
+
+export type ImportRow = TransactionInput & { occurredAt: Date; tags: string[] };
+
+/**
+ * ✅ 取り込む行を検証して取り出す（1件でも壊れていたら、何行目が悪いかをメッセージで返す）
+ */
+export function parseImportRows(raw: unknown): ImportRow[] | string {
+  if (!Array.isArray(raw)) return "rows must be an array";
+  if (raw.length === 0) return "rows must not be empty";
+  if (raw.length > MAX_IMPORT_ROWS) return `at most ${MAX_IMPORT_ROWS} rows can be imported at once`;
+
+  const rows: ImportRow[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const r = (raw[i] ?? {}) as Record<string, unknown>;
+    const input = parseTransactionInput(r);
+    if (typeof input === "string") return `rows[${i}]: ${input}`;
+    if (!input.occurredAt) return `rows[${i}]: occurredAt is required`;
+    const tags = parseTagNames(r.tags);
+    if (typeof tags === "string") return `rows[${i}]: ${tags}`;
+    rows.push({ ...input, occurredAt: input.occurredAt, tags: tags ?? [] });
+  }
+  return rows;
+}
+
+/**
+ * ✅ 行ごとに「もう台帳にある明細か」（同じ明細が複数あれば件数ぶんだけ一致扱い）
+ */
+export function findDuplicates(
+  existing: Array<Parameters<typeof transactionDedupeKey>[0]>,
+  rows: Array<Parameters<typeof transactionDedupeKey>[0]>
+): boolean[] {
+  const remaining = new Map<string, number>();
+  for (const t of existing) {
+    const k = transactionDedupeKey(t);
+    remaining.set(k, (remaining.get(k) ?? 0) + 1);
+  }
+  return rows.map((t) => {
+    const k = transactionDedupeKey(t);
+    const n = remaining.get(k) ?? 0;
+    if (n === 0) return false;
+    remaining.set(k, n - 1);
+    return true;
+  });
+}
+
+// 重複判定に使う既存の明細（取り込む行の期間だけ。ゴミ箱は見ない）
+export function loadExistingForImport(tx: Prisma.TransactionClient, userKey: string, rows: ImportRow[]) {
+  const times = rows.map((r) => r.occurredAt.getTime());
+  return tx.transaction.findMany({
+    where: {
+      userKey,
+      deletedAt: null,
+      occurredAt: { gte: new Date(Math.min(...times)), lte: new Date(Math.max(...times)) },
+    },
+    select: { occurredAt: true, type: true, amount: true, currency: true, category: true, detailCategory: true },
+  });
+}
+
+/**
+ * ✅ 明細を作る（作成者・履歴は actor。呼び出し側で $transaction に包む）
+ */
+export async function createImportedTransactions(
+  tx: Prisma.TransactionClient,
+  userKey: string,
+  actor: string,
+  rows: ImportRow[]
+) {
+  if (rows.length === 0) return;
+
+  // 戻り値は入力と同じ順なので、タグは添字で対応させる
+  const created = await tx.transaction.createManyAndReturn({
+    data: rows.map((t) => ({
+      userKey,
+      amount: t.amount,
+      currency: t.currency,
+      category: t.category,
+      detailCategory: t.detailCategory,
+      type: t.type,
+      occurredAt: t.occurredAt,
+      createdBy: actor,
+    })),
+  });
+
+  await tx.transactionRevision.createMany({
+    data: created.map((t, i) => {
+      const after = snapshotOf({ ...t, tags: rows[i].tags });
+      return {
+        transactionId: t.id,
+        userKey,
+        actor,
+        action: "create",
+        before: Prisma.JsonNull,
+        after,
+        changes: diffSnapshots(null, after),
+      };
+    }),
+  });
+
+  const tagNames = Array.from(new Set(rows.flatMap((t) => t.tags)));
+  if (tagNames.length > 0) {
+    const tagIds = new Map((await ensureTags(tx, userKey, tagNames)).map((t) => [t.name, t.id]));
+    await tx.transactionTag.createMany({
+      data: rows.flatMap((t, i) => t.tags.map((name) => ({ transactionId: created[i].id, tagId: tagIds.get(name)! }))),
+      skipDuplicates: true,
+    });
+  }
+}
@@ -0,0 +1,260 @@
+// lib/merge.ts
+// ✅ 2つの userKey の台帳を1つにまとめる（元のIDの明細・リング・目標を、まとめ先のIDへ移す）
+// - 行は作り直さず userKey を付け替えるので、履歴・添付・資金移動・分割明細もそのまま付いてくる
+// - 重複（まとめ先に同じものがある）は移さずに元のIDに残す
+import { Prisma } from "@prisma/client";
+import { transactionDedupeKey } from "./restore";
+import { ensureTags } from "./tags";
+import { MAX_RINGS } from "./validators";
+
+type MergeTx = Parameters<typeof transactionDedupeKey>[0] & {
+  id: number;
+  transferId: number | null;
+  splitId: number | null;
+};
+type MergeRing = { id: number; ringKey: string; title: string };
+type MergeGoal = { id: number; category: string; effectiveFrom: Date };
+
+export type MergeSide = {
+  transactions: MergeTx[];
+  rings: MergeRing[];
+  goals: MergeGoal[];
+};
+
+// 件数だけのプレビュー（dry-run で返す）
+export type MergeDiffPart = {
+  incoming: number;
+  move: number;
+  skip: number;
+};
+
+export type MergeDiff = {
+  transactions: MergeDiffPart;
+  rings: MergeDiffPart;
+  goals: MergeDiffPart;
+  // まとめ先に同じ ringKey で別のリングがあったので、キーを付け替えるもの
+  remappedRings: Array<{ title: string; from: string; to: string }>;
+};
+
+export type MergePlan = {
+  diff: MergeDiff;
+  transactionIds: number[];
+  transferIds: number[];
+  splitIds: number[];
+  rings: Array<{ id: number; ringKey: string }>;
+  goals: Array<{ id: number; category: string }>;
+};
+
+/**
+ * ✅ 移す明細・リング・目標を読む（ゴミ箱の明細は移さない）
+ */
+export async function loadMergeSide(tx: Prisma.TransactionClient, userKey: string): Promise<MergeSide> {
+  const [transactions, rings, goals] = await Promise.all([
+    tx.transaction.findMany({
+      where: { userKey, deletedAt: null },
+      select: {
+        id: true,
+        occurredAt: true,
+        type: true,
+        amount: true,
+        currency: true,
+        category: true,
+        detailCategory: true,
+        transferId: true,
+        splitId: true,
+      },
+      orderBy: { id: "asc" },
+    }),
+    tx.ring.findMany({ where: { userKey }, select: { id: true, ringKey: true, title: true }, orderBy: { sortOrder: "asc" } }),
+    tx.ringGoal.findMany({ where: { userKey }, select: { id: true, category: true, effectiveFrom: true } }),
+  ]);
+  return { transactions, rings, goals };
+}
+
+// 付け替え先の ringKey（life_2, life_3 ...）
+function freshRingKey(ringKey: string, used: Set<string>) {
+  for (let n = 2; ; n++) {
+    const k = `${ringKey.slice(0, 60)}_${n}`;
+    if (!used.has(k)) return k;
+  }
+}
+
+function goalKey(g: { category: string; effectiveFrom: Date }) {
+  return `${g.category}\u0000${g.effectiveFrom.toISOString()}`;
+}
+
+/**
+ * ✅ 元のID（source）をまとめ先（target）にどう移すかを決める
+ * - リング：同じ ringKey・同じ名前なら同じリングとみなして移さない。名前が違えば ringKey を付け替えて移す
+ * - 明細：資金移動・分割明細はまとめて1つとして扱い、全部がまとめ先にもあれば重複として移さない
+ * - 目標：カテゴリ（付け替え後）と適用開始日が同じものがまとめ先にあれば移さない
+ * - リングが上限を超えるならエラーメッセージ
+ */
+export function planMerge(source: MergeSide, target: MergeSide): MergePlan | string {
+  const targetRings = new Map(target.rings.map((r) => [r.ringKey, r]));
+  const used = new Set([...target.rings, ...source.rings].map((r) => r.ringKey));
+  const remap = new Map<string, string>();
+  const remappedRings: MergeDiff["remappedRings"] = [];
+  const rings: MergePlan["rings"] = [];
+
+  for (const r of source.rings) {
+    const existing = targetRings.get(r.ringKey);
+    if (existing && existing.title === r.title) continue;
+    if (existing) {
+      const to = freshRingKey(r.ringKey, used);
+      used.add(to);
+      remap.set(r.ringKey, to);
+      remappedRings.push({ title: r.title, from: r.ringKey, to });
+      rings.push({ id: r.id, ringKey: to });
+    } else {
+      rings.push({ id: r.id, ringKey: r.ringKey });
+    }
+  }
+
+  if (target.rings.length + rings.length > MAX_RINGS) {
+    return `merging would leave more than ${MAX_RINGS} rings; remove some rings from either ID first`;
+  }
+
+  const remapCategory = (category: string) => {
+    if (!category.startsWith("ring:")) return category;
+    const to = remap.get(category.slice(5));
+    return to ? `ring:${to}` : category;
+  };
+
+  // 資金移動・分割明細は1まとまりとして重複判定する
+  const units = new Map<string, MergeTx[]>();
+  for (const t of source.transactions) {
+    const k = t.transferId ? `t${t.transferId}` : t.splitId ? `s${t.splitId}` : `r${t.id}`;
+    const unit = units.get(k);
+    if (unit) unit.push(t);
+    else units.set(k, [t]);
+  }
+
+  const remaining = new Map<string, number>();
+  for (const t of target.transactions) {
+    const k = transactionDedupeKey(t);
+    remaining.set(k, (remaining.get(k) ?? 0) + 1);
+  }
+
+  const transactionIds: number[] = [];
+  const transferIds = new Set<number>();
+  const splitIds = new Set<number>();
+  for (const unit of units.values()) {
+    const need = new Map<string, number>();
+    for (const t of unit) {
+      const k = transactionDedupeKey({ ...t, category: remapCategory(t.category) });
+      need.set(k, (need.get(k) ?? 0) + 1);
+    }
+
+    if (Array.from(need).every(([k, n]) => (remaining.get(k) ?? 0) >= n)) {
+      for (const [k, n] of need) remaining.set(k, remaining.get(k)! - n);
+      continue;
+    }
+
+    for (const t of unit) {
+      transactionIds.push(t.id);
+      if (t.transferId) transferIds.add(t.transferId);
+      if (t.splitId) splitIds.add(t.splitId);
+    }
+  }
+
+  const goalKeys = new Set(target.goals.map(goalKey));
+  const goals: MergePlan["goals"] = [];
+  for (const g of source.goals) {
+    const category = remapCategory(g.category);
+    const k = goalKey({ category, effectiveFrom: g.effectiveFrom });
+    if (goalKeys.has(k)) continue;
+    goalKeys.add(k);
+    goals.push({ id: g.id, category });
+  }
+
+  return {
+    diff: {
+      transactions: {
+        incoming: source.transactions.length,
+        move: transactionIds.length,
+        skip: source.transactions.length - transactionIds.length,
+      },
+      rings: { incoming: source.rings.length, move: rings.length, skip: source.rings.length - rings.length },
+      goals: { incoming: source.goals.length, move: goals.length, skip: source.goals.length - goals.length },
+      remappedRings,
+    },
+    transactionIds,
+    transferIds: Array.from(transferIds),
+    splitIds: Array.from(splitIds),
+    rings,
+    goals,
+  };
+}
+
+/**
+ * ✅ 計画どおりに付け替える（呼び出し側で $transaction に包む）
+ * - 作成者・履歴の actor に入っている元の userKey は、まとめた人（actor）に置き換える
+ *   （共有家計簿にまとめたとき、ほかのメンバーに元の userKey が見えないように）
+ */
+export async function applyMergePlan(
+  tx: Prisma.TransactionClient,
+  sourceKey: string,
+  targetKey: string,
+  actor: string,
+  plan: MergePlan
+) {
+  const last = await tx.ring.findFirst({ where: { userKey: targetKey }, orderBy: { sortOrder: "desc" } });
+  let sortOrder = (last?.sortOrder ?? -1) + 1;
+  for (const r of plan.rings) {
+    await tx.ring.update({
+      where: { id: r.id },
+      data: { userKey: targetKey, ringKey: r.ringKey, sortOrder: sortOrder++ },
+    });
+  }
+
+  const ids = plan.transactionIds;
+  if (ids.length > 0) {
+    // ring:<ringKey> のカテゴリは付け替え後のキーに
+    for (const { from, to } of plan.diff.remappedRings) {
+      await tx.transaction.updateMany({
+        where: { id: { in: ids }, category: `ring:${from}` },
+        data: { category: `ring:${to}` },
+      });
+      await tx.transfer.updateMany({
+        where: { id: { in: plan.transferIds }, fromCategory: `ring:${from}` },
+        data: { fromCategory: `ring:${to}` },
+      });
+      await tx.transfer.updateMany({
+        where: { id: { in: plan.transferIds }, toCategory: `ring:${from}` },
+        data: { toCategory: `ring:${to}` },
+      });
+    }
+
+    // タグは userKey ごとなので、まとめ先の同じ名前のタグに付け直す
+    const links = await tx.transactionTag.findMany({
+      where: { transactionId: { in: ids } },
+      include: { tag: true },
+    });
+    if (links.length > 0) {
+      const tagIds = new Map(
+        (await ensureTags(tx, targetKey, Array.from(new Set(links.map((l) => l.tag.name))))).map((t) => [t.name, t.id])
+      );
+      await tx.transactionTag.deleteMany({ where: { transactionId: { in: ids } } });
+      await tx.transactionTag.createMany({
+        data: links.map((l) => ({ transactionId: l.transactionId, tagId: tagIds.get(l.tag.name)! })),
+        skipDuplicates: true,
+      });
+    }
+
+    await tx.transaction.updateMany({ where: { id: { in: ids }, createdBy: sourceKey }, data: { createdBy: actor } });
+    await tx.transaction.updateMany({ where: { id: { in: ids }, userKey: sourceKey }, data: { userKey: targetKey } });
+    await tx.transactionRevision.updateMany({
+      where: { transactionId: { in: ids }, actor: sourceKey },
+      data: { actor },
+    });
+    await tx.transactionRevision.updateMany({ where: { transactionId: { in: ids } }, data: { userKey: targetKey } });
+    await tx.attachment.updateMany({ where: { transactionId: { in: ids } }, data: { userKey: targetKey } });
+    await tx.transfer.updateMany({ where: { id: { in: plan.transferIds } }, data: { userKey: targetKey } });
+    await tx.split.updateMany({ where: { id: { in: plan.splitIds } }, data: { userKey: targetKey } });
+  }
+
+  for (const g of plan.goals) {
+    await tx.ringGoal.update({ where: { id: g.id }, data: { userKey: targetKey, category: g.category } });
+  }
+}
@@ -0,0 +1,212 @@
+// lib/recurring.ts
+// ✅ 定期明細：予定日の計算と、期日が来た分の明細づくり（何度呼んでも二重にならない）
+import type { RecurringOccurrence, RecurringRule } from "@prisma/client";
+import { isUniqueViolation } from "./api";
+import { prisma } from "./prisma";
+import { recordRevision, snapshotOf } from "./revisions";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 1回の呼び出しで作る上限（開始日がかなり過去のルールでも暴走しないように）
+export const MAX_MATERIALIZE_PER_RUN = 400;
+
+// 履歴（TransactionRevision.actor）に残す名前
+export const RECURRING_ACTOR = "recurring";
+
+type Schedule = Pick<
+  RecurringRule,
+  "frequency" | "interval" | "dayOfMonth" | "dayOfWeek" | "monthOfYear" | "startDate" | "endDate"
+>;
+
+function daysInMonth(y: number, m0: number) {
+  return new Date(Date.UTC(y, m0 + 1, 0)).getUTCDate();
+}
+
+function clampedDate(y: number, m0: number, day: number) {
+  return new Date(Date.UTC(y, m0, Math.min(day, daysInMonth(y, m0))));
+}
+
+export function toUtcDay(d: Date) {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+export function ymd(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+// ✅ 月末の営業日（土日だけ避ける。祝日は見ていない）
+export function lastBusinessDay(y: number, m0: number): Date {
+  let day = daysInMonth(y, m0);
+  let d = new Date(Date.UTC(y, m0, day));
+  while (d.getUTCDay() === 0 || d.getUTCDay() === 6) {
+    day -= 1;
+    d = new Date(Date.UTC(y, m0, day));
+  }
+  return d;
+}
+
+/**
+ * ✅ from〜to（両端含む）にある予定日
+ * - 間隔（interval）は開始日を起点に数える
+ */
+export function dueDatesBetween(rule: Schedule, from: Date, to: Date, limit = 366): Date[] {
+  const ruleStart = toUtcDay(rule.startDate);
+  const lower = Math.max(ruleStart.getTime(), toUtcDay(from).getTime());
+  const upper = Math.min(rule.endDate ? toUtcDay(rule.endDate).getTime() : Infinity, toUtcDay(to).getTime());
+  if (lower > upper) return [];
+
+  const step = Math.max(1, rule.interval);
+  const out: Date[] = [];
+  const push = (d: Date) => {
+    if (d.getTime() >= lower && d.getTime() <= upper) out.push(d);
+  };
+
+  if (rule.frequency === "weekly") {
+    const offset = ((rule.dayOfWeek ?? ruleStart.getUTCDay()) - ruleStart.getUTCDay() + 7) % 7;
+    let t = ruleStart.getTime() + offset * DAY_MS;
+    // from まで一気に進める
+    const stepMs = step * 7 * DAY_MS;
+    if (t < lower) t += Math.ceil((lower - t) / stepMs) * stepMs;
+    for (; t <= upper && out.length < limit; t += stepMs) push(new Date(t));
+    return out;
+  }
+
+  if (rule.frequency === "yearly") {
+    const m0 = (rule.monthOfYear ?? ruleStart.getUTCMonth() + 1) - 1;
+    const day = rule.dayOfMonth ?? ruleStart.getUTCDate();
+    for (let y = ruleStart.getUTCFullYear(); out.length < limit; y += step) {
+      if (Date.UTC(y, m0, 1) > upper) break;
+      push(clampedDate(y, m0, day));
+    }
+    return out;
+  }
+
+  // monthly / last_business_day
+  const startIndex = ruleStart.getUTCFullYear() * 12 + ruleStart.getUTCMonth();
+  for (let i = startIndex; out.length < limit; i += step) {
+    const y = Math.floor(i / 12);
+    const m0 = i % 12;
+    if (Date.UTC(y, m0, 1) > upper) break;
+    if (rule.frequency === "last_business_day") push(lastBusinessDay(y, m0));
+    else push(clampedDate(y, m0, rule.dayOfMonth ?? ruleStart.getUTCDate()));
+  }
+  return out;
+}
+
+// ✅ 明細を作り始める日（開始日と、スケジュール変更・再開の日の遅いほう）
+export function materializeFrom(rule: Pick<RecurringRule, "startDate" | "resumeFrom">): Date {
+  const start = toUtcDay(rule.startDate);
+  if (!rule.resumeFrom) return start;
+  const resume = toUtcDay(rule.resumeFrom);
+  return resume > start ? resume : start;
+}
+
+export type OccurrenceView = {
+  dueDate: string; // YYYY-MM-DD
+  status: "upcoming" | "scheduled" | "posted" | "skipped" | "paused";
+  amount: number;
+  detailCategory: string | null;
+  occurredAt: string; // YYYY-MM-DD（この回だけ日付を変えたときは変更後）
+  transactionId: number | null;
+};
+
+/**
+ * ✅ 予定日と保存済みの状態を合わせた一覧（画面用）
+ */
+export function listOccurrences(rule: RecurringRule, stored: RecurringOccurrence[], from: Date, to: Date): OccurrenceView[] {
+  const byDate = new Map(stored.map((o) => [ymd(o.dueDate), o]));
+  const resume = materializeFrom(rule);
+  // 再開・変更より前で何も残っていない回は、もう作られないので出さない
+  const dates = dueDatesBetween(rule, from, to, 60).filter((d) => d >= resume || byDate.has(ymd(d)));
+  return dates.map((d) => {
+    const o = byDate.get(ymd(d));
+    return {
+      dueDate: ymd(d),
+      status: (o?.status as OccurrenceView["status"]) ?? "upcoming",
+      amount: o?.amount ?? rule.amount,
+      detailCategory: o?.detailCategory ?? rule.detailCategory,
+      occurredAt: ymd(o?.occurredAt ?? d),
+      transactionId: o?.transactionId ?? null,
+    };
+  });
+}
+
+// 1回ぶんを明細にする（作ったら 1、別の呼び出しが先に作っていたら 0）
+async function postOccurrence(rule: RecurringRule, dueDate: Date, occ: RecurringOccurrence | undefined): Promise<number> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // 先に「この回は処理済み」を確保してから明細を作る
+      let occurrenceId: number;
+      if (occ) {
+        const claimed = await tx.recurringOccurrence.updateMany({
+          where: { id: occ.id, status: "scheduled" },
+          data: { status: "posted" },
+        });
+        if (claimed.count === 0) return 0;
+        occurrenceId = occ.id;
+      } else {
+        const created = await tx.recurringOccurrence.create({
+          data: { ruleId: rule.id, userKey: rule.userKey, dueDate, status: "posted" },
+        });
+        occurrenceId = created.id;
+      }
+
+      const row = await tx.transaction.create({
+        data: {
+          userKey: rule.userKey,
+          type: rule.type,
+          amount: occ?.amount ?? rule.amount,
+          currency: rule.currency,
+          category: rule.category,
+          detailCategory: occ?.detailCategory ?? rule.detailCategory,
+          occurredAt: occ?.occurredAt ?? dueDate,
+          createdBy: rule.createdBy ?? rule.userKey,
+        },
+      });
+      await recordRevision(tx, {
+        transactionId: row.id,
+        userKey: rule.userKey,
+        actor: RECURRING_ACTOR,
+        action: "create",
+        before: null,
+        after: snapshotOf({ ...row, tags: [] }),
+      });
+      await tx.recurringOccurrence.update({
+        where: { id: occurrenceId },
+        data: { transactionId: row.id },
+      });
+      return 1;
+    });
+  } catch (e) {
+    if (isUniqueViolation(e)) return 0;
+    throw e;
+  }
+}
+
+/**
+ * ✅ asOf（その日を含む）までに期日が来た回を明細にする
+ * - 作成済み/スキップ/保留の回は触らない → 何度呼んでも同じ結果
+ * - 止めている（paused）ルールは飛ばす
+ * - resumeFrom より前の予定日は作らない（止めていた間・変更前の予定をさかのぼって作らない）
+ */
+export async function materializeRecurring(userKey: string, asOf: Date): Promise<number> {
+  const rules = await prisma.recurringRule.findMany({
+    where: { userKey, paused: false, startDate: { lte: asOf } },
+    include: { occurrences: { where: { dueDate: { lte: asOf } } } },
+    orderBy: { id: "asc" },
+  });
+
+  let created = 0;
+  for (const rule of rules) {
+    const byDate = new Map(rule.occurrences.map((o) => [ymd(o.dueDate), o]));
+    for (const d of dueDatesBetween(rule, materializeFrom(rule), asOf, 10_000)) {
+      if (created >= MAX_MATERIALIZE_PER_RUN) return created;
+      const occ = byDate.get(ymd(d));
+      if (occ && occ.status !== "scheduled") continue;
+      // この回だけ後ろの日付にずらしたものは、その日が来るまで待つ
+      if (occ?.occurredAt && occ.occurredAt > asOf) continue;
+      created += await postOccurrence(rule, d, occ);
+    }
+  }
+  return created;
+}
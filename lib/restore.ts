@@ -0,0 +1,490 @@
+// lib/restore.ts
+// ✅ バックアップ復元の計画（どれを作る/飛ばす/消すか）と実行
+import { Prisma } from "@prisma/client";
+import { addAttachments, MAX_ATTACHMENTS_PER_TRANSACTION, parseAttachmentInput, type AttachmentInput } from "./attachments";
+import { migrateBackup } from "./backup";
+import { diffSnapshots, snapshotOf } from "./revisions";
+import { ensureTags } from "./tags";
+import { trashRows } from "./trash";
+import {
+  MAX_RINGS,
+  parseGoalInput,
+  parseRingInput,
+  parseTagNames,
+  parseTransactionInput,
+  type GoalInput,
+  type RingInput,
+  type TransactionInput,
+} from "./validators";
+
+export type RestoreMode = "replace" | "merge";
+
+// transferId / splitId はバックアップ内だけの番号（同じ値の明細を1つの親にまとめ直す）
+type TxRow = TransactionInput & {
+  occurredAt: Date;
+  createdAt?: Date;
+  tags: string[];
+  attachments: AttachmentInput[];
+  transferId: number | null;
+  splitId: number | null;
+  index: number; // バックアップ内の位置（エラーの表示用）
+};
+
+// バックアップ内の番号 → 親のメモ
+type GroupMemos = Map<number, string | null>;
+
+export type RestoreInput = {
+  transactions: TxRow[];
+  transferMemos: GroupMemos;
+  splitMemos: GroupMemos;
+  rings: RingInput[];
+  goals: GoalInput[];
+};
+
+// ✅ 適用中に見つかったバックアップの誤り（DBトランザクションごと取り消し、呼び出し側で 400 にする）
+export class RestoreInputError extends Error {}
+
+// 件数だけのプレビュー（dry-run で返す）
+export type RestoreDiffPart = {
+  incoming: number;
+  create: number;
+  skip: number;
+  delete: number;
+};
+
+export type RestoreDiff = {
+  transactions: RestoreDiffPart;
+  rings: RestoreDiffPart;
+  goals: RestoreDiffPart;
+};
+
+function decodeBase64(value: unknown): Uint8Array<ArrayBuffer> | null {
+  if (typeof value !== "string" || !/^[A-Za-z0-9+/]*={0,2}$/.test(value)) return null;
+  return new Uint8Array(Buffer.from(value, "base64"));
+}
+
+// バックアップの attachments（種類は中身から判定し直す）
+function parseBackupAttachments(value: unknown): AttachmentInput[] | string {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return "attachments must be an array";
+  if (value.length > MAX_ATTACHMENTS_PER_TRANSACTION) {
+    return `a transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments`;
+  }
+
+  const out: AttachmentInput[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const a = (value[i] ?? {}) as Record<string, unknown>;
+    const data = decodeBase64(a.data);
+    if (!data) return `attachments[${i}]: data must be base64`;
+    const thumbnail = a.thumbnail ? decodeBase64(a.thumbnail) : null;
+    const input = parseAttachmentInput(a.fileName, data, thumbnail);
+    if (typeof input === "string") return `attachments[${i}]: ${input}`;
+    out.push(input);
+  }
+  return out;
+}
+
+function parseGroupId(value: unknown): number | null | string {
+  if (value === undefined || value === null) return null;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0) return "must be a positive integer";
+  return n;
+}
+
+// transfers / splits（親のメモ）
+function parseGroupMemos(value: unknown, name: string): GroupMemos | string {
+  const memos: GroupMemos = new Map();
+  if (value === undefined || value === null) return memos;
+  if (!Array.isArray(value)) return `${name} must be an array`;
+  for (let i = 0; i < value.length; i++) {
+    const g = (value[i] ?? {}) as Record<string, unknown>;
+    const id = parseGroupId(g.id);
+    if (typeof id === "string") return `${name}[${i}]: id ${id}`;
+    if (id === null) return `${name}[${i}]: id is required`;
+    const memoRaw = String(g.memo ?? "").trim();
+    memos.set(id, memoRaw ? memoRaw.slice(0, 64) : null);
+  }
+  return memos;
+}
+
+// 同じ資金移動 / 分割の明細の添字（バックアップ内の番号ごと）
+function groupIndexes(rows: TxRow[], key: "transferId" | "splitId"): Map<number, number[]> {
+  const groups = new Map<number, number[]>();
+  rows.forEach((t, i) => {
+    const id = t[key];
+    if (id === null) return;
+    groups.set(id, [...(groups.get(id) ?? []), i]);
+  });
+  return groups;
+}
+
+// ✅ 資金移動は出金1件 + 入金1件（同じ通貨・金額・日付）、分割は同じ種別・通貨・日付の行
+function checkGroups(rows: TxRow[]): string | null {
+  for (const [id, idx] of groupIndexes(rows, "transferId")) {
+    const legs = idx.map((i) => rows[i]);
+    const from = legs.find((t) => t.type === "expense");
+    const to = legs.find((t) => t.type === "income");
+    if (legs.length !== 2 || !from || !to) return `transferId ${id}: must link one expense and one income`;
+    if (from.amount !== to.amount || from.currency !== to.currency || from.occurredAt.getTime() !== to.occurredAt.getTime()) {
+      return `transferId ${id}: both legs must have the same amount, currency and occurredAt`;
+    }
+  }
+  for (const [id, idx] of groupIndexes(rows, "splitId")) {
+    const [head, ...rest] = idx.map((i) => rows[i]);
+    if (idx.some((i) => rows[i].transferId !== null)) return `splitId ${id}: a row cannot be both a transfer and a split`;
+    if (rest.some((t) => t.type !== head.type || t.currency !== head.currency || t.occurredAt.getTime() !== head.occurredAt.getTime())) {
+      return `splitId ${id}: lines must have the same type, currency and occurredAt`;
+    }
+  }
+  return null;
+}
+
+export type RestorePlan = {
+  diff: RestoreDiff;
+  transactions: TxRow[];
+  transferMemos: GroupMemos;
+  splitMemos: GroupMemos;
+  rings: RingInput[];
+  goals: GoalInput[];
+};
+
+/**
+ * ✅ バックアップJSONの中身を検証して取り出す
+ * - 1件でも壊れていたら、どこが悪いかをメッセージで返す
+ */
+export function parseRestoreInput(raw: unknown): RestoreInput | string {
+  // どの版でも最新版に揃えてから読む
+  const backup = migrateBackup(raw);
+  if (typeof backup === "string") return backup;
+
+  const transactions: TxRow[] = [];
+  const rawTx = Array.isArray(backup.transactions) ? backup.transactions : [];
+  for (let i = 0; i < rawTx.length; i++) {
+    const t = (rawTx[i] ?? {}) as Record<string, unknown>;
+    const input = parseTransactionInput(t);
+    if (typeof input === "string") return `transactions[${i}]: ${input}`;
+    if (!input.occurredAt) return `transactions[${i}]: occurredAt is required`;
+    const tags = parseTagNames(t.tags);
+    if (typeof tags === "string") return `transactions[${i}]: ${tags}`;
+    const attachments = parseBackupAttachments(t.attachments);
+    if (typeof attachments === "string") return `transactions[${i}]: ${attachments}`;
+
+    const transferId = parseGroupId(t.transferId);
+    if (typeof transferId === "string") return `transactions[${i}]: transferId ${transferId}`;
+    const splitId = parseGroupId(t.splitId);
+    if (typeof splitId === "string") return `transactions[${i}]: splitId ${splitId}`;
+
+    const createdAt = t.createdAt ? new Date(String(t.createdAt)) : undefined;
+    transactions.push({
+      ...input,
+      occurredAt: input.occurredAt,
+      createdAt: createdAt && !Number.isNaN(createdAt.getTime()) ? createdAt : undefined,
+      tags: tags ?? [],
+      attachments,
+      transferId,
+      splitId,
+      index: i,
+    });
+  }
+  const groupError = checkGroups(transactions);
+  if (groupError) return `transactions: ${groupError}`;
+
+  const transferMemos = parseGroupMemos(backup.transfers, "transfers");
+  if (typeof transferMemos === "string") return transferMemos;
+  const splitMemos = parseGroupMemos(backup.splits, "splits");
+  if (typeof splitMemos === "string") return splitMemos;
+
+  const rings: RingInput[] = [];
+  const rawRings = Array.isArray(backup.rings) ? backup.rings : [];
+  for (let i = 0; i < rawRings.length; i++) {
+    const input = parseRingInput((rawRings[i] ?? {}) as Record<string, unknown>);
+    if (typeof input === "string") return `rings[${i}]: ${input}`;
+    rings.push(input);
+  }
+
+  const goals: GoalInput[] = [];
+  const rawGoals = Array.isArray(backup.ringGoals) ? backup.ringGoals : [];
+  for (let i = 0; i < rawGoals.length; i++) {
+    const input = parseGoalInput((rawGoals[i] ?? {}) as Record<string, unknown>);
+    if (typeof input === "string") return `ringGoals[${i}]: ${input}`;
+    goals.push(input);
+  }
+
+  return { transactions, transferMemos, splitMemos, rings, goals };
+}
+
+// ✅ 「同じ明細」とみなすキー（発生日・種別・金額・通貨・カテゴリ・内訳）
+export function transactionDedupeKey(t: {
+  occurredAt: Date;
+  type: string;
+  amount: number;
+  currency: string;
+  category: string;
+  detailCategory: string | null;
+}) {
+  return [
+    t.occurredAt.toISOString(),
+    t.type,
+    t.amount,
+    t.currency,
+    t.category.trim(),
+    (t.detailCategory ?? "").trim(),
+  ].join("\u0000");
+}
+
+function goalKey(g: { category: string; effectiveFrom: Date }) {
+  return `${g.category}\u0000${g.effectiveFrom.toISOString()}`;
+}
+
+/**
+ * ✅ 既存データとバックアップから、作る/飛ばす/消すを決める
+ * - replace: 既存の明細はゴミ箱へ移し（リング・目標は消す）、バックアップを入れる
+ * - merge: 既存は残し、同じものは飛ばす（同じ明細が複数あれば件数ぶんだけ一致扱い。飛ばした明細の添付は取り込まない）
+ *   資金移動・分割はまとめて判定する（全部の明細が一致したときだけ飛ばし、そうでなければ全部入れる）
+ */
+export function planRestore(
+  mode: RestoreMode,
+  existing: {
+    transactions: Array<Parameters<typeof transactionDedupeKey>[0]>;
+    rings: Array<{ ringKey: string }>;
+    goals: Array<{ category: string; effectiveFrom: Date }>;
+  },
+  incoming: RestoreInput
+): RestorePlan {
+  if (mode === "replace") {
+    const rings = Array.from(new Map(incoming.rings.map((r) => [r.ringKey, r])).values()).slice(0, MAX_RINGS);
+    const goals = Array.from(new Map(incoming.goals.map((g) => [goalKey(g), g])).values());
+    return {
+      diff: {
+        transactions: {
+          incoming: incoming.transactions.length,
+          create: incoming.transactions.length,
+          skip: 0,
+          delete: existing.transactions.length,
+        },
+        rings: {
+          incoming: incoming.rings.length,
+          create: rings.length,
+          skip: incoming.rings.length - rings.length,
+          delete: existing.rings.length,
+        },
+        goals: {
+          incoming: incoming.goals.length,
+          create: goals.length,
+          skip: incoming.goals.length - goals.length,
+          delete: existing.goals.length,
+        },
+      },
+      transactions: incoming.transactions,
+      transferMemos: incoming.transferMemos,
+      splitMemos: incoming.splitMemos,
+      rings,
+      goals,
+    };
+  }
+
+  const remaining = new Map<string, number>();
+  for (const t of existing.transactions) {
+    const k = transactionDedupeKey(t);
+    remaining.set(k, (remaining.get(k) ?? 0) + 1);
+  }
+  // 資金移動・分割の明細は親ごとに1つの単位として扱う
+  const units = new Map<string, number[]>();
+  incoming.transactions.forEach((t, i) => {
+    const unit = t.transferId !== null ? `transfer:${t.transferId}` : t.splitId !== null ? `split:${t.splitId}` : `row:${i}`;
+    units.set(unit, [...(units.get(unit) ?? []), i]);
+  });
+  const skipped = new Set<number>();
+  for (const idx of units.values()) {
+    const need = new Map<string, number>();
+    for (const i of idx) {
+      const k = transactionDedupeKey(incoming.transactions[i]);
+      need.set(k, (need.get(k) ?? 0) + 1);
+    }
+    if (Array.from(need).some(([k, n]) => (remaining.get(k) ?? 0) < n)) continue;
+    for (const [k, n] of need) remaining.set(k, (remaining.get(k) ?? 0) - n);
+    for (const i of idx) skipped.add(i);
+  }
+  const transactions = incoming.transactions.filter((_, i) => !skipped.has(i));
+
+  const ringKeys = new Set(existing.rings.map((r) => r.ringKey));
+  const rings: RingInput[] = [];
+  for (const r of incoming.rings) {
+    if (ringKeys.has(r.ringKey)) continue;
+    if (existing.rings.length + rings.length >= MAX_RINGS) continue;
+    ringKeys.add(r.ringKey);
+    rings.push(r);
+  }
+
+  const goalKeys = new Set(existing.goals.map(goalKey));
+  const goals: GoalInput[] = [];
+  for (const g of incoming.goals) {
+    const k = goalKey(g);
+    if (goalKeys.has(k)) continue;
+    goalKeys.add(k);
+    goals.push(g);
+  }
+
+  return {
+    diff: {
+      transactions: {
+        incoming: incoming.transactions.length,
+        create: transactions.length,
+        skip: incoming.transactions.length - transactions.length,
+        delete: 0,
+      },
+      rings: {
+        incoming: incoming.rings.length,
+        create: rings.length,
+        skip: incoming.rings.length - rings.length,
+        delete: 0,
+      },
+      goals: {
+        incoming: incoming.goals.length,
+        create: goals.length,
+        skip: incoming.goals.length - goals.length,
+        delete: 0,
+      },
+    },
+    transactions,
+    transferMemos: incoming.transferMemos,
+    splitMemos: incoming.splitMemos,
+    rings,
+    goals,
+  };
+}
+
+// ✅ バックアップ内の番号ごとに資金移動・分割の親を作る（バックアップの番号 → 新しい id）
+async function createParents(tx: Prisma.TransactionClient, userKey: string, plan: RestorePlan) {
+  const rows = plan.transactions;
+  const transferIds = new Map<number, number>();
+  for (const [id, idx] of groupIndexes(rows, "transferId")) {
+    const legs = idx.map((i) => rows[i]);
+    const from = legs.find((t) => t.type === "expense")!;
+    const to = legs.find((t) => t.type === "income")!;
+    const transfer = await tx.transfer.create({
+      data: {
+        userKey,
+        amount: from.amount,
+        currency: from.currency,
+        fromCategory: from.category,
+        toCategory: to.category,
+        occurredAt: from.occurredAt,
+        memo: plan.transferMemos.get(id) ?? null,
+      },
+    });
+    transferIds.set(id, transfer.id);
+  }
+
+  const splitIds = new Map<number, number>();
+  for (const [id, idx] of groupIndexes(rows, "splitId")) {
+    const lines = idx.map((i) => rows[i]);
+    const split = await tx.split.create({
+      data: {
+        userKey,
+        type: lines[0].type,
+        amount: lines.reduce((sum, t) => sum + t.amount, 0),
+        currency: lines[0].currency,
+        occurredAt: lines[0].occurredAt,
+        memo: plan.splitMemos.get(id) ?? null,
+      },
+    });
+    splitIds.set(id, split.id);
+  }
+
+  return { transferIds, splitIds };
+}
+
+/**
+ * ✅ 計画を1つのDBトランザクション内で適用する（呼び出し側で $transaction に包む）
+ * - 入れた明細の作成者・履歴は actor
+ * - 資金移動・分割は親を作り直してつなぎ直す（メモはバックアップの transfers / splits から）
+ * - バックアップの誤りは RestoreInputError を投げる（途中まで書いたものは呼び出し側の $transaction ごと取り消される）
+ */
+export async function applyRestorePlan(
+  tx: Prisma.TransactionClient,
+  userKey: string,
+  actor: string,
+  mode: RestoreMode,
+  plan: RestorePlan
+) {
+  let ringOffset = 0;
+
+  if (mode === "replace") {
+    // 明細はゴミ箱へ（履歴に delete が残り、保存期間のうちは戻せる）
+    const live = await tx.transaction.findMany({ where: { userKey, deletedAt: null } });
+    await trashRows(tx, userKey, actor, live);
+    // 明細が1件も無い資金移動・分割は親だけ残っているので消す
+    await tx.transfer.deleteMany({ where: { userKey, legs: { none: {} } } });
+    await tx.split.deleteMany({ where: { userKey, lines: { none: {} } } });
+    await tx.ring.deleteMany({ where: { userKey } });
+    await tx.ringGoal.deleteMany({ where: { userKey } });
+  } else {
+    const last = await tx.ring.findFirst({ where: { userKey }, orderBy: { sortOrder: "desc" } });
+    ringOffset = (last?.sortOrder ?? -1) + 1;
+  }
+
+  if (plan.transactions.length > 0) {
+    const { transferIds, splitIds } = await createParents(tx, userKey, plan);
+
+    // 戻り値は入力と同じ順なので、タグは添字で対応させる
+    const created = await tx.transaction.createManyAndReturn({
+      data: plan.transactions.map((t) => ({
+        userKey,
+        amount: t.amount,
+        currency: t.currency,
+        category: t.category,
+        detailCategory: t.detailCategory,
+        type: t.type,
+        occurredAt: t.occurredAt,
+        createdAt: t.createdAt,
+        createdBy: actor,
+        transferId: t.transferId === null ? null : transferIds.get(t.transferId),
+        splitId: t.splitId === null ? null : splitIds.get(t.splitId),
+      })),
+    });
+
+    await tx.transactionRevision.createMany({
+      data: created.map((t, i) => {
+        const after = snapshotOf({ ...t, tags: plan.transactions[i].tags });
+        return {
+          transactionId: t.id,
+          userKey,
+          actor,
+          action: "create",
+          before: Prisma.JsonNull,
+          after,
+          changes: diffSnapshots(null, after),
+        };
+      }),
+    });
+
+    const tagNames = Array.from(new Set(plan.transactions.flatMap((t) => t.tags)));
+    if (tagNames.length > 0) {
+      const tagIds = new Map((await ensureTags(tx, userKey, tagNames)).map((t) => [t.name, t.id]));
+      await tx.transactionTag.createMany({
+        data: plan.transactions.flatMap((t, i) =>
+          t.tags.map((name) => ({ transactionId: created[i].id, tagId: tagIds.get(name)! }))
+        ),
+        skipDuplicates: true,
+      });
+    }
+
+    for (let i = 0; i < plan.transactions.length; i++) {
+      const added = await addAttachments(tx, userKey, created[i].id, plan.transactions[i].attachments);
+      if (typeof added === "string") {
+        throw new RestoreInputError(`transactions[${plan.transactions[i].index}]: ${added}`);
+      }
+    }
+  }
+  if (plan.rings.length > 0) {
+    await tx.ring.createMany({
+      data: plan.rings.map((r, i) => ({ userKey, ...r, sortOrder: ringOffset + i })),
+    });
+  }
+  if (plan.goals.length > 0) {
+    await tx.ringGoal.createMany({
+      data: plan.goals.map((g) => ({ userKey, ...g })),
+    });
+  }
+}
@@ -0,0 +1,114 @@
+// lib/revisions.ts
+// ✅ 明細の変更履歴（TransactionRevision）を書く/読むための共通処理
+import { Prisma } from "@prisma/client";
+import { DEFAULT_CURRENCY } from "./currency";
+
+export type RevisionAction = "create" | "update" | "delete" | "restore" | "purge" | "revert";
+
+// 履歴に残す項目（PATCH で上書きされるもの）
+export const REVISION_FIELDS = ["amount", "currency", "category", "detailCategory", "type", "occurredAt", "tags"] as const;
+
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+
+export type TransactionSnapshot = {
+  amount: number;
+  currency: string;
+  category: string;
+  detailCategory: string | null;
+  type: string;
+  occurredAt: string; // ISO
+  tags?: string[]; // 名前の昇順（タグ対応より前の履歴には無い）
+};
+
+type SnapshotValue = TransactionSnapshot[RevisionField];
+
+export type RevisionChanges = Partial<Record<RevisionField, { from: SnapshotValue; to: SnapshotValue }>>;
+
+// タグは名前でも、TAGS_INCLUDE で読んだ形（{ tag: { name } }）でもよい
+type TagsLike = Array<string | { tag: { name: string } }>;
+
+export function snapshotOf(t: {
+  amount: number;
+  currency: string;
+  category: string;
+  detailCategory: string | null;
+  type: string;
+  occurredAt: Date;
+  tags: TagsLike;
+}): TransactionSnapshot {
+  return {
+    amount: t.amount,
+    currency: t.currency,
+    category: t.category,
+    detailCategory: t.detailCategory,
+    type: t.type,
+    occurredAt: t.occurredAt.toISOString(),
+    tags: t.tags.map((x) => (typeof x === "string" ? x : x.tag.name)).sort(),
+  };
+}
+
+function sameValue(a: SnapshotValue | null, b: SnapshotValue | null) {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.join("\u0000") === b.join("\u0000");
+  }
+  return a === b;
+}
+
+/**
+ * ✅ 項目ごとの差分（片方が null なら、もう片方の全項目）
+ */
+export function diffSnapshots(before: TransactionSnapshot | null, after: TransactionSnapshot | null): RevisionChanges {
+  const changes: RevisionChanges = {};
+  for (const f of REVISION_FIELDS) {
+    const from = before ? (before[f] ?? null) : null;
+    const to = after ? (after[f] ?? null) : null;
+    if (!sameValue(from, to)) changes[f] = { from, to };
+  }
+  return changes;
+}
+
+/**
+ * ✅ 履歴を1件追記する（明細の更新と同じDBトランザクション内で呼ぶ）
+ */
+export async function recordRevision(
+  tx: Prisma.TransactionClient,
+  rev: {
+    transactionId: number;
+    userKey: string;
+    actor: string;
+    action: RevisionAction;
+    before: TransactionSnapshot | null;
+    after: TransactionSnapshot | null;
+    revertOf?: number;
+  }
+) {
+  return tx.transactionRevision.create({
+    data: {
+      transactionId: rev.transactionId,
+      userKey: rev.userKey,
+      actor: rev.actor,
+      action: rev.action,
+      before: rev.before ?? Prisma.JsonNull,
+      after: rev.after ?? Prisma.JsonNull,
+      changes: diffSnapshots(rev.before, rev.after),
+      revertOf: rev.revertOf ?? null,
+    },
+  });
+}
+
+// JSON 列から取り出した snapshot を検証する（壊れていたら null）
+export function parseSnapshot(value: unknown): TransactionSnapshot | null {
+  if (!value || typeof value !== "object") return null;
+  const v = value as Record<string, unknown>;
+  if (typeof v.amount !== "number" || typeof v.category !== "string" || typeof v.type !== "string") return null;
+  if (typeof v.occurredAt !== "string" || Number.isNaN(new Date(v.occurredAt).getTime())) return null;
+  return {
+    amount: v.amount,
+    currency: typeof v.currency === "string" ? v.currency : DEFAULT_CURRENCY, // 通貨対応より前の履歴は JPY
+    category: v.category,
+    detailCategory: typeof v.detailCategory === "string" ? v.detailCategory : null,
+    type: v.type,
+    occurredAt: v.occurredAt,
+    tags: Array.isArray(v.tags) ? v.tags.filter((x): x is string => typeof x === "string") : undefined,
+  };
+}
@@ -6,30 +6,115 @@ export type RingGoal = {
   target: number;
 };
 
-function key() {
-  const userKey = getOrCreateUserKey();
-  return `miyamuLog:ringGoals:${userKey}`;
+// ✅ 目標の1版（effectiveFrom から次の版までの間だけ有効）
+export type RingGoalVersion = RingGoal & {
+  effectiveFrom: string; // YYYY-MM-DD
+  updatedAt?: string;
+};
+
+// 旧実装は key() に Promise を埋め込んでいたので、全プロフィールがこの1キーを共有していた
+const LEGACY_KEY = "miyamuLog:ringGoals:[object Promise]";
+const MIGRATED_KEY_PREFIX = "miyamuLog:ringGoals:migrated:";
+
+async function request(method: string, query = "", body?: unknown) {
+  const userKey = await getOrCreateUserKey();
+  const res = await fetch(`/api/ring-goals${query}`, {
+    method,
+    headers: {
+      "content-type": "application/json",
+      "x-user-key": userKey,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    cache: "no-store",
+  });
+
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(JSON.stringify(data ?? { error: `${method} /api/ring-goals failed` }));
+  return data;
+}
+
+function parseGoals(arr: unknown): RingGoal[] {
+  if (!Array.isArray(arr)) return [];
+  return arr.map((g) => ({
+    category: String(g.category),
+    target: Number(g.target ?? 0),
+  }));
 }
 
-export function loadRingGoals(): RingGoal[] {
+/**
+ * ✅ asOf（YYYY-MM-DD）時点で有効な目標
+ */
+export async function loadRingGoals(asOf: string): Promise<RingGoal[]> {
   if (typeof window === "undefined") return [];
   try {
-    const raw = localStorage.getItem(key());
-    if (!raw) return [];
-    const arr = JSON.parse(raw);
-    if (!Array.isArray(arr)) return [];
-    return arr.map((g) => ({
-      category: String(g.category),
-      target: Number(g.target ?? 0),
-    }));
-  } catch {
+    return parseGoals(await request("GET", `?asOf=${encodeURIComponent(asOf)}`));
+  } catch (e) {
+    console.warn("ring goals load failed", e);
     return [];
   }
 }
 
-export function saveRingGoals(goals: RingGoal[]) {
+/**
+ * ✅ 1カテゴリの変更履歴（新しい順）
+ */
+export async function loadRingGoalHistory(category: string): Promise<RingGoalVersion[]> {
+  const arr = await request("GET", `?category=${encodeURIComponent(category)}`);
+  if (!Array.isArray(arr)) return [];
+  return arr.map((g) => ({
+    category: String(g.category),
+    target: Number(g.target ?? 0),
+    effectiveFrom: String(g.effectiveFrom ?? ""),
+    updatedAt: g.updatedAt ? String(g.updatedAt) : undefined,
+  }));
+}
+
+/**
+ * ✅ 全カテゴリの全履歴（バックアップ用）
+ */
+export async function loadAllRingGoalVersions(): Promise<RingGoalVersion[]> {
+  const arr = await request("GET", "?all=1");
+  if (!Array.isArray(arr)) return [];
+  return arr.map((g) => ({
+    category: String(g.category),
+    target: Number(g.target ?? 0),
+    effectiveFrom: String(g.effectiveFrom ?? ""),
+  }));
+}
+
+export async function saveRingGoal(category: string, target: number, effectiveFrom: string): Promise<RingGoalVersion> {
+  return (await request("POST", "", { category, target, effectiveFrom })) as RingGoalVersion;
+}
+
+/**
+ * ✅ 履歴ごと置き換える（effectiveFrom 省略の目標は「最初から有効」）
+ */
+export async function replaceRingGoals(goals: Array<RingGoal & { effectiveFrom?: string }>): Promise<void> {
+  await request("PUT", "", { goals });
+}
+
+/**
+ * ✅ 旧 localStorage の目標を、サーバーが空のときだけ一度取り込む
+ * - 旧キーは全プロフィール共通だったので消さずに、userKey ごとに移行済みフラグを立てる
+ */
+export async function migrateLegacyRingGoals(): Promise<void> {
   if (typeof window === "undefined") return;
-  localStorage.setItem(key(), JSON.stringify(goals));
+
+  const userKey = await getOrCreateUserKey();
+  const flagKey = MIGRATED_KEY_PREFIX + userKey;
+
+  try {
+    if (localStorage.getItem(flagKey)) return;
+
+    const legacy = parseGoals(JSON.parse(localStorage.getItem(LEGACY_KEY) ?? "[]"));
+    if (legacy.length > 0) {
+      const current = await request("GET");
+      if (Array.isArray(current) && current.length === 0) await replaceRingGoals(legacy);
+    }
+
+    localStorage.setItem(flagKey, new Date().toISOString());
+  } catch (e) {
+    console.warn("ring goals migration failed", e);
+  }
 }
 
 export function getTarget(goals: RingGoal[], category: string): number {
@@ -43,6 +128,5 @@ export function upsertTarget(goals: RingGoal[], category: string, target: number
   if (idx >= 0) next[idx] = { category, target };
   else next.push({ category, target });
 
-  saveRingGoals(next);
   return next;
-}
\ No newline at end of file
+}
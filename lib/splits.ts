@@ -0,0 +1,162 @@
+// lib/splits.ts
+// ✅ 分割明細：1件の Split（合計・種別・日付）に、カテゴリごとの行（Transaction）をぶら下げる
+// - 集計は行をそのまま数えるので、カテゴリ別の合計はそれぞれの行のカテゴリに入る
+import { Prisma } from "@prisma/client";
+import { recordRevision, snapshotOf } from "./revisions";
+import { loadTagNames } from "./tags";
+import { trashRows } from "./trash";
+import type { SplitInput, SplitLineInput } from "./validators";
+
+function lineData(input: SplitInput, line: SplitLineInput) {
+  return {
+    type: input.type,
+    currency: input.currency,
+    occurredAt: input.occurredAt,
+    amount: line.amount,
+    category: line.category,
+    detailCategory: line.detailCategory,
+  };
+}
+
+function splitData(input: SplitInput) {
+  return {
+    type: input.type,
+    amount: input.amount,
+    currency: input.currency,
+    occurredAt: input.occurredAt,
+    memo: input.memo,
+  };
+}
+
+/**
+ * ✅ 分割明細を作る（呼び出し側で $transaction に包む）
+ */
+export async function createSplit(
+  tx: Prisma.TransactionClient,
+  userKey: string,
+  actor: string,
+  input: SplitInput
+) {
+  const split = await tx.split.create({
+    data: { userKey, ...splitData(input) },
+  });
+
+  const lines = [];
+  for (const line of input.lines) {
+    const row = await tx.transaction.create({
+      data: { userKey, ...lineData(input, line), splitId: split.id, createdBy: actor },
+    });
+    await recordRevision(tx, {
+      transactionId: row.id,
+      userKey,
+      actor,
+      action: "create",
+      before: null,
+      after: snapshotOf({ ...row, tags: [] }),
+    });
+    lines.push(row);
+  }
+
+  return { ...split, lines };
+}
+
+// 行の中身が変わったか（変わっていない行は書き換えず、履歴も残さない）
+function sameLine(row: Prisma.TransactionGetPayload<object>, data: ReturnType<typeof lineData>) {
+  return (
+    row.type === data.type &&
+    row.currency === data.currency &&
+    row.occurredAt.getTime() === data.occurredAt.getTime() &&
+    row.amount === data.amount &&
+    row.category === data.category &&
+    row.detailCategory === data.detailCategory
+  );
+}
+
+/**
+ * ✅ 分割明細を書き換える（呼び出し側で $transaction に包む）
+ * - 行は id で対応させる（id の無い行は作り、渡されなかった行はゴミ箱へ）
+ * - expected は Split の version。違っていたら { conflict: true }
+ * - ゴミ箱に入っている分割明細は null、他の分割の行の id が混ざっていたらエラーメッセージ
+ */
+export async function updateSplit(
+  tx: Prisma.TransactionClient,
+  userKey: string,
+  actor: string,
+  id: number,
+  expected: number,
+  input: SplitInput
+) {
+  const current = await tx.transaction.findMany({
+    where: { splitId: id, userKey, deletedAt: null },
+    orderBy: { id: "asc" },
+  });
+  if (current.length === 0) return null;
+
+  const byId = new Map(current.map((t) => [t.id, t]));
+  const keptIds = input.lines.flatMap((l) => (l.id === null ? [] : [l.id]));
+  if (keptIds.some((lineId) => !byId.has(lineId))) return "lines[].id must be a line of this split";
+  if (new Set(keptIds).size !== keptIds.length) return "lines[].id must not repeat";
+
+  // version が一致したときだけ更新（同時に来た方は count 0 になる）
+  const claimed = await tx.split.updateMany({
+    where: { id, userKey, version: expected },
+    data: { ...splitData(input), version: { increment: 1 } },
+  });
+  if (claimed.count === 0) return { conflict: true as const };
+  const split = await tx.split.findUniqueOrThrow({ where: { id } });
+
+  const tags = await loadTagNames(tx, current.map((t) => t.id));
+  const lines = [];
+  for (const line of input.lines) {
+    const data = lineData(input, line);
+    const before = line.id === null ? undefined : byId.get(line.id);
+
+    if (!before) {
+      const row = await tx.transaction.create({
+        data: { userKey, ...data, splitId: id, createdBy: actor },
+      });
+      await recordRevision(tx, {
+        transactionId: row.id,
+        userKey,
+        actor,
+        action: "create",
+        before: null,
+        after: snapshotOf({ ...row, tags: [] }),
+      });
+      lines.push(row);
+      continue;
+    }
+
+    if (sameLine(before, data)) {
+      lines.push(before);
+      continue;
+    }
+
+    const updated = await tx.transaction.update({
+      where: { id: before.id },
+      data: { ...data, version: { increment: 1 } },
+    });
+    await recordRevision(tx, {
+      transactionId: before.id,
+      userKey,
+      actor,
+      action: "update",
+      before: snapshotOf({ ...before, tags: tags.get(before.id) ?? [] }),
+      after: snapshotOf({ ...updated, tags: tags.get(before.id) ?? [] }),
+    });
+    lines.push(updated);
+  }
+
+  // 減った行は分割から外してゴミ箱へ（戻したときは1件の明細になるので、分割の合計は崩れない）
+  const kept = new Set(keptIds);
+  const removed = current.filter((t) => !kept.has(t.id));
+  if (removed.length > 0) {
+    await tx.transaction.updateMany({
+      where: { id: { in: removed.map((t) => t.id) } },
+      data: { splitId: null },
+    });
+    await trashRows(tx, userKey, actor, removed);
+  }
+
+  return { conflict: false as const, split: { ...split, lines } };
+}
@@ -0,0 +1,188 @@
+// lib/statements.ts
+// ✅ 銀行・クレジットカードの明細 CSV の読み取り（金融機関ごとの列の並びをパーサーとして登録する）
+// - 読み取った行はレビュー画面でリングを割り当ててから /api/transactions/import で取り込む
+// - クライアントで使う（DB には触らない）
+import { findColumn, normalizeHeader, parseCsvAmount, parseDateAs, type DateFormat } from "./csv";
+import type { TxType } from "./validators";
+
+export type StatementRow = {
+  occurredAt: string; // "YYYY-MM-DD"
+  type: TxType;
+  amount: number; // 円（正の数）
+  description: string; // 摘要・利用店名 → detailCategory
+};
+
+export type StatementParser = {
+  id: string;
+  label: string;
+  // 見出しの無い CSV（1行目から明細）
+  headerless?: boolean;
+  // この見出し行なら読める
+  detect: (header: string[]) => boolean;
+  // 明細でない行（繰越・合計など）は null
+  parseRow: (row: string[], header: string[]) => StatementRow | null;
+};
+
+// 日本の明細で使われる日付の形式（順に試す）
+const STATEMENT_DATE_FORMATS: DateFormat[] = ["YMD", "JP", "YYYYMMDD"];
+
+export function parseStatementDate(value: string): string | null {
+  for (const f of STATEMENT_DATE_FORMATS) {
+    const d = parseDateAs(value, f);
+    if (d) return d;
+  }
+  return null;
+}
+
+function findColumns(header: string[], names: string[]) {
+  const wanted = new Set(names.map(normalizeHeader));
+  return header.flatMap((h, i) => (wanted.has(normalizeHeader(h)) ? [i] : []));
+}
+
+const cellAt = (row: string[], i: number) => (i >= 0 ? (row[i] ?? "").trim() : "");
+
+// 空欄は 0（出金・入金の片方だけ埋まっている銀行の明細）
+function amountAt(row: string[], i: number) {
+  const s = cellAt(row, i);
+  return s ? parseCsvAmount(s) : 0;
+}
+
+function toRow(date: string | null, signed: number | null, description: string): StatementRow | null {
+  if (!date || signed === null || signed === 0) return null;
+  return { occurredAt: date, type: signed < 0 ? "expense" : "income", amount: Math.abs(signed), description };
+}
+
+type ColumnLayout = {
+  id: string;
+  label: string;
+  date: string[];
+  description: string[];
+} & (
+  | { kind: "card"; amount: string[] } // 金額は支出（マイナスは返金 → 収入）
+  | { kind: "signed"; amount: string[] } // 入金はプラス・出金はマイナス
+  | { kind: "split"; debit: string[]; credit: string[] } // 出金・入金が別の列
+);
+
+/**
+ * ✅ 見出しの名前で列を探すパーサーを作る（見出しの候補は金融機関ごとの表記ゆれ）
+ */
+export function columnParser(layout: ColumnLayout): StatementParser {
+  const columns = (header: string[]) => ({
+    date: findColumn(header, layout.date),
+    // 「摘要」「摘要内容」のように分かれていれば続けてつなぐ
+    description: findColumns(header, layout.description),
+    amount: layout.kind === "split" ? -1 : findColumn(header, layout.amount),
+    debit: layout.kind === "split" ? findColumn(header, layout.debit) : -1,
+    credit: layout.kind === "split" ? findColumn(header, layout.credit) : -1,
+  });
+
+  return {
+    id: layout.id,
+    label: layout.label,
+    detect: (header) => {
+      const c = columns(header);
+      if (c.date < 0) return false;
+      return layout.kind === "split" ? c.debit >= 0 && c.credit >= 0 : c.amount >= 0;
+    },
+    parseRow: (row, header) => {
+      const c = columns(header);
+      const date = parseStatementDate(cellAt(row, c.date));
+      const description = c.description
+        .map((i) => cellAt(row, i))
+        .filter(Boolean)
+        .join(" ");
+
+      if (layout.kind === "split") {
+        const debit = amountAt(row, c.debit);
+        const credit = amountAt(row, c.credit);
+        if (debit === null || credit === null) return null;
+        return toRow(date, credit - debit, description);
+      }
+
+      const amount = amountAt(row, c.amount);
+      if (amount === null) return null;
+      return toRow(date, layout.kind === "card" ? -amount : amount, description);
+    },
+  };
+}
+
+// 見出しの無いカード明細（三井住友カードの Vpass など）：日付・利用店名・利用金額の順
+const headerlessCard: StatementParser = {
+  id: "card_headerless",
+  label: "クレジットカード（見出しなし：日付・利用店名・金額の順）",
+  headerless: true,
+  detect: () => false,
+  parseRow: (row) => {
+    const amount = amountAt(row, 2);
+    if (amount === null) return null;
+    return toRow(parseStatementDate(cellAt(row, 0)), -amount, cellAt(row, 1));
+  },
+};
+
+/**
+ * ✅ 登録されているパーサー（自動判定はこの順に試す）
+ */
+export const STATEMENT_PARSERS: StatementParser[] = [
+  columnParser({
+    id: "bank_split",
+    label: "銀行（出金・入金が別の列）",
+    kind: "split",
+    date: ["日付", "年月日", "取引日", "お取引日", "お取り扱い日", "取扱日", "お取引日付"],
+    description: ["摘要", "摘要内容", "お取り扱い内容", "お取引内容", "取引内容", "内容", "詳細1", "詳細"],
+    debit: ["支払い金額", "お支払金額", "出金金額", "お引出し", "お引出し金額", "払出金額", "出金"],
+    credit: ["預かり金額", "お預り金額", "入金金額", "お預入れ", "お預入れ金額", "受入金額", "入金"],
+  }),
+  columnParser({
+    id: "bank_signed",
+    label: "銀行（入出金が1つの列：出金はマイナス）",
+    kind: "signed",
+    date: ["日付", "年月日", "取引日", "お取引日"],
+    description: ["入出金内容", "摘要", "取引内容", "内容"],
+    amount: ["入出金", "入出金額", "取引金額"],
+  }),
+  columnParser({
+    id: "card",
+    label: "クレジットカード（利用日・利用店名・利用金額）",
+    kind: "card",
+    date: ["利用日", "ご利用日", "利用年月日", "ご利用年月日", "日付"],
+    description: ["利用店名・商品名", "ご利用店名・商品名", "利用店名", "ご利用店名", "ご利用先", "摘要", "内容"],
+    amount: ["利用金額", "ご利用金額", "金額", "支払総額", "お支払金額"],
+  }),
+  headerlessCard,
+];
+
+export type StatementParseResult = {
+  parser: StatementParser;
+  rows: StatementRow[];
+  skipped: number; // 明細として読めなかった行（繰越・合計・空欄など）
+};
+
+/**
+ * ✅ CSV の行 → 明細
+ * - 見出しは先頭の数行から探す（口座番号などの前置きがある明細のため）
+ * - parserId を渡すとそのパーサーで読む。渡さなければ自動判定（どれも合わなければ null）
+ */
+export function parseStatement(table: string[][], parserId?: string): StatementParseResult | null {
+  const candidates = parserId ? STATEMENT_PARSERS.filter((p) => p.id === parserId) : STATEMENT_PARSERS;
+
+  for (const parser of candidates) {
+    let headerIndex = -1;
+    if (!parser.headerless) {
+      headerIndex = table.slice(0, 20).findIndex((row) => parser.detect(row));
+      if (headerIndex < 0) continue;
+    }
+
+    const header = headerIndex >= 0 ? table[headerIndex] : [];
+    const body = table.slice(headerIndex + 1);
+    const rows: StatementRow[] = [];
+    for (const r of body) {
+      const row = parser.parseRow(r, header);
+      if (row) rows.push(row);
+    }
+    // 見出しなしは、半分以上の行が読めた時だけ自動判定で選ぶ
+    if (parser.headerless && !parserId && (rows.length === 0 || rows.length * 2 < body.length)) continue;
+
+    return { parser, rows, skipped: body.length - rows.length };
+  }
+  return null;
+}
@@ -0,0 +1,55 @@
+// lib/summary.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { carryOverTotal, summarizeRows, type SummaryRow } from "./summary";
+
+const A = "ring:a";
+const B = "ring:b";
+
+const salary: SummaryRow = { category: A, type: "income", amount: 300_000, transferId: null };
+const rent: SummaryRow = { category: A, type: "expense", amount: 80_000, transferId: null };
+// A → B に 50,000 円の資金移動（出金側・入金側の2明細）
+const transferLegs: SummaryRow[] = [
+  { category: A, type: "expense", amount: 50_000, transferId: 1 },
+  { category: B, type: "income", amount: 50_000, transferId: 1 },
+];
+
+function carryRings(byCategory: ReturnType<typeof summarizeRows>["byCategory"]) {
+  return [A, B].map((category) => ({ carryOver: true, sums: byCategory[category] ?? { balance: 0 } }));
+}
+
+describe("summarizeRows", () => {
+  it("資金移動は出金側のリングを減らし、入金側のリングを増やす", () => {
+    const before = summarizeRows([salary, rent]).byCategory;
+    const after = summarizeRows([salary, rent, ...transferLegs]).byCategory;
+
+    assert.equal(after[A].balance, before[A].balance - 50_000);
+    assert.equal(after[B].balance, 50_000);
+  });
+
+  it("累計リング同士の資金移動では資産の合計は変わらない", () => {
+    const before = carryOverTotal(carryRings(summarizeRows([salary, rent]).byCategory));
+    const after = carryOverTotal(carryRings(summarizeRows([salary, rent, ...transferLegs]).byCategory));
+
+    assert.equal(before, 220_000);
+    assert.equal(after, before);
+  });
+
+  it("収入/支出の合計には資金移動を入れない", () => {
+    assert.deepEqual(summarizeRows([salary, rent, ...transferLegs]).total, {
+      income: 300_000,
+      expense: 80_000,
+      balance: 220_000,
+    });
+  });
+
+  it("累計でないリングは資産の合計に入れない", () => {
+    assert.equal(
+      carryOverTotal([
+        { carryOver: true, sums: { balance: 1_000 } },
+        { carryOver: false, sums: { balance: 500 } },
+      ]),
+      1_000
+    );
+  });
+});
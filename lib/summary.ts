@@ -0,0 +1,55 @@
+// lib/summary.ts
+// ✅ 集計の計算（/api/summary と画面で共通。DB には触らない）
+// - カテゴリ別（リング別）の合計には資金移動の2明細も入れる → 出金側が減り、入金側が増える
+// - 収入/支出の合計には資金移動を入れない（お金が外から入った/外へ出たわけではない）
+
+export type CategorySums = { income: number; expense: number; balance: number };
+
+export type IncomeExpense = { income: number; expense: number; balance: number };
+
+// 金額は集計通貨の最小単位に換算済み
+export type SummaryRow = {
+  category: string | null;
+  type: string;
+  amount: number;
+  transferId: number | null;
+};
+
+export function addToCategorySums(map: Record<string, CategorySums>, category: string | null, type: string, amount: number) {
+  const cat = (category ?? "").trim();
+  if (!cat) return;
+  const cur = map[cat] ?? { income: 0, expense: 0, balance: 0 };
+  if (type === "income") cur.income += amount;
+  else cur.expense += amount;
+  cur.balance = cur.income - cur.expense;
+  map[cat] = cur;
+}
+
+/**
+ * ✅ 明細 → カテゴリ別の合計 + 収入/支出の合計（資金移動は後者にだけ入れない）
+ */
+export function summarizeRows(rows: Iterable<SummaryRow>): { byCategory: Record<string, CategorySums>; total: IncomeExpense } {
+  const byCategory: Record<string, CategorySums> = {};
+  let income = 0;
+  let expense = 0;
+  for (const r of rows) {
+    addToCategorySums(byCategory, r.category, r.type, r.amount);
+    if (r.transferId !== null) continue;
+    if (r.type === "income") income += r.amount;
+    else expense += r.amount;
+  }
+  return { byCategory, total: { income, expense, balance: income - expense } };
+}
+
+/**
+ * ✅ 資産の合計 = 累計（carryOver）リングの残高の合計
+ * - 累計リング同士の資金移動は、出金側と入金側で打ち消し合うので合計は変わらない
+ */
+export function carryOverTotal(rings: Iterable<{ carryOver?: boolean; sums: { balance: number } }>): number {
+  let total = 0;
+  for (const r of rings) {
+    if (!r.carryOver) continue;
+    total += r.sums.balance;
+  }
+  return total;
+}
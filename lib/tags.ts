@@ -0,0 +1,60 @@
+// lib/tags.ts
+// ✅ 明細のタグ（Tag / TransactionTag）
+// - API では明細に tags: string[]（タグ名）として付けて返す
+import { Prisma } from "@prisma/client";
+
+// findMany / create などの include にそのまま渡す
+export const TAGS_INCLUDE = {
+  tags: { include: { tag: true }, orderBy: { tag: { name: "asc" } } },
+} satisfies Prisma.TransactionInclude;
+
+type WithTagLinks = { tags: Array<{ tag: { name: string } }> };
+
+// { ..., tags: [{ tag: { name } }] } → { ..., tags: ["name"] }
+export function withTagNames<T extends WithTagLinks>(row: T): Omit<T, "tags"> & { tags: string[] } {
+  return { ...row, tags: row.tags.map((t) => t.tag.name) };
+}
+
+// 明細 id → タグ名（名前の昇順）。include しないで読んだ明細の履歴用
+export async function loadTagNames(tx: Prisma.TransactionClient, transactionIds: number[]) {
+  const links = await tx.transactionTag.findMany({
+    where: { transactionId: { in: transactionIds } },
+    include: { tag: true },
+  });
+  const map = new Map<number, string[]>();
+  for (const l of links) map.set(l.transactionId, [...(map.get(l.transactionId) ?? []), l.tag.name]);
+  return map;
+}
+
+// すべてのタグを持つ明細だけ（?tag=旅行2026&tag=経費）
+export function tagsWhere(names: string[]): Prisma.TransactionWhereInput[] {
+  return names.map((name) => ({ tags: { some: { tag: { name } } } }));
+}
+
+/**
+ * ✅ 明細のタグを names に置き換える（無いタグは作る）。呼び出し側で $transaction に包む
+ */
+export async function setTransactionTags(
+  tx: Prisma.TransactionClient,
+  userKey: string,
+  transactionId: number,
+  names: string[]
+) {
+  await tx.transactionTag.deleteMany({ where: { transactionId } });
+  if (names.length === 0) return;
+
+  const tags = await ensureTags(tx, userKey, names);
+  await tx.transactionTag.createMany({
+    data: tags.map((t) => ({ transactionId, tagId: t.id })),
+    skipDuplicates: true,
+  });
+}
+
+// 名前 → Tag（無ければ作る）
+export async function ensureTags(tx: Prisma.TransactionClient, userKey: string, names: string[]) {
+  await tx.tag.createMany({
+    data: names.map((name) => ({ userKey, name })),
+    skipDuplicates: true,
+  });
+  return tx.tag.findMany({ where: { userKey, name: { in: names } } });
+}
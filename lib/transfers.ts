@@ -0,0 +1,101 @@
+// lib/transfers.ts
+// ✅ 資金移動：1件の Transfer に「出金（expense）」と「入金（income）」の2明細をぶら下げる
+// - 2明細は必ず同じ金額・同じ日付なので、総資産の合計では打ち消し合う
+import { Prisma } from "@prisma/client";
+import { recordRevision, snapshotOf } from "./revisions";
+import { TAGS_INCLUDE } from "./tags";
+import type { TransferInput } from "./validators";
+
+// 内訳を書かなかったときの表示
+export const TRANSFER_DETAIL = "資金移動";
+
+function legData(input: TransferInput) {
+  const detailCategory = input.memo ?? TRANSFER_DETAIL;
+  const common = { amount: input.amount, currency: input.currency, occurredAt: input.occurredAt, detailCategory };
+  return [
+    { type: "expense", category: input.fromCategory, ...common },
+    { type: "income", category: input.toCategory, ...common },
+  ] as const;
+}
+
+/**
+ * ✅ 資金移動を作る（呼び出し側で $transaction に包む）
+ */
+export async function createTransfer(
+  tx: Prisma.TransactionClient,
+  userKey: string,
+  actor: string,
+  input: TransferInput
+) {
+  const transfer = await tx.transfer.create({
+    data: { userKey, ...input },
+  });
+
+  const legs = [];
+  for (const leg of legData(input)) {
+    const row = await tx.transaction.create({
+      data: { userKey, ...leg, transferId: transfer.id, createdBy: actor },
+    });
+    await recordRevision(tx, {
+      transactionId: row.id,
+      userKey,
+      actor,
+      action: "create",
+      before: null,
+      after: snapshotOf({ ...row, tags: [] }),
+    });
+    legs.push(row);
+  }
+
+  return { ...transfer, legs };
+}
+
+/**
+ * ✅ 資金移動を書き換える（2明細も一緒に）
+ * - expected は Transfer の version。違っていたら { conflict: true }
+ * - ゴミ箱に入っている資金移動は null
+ */
+export async function updateTransfer(
+  tx: Prisma.TransactionClient,
+  userKey: string,
+  actor: string,
+  id: number,
+  expected: number,
+  input: TransferInput
+) {
+  const legs = await tx.transaction.findMany({
+    where: { transferId: id, userKey, deletedAt: null },
+    include: TAGS_INCLUDE,
+    orderBy: { id: "asc" },
+  });
+  if (legs.length === 0) return null;
+
+  // version が一致したときだけ更新（同時に来た方は count 0 になる）
+  const claimed = await tx.transfer.updateMany({
+    where: { id, userKey, version: expected },
+    data: { ...input, version: { increment: 1 } },
+  });
+  if (claimed.count === 0) return { conflict: true as const };
+  const transfer = await tx.transfer.findUniqueOrThrow({ where: { id } });
+
+  const next = legData(input);
+  const updatedLegs = [];
+  for (const current of legs) {
+    const leg = next.find((l) => l.type === current.type) ?? next[0];
+    const updated = await tx.transaction.update({
+      where: { id: current.id },
+      data: { ...leg, version: { increment: 1 } },
+    });
+    await recordRevision(tx, {
+      transactionId: current.id,
+      userKey,
+      actor,
+      action: "update",
+      before: snapshotOf(current),
+      after: snapshotOf({ ...updated, tags: current.tags }),
+    });
+    updatedLegs.push(updated);
+  }
+
+  return { conflict: false as const, transfer: { ...transfer, legs: updatedLegs } };
+}
@@ -0,0 +1,163 @@
+// lib/trash.ts
+// ✅ 明細のゴミ箱（deletedAt が入っている明細）
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { diffSnapshots, recordRevision, snapshotOf } from "./revisions";
+import { loadTagNames, TAGS_INCLUDE } from "./tags";
+
+// ✅ ゴミ箱に残す日数（TRASH_RETENTION_DAYS で変更可）
+export const TRASH_RETENTION_DAYS = (() => {
+  const n = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(n) && n > 0 ? n : 30;
+})();
+
+export function trashExpiresAt(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// これより前に消した明細は保存期間切れ
+export function trashCutoff(): Date {
+  return new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+type TxRow = Prisma.TransactionGetPayload<object>;
+
+// 資金移動の片側・分割明細の1行なら、同じ組の明細も一緒に扱う
+async function withLinkedRows(tx: Prisma.TransactionClient, row: TxRow, inTrash: boolean) {
+  const group = row.transferId ? { transferId: row.transferId } : row.splitId ? { splitId: row.splitId } : null;
+  if (!group) return [row];
+  return tx.transaction.findMany({
+    where: { userKey: row.userKey, ...group, deletedAt: inTrash ? { not: null } : null },
+    orderBy: { id: "asc" },
+  });
+}
+
+/**
+ * ✅ 渡した明細だけをゴミ箱へ入れる（同じ組はたどらない）。呼び出し側で $transaction に包む
+ */
+export async function trashRows(tx: Prisma.TransactionClient, userKey: string, actor: string, rows: TxRow[]) {
+  const deletedAt = new Date();
+  if (rows.length === 0) return deletedAt;
+
+  const ids = rows.map((t) => t.id);
+  const tags = await loadTagNames(tx, ids);
+  await tx.transaction.updateMany({
+    where: { id: { in: ids } },
+    data: { deletedAt, version: { increment: 1 } },
+  });
+  await tx.transactionRevision.createMany({
+    data: rows.map((t) => {
+      const before = snapshotOf({ ...t, tags: tags.get(t.id) ?? [] });
+      return {
+        transactionId: t.id,
+        userKey,
+        actor,
+        action: "delete",
+        before,
+        after: Prisma.JsonNull,
+        changes: diffSnapshots(before, null),
+      };
+    }),
+  });
+  return deletedAt;
+}
+
+/**
+ * ✅ ゴミ箱へ入れる（資金移動・分割明細は組ごとまとめて）。呼び出し側で $transaction に包む
+ */
+export async function moveToTrash(tx: Prisma.TransactionClient, userKey: string, actor: string, row: TxRow) {
+  const rows = await withLinkedRows(tx, row, false);
+  const deletedAt = await trashRows(tx, userKey, actor, rows);
+  return { deletedAt, ids: rows.map((t) => t.id) };
+}
+
+/**
+ * ✅ ゴミ箱から戻す（資金移動・分割明細は組ごとまとめて）。戻した明細を返す
+ */
+export async function restoreFromTrash(tx: Prisma.TransactionClient, userKey: string, actor: string, row: TxRow) {
+  const rows = await withLinkedRows(tx, row, true);
+  const restored = [];
+  for (const t of rows) {
+    const r = await tx.transaction.update({
+      where: { id: t.id },
+      data: { deletedAt: null, version: { increment: 1 } },
+      include: TAGS_INCLUDE,
+    });
+    await recordRevision(tx, {
+      transactionId: t.id,
+      userKey,
+      actor,
+      action: "restore",
+      before: null,
+      after: snapshotOf(r),
+    });
+    restored.push(r);
+  }
+  return restored;
+}
+
+/**
+ * ✅ ゴミ箱の明細を完全に消す（履歴には purge として残す）
+ * - where はゴミ箱の中だけに絞ってから使う
+ */
+export async function purgeTrash(userKey: string, actor: string, where: Prisma.TransactionWhereInput = {}) {
+  return prisma.$transaction(async (tx) => {
+    const matched = await tx.transaction.findMany({
+      where: { AND: [{ userKey, deletedAt: { not: null } }, where] },
+      include: TAGS_INCLUDE,
+    });
+    if (matched.length === 0) return 0;
+
+    // 資金移動の片側・分割明細の1行だけ消すと組が崩れるので、同じ組（ゴミ箱内）も消す
+    const transferIds = Array.from(new Set(matched.map((t) => t.transferId).filter((x): x is number => x !== null)));
+    const splitIds = Array.from(new Set(matched.map((t) => t.splitId).filter((x): x is number => x !== null)));
+    const linked =
+      transferIds.length > 0 || splitIds.length > 0
+        ? await tx.transaction.findMany({
+            where: {
+              userKey,
+              deletedAt: { not: null },
+              OR: [{ transferId: { in: transferIds } }, { splitId: { in: splitIds } }],
+            },
+            include: TAGS_INCLUDE,
+          })
+        : [];
+    const rows = Array.from(new Map([...matched, ...linked].map((t) => [t.id, t])).values());
+
+    await tx.transaction.deleteMany({
+      where: { id: { in: rows.map((t) => t.id) } },
+    });
+    await tx.transactionRevision.createMany({
+      data: rows.map((t) => {
+        const before = snapshotOf(t);
+        return {
+          transactionId: t.id,
+          userKey,
+          actor,
+          action: "purge",
+          before,
+          after: Prisma.JsonNull,
+          changes: diffSnapshots(before, null),
+        };
+      }),
+    });
+    if (transferIds.length > 0) {
+      await tx.transfer.deleteMany({
+        where: { userKey, id: { in: transferIds }, legs: { none: {} } },
+      });
+    }
+    if (splitIds.length > 0) {
+      await tx.split.deleteMany({
+        where: { userKey, id: { in: splitIds }, lines: { none: {} } },
+      });
+    }
+    return rows.length;
+  });
+}
+
+/**
+ * ✅ 保存期間を過ぎた明細を完全に消す（削除・ゴミ箱の操作など、書き込みのときだけ呼ぶ。GET では呼ばない）
+ */
+export async function purgeExpiredTrash(userKey: string): Promise<number> {
+  return purgeTrash(userKey, "system", { deletedAt: { lt: trashCutoff() } });
+}
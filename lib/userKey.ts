@@ -1,4 +1,6 @@
 // lib/userKey.ts
+import { normalizeUserKey } from "./identity";
+
 const STORAGE_KEY = "miyamu_budget_user_key";
 const NAME_KEY_PREFIX = "miyamu_budget_user_name:";
 
@@ -37,6 +39,11 @@ function gen32hex() {
   return (hex() + hex() + hex() + hex()).slice(0, 32);
 }
 
+// ✅ 送信1回ぶんの Idempotency-Key（再送・連打では同じキーを使い回す）
+export function newIdempotencyKey() {
+  return gen32hex();
+}
+
 // ✅ 絶対に throw しない版
 export async function getOrCreateUserKey(): Promise<string> {
   if (cached) return cached;
@@ -49,9 +56,9 @@ export async function getOrCreateUserKey(): Promise<string> {
 
   // 1) 既存を読む
   try {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved && saved.trim()) {
-      cached = saved.trim();
+    const saved = normalizeUserKey(localStorage.getItem(STORAGE_KEY));
+    if (saved) {
+      cached = saved;
       return cached;
     }
   } catch {
@@ -68,4 +75,15 @@ export async function getOrCreateUserKey(): Promise<string> {
 
   cached = key;
   return cached;
-}
\ No newline at end of file
+}
+
+// ✅ サーバーの cookie にも同じ userKey を入れる（ヘッダを付けられない直リンク用。失敗しても続行）
+export async function syncUserKeyCookie(key: string) {
+  try {
+    await fetch("/api/user-key", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ userKey: key }),
+    });
+  } catch {}
+}
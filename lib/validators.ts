@@ -0,0 +1,494 @@
+// lib/validators.ts
+// ✅ API の入力チェック（transactions / rings / ring-goals / restore で共通）
+import { parseAmountExpression } from "./amount";
+import { parseOccurredAt } from "./api";
+import { IMPORT_SOURCES, MAX_SOURCE_CATEGORY_LENGTH, type ImportSource } from "./appImports";
+import { CURRENCIES, DEFAULT_CURRENCY, normalizeCurrency } from "./currency";
+import { HOUSEHOLD_ROLES, type HouseholdRole } from "./households";
+
+export type TxType = "income" | "expense";
+
+// 文字列はクライアントの入力欄と同じ式を読む（「1万2千」「1200+800」）。読めなければ NaN
+export function parseAmount(value: unknown): number {
+  if (typeof value === "number") return value;
+  return parseAmountExpression(String(value ?? "")) ?? NaN;
+}
+
+// 金額の上限（DB の Int = 32bit 符号付きに入る最大値。通貨の最小単位で比べる）
+export const MAX_AMOUNT = 2_147_483_647;
+
+// 省略時は JPY
+export function parseCurrency(value: unknown): string | null {
+  if (value === undefined || value === null || value === "") return DEFAULT_CURRENCY;
+  return normalizeCurrency(value);
+}
+
+// =========================
+// ✅ Transaction
+// =========================
+export type TransactionInput = {
+  amount: number; // 通貨の最小単位
+  currency: string;
+  category: string;
+  detailCategory: string | null;
+  type: TxType;
+  occurredAt: Date | null;
+};
+
+// エラー時はメッセージ文字列を返す
+export function parseTransactionInput(body: Record<string, unknown>): TransactionInput | string {
+  const amount = parseAmount(body.amount);
+  const category = String(body.category ?? "").trim();
+
+  const detailCategoryRaw = String(body.detailCategory ?? "").trim();
+  const detailCategory = detailCategoryRaw ? detailCategoryRaw.slice(0, 64) : null;
+
+  const type = body.type as TxType;
+  const occurredAt = parseOccurredAt(body.occurredAt);
+  const currency = parseCurrency(body.currency);
+
+  if (!Number.isFinite(amount) || amount <= 0) return "amount must be a positive number";
+  if (amount > MAX_AMOUNT) return `amount must be at most ${MAX_AMOUNT}`;
+  if (!category) return "category is required";
+  if (type !== "income" && type !== "expense") return 'type must be "income" or "expense"';
+  if (!currency) return `currency must be one of ${CURRENCIES.join(", ")}`;
+
+  return { amount: Math.trunc(amount), currency, category, detailCategory, type, occurredAt };
+}
+
+// =========================
+// ✅ タグ
+// =========================
+export const MAX_TAGS_PER_TRANSACTION = 10;
+export const MAX_TAG_LENGTH = 32;
+
+// ["旅行2026", "#経費"] / "旅行2026, 経費" → ["旅行2026", "経費"]
+// - 省略（undefined）は null：PATCH では今のタグをそのまま残す
+export function parseTagNames(value: unknown): string[] | null | string {
+  if (value === undefined) return null;
+  if (value === null || value === "") return [];
+
+  const raw = Array.isArray(value) ? value : String(value).split(/[,、\s]+/);
+  const names: string[] = [];
+  for (const v of raw) {
+    const name = String(v ?? "").trim().replace(/^#/, "");
+    if (!name) continue;
+    if (name.length > MAX_TAG_LENGTH) return `each tag must be at most ${MAX_TAG_LENGTH} chars`;
+    if (!names.includes(name)) names.push(name);
+  }
+  if (names.length > MAX_TAGS_PER_TRANSACTION) return `at most ${MAX_TAGS_PER_TRANSACTION} tags per transaction`;
+  return names;
+}
+
+// =========================
+// ✅ Ring（追加リング定義）
+// =========================
+
+// ✅ 固定3 + 追加7 = 合計10（クライアントの MAX_EXTRA_RINGS と合わせる）
+export const MAX_RINGS = 7;
+
+export const RING_MODES = ["both", "income_only", "expense_only"] as const;
+export const RING_TYPES = ["asset", "debt"] as const;
+export const CHAR_MODES = ["auto", "mofu", "hina", "none"] as const;
+
+export type RingInput = {
+  ringKey: string;
+  title: string;
+  mode: string;
+  color: string;
+  carryOver: boolean;
+  ringType: string;
+  charMode: string;
+};
+
+function pick<T extends string>(list: readonly T[], value: unknown, fallback: T): T {
+  return list.includes(value as T) ? (value as T) : fallback;
+}
+
+export function normalizeRingKey(value: unknown): string | null {
+  const k = String(value ?? "").trim();
+  if (!k || k.length > 64) return null;
+  return k;
+}
+
+// ✅ 作成/置き換え用：足りない項目はデフォルトで埋める
+export function parseRingInput(body: Record<string, unknown>): RingInput | string {
+  const ringKey = normalizeRingKey(body.ringKey);
+  if (!ringKey) return "ringKey is required (max 64 chars)";
+
+  const title = String(body.title ?? "").trim().slice(0, 24) || "追加リング";
+  const color = typeof body.color === "string" && body.color.trim() ? body.color.trim().slice(0, 32) : "#60a5fa";
+
+  return {
+    ringKey,
+    title,
+    mode: pick(RING_MODES, body.mode, "both"),
+    color,
+    carryOver: !!body.carryOver,
+    ringType: pick(RING_TYPES, body.ringType, "asset"),
+    charMode: pick(CHAR_MODES, body.charMode, "auto"),
+  };
+}
+
+// =========================
+// ✅ RingGoal（適用開始日つきの目標）
+// =========================
+
+// ✅ 適用開始日を省略した目標は「最初から」有効
+export const GOAL_EPOCH = new Date("1970-01-01");
+
+export type GoalInput = {
+  category: string;
+  target: number;
+  effectiveFrom: Date;
+};
+
+export function parseGoalInput(body: Record<string, unknown>): GoalInput | string {
+  const category = String(body.category ?? "").trim();
+  if (!category) return "category is required";
+
+  const target = Number(body.target);
+  if (!Number.isFinite(target) || target < 0) return "target must be a non-negative number";
+
+  let effectiveFrom = GOAL_EPOCH;
+  if (body.effectiveFrom) {
+    const d = parseOccurredAt(body.effectiveFrom);
+    if (!d) return "effectiveFrom must be a date (YYYY-MM-DD)";
+    effectiveFrom = d;
+  }
+
+  return { category, target: Math.trunc(target), effectiveFrom };
+}
+
+// =========================
+// ✅ RecurringRule（定期明細）
+// =========================
+export const RECURRING_FREQUENCIES = ["monthly", "weekly", "yearly", "last_business_day"] as const;
+
+export type RecurringFrequency = (typeof RECURRING_FREQUENCIES)[number];
+
+export type RecurringRuleInput = {
+  title: string;
+  type: TxType;
+  amount: number;
+  currency: string;
+  category: string;
+  detailCategory: string | null;
+  frequency: RecurringFrequency;
+  interval: number;
+  dayOfMonth: number | null;
+  dayOfWeek: number | null;
+  monthOfYear: number | null;
+  startDate: Date;
+  endDate: Date | null;
+  paused: boolean;
+};
+
+function intIn(value: unknown, min: number, max: number): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) return null;
+  return n;
+}
+
+export function parseRecurringRuleInput(body: Record<string, unknown>): RecurringRuleInput | string {
+  const tx = parseTransactionInput({ ...body, occurredAt: undefined });
+  if (typeof tx === "string") return tx;
+
+  const title = String(body.title ?? "").trim().slice(0, 32) || tx.detailCategory || tx.category;
+
+  const frequency = body.frequency as RecurringFrequency;
+  if (!RECURRING_FREQUENCIES.includes(frequency)) return `frequency must be one of ${RECURRING_FREQUENCIES.join(", ")}`;
+
+  const interval = body.interval === undefined ? 1 : intIn(body.interval, 1, 24);
+  if (interval === null) return "interval must be an integer between 1 and 24";
+
+  const startDate = parseOccurredAt(body.startDate);
+  if (!startDate) return "startDate is required (YYYY-MM-DD)";
+
+  let endDate: Date | null = null;
+  if (body.endDate) {
+    endDate = parseOccurredAt(body.endDate);
+    if (!endDate) return "endDate must be a date (YYYY-MM-DD)";
+    if (endDate < startDate) return "endDate must be on or after startDate";
+  }
+
+  // 足りない日付指定は開始日から補う
+  let dayOfMonth: number | null = null;
+  let dayOfWeek: number | null = null;
+  let monthOfYear: number | null = null;
+
+  if (frequency === "monthly" || frequency === "yearly") {
+    dayOfMonth = body.dayOfMonth === undefined || body.dayOfMonth === null ? startDate.getUTCDate() : intIn(body.dayOfMonth, 1, 31);
+    if (dayOfMonth === null) return "dayOfMonth must be between 1 and 31";
+  }
+  if (frequency === "yearly") {
+    monthOfYear =
+      body.monthOfYear === undefined || body.monthOfYear === null ? startDate.getUTCMonth() + 1 : intIn(body.monthOfYear, 1, 12);
+    if (monthOfYear === null) return "monthOfYear must be between 1 and 12";
+  }
+  if (frequency === "weekly") {
+    dayOfWeek = body.dayOfWeek === undefined || body.dayOfWeek === null ? startDate.getUTCDay() : intIn(body.dayOfWeek, 0, 6);
+    if (dayOfWeek === null) return "dayOfWeek must be between 0 (Sun) and 6 (Sat)";
+  }
+
+  return {
+    title,
+    type: tx.type,
+    amount: tx.amount,
+    currency: tx.currency,
+    category: tx.category,
+    detailCategory: tx.detailCategory,
+    frequency,
+    interval,
+    dayOfMonth,
+    dayOfWeek,
+    monthOfYear,
+    startDate,
+    endDate,
+    paused: !!body.paused,
+  };
+}
+
+// =========================
+// ✅ Transfer（資金移動：出金側 → 入金側）
+// =========================
+export type TransferInput = {
+  amount: number;
+  currency: string;
+  fromCategory: string;
+  toCategory: string;
+  occurredAt: Date;
+  memo: string | null;
+};
+
+export function parseTransferInput(body: Record<string, unknown>): TransferInput | string {
+  const amount = parseAmount(body.amount);
+  if (!Number.isFinite(amount) || amount <= 0) return "amount must be a positive number";
+  if (amount > MAX_AMOUNT) return `amount must be at most ${MAX_AMOUNT}`;
+
+  const currency = parseCurrency(body.currency);
+  if (!currency) return `currency must be one of ${CURRENCIES.join(", ")}`;
+
+  const fromCategory = String(body.fromCategory ?? "").trim();
+  const toCategory = String(body.toCategory ?? "").trim();
+  if (!fromCategory || !toCategory) return "fromCategory and toCategory are required";
+  if (fromCategory === toCategory) return "fromCategory and toCategory must be different";
+
+  const occurredAt = parseOccurredAt(body.occurredAt);
+  if (!occurredAt) return "occurredAt is required (YYYY-MM-DD)";
+
+  const memoRaw = String(body.memo ?? "").trim();
+
+  return {
+    amount: Math.trunc(amount),
+    currency,
+    fromCategory,
+    toCategory,
+    occurredAt,
+    memo: memoRaw ? memoRaw.slice(0, 64) : null,
+  };
+}
+
+// =========================
+// ✅ Split（分割明細：1件の支払い/入金をカテゴリごとの行に分ける）
+// =========================
+export const MAX_SPLIT_LINES = 20;
+
+export type SplitLineInput = {
+  id: number | null; // 既存の行（Transaction の id）。null なら新しい行
+  amount: number;
+  category: string;
+  detailCategory: string | null;
+};
+
+export type SplitInput = {
+  type: TxType;
+  amount: number; // 合計（lines の合計と一致）
+  currency: string;
+  occurredAt: Date;
+  memo: string | null;
+  lines: SplitLineInput[];
+};
+
+export function parseSplitInput(body: Record<string, unknown>): SplitInput | string {
+  const type = body.type as TxType;
+  if (type !== "income" && type !== "expense") return 'type must be "income" or "expense"';
+
+  const amount = parseAmount(body.amount);
+  if (!Number.isFinite(amount) || amount <= 0) return "amount must be a positive number";
+  if (amount > MAX_AMOUNT) return `amount must be at most ${MAX_AMOUNT}`;
+
+  const currency = parseCurrency(body.currency);
+  if (!currency) return `currency must be one of ${CURRENCIES.join(", ")}`;
+
+  const occurredAt = parseOccurredAt(body.occurredAt);
+  if (!occurredAt) return "occurredAt is required (YYYY-MM-DD)";
+
+  if (!Array.isArray(body.lines)) return "lines must be an array";
+  if (body.lines.length < 2) return "a split needs at least 2 lines";
+  if (body.lines.length > MAX_SPLIT_LINES) return `a split can have at most ${MAX_SPLIT_LINES} lines`;
+
+  const lines: SplitLineInput[] = [];
+  for (let i = 0; i < body.lines.length; i++) {
+    const line = (body.lines[i] ?? {}) as Record<string, unknown>;
+    const input = parseTransactionInput({ ...line, type, currency });
+    if (typeof input === "string") return `lines[${i}]: ${input}`;
+    const id = line.id === undefined || line.id === null ? null : Number(line.id);
+    if (id !== null && (!Number.isInteger(id) || id <= 0)) return `lines[${i}]: id must be a positive integer`;
+    lines.push({ id, amount: input.amount, category: input.category, detailCategory: input.detailCategory });
+  }
+
+  const total = Math.trunc(amount);
+  const sum = lines.reduce((s, l) => s + l.amount, 0);
+  if (sum !== total) return `lines must add up to amount (${sum} != ${total})`;
+
+  const memoRaw = String(body.memo ?? "").trim();
+
+  return { type, amount: total, currency, occurredAt, memo: memoRaw ? memoRaw.slice(0, 64) : null, lines };
+}
+
+// =========================
+// ✅ ExchangeRate（1 currency = rate quote）
+// =========================
+export type ExchangeRateInput = {
+  currency: string;
+  quote: string;
+  date: Date;
+  rate: string; // Decimal 列にそのまま渡す（浮動小数の丸めを避ける）
+};
+
+export function parseExchangeRateInput(body: Record<string, unknown>): ExchangeRateInput | string {
+  const currency = normalizeCurrency(body.currency);
+  if (!currency) return `currency must be one of ${CURRENCIES.join(", ")}`;
+
+  const quote = parseCurrency(body.quote);
+  if (!quote) return `quote must be one of ${CURRENCIES.join(", ")}`;
+  if (currency === quote) return "currency and quote must be different";
+
+  const date = parseOccurredAt(body.date);
+  if (!date) return "date is required (YYYY-MM-DD)";
+
+  const rate = String(body.rate ?? "")
+    .trim()
+    .replace(/[,，]/g, "");
+  if (!/^\d{1,14}(\.\d{1,10})?$/.test(rate) || Number(rate) <= 0) return "rate must be a positive number";
+
+  return { currency, quote, date, rate };
+}
+
+// =========================
+// ✅ Account（メール + パスワード）
+// =========================
+export const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 128;
+
+export type CredentialsInput = {
+  email: string;
+  password: string;
+};
+
+export function parseCredentials(body: Record<string, unknown>): CredentialsInput | string {
+  const email = String(body.email ?? "")
+    .trim()
+    .toLowerCase();
+  if (email.length > 254 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return "email is invalid";
+
+  const password = typeof body.password === "string" ? body.password : "";
+  if (password.length < MIN_PASSWORD_LENGTH) return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  if (password.length > MAX_PASSWORD_LENGTH) return `password must be at most ${MAX_PASSWORD_LENGTH} characters`;
+
+  return { email, password };
+}
+
+// =========================
+// ✅ Household（共有家計簿）
+// =========================
+const MAX_HOUSEHOLD_NAME_LENGTH = 40;
+const MAX_MEMBER_NAME_LENGTH = 24;
+
+function parseMemberName(value: unknown): string | null {
+  const name = String(value ?? "").trim();
+  if (!name || name.length > MAX_MEMBER_NAME_LENGTH) return null;
+  return name;
+}
+
+export type HouseholdInput = {
+  name: string;
+  memberName: string; // 作った人（owner）の表示名
+};
+
+export function parseHouseholdInput(body: Record<string, unknown>): HouseholdInput | string {
+  const name = String(body.name ?? "").trim();
+  if (!name || name.length > MAX_HOUSEHOLD_NAME_LENGTH) {
+    return `name is required (max ${MAX_HOUSEHOLD_NAME_LENGTH} chars)`;
+  }
+
+  const memberName = parseMemberName(body.memberName);
+  if (!memberName) return `memberName is required (max ${MAX_MEMBER_NAME_LENGTH} chars)`;
+
+  return { name, memberName };
+}
+
+export type JoinInput = {
+  code: string;
+  memberName: string;
+};
+
+export function parseJoinInput(body: Record<string, unknown>): JoinInput | string {
+  const code = String(body.code ?? "").trim();
+  if (!code || code.length > 32) return "code is required";
+
+  const memberName = parseMemberName(body.memberName);
+  if (!memberName) return `memberName is required (max ${MAX_MEMBER_NAME_LENGTH} chars)`;
+
+  return { code, memberName };
+}
+
+// 招待・役割の変更で渡せるのは editor / viewer だけ（owner は作った人）
+export function parseMemberRole(value: unknown): Exclude<HouseholdRole, "owner"> | null {
+  return value !== "owner" && HOUSEHOLD_ROLES.includes(value as HouseholdRole)
+    ? (value as Exclude<HouseholdRole, "owner">)
+    : null;
+}
+
+// =========================
+// ✅ ImportMapping（他の家計簿アプリのカテゴリの対応表）
+// =========================
+const MAX_IMPORT_MAPPINGS = 500;
+
+export type ImportMappingInput = {
+  sourceCategory: string;
+  category: string;
+  detailCategory: string | null;
+};
+
+export function parseImportSource(value: unknown): ImportSource | null {
+  return IMPORT_SOURCES.includes(value as ImportSource) ? (value as ImportSource) : null;
+}
+
+// { source, mappings: [{ sourceCategory, category, detailCategory? }] }
+export function parseImportMappings(
+  body: Record<string, unknown>
+): { source: ImportSource; mappings: ImportMappingInput[] } | string {
+  const source = parseImportSource(body.source);
+  if (!source) return `source must be one of ${IMPORT_SOURCES.join(", ")}`;
+
+  if (!Array.isArray(body.mappings)) return "mappings must be an array";
+  if (body.mappings.length > MAX_IMPORT_MAPPINGS) return `at most ${MAX_IMPORT_MAPPINGS} mappings per source`;
+
+  const mappings = new Map<string, ImportMappingInput>();
+  for (let i = 0; i < body.mappings.length; i++) {
+    const m = (body.mappings[i] ?? {}) as Record<string, unknown>;
+    const sourceCategory = String(m.sourceCategory ?? "").trim();
+    if (!sourceCategory || sourceCategory.length > MAX_SOURCE_CATEGORY_LENGTH) {
+      return `mappings[${i}]: sourceCategory is required (max ${MAX_SOURCE_CATEGORY_LENGTH} chars)`;
+    }
+    const category = String(m.category ?? "").trim();
+    if (!category) return `mappings[${i}]: category is required`;
+    const detail = String(m.detailCategory ?? "").trim();
+
+    mappings.set(sourceCategory, { sourceCategory, category, detailCategory: detail ? detail.slice(0, 64) : null });
+  }
+  return { source, mappings: Array.from(mappings.values()) };
+}
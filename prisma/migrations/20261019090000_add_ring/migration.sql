@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "Ring" (
+    "id" SERIAL NOT NULL,
+    "userKey" VARCHAR(64) NOT NULL,
+    "ringKey" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "carryOver" BOOLEAN NOT NULL DEFAULT false,
+    "ringType" TEXT NOT NULL DEFAULT 'asset',
+    "charMode" TEXT NOT NULL DEFAULT 'auto',
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Ring_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Ring_userKey_sortOrder_idx" ON "Ring"("userKey", "sortOrder");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Ring_userKey_ringKey_key" ON "Ring"("userKey", "ringKey");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "RingGoal" (
+    "id" SERIAL NOT NULL,
+    "userKey" VARCHAR(64) NOT NULL,
+    "category" TEXT NOT NULL,
+    "target" INTEGER NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RingGoal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RingGoal_userKey_effectiveFrom_idx" ON "RingGoal"("userKey", "effectiveFrom");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RingGoal_userKey_category_effectiveFrom_key" ON "RingGoal"("userKey", "category", "effectiveFrom");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Transaction_userKey_deletedAt_idx" ON "Transaction"("userKey", "deletedAt");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "TransactionRevision" (
+    "id" SERIAL NOT NULL,
+    "transactionId" INTEGER NOT NULL,
+    "userKey" VARCHAR(64) NOT NULL,
+    "actor" VARCHAR(64) NOT NULL,
+    "action" TEXT NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "changes" JSONB NOT NULL,
+    "revertOf" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TransactionRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TransactionRevision_userKey_transactionId_id_idx" ON "TransactionRevision"("userKey", "transactionId", "id");
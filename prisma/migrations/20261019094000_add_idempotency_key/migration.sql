@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "IdempotencyKey" (
+    "id" SERIAL NOT NULL,
+    "userKey" VARCHAR(64) NOT NULL,
+    "key" VARCHAR(128) NOT NULL,
+    "requestHash" VARCHAR(64) NOT NULL,
+    "transactionId" INTEGER NOT NULL,
+    "response" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IdempotencyKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IdempotencyKey_userKey_expiresAt_idx" ON "IdempotencyKey"("userKey", "expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IdempotencyKey_userKey_key_key" ON "IdempotencyKey"("userKey", "key");
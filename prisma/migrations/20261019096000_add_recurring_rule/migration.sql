@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "RecurringRule" (
+    "id" SERIAL NOT NULL,
+    "userKey" VARCHAR(64) NOT NULL,
+    "title" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "category" TEXT NOT NULL,
+    "detailCategory" TEXT,
+    "frequency" TEXT NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "dayOfMonth" INTEGER,
+    "dayOfWeek" INTEGER,
+    "monthOfYear" INTEGER,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "paused" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecurringOccurrence" (
+    "id" SERIAL NOT NULL,
+    "ruleId" INTEGER NOT NULL,
+    "userKey" VARCHAR(64) NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL,
+    "transactionId" INTEGER,
+    "amount" INTEGER,
+    "detailCategory" TEXT,
+    "occurredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringOccurrence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecurringRule_userKey_idx" ON "RecurringRule"("userKey");
+
+-- CreateIndex
+CREATE INDEX "RecurringOccurrence_userKey_dueDate_idx" ON "RecurringOccurrence"("userKey", "dueDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringOccurrence_ruleId_dueDate_key" ON "RecurringOccurrence"("ruleId", "dueDate");
+
+-- AddForeignKey
+ALTER TABLE "RecurringOccurrence" ADD CONSTRAINT "RecurringOccurrence_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "RecurringRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "transferId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Transfer" (
+    "id" SERIAL NOT NULL,
+    "userKey" VARCHAR(64) NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "fromCategory" TEXT NOT NULL,
+    "toCategory" TEXT NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "memo" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Transfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_transferId_idx" ON "Transaction"("transferId");
+
+-- CreateIndex
+CREATE INDEX "Transfer_userKey_occurredAt_idx" ON "Transfer"("userKey", "occurredAt");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "Transfer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
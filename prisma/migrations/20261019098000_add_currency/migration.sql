@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "currency" VARCHAR(3) NOT NULL DEFAULT 'JPY';
+
+-- AlterTable
+ALTER TABLE "Transfer" ADD COLUMN     "currency" VARCHAR(3) NOT NULL DEFAULT 'JPY';
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" SERIAL NOT NULL,
+    "userKey" VARCHAR(64) NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "quote" VARCHAR(3) NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "rate" DECIMAL(24,10) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_userKey_currency_quote_date_key" ON "ExchangeRate"("userKey", "currency", "quote", "date");
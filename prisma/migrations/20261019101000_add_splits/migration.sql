@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "splitId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Split" (
+    "id" SERIAL NOT NULL,
+    "userKey" VARCHAR(64) NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'JPY',
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "memo" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Split_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_splitId_idx" ON "Transaction"("splitId");
+
+-- CreateIndex
+CREATE INDEX "Split_userKey_occurredAt_idx" ON "Split"("userKey", "occurredAt");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_splitId_fkey" FOREIGN KEY ("splitId") REFERENCES "Split"("id") ON DELETE SET NULL ON UPDATE CASCADE;
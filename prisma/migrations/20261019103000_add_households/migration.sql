@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "createdBy" VARCHAR(64);
+
+-- CreateTable
+CREATE TABLE "Household" (
+    "id" SERIAL NOT NULL,
+    "ledgerKey" VARCHAR(64) NOT NULL,
+    "name" VARCHAR(40) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Household_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HouseholdMember" (
+    "id" SERIAL NOT NULL,
+    "householdId" INTEGER NOT NULL,
+    "memberKey" VARCHAR(64) NOT NULL,
+    "name" VARCHAR(24) NOT NULL,
+    "role" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HouseholdMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HouseholdInvite" (
+    "id" SERIAL NOT NULL,
+    "householdId" INTEGER NOT NULL,
+    "codeHash" VARCHAR(64) NOT NULL,
+    "role" TEXT NOT NULL,
+    "createdBy" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "usedBy" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HouseholdInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Household_ledgerKey_key" ON "Household"("ledgerKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HouseholdMember_householdId_memberKey_key" ON "HouseholdMember"("householdId", "memberKey");
+
+-- CreateIndex
+CREATE INDEX "HouseholdMember_memberKey_idx" ON "HouseholdMember"("memberKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HouseholdInvite_codeHash_key" ON "HouseholdInvite"("codeHash");
+
+-- CreateIndex
+CREATE INDEX "HouseholdInvite_householdId_idx" ON "HouseholdInvite"("householdId");
+
+-- AddForeignKey
+ALTER TABLE "HouseholdMember" ADD CONSTRAINT "HouseholdMember_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HouseholdInvite" ADD CONSTRAINT "HouseholdInvite_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
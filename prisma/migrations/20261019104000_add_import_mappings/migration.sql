@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "ImportMapping" (
+    "id" SERIAL NOT NULL,
+    "userKey" VARCHAR(64) NOT NULL,
+    "source" VARCHAR(16) NOT NULL,
+    "sourceCategory" VARCHAR(128) NOT NULL,
+    "category" TEXT NOT NULL,
+    "detailCategory" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ImportMapping_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportMapping_userKey_source_sourceCategory_key" ON "ImportMapping"("userKey", "source", "sourceCategory");
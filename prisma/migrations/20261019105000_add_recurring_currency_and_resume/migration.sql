@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "RecurringRule" ADD COLUMN     "createdBy" VARCHAR(64),
+ADD COLUMN     "currency" VARCHAR(3) NOT NULL DEFAULT 'JPY',
+ADD COLUMN     "resumeFrom" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Split" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "Transfer" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;